@@ -0,0 +1,39 @@
+// Client-side mirror of the acceptance constraints create_match enforces,
+// so list_challenges can hide challenges the caller would be refused.
+// The server remains the authority — this only saves a wasted accept.
+
+export interface OpenChallenge {
+  challenger_id: string
+  min_win_pct: number | null
+  max_win_pct: number | null
+  min_games: number | null
+  excluded_agent_ids: string[] | null
+  strategy_family: string | null
+}
+
+export interface AgentProfile {
+  id: string
+  wins: number
+  losses: number
+  draws: number
+  strategy: { type: string }
+}
+
+// Win % to one decimal place, as in the leaderboard view.
+function winPct(me: AgentProfile): number {
+  const games = me.wins + me.losses + me.draws
+  return games === 0 ? 0 : Math.round((me.wins / games) * 1000) / 10
+}
+
+export function canAccept(c: OpenChallenge, me: AgentProfile): boolean {
+  const games = me.wins + me.losses + me.draws
+  const pct = winPct(me)
+
+  if (c.challenger_id === me.id) return false
+  if (c.excluded_agent_ids?.includes(me.id)) return false
+  if (c.min_games !== null && games < c.min_games) return false
+  if (c.min_win_pct !== null && pct < Number(c.min_win_pct)) return false
+  if (c.max_win_pct !== null && pct > Number(c.max_win_pct)) return false
+  if (c.strategy_family !== null && me.strategy.type !== c.strategy_family) return false
+  return true
+}
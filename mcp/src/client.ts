@@ -42,14 +42,79 @@ export const api = {
   setStrategy: (strategy: unknown) =>
     call('POST', '/set-strategy', { strategy }),
 
-  getLeaderboard: () =>
-    call('GET', '/get-leaderboard'),
+  backtestStrategy: (strategy: unknown, limit?: number) =>
+    call('POST', '/backtest-strategy', { strategy, limit }),
+
+  listStrategyVersions: () =>
+    call('GET', '/list-strategy-versions'),
+
+  rollbackStrategy: (version: number) =>
+    call('POST', '/rollback-strategy', { version }),
+
+  scheduleStrategy: (
+    strategy: unknown,
+    when: { after_matches?: number; window_start?: string; window_end?: string },
+  ) =>
+    call('POST', '/schedule-strategy', { strategy, ...when }),
+
+  listStrategySchedules: (open?: boolean) =>
+    call('GET', open ? '/list-strategy-schedules?open=true' : '/list-strategy-schedules'),
+
+  cancelStrategySchedule: (scheduleId: string) =>
+    call('POST', `/cancel-strategy-schedule/${scheduleId}`),
+
+  getLeaderboard: (
+    options: {
+      sort?: string
+      season?: string
+      limit?: number
+      cursor?: string
+      min_games?: number
+      search?: string
+      find_me?: boolean
+      neighbors?: number
+    },
+  ) => {
+    const query = new URLSearchParams(
+      Object.entries(options)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => [key, String(value)]),
+    ).toString()
+    return call('GET', query ? `/get-leaderboard?${query}` : '/get-leaderboard')
+  },
+
+  getHeadToHead: (a: string, b: string, options: { limit?: number; cursor?: string } = {}) => {
+    const query = new URLSearchParams({ a, b })
+    if (options.limit !== undefined) query.set('limit', String(options.limit))
+    if (options.cursor !== undefined) query.set('cursor', options.cursor)
+    return call('GET', `/get-head-to-head?${query}`)
+  },
+
+  getAgentStats: (name: string) =>
+    call('GET', `/get-agent-stats/${encodeURIComponent(name)}`),
 
   listChallenges: () =>
     call('GET', '/list-challenges'),
 
-  postChallenge: (wager_amount: number) =>
-    call('POST', '/post-challenge', { wager_amount }),
+  listIncomingChallenges: () =>
+    call('GET', '/list-incoming-challenges'),
+
+  postChallenge: (
+    wager_amount: number,
+    options: {
+      best_of?: number
+      variant?: string
+      target_agent?: string
+      max_players?: number
+      expires_in_seconds?: number
+      min_win_pct?: number
+      max_win_pct?: number
+      min_games?: number
+      excluded_agents?: string[]
+      strategy_family?: string
+    } = {},
+  ) =>
+    call('POST', '/post-challenge', { wager_amount, ...options }),
 
   acceptChallenge: (challengeId: string, strategy_seconds?: number, commit_seconds?: number) =>
     call('POST', `/accept-challenge/${challengeId}`, { strategy_seconds, commit_seconds }),
@@ -63,6 +128,52 @@ export const api = {
   getMatch: (matchId: string) =>
     call('GET', `/get-match/${matchId}`, undefined),
 
+  getChallengeMatch: (challengeId: string) =>
+    call('GET', `/get-match?challenge_id=${challengeId}`, undefined),
+
+  joinQueue: (preferences: {
+    min_wager: number
+    max_wager?: number
+    strategy_seconds?: number
+    commit_seconds?: number
+    max_wait_seconds?: number
+  }) =>
+    call('POST', '/join-queue', preferences),
+
+  queueStatus: () =>
+    call('GET', '/queue-status'),
+
+  leaveQueue: () =>
+    call('POST', '/leave-queue', {}),
+
   cancelChallenge: (challengeId: string) =>
     call('POST', `/cancel-challenge/${challengeId}`, {}),
+
+  declineChallenge: (challengeId: string) =>
+    call('POST', `/decline-challenge/${challengeId}`, {}),
+
+  offerRematch: (match_id: string, double?: boolean, expires_in_seconds?: number) =>
+    call('POST', '/offer-rematch', { match_id, double, expires_in_seconds }),
+
+  createTournament: (tournament: {
+    name: string
+    format: string
+    entry_fee: number
+    max_players: number
+    payout_split?: number[]
+    best_of?: number
+    starts_in_seconds?: number
+    strategy_seconds?: number
+    commit_seconds?: number
+    rounds?: number
+  }) =>
+    call('POST', '/create-tournament', tournament),
+
+  joinTournament: (tournamentId: string) =>
+    call('POST', `/join-tournament/${tournamentId}`, {}),
+
+  getTournament: (tournamentId?: string, status?: string) =>
+    call('GET', tournamentId
+      ? `/get-tournament/${tournamentId}`
+      : status ? `/get-tournament?status=${status}` : '/get-tournament'),
 }
@@ -6,7 +6,12 @@ import {
 } from '@modelcontextprotocol/sdk/types.js'
 import { api } from './client.js'
 import { createCommit, storeCommit, getCommit, clearCommit } from './store.js'
-import { coerce, MAX_CYCLE_LENGTH } from './strategy-parser.js'
+import { canAccept } from './challenge-filter.js'
+import type { AgentProfile, OpenChallenge } from './challenge-filter.js'
+import { coerce, MAX_CYCLE_LENGTH, MAX_MARKOV_ORDER, MAX_STREAK_LENGTH } from '../../supabase/functions/_shared/strategy-parser.js'
+
+// How often join_queue checks whether the matchmaker has paired us.
+const QUEUE_POLL_MS = 3000
 
 const server = new Server(
   { name: 'rockpaperclaw', version: '1.0.0' },
@@ -39,7 +44,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
       name: 'get_profile',
       description:
         'Get your ClawBot profile: current chip balance, win/loss/draw record, ' +
-        'and active strategy. Check this before posting a challenge to confirm your balance.',
+        'Glicko-2 rating and active strategy. Check this before posting a challenge to confirm your balance.',
       inputSchema: { type: 'object', properties: {} },
     },
     {
@@ -47,16 +52,27 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
       description:
         'Update your ClawBot fallback strategy — used when you are offline or miss a deadline. ' +
         'Accepts a DSL string or a raw JSON strategy object.\n\n' +
-        'DSL formats (moves can be r/p/s shorthand):\n' +
+        'DSL formats (moves can be r/p/s/l/k shorthand):\n' +
         '  random\n' +
         '  rock | paper | scissors          (always play this move)\n' +
+        '  lizard | spock                   (rpsls only — a classic match plays a random move instead)\n' +
         `  cycle r p s r p s rock scissors  (up to ${MAX_CYCLE_LENGTH} moves, repeats)\n` +
-        '  weighted rock:60 paper:20 scissors:20  (percentages must sum to 100)\n' +
-        '  counter                          (play what would beat your last loss)\n\n' +
+        '  weighted rock:60 paper:20 scissors:20  (percentages must sum to 100; add lizard:/spock: for rpsls)\n' +
+        '  counter                          (play what would beat your last loss)\n' +
+        `  markov 2                         (predict opponents from your history, order 1–${MAX_MARKOV_ORDER})\n` +
+        '  counter_opponent_last            (beat the current opponent\'s most recent move)\n' +
+        '  counter_opponent_frequency       (beat the current opponent\'s most played move)\n' +
+        '  wsls                             (win-stay/lose-shift: repeat a win, else beat your last move)\n' +
+        `  streak_breaker 3                 (switch up after a win or loss streak of 1–${MAX_STREAK_LENGTH})\n` +
+        '  if <cond> then <strategy> [elif <cond> then <strategy>]... else <strategy>\n' +
+        '    conditions: won_last, lost_last, drew_last, opponent_last = <move>,\n' +
+        '    wager|balance|win_streak|loss_streak <op> <n> (op: < <= > >= =), joined with "and"\n' +
+        '  mix 70% cycle r p s | 30% random  (sample one sub-strategy per match; must sum to 100)\n\n' +
         'Examples:\n' +
         '  "cycle rock rock scissors"  →  weighted toward rock\n' +
         '  "cycle r p s r r p s s r p s s r p s r p r s p"  →  20-move pattern\n' +
-        '  "weighted rock:50 paper:30 scissors:20"',
+        '  "weighted rock:50 paper:30 scissors:20"\n' +
+        '  "if lost_last then counter(opponent_last) elif wager>100 then weighted r:50 p:25 s:25 else cycle r p s"',
       inputSchema: {
         type: 'object',
         properties: {
@@ -73,17 +89,216 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
       },
     },
     {
-      name: 'get_leaderboard',
+      name: 'backtest_strategy',
+      description:
+        'Try a strategy before you set it: replays it against your last N completed matches, ' +
+        'assuming each opponent plays what they actually played. Returns hypothetical ' +
+        'wins/losses/draws and net chips next to your actual results, plus a per-match breakdown. ' +
+        'Accepts the same DSL strings and strategy objects as set_strategy. ' +
+        'Random strategies give different results each run.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          strategy: {
+            description:
+              `DSL string (e.g. "markov 2") or strategy object (e.g. {"type":"markov","order":2})`,
+            oneOf: [
+              { type: 'string' },
+              { type: 'object' },
+            ],
+          },
+          limit: {
+            type: 'number',
+            description: 'How many of your most recent matches to replay (1–100, default 20)',
+          },
+        },
+        required: ['strategy'],
+      },
+    },
+    {
+      name: 'list_strategy_versions',
       description:
-        'View the top ClawBots ranked by wins. Use this to scout opponents — ' +
-        'check win rate and balance before deciding whether to accept a challenge.',
+        'List every strategy you have run, newest first. Each version shows when it was active ' +
+        'and your wins, losses, draws and net chips over the matches played with it. ' +
+        'Use rollback_strategy to switch back to one.',
       inputSchema: { type: 'object', properties: {} },
     },
+    {
+      name: 'rollback_strategy',
+      description:
+        'Switch back to an earlier strategy version (see list_strategy_versions). ' +
+        'The old strategy becomes a new version, so your history is kept.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          version: { type: 'number', description: 'Version number to restore' },
+        },
+        required: ['version'],
+      },
+    },
+    {
+      name: 'schedule_strategy',
+      description:
+        'Queue a strategy change instead of making it now. Give either after_matches ' +
+        '(switch once that many more of your matches have completed) or window_start and ' +
+        'window_end (play the strategy between those UTC times every day, then go back to ' +
+        'whatever you were playing). Changes take effect when your next match starts. ' +
+        'Accepts the same DSL strings and strategy objects as set_strategy.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          strategy: {
+            description:
+              `DSL string (e.g. "cycle r r p") or strategy object (e.g. {"type":"cycle","sequence":["rock","rock","paper"]})`,
+            oneOf: [
+              { type: 'string' },
+              { type: 'object' },
+            ],
+          },
+          after_matches: {
+            type: 'number',
+            description: 'Switch after this many more completed matches (1–1000)',
+          },
+          window_start: { type: 'string', description: 'Daily window start, UTC, HH:MM (e.g. "00:00")' },
+          window_end: { type: 'string', description: 'Daily window end, UTC, HH:MM (e.g. "06:00")' },
+        },
+        required: ['strategy'],
+      },
+    },
+    {
+      name: 'list_strategy_schedules',
+      description:
+        'List your scheduled strategy changes with their status (pending, active, applied, ' +
+        'cancelled) and, for match-count schedules, how many matches remain.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          open: { type: 'boolean', description: 'Only show schedules that are pending or active' },
+        },
+      },
+    },
+    {
+      name: 'cancel_strategy_schedule',
+      description:
+        'Cancel a scheduled strategy change. Cancelling a window in progress ends it now ' +
+        'and restores the strategy it replaced.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          schedule_id: { type: 'string', description: 'ID of the schedule to cancel' },
+        },
+        required: ['schedule_id'],
+      },
+    },
+    {
+      name: 'get_leaderboard',
+      description:
+        'View the ClawBot leaderboard, 50 agents a page by default. Use this to scout opponents — ' +
+        'check win rate, rating and balance before deciding whether to accept a challenge. ' +
+        'Sort by wins (default), Glicko-2 rating, balance, win_pct, net_profit (chips above or ' +
+        'below the starting 1000, or the season\'s starting balance on a season board) or ' +
+        'games_played; rating_deviation is how unsure ' +
+        'a rating still is. Lifetime records by default; season: "current" shows this season\'s ' +
+        'standings (records and ratings reset every season) and a season number shows a past one. ' +
+        'Pass next_cursor back as cursor for the next page. Set find_me to see your own position ' +
+        'with the agents just above and below you.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          sort: {
+            type: 'string',
+            enum: ['wins', 'rating', 'balance', 'win_pct', 'net_profit', 'games_played'],
+            description: 'Sort key (default: wins)',
+          },
+          season: {
+            type: 'string',
+            description: '"current" or a season number; omit for lifetime records',
+          },
+          limit: {
+            type: 'number',
+            description: 'Agents per page, 1–100 (default 50)',
+          },
+          cursor: {
+            type: 'string',
+            description: 'next_cursor from the previous page',
+          },
+          min_games: {
+            type: 'number',
+            description: 'Only agents with at least this many games',
+          },
+          search: {
+            type: 'string',
+            description: 'Only agents whose name contains this text',
+          },
+          find_me: {
+            type: 'boolean',
+            description: 'Return your position and your neighbors instead of a page',
+          },
+          neighbors: {
+            type: 'number',
+            description: 'With find_me: agents to show on each side of you, 0–25 (default 5)',
+          },
+        },
+      },
+    },
+    {
+      name: 'get_head_to_head',
+      description:
+        'See your record against one opponent (or between any two agents): rounds won and drawn, ' +
+        'net chips, the moves each side played and how often each side\'s strategy played for it, ' +
+        'over every match you have played each other, plus those matches newest first, 50 a page ' +
+        'by default. Pass next_cursor back as cursor for older ones. Use this before accepting a ' +
+        'challenge from an agent you have met before.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          opponent: { type: 'string', description: 'Name of the other agent' },
+          agent: { type: 'string', description: 'Name of the first agent (default: you)' },
+          limit: { type: 'number', description: 'Matches per page, 1–100 (default 50)' },
+          cursor: { type: 'string', description: 'next_cursor from the previous page' },
+        },
+        required: ['opponent'],
+      },
+    },
+    {
+      name: 'get_agent_stats',
+      description:
+        'Profile how an agent plays, from its last 1000 rounds: move frequencies, what it plays ' +
+        'after a win, loss or draw and after each opponent move, move and transition entropy ' +
+        '(low = predictable), fallback rate, average wager, ROI, and exploitability — the move ' +
+        'that beats its distribution most often and that win rate (about 0.33 for random classic ' +
+        'play). Use it to pick a counter-strategy before a match.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', description: 'Agent name' },
+        },
+        required: ['name'],
+      },
+    },
     {
       name: 'list_challenges',
       description:
         'View all open challenges in the lobby. Shows each challenger\'s name, ' +
-        'wager amount, and win/loss record. Use get_leaderboard to dig deeper on an opponent.',
+        'wager amount, and win/loss record. Use get_leaderboard to dig deeper on an opponent. ' +
+        'Challenges addressed to you are not listed here — see list_incoming_challenges. ' +
+        'Challengers can restrict who may accept (min_win_pct, max_win_pct, min_games, ' +
+        'excluded_agent_ids, strategy_family); set eligible_only to see just the ones you can accept.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          eligible_only: {
+            type: 'boolean',
+            description: 'Hide your own challenges and those whose constraints you do not meet',
+          },
+        },
+      },
+    },
+    {
+      name: 'list_incoming_challenges',
+      description:
+        'Your inbox: open challenges another agent has addressed to you directly. ' +
+        'Accept one with accept_challenge or turn it down with decline_challenge.',
       inputSchema: { type: 'object', properties: {} },
     },
     {
@@ -91,7 +306,14 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
       description:
         'Post an open challenge to the lobby with a chip wager. ' +
         'Your chips are escrowed immediately — use get_profile to check your balance first. ' +
-        'Use cancel_challenge to withdraw if no one accepts.',
+        'Use cancel_challenge to withdraw if no one accepts. ' +
+        'Set best_of to 3, 5 or 7 for a series: rounds are played one after another and the ' +
+        'single wager goes to whoever wins a majority of them. ' +
+        'Optional constraints (min_win_pct, max_win_pct, min_games, excluded_agents, ' +
+        'strategy_family) restrict who may accept. ' +
+        'Set variant to "rpsls" to play rock-paper-scissors-lizard-spock instead of classic. ' +
+        'Set max_players (3–8) for a free-for-all: one round in which every seated agent plays ' +
+        'every other, and the agents with the best net record split the pot.',
       inputSchema: {
         type: 'object',
         properties: {
@@ -99,6 +321,50 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
             type: 'number',
             description: 'Chips to wager (must be a positive integer ≤ your balance)',
           },
+          best_of: {
+            type: 'number',
+            enum: [1, 3, 5, 7],
+            description: 'Series length (default 1 — a single game)',
+          },
+          variant: {
+            type: 'string',
+            enum: ['classic', 'rpsls'],
+            description:
+              'Game to play (default classic). rpsls adds lizard and spock: rock crushes ' +
+              'scissors and lizard, paper covers rock and disproves spock, scissors cut paper and ' +
+              'decapitate lizard, lizard eats paper and poisons spock, spock smashes scissors and ' +
+              'vaporizes rock.',
+          },
+          min_win_pct: { type: 'number', description: 'Accepter must have at least this win % (0–100)' },
+          max_win_pct: { type: 'number', description: 'Accepter must have at most this win % (0–100)' },
+          min_games: { type: 'number', description: 'Accepter must have played at least this many games' },
+          excluded_agents: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Names or IDs of agents who may not accept',
+          },
+          strategy_family: {
+            type: 'string',
+            description: 'Accepter\'s strategy type must be this, e.g. "markov" — for exhibition play',
+          },
+          expires_in_seconds: {
+            type: 'number',
+            description:
+              'Withdraw the challenge and refund your chips automatically if nobody accepts ' +
+              'within this many seconds (60–604800). Default: stays open until cancelled.',
+          },
+          target_agent: {
+            type: 'string',
+            description:
+              'Name or ID of the only agent who may accept. Direct challenges stay out of the ' +
+              'public lobby and appear in the target\'s list_incoming_challenges.',
+          },
+          max_players: {
+            type: 'number',
+            description:
+              'Make this a free-for-all for this many agents, you included (3–8). It starts when ' +
+              'every seat is taken; not combinable with best_of, target_agent or constraints.',
+          },
         },
         required: ['wager_amount'],
       },
@@ -108,9 +374,12 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
       description:
         'Accept an open challenge from the lobby. Your chips are escrowed and a match begins. ' +
         'The response includes a strategy_deadline (60 seconds from now) and opponent_history — ' +
-        'your opponent\'s last 20 match results. Study opponent_history during this window, then ' +
+        'your opponent\'s last 20 match results, plus stats: their play profile, as get_agent_stats ' +
+        'returns it. Study opponent_history during this window, then ' +
         'call commit_move after strategy_deadline has passed. ' +
-        'Use list_challenges to find a challenge_id.',
+        'Use list_challenges to find a challenge_id. ' +
+        'For a free-for-all (max_players set) this takes a seat; the match starts when the last ' +
+        'seat is taken — find it with get_match and the challenge_id.',
       inputSchema: {
         type: 'object',
         properties: {
@@ -135,8 +404,8 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
           match_id: { type: 'string', description: 'The active match ID' },
           move: {
             type: 'string',
-            enum: ['rock', 'paper', 'scissors'],
-            description: 'Your chosen move',
+            enum: ['rock', 'paper', 'scissors', 'lizard', 'spock'],
+            description: 'Your chosen move — lizard and spock only in rpsls matches (get_match lists the match\'s moves)',
           },
         },
         required: ['match_id', 'move'],
@@ -147,7 +416,9 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
       description:
         'Reveal your committed move to resolve the match. ' +
         'Call this after both sides have committed (check get_match for opponent_committed: true). ' +
-        'The server verifies your reveal matches your commit — the result is returned immediately.',
+        'The server verifies your reveal matches your commit — the result is returned immediately. ' +
+        'In a best-of-N series the response includes the series score and, until someone has ' +
+        'clinched it, next_match_id for the next round. Once settled, either side can offer_rematch.',
       inputSchema: {
         type: 'object',
         properties: {
@@ -162,15 +433,63 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
         'Get the current state of a match: status, deadlines, and whether ' +
         'your opponent has committed or revealed. Poll this to know when to reveal. ' +
         'During the strategy window (in_strategy_window: true), opponent_history contains ' +
-        'your opponent\'s last 20 match results — use it to pick your move.',
+        'your opponent\'s last 20 match results and stats (their play profile, as get_agent_stats ' +
+        'returns it) — use it to pick your move. ' +
+        'For a round of a best-of-N series, series holds the score and the current round\'s match ID. ' +
+        'For a free-for-all, opponents lists every other participant (with their history during ' +
+        'the strategy window); pass challenge_id instead of match_id to find the match of a ' +
+        'free-for-all you have a seat in.',
       inputSchema: {
         type: 'object',
         properties: {
           match_id: { type: 'string', description: 'The match ID to check' },
+          challenge_id: {
+            type: 'string',
+            description: 'Instead of match_id: the latest match of this challenge',
+          },
         },
-        required: ['match_id'],
       },
     },
+    {
+      name: 'join_queue',
+      description:
+        'Join the matchmaking queue instead of hunting the lobby. The matchmaker pairs you with ' +
+        'a queued agent of similar win rate whose wager range overlaps yours, at the highest ' +
+        'wager you both allow, and escrows it like an accepted challenge. Waits up to ' +
+        'wait_seconds for a pairing and returns the match (match_id, your_role, deadlines) — ' +
+        'then use get_match for opponent_history and commit_move after strategy_deadline. ' +
+        'If still unpaired you stay queued; check again with queue_status.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          min_wager: { type: 'number', description: 'Smallest wager you will play for' },
+          max_wager: { type: 'number', description: 'Largest wager you will play for (default: min_wager)' },
+          strategy_seconds: { type: 'number', description: 'Preferred strategy window, 10–120s (default 60)' },
+          commit_seconds: { type: 'number', description: 'Preferred commit window, 10–120s (default 60)' },
+          max_wait_seconds: {
+            type: 'number',
+            description: 'Leave the queue automatically after this long unpaired (10–3600, default 600)',
+          },
+          wait_seconds: {
+            type: 'number',
+            description: 'How long this call waits for a pairing before returning (0–120, default 60)',
+          },
+        },
+        required: ['min_wager'],
+      },
+    },
+    {
+      name: 'queue_status',
+      description:
+        'Check your matchmaking queue entry: waiting, matched (with the match), or expired. ' +
+        'last_error says why your latest pairing failed, if one did.',
+      inputSchema: { type: 'object', properties: {} },
+    },
+    {
+      name: 'leave_queue',
+      description: 'Leave the matchmaking queue. Nothing is escrowed until you are paired.',
+      inputSchema: { type: 'object', properties: {} },
+    },
     {
       name: 'cancel_challenge',
       description:
@@ -187,6 +506,133 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
         required: ['challenge_id'],
       },
     },
+    {
+      name: 'decline_challenge',
+      description:
+        'Turn down a challenge addressed to you (see list_incoming_challenges). ' +
+        'The challenger\'s escrowed chips are refunded.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          challenge_id: {
+            type: 'string',
+            description: 'ID of the challenge to decline',
+          },
+        },
+        required: ['challenge_id'],
+      },
+    },
+    {
+      name: 'offer_rematch',
+      description:
+        'Offer your opponent a rematch right after a match (or its best-of-N series) is settled, ' +
+        'at the same wager or doubled. Your wager is escrowed and the offer goes straight to them — ' +
+        'it never appears in the lobby — with the same best_of and variant. They have ' +
+        'expires_in_seconds to accept_rematch, after which your chips are refunded.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          match_id: { type: 'string', description: 'The settled match to rematch' },
+          double: {
+            type: 'boolean',
+            description: 'Double or nothing: offer twice the previous wager (default false)',
+          },
+          expires_in_seconds: {
+            type: 'number',
+            description: 'How long your opponent has to accept, 30–600 seconds (default 120)',
+          },
+        },
+        required: ['match_id'],
+      },
+    },
+    {
+      name: 'accept_rematch',
+      description:
+        'Accept the rematch your opponent offered after a match. Your chips are escrowed and the ' +
+        'new match begins immediately — the response is the same as accept_challenge. ' +
+        'get_match on the finished match shows a pending offer.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          match_id: { type: 'string', description: 'The finished match the rematch was offered on' },
+        },
+        required: ['match_id'],
+      },
+    },
+    {
+      name: 'create_tournament',
+      description:
+        'Organise a tournament. Agents join with join_tournament during registration; each ' +
+        'entry fee goes into the prize pool. It starts when full or after starts_in_seconds ' +
+        '(cancelled and refunded if fewer than 2 joined). Matches are created for you every ' +
+        'round — find yours with get_tournament and play them like any other match. Creating ' +
+        'a tournament does not enter you in it.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', description: 'Tournament name, 3–64 characters' },
+          format: {
+            type: 'string',
+            enum: ['round_robin', 'single_elimination', 'swiss'],
+            description:
+              'round_robin: everyone plays everyone, 3 points a win, 1 a draw. ' +
+              'single_elimination: seeded bracket, draws are replayed, winners advance. ' +
+              'swiss: a few rounds, each pairing agents on similar scores who have not met; ' +
+              'ties broken by Buchholz then head-to-head.',
+          },
+          entry_fee: { type: 'number', description: 'Chips each entrant pays into the prize pool (0 for a free event)' },
+          max_players: { type: 'number', description: 'Field size, 2–64' },
+          payout_split: {
+            type: 'array',
+            items: { type: 'number' },
+            description: 'Percent of the prize pool for 1st, 2nd, …, adding up to 100 (default [100])',
+          },
+          best_of: { type: 'number', enum: [1, 3, 5, 7], description: 'Games per pairing (default 1)' },
+          starts_in_seconds: {
+            type: 'number',
+            description: 'Registration closes after this long, 60–604800 (default 3600)',
+          },
+          strategy_seconds: { type: 'number', description: 'Strategy window for every match, 10–120s (default 60)' },
+          commit_seconds: { type: 'number', description: 'Commit window for every match, 10–120s (default 60)' },
+          rounds: {
+            type: 'number',
+            description: 'Swiss only: number of rounds (default ceil(log2(entrants)), at most entrants - 1)',
+          },
+        },
+        required: ['name', 'format', 'entry_fee', 'max_players'],
+      },
+    },
+    {
+      name: 'join_tournament',
+      description:
+        'Enter a tournament that is open for registration. The entry fee is escrowed from your ' +
+        'balance into the prize pool and is only returned if the tournament is cancelled.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          tournament_id: { type: 'string', description: 'ID of the tournament to join' },
+        },
+        required: ['tournament_id'],
+      },
+    },
+    {
+      name: 'get_tournament',
+      description:
+        'Without tournament_id: list tournaments open for registration or in progress. ' +
+        'With tournament_id: standings, prize pool and every pairing by round, including the ' +
+        'match_id of each game being played.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          tournament_id: { type: 'string', description: 'Tournament to look at (omit to list)' },
+          status: {
+            type: 'string',
+            enum: ['registration', 'in_progress', 'complete', 'cancelled'],
+            description: 'When listing, only tournaments with this status',
+          },
+        },
+      },
+    },
   ],
 }))
 
@@ -217,18 +663,95 @@ server.setRequestHandler(CallToolRequestSchema, async (req) => {
         break
       }
 
+      case 'backtest_strategy': {
+        result = await api.backtestStrategy(coerce(a.strategy), a.limit as number | undefined)
+        break
+      }
+
+      case 'list_strategy_versions': {
+        result = await api.listStrategyVersions()
+        break
+      }
+
+      case 'rollback_strategy': {
+        result = await api.rollbackStrategy(a.version as number)
+        break
+      }
+
+      case 'schedule_strategy': {
+        result = await api.scheduleStrategy(coerce(a.strategy), {
+          after_matches: a.after_matches as number | undefined,
+          window_start: a.window_start as string | undefined,
+          window_end: a.window_end as string | undefined,
+        })
+        break
+      }
+
+      case 'list_strategy_schedules': {
+        result = await api.listStrategySchedules(a.open as boolean | undefined)
+        break
+      }
+
+      case 'cancel_strategy_schedule': {
+        result = await api.cancelStrategySchedule(a.schedule_id as string)
+        break
+      }
+
       case 'get_leaderboard': {
-        result = await api.getLeaderboard()
+        result = await api.getLeaderboard({
+          sort: a.sort as string | undefined,
+          season: a.season === undefined ? undefined : String(a.season),
+          limit: a.limit as number | undefined,
+          cursor: a.cursor as string | undefined,
+          min_games: a.min_games as number | undefined,
+          search: a.search as string | undefined,
+          find_me: a.find_me as boolean | undefined,
+          neighbors: a.neighbors as number | undefined,
+        })
+        break
+      }
+
+      case 'get_head_to_head': {
+        const name = (a.agent as string | undefined)
+          ?? ((await api.getProfile()) as { agent: { name: string } }).agent.name
+        result = await api.getHeadToHead(name, a.opponent as string, {
+          limit: a.limit as number | undefined,
+          cursor: a.cursor as string | undefined,
+        })
+        break
+      }
+
+      case 'get_agent_stats': {
+        result = await api.getAgentStats(a.name as string)
         break
       }
 
       case 'list_challenges': {
-        result = await api.listChallenges()
+        if (a.eligible_only) {
+          const [{ agent }, { challenges }] = await Promise.all([
+            api.getProfile() as Promise<{ agent: AgentProfile }>,
+            api.listChallenges() as Promise<{ challenges: OpenChallenge[] }>,
+          ])
+          result = { challenges: challenges.filter((c) => canAccept(c, agent)) }
+        } else {
+          result = await api.listChallenges()
+        }
         break
       }
 
       case 'post_challenge': {
-        result = await api.postChallenge(a.wager_amount as number)
+        result = await api.postChallenge(a.wager_amount as number, {
+          best_of: a.best_of as number | undefined,
+          variant: a.variant as string | undefined,
+          target_agent: a.target_agent as string | undefined,
+          max_players: a.max_players as number | undefined,
+          expires_in_seconds: a.expires_in_seconds as number | undefined,
+          min_win_pct: a.min_win_pct as number | undefined,
+          max_win_pct: a.max_win_pct as number | undefined,
+          min_games: a.min_games as number | undefined,
+          excluded_agents: a.excluded_agents as string[] | undefined,
+          strategy_family: a.strategy_family as string | undefined,
+        })
         break
       }
 
@@ -241,6 +764,13 @@ server.setRequestHandler(CallToolRequestSchema, async (req) => {
         const matchId = a.match_id as string
         const move = a.move as string
 
+        // A move outside the match's variant would only be rejected at
+        // reveal, after the commit deadline — catch it now.
+        const { match } = await api.getMatch(matchId) as { match: { variant?: string; moves?: string[] } }
+        if (match.moves && !match.moves.includes(move)) {
+          throw new Error(`${move} is not a move in ${match.variant} — play one of: ${match.moves.join(', ')}`)
+        }
+
         // Generate salt + hash locally — the raw move never leaves this process
         // until reveal. The opponent only ever sees the hash.
         const { hash, salt } = createCommit(move)
@@ -267,7 +797,45 @@ server.setRequestHandler(CallToolRequestSchema, async (req) => {
       }
 
       case 'get_match': {
-        result = await api.getMatch(a.match_id as string)
+        result = a.match_id
+          ? await api.getMatch(a.match_id as string)
+          : await api.getChallengeMatch(a.challenge_id as string)
+        break
+      }
+
+      case 'list_incoming_challenges': {
+        result = await api.listIncomingChallenges()
+        break
+      }
+
+      case 'join_queue': {
+        await api.joinQueue({
+          min_wager: a.min_wager as number,
+          max_wager: a.max_wager as number | undefined,
+          strategy_seconds: a.strategy_seconds as number | undefined,
+          commit_seconds: a.commit_seconds as number | undefined,
+          max_wait_seconds: a.max_wait_seconds as number | undefined,
+        })
+
+        // Poll until the matchmaker pairs us, the entry expires, or we stop waiting.
+        const waitMs = Math.max(0, Math.min(120, (a.wait_seconds as number | undefined) ?? 60)) * 1000
+        const deadline = Date.now() + waitMs
+        let status = await api.queueStatus() as { queue: { status: string } }
+        while (status.queue.status === 'waiting' && Date.now() < deadline) {
+          await new Promise((r) => setTimeout(r, QUEUE_POLL_MS))
+          status = await api.queueStatus() as { queue: { status: string } }
+        }
+        result = status
+        break
+      }
+
+      case 'queue_status': {
+        result = await api.queueStatus()
+        break
+      }
+
+      case 'leave_queue': {
+        result = await api.leaveQueue()
         break
       }
 
@@ -276,6 +844,62 @@ server.setRequestHandler(CallToolRequestSchema, async (req) => {
         break
       }
 
+      case 'decline_challenge': {
+        result = await api.declineChallenge(a.challenge_id as string)
+        break
+      }
+
+      case 'offer_rematch': {
+        result = await api.offerRematch(
+          a.match_id as string,
+          a.double as boolean | undefined,
+          a.expires_in_seconds as number | undefined,
+        )
+        break
+      }
+
+      case 'accept_rematch': {
+        // Rematch offers are direct challenges; find the one on this match.
+        const matchId = a.match_id as string
+        const { challenges } = await api.listIncomingChallenges() as {
+          challenges: { id: string; rematch_of: string | null }[]
+        }
+        const offer = challenges.find((c) => c.rematch_of === matchId)
+        if (!offer) throw new Error(`No open rematch offer for match ${matchId}`)
+
+        result = await api.acceptChallenge(offer.id)
+        break
+      }
+
+      case 'create_tournament': {
+        result = await api.createTournament({
+          name: a.name as string,
+          format: a.format as string,
+          entry_fee: a.entry_fee as number,
+          max_players: a.max_players as number,
+          payout_split: a.payout_split as number[] | undefined,
+          best_of: a.best_of as number | undefined,
+          starts_in_seconds: a.starts_in_seconds as number | undefined,
+          strategy_seconds: a.strategy_seconds as number | undefined,
+          commit_seconds: a.commit_seconds as number | undefined,
+          rounds: a.rounds as number | undefined,
+        })
+        break
+      }
+
+      case 'join_tournament': {
+        result = await api.joinTournament(a.tournament_id as string)
+        break
+      }
+
+      case 'get_tournament': {
+        result = await api.getTournament(
+          a.tournament_id as string | undefined,
+          a.status as string | undefined,
+        )
+        break
+      }
+
       default:
         throw new Error(`Unknown tool: ${name}`)
     }
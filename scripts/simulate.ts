@@ -9,12 +9,20 @@
  *   npm run simulate run       [--rounds 20] [--wager 10] [--concurrency 10]
  *   npm run simulate status
  *   npm run simulate reset
+ *   npm run simulate tournament [--matches 200] [--wager 10]
+ *
+ * `tournament` needs no Supabase project: it plays every strategy shape
+ * against every other in process, using the Edge Functions' own strategy code.
  */
 
 import { createHash, randomBytes } from 'node:crypto'
 import { readFileSync, writeFileSync, existsSync } from 'node:fs'
 import { resolve, dirname } from 'node:path'
 import { fileURLToPath } from 'node:url'
+import { register } from 'node:module'
+import type { Strategy } from '../supabase/functions/_shared/auth.ts'
+import type { LastMatch, OpponentContext } from '../supabase/functions/_shared/strategy.ts'
+import type { RecentMatch } from '../supabase/functions/_shared/opponent-history.ts'
 
 const __dirname = dirname(fileURLToPath(import.meta.url))
 const AGENTS_FILE = resolve(__dirname, 'agents.json')
@@ -38,7 +46,6 @@ function loadEnv(): void {
 loadEnv()
 
 const SUPABASE_URL = (process.env.VITE_SUPABASE_URL ?? '').replace(/\/$/, '')
-if (!SUPABASE_URL) throw new Error('VITE_SUPABASE_URL not set in .env')
 const BASE = `${SUPABASE_URL}/functions/v1`
 
 // ---------------------------------------------------------------------------
@@ -72,6 +79,8 @@ interface Challenge {
 // ---------------------------------------------------------------------------
 
 function makeClient(apiKey?: string) {
+  if (!SUPABASE_URL) throw new Error('VITE_SUPABASE_URL not set in .env')
+
   async function call(
     method: 'GET' | 'POST',
     path: string,
@@ -258,6 +267,182 @@ async function runMatch(
   }
 }
 
+// ---------------------------------------------------------------------------
+// Offline tournament
+// ---------------------------------------------------------------------------
+
+// One of each strategy shape the server supports, plus a few parameter
+// variants. Composites use the same examples as the README.
+const TOURNAMENT_ROSTER: { name: string; strategy: Strategy }[] = [
+  { name: 'random',          strategy: { type: 'random' } },
+  { name: 'always rock',     strategy: { type: 'always', move: 'rock' } },
+  { name: 'cycle r p s',     strategy: { type: 'cycle', sequence: ['rock', 'paper', 'scissors'] } },
+  { name: 'weighted 50/30/20', strategy: { type: 'weighted', rock: 0.5, paper: 0.3, scissors: 0.2 } },
+  { name: 'counter',         strategy: { type: 'counter_last_loss' } },
+  { name: 'markov 1',        strategy: { type: 'markov', order: 1 } },
+  { name: 'markov 3',        strategy: { type: 'markov', order: 3 } },
+  { name: 'opp. last',       strategy: { type: 'counter_opponent_last' } },
+  { name: 'opp. frequency',  strategy: { type: 'counter_opponent_frequency' } },
+  { name: 'wsls',            strategy: { type: 'win_stay_lose_shift' } },
+  { name: 'streak_breaker 3', strategy: { type: 'streak_breaker', length: 3 } },
+  {
+    name: 'rules',
+    strategy: {
+      type: 'rules',
+      rules: [
+        { when: [{ type: 'last_result', result: 'loss' }], then: { type: 'counter_opponent_last' } },
+        { when: [{ type: 'compare', metric: 'win_streak', op: '>=', value: 2 }], then: { type: 'markov', order: 2 } },
+      ],
+      default: { type: 'cycle', sequence: ['rock', 'paper', 'scissors'] },
+    },
+  },
+  {
+    name: 'mix 70/30',
+    strategy: {
+      type: 'mixture',
+      components: [
+        { weight: 0.7, strategy: { type: 'cycle', sequence: ['rock', 'paper', 'scissors'] } },
+        { weight: 0.3, strategy: { type: 'random' } },
+      ],
+    },
+  },
+]
+
+// The Edge Functions' strategy code imports supabase-js the Deno way, by URL.
+// Point that import at the npm package, then load the shared modules — this
+// has to happen before they are imported, hence the dynamic imports.
+async function loadStrategyEngine() {
+  register(
+    'data:text/javascript,' + encodeURIComponent(
+      `export async function resolve(specifier, context, next) {
+         return next(
+           specifier === 'https://esm.sh/@supabase/supabase-js@2' ? '@supabase/supabase-js' : specifier,
+           context,
+         )
+       }`,
+    ),
+    import.meta.url,
+  )
+  const [auth, strategy] = await Promise.all([
+    import('../supabase/functions/_shared/auth.ts'),
+    import('../supabase/functions/_shared/strategy.ts'),
+  ])
+  return { ...auth, ...strategy }
+}
+
+type StrategyEngine = Awaited<ReturnType<typeof loadStrategyEngine>>
+
+// Everything the server would know about one side of a pairing.
+interface Player {
+  name: string
+  strategy: Strategy
+  state: Record<string, unknown>
+  lastMatch?: LastMatch
+  balance: number
+  // This player's matches from their own perspective, most recent first —
+  // what opponent-aware strategies read as opponent history.
+  recent: RecentMatch[]
+  // Moves opponents played against this player, oldest first (markov input).
+  opponentMoves: Move[]
+}
+
+interface PairingResult {
+  wins: number
+  losses: number
+  draws: number
+  chips: number
+}
+
+function newPlayer(entry: { name: string; strategy: Strategy }): Player {
+  return { ...entry, state: {}, balance: 1000, recent: [], opponentMoves: [] }
+}
+
+// Mirrors record_match_outcome in resolve_match.
+function recordOutcome(
+  engine: StrategyEngine,
+  p: Player,
+  result: 'win' | 'loss' | 'draw',
+  move: Move,
+  theirs: Move,
+  vs: string,
+  wager: number,
+): void {
+  p.lastMatch = {
+    result,
+    move,
+    opponent_move: theirs,
+    streak: p.lastMatch?.result === result ? p.lastMatch.streak + 1 : 1,
+    lost_to: result === 'loss' ? theirs : p.lastMatch?.lost_to ?? null,
+  }
+  p.balance += result === 'win' ? wager : result === 'loss' ? -wager : 0
+  p.recent = [
+    { vs, their_move: move, vs_move: theirs, result, wager, completed_at: new Date().toISOString() },
+    ...p.recent,
+  ].slice(0, 20)
+  p.opponentMoves = [...p.opponentMoves, theirs].slice(-engine.MARKOV_HISTORY)
+}
+
+function opponentContext(p: Player): OpponentContext {
+  return {
+    id: p.name,
+    history: { opponent_name: p.name, total_reviewed: p.recent.length, recent_matches: p.recent },
+  }
+}
+
+// Play `matches` fallback-vs-fallback matches between two fresh players.
+// Results are from a's point of view.
+async function playPairing(
+  engine: StrategyEngine,
+  a: Player,
+  b: Player,
+  matches: number,
+  wager: number,
+): Promise<PairingResult> {
+  const tally: PairingResult = { wins: 0, losses: 0, draws: 0, chips: 0 }
+
+  for (let i = 0; i < matches; i++) {
+    const [ra, rb] = await Promise.all([
+      engine.computeMove(a.strategy, a.state, {
+        opponent: opponentContext(b), wager, balance: a.balance - wager,
+        lastMatch: a.lastMatch, opponentMoves: a.opponentMoves,
+      }),
+      engine.computeMove(b.strategy, b.state, {
+        opponent: opponentContext(a), wager, balance: b.balance - wager,
+        lastMatch: b.lastMatch, opponentMoves: b.opponentMoves,
+      }),
+    ])
+    a.state = ra.newState
+    b.state = rb.newState
+
+    const outcome = resolveOutcome(ra.move, rb.move)
+    const resultA = outcome === 'draw' ? 'draw' : outcome === 'challenger_wins' ? 'win' : 'loss'
+    const resultB = outcome === 'draw' ? 'draw' : outcome === 'challenger_wins' ? 'loss' : 'win'
+    recordOutcome(engine, a, resultA, ra.move, rb.move, b.name, wager)
+    recordOutcome(engine, b, resultB, rb.move, ra.move, a.name, wager)
+
+    if (resultA === 'win') { tally.wins++; tally.chips += wager }
+    else if (resultA === 'loss') { tally.losses++; tally.chips -= wager }
+    else tally.draws++
+  }
+
+  return tally
+}
+
+// 95% Wilson score interval for k successes out of n.
+function wilson(k: number, n: number): [number, number] {
+  if (n === 0) return [0, 0]
+  const z = 1.96
+  const p = k / n
+  const denom = 1 + z * z / n
+  const centre = (p + z * z / (2 * n)) / denom
+  const half = (z / denom) * Math.sqrt(p * (1 - p) / n + z * z / (4 * n * n))
+  return [Math.max(0, centre - half), Math.min(1, centre + half)]
+}
+
+function pct(x: number): string {
+  return `${(x * 100).toFixed(1)}%`
+}
+
 // ---------------------------------------------------------------------------
 // CLI helpers
 // ---------------------------------------------------------------------------
@@ -547,6 +732,85 @@ else if (command === 'lobby') {
   console.log(`\nFinished. ${total} matches — ${done} completed, ${errors} errors`)
 }
 
+// ── tournament ───────────────────────────────────────────────────────────────
+else if (command === 'tournament') {
+  const matches = getNumArg('--matches', 200)
+  const wager   = getNumArg('--wager',    10)
+  const engine  = await loadStrategyEngine()
+
+  for (const entry of TOURNAMENT_ROSTER) {
+    if (!engine.validateStrategy(entry.strategy)) {
+      console.log(`Roster entry "${entry.name}" is not a valid strategy`)
+      process.exit(1)
+    }
+  }
+
+  const n = TOURNAMENT_ROSTER.length
+  const results: (PairingResult | null)[][] =
+    TOURNAMENT_ROSTER.map(() => TOURNAMENT_ROSTER.map(() => null))
+
+  console.log(`\n Strategy tournament`)
+  console.log(`  ${n} strategies | ${matches} matches per pairing | ${wager}-chip wager\n`)
+
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const r = await playPairing(
+        engine, newPlayer(TOURNAMENT_ROSTER[i]), newPlayer(TOURNAMENT_ROSTER[j]), matches, wager,
+      )
+      results[i][j] = r
+      results[j][i] = { wins: r.losses, losses: r.wins, draws: r.draws, chips: -r.chips }
+    }
+  }
+
+  // Row strategy vs column strategy; columns are numbered to keep rows narrow.
+  const nameWidth = Math.max(...TOURNAMENT_ROSTER.map((e) => e.name.length)) + 4
+  function printMatrix(title: string, cell: (r: PairingResult) => string): void {
+    console.log(`  ${title}\n`)
+    console.log(' '.repeat(nameWidth + 2) + TOURNAMENT_ROSTER.map((_, j) => String(j + 1).padStart(8)).join(''))
+    TOURNAMENT_ROSTER.forEach((e, i) => {
+      const label = `${String(i + 1).padStart(2)}. ${e.name}`.padEnd(nameWidth)
+      const cells = results[i].map((r) => (r ? cell(r) : '—').padStart(8))
+      console.log(`  ${label}${cells.join('')}`)
+    })
+    console.log()
+  }
+
+  printMatrix('Win rate (row vs column)', (r) => pct(r.wins / matches))
+  printMatrix('95% CI half-width on win rate', (r) => {
+    const [lo, hi] = wilson(r.wins, matches)
+    return `±${((hi - lo) * 50).toFixed(1)}`
+  })
+  printMatrix(`Chip EV per match (${wager}-chip wager)`, (r) => {
+    const ev = r.chips / matches
+    return `${ev >= 0 ? '+' : ''}${ev.toFixed(2)}`
+  })
+
+  // Overall standings, ranked by chip EV across all opponents.
+  const standings = TOURNAMENT_ROSTER.map((e, i) => {
+    const total = results[i].reduce<PairingResult>(
+      (t, r) => r
+        ? { wins: t.wins + r.wins, losses: t.losses + r.losses, draws: t.draws + r.draws, chips: t.chips + r.chips }
+        : t,
+      { wins: 0, losses: 0, draws: 0, chips: 0 },
+    )
+    const played = total.wins + total.losses + total.draws
+    return { name: e.name, ...total, played, ci: wilson(total.wins, played) }
+  }).sort((x, y) => y.chips - x.chips)
+
+  console.log('  Standings\n')
+  console.log(`  ${'Strategy'.padEnd(nameWidth)}${'W'.padStart(7)}${'L'.padStart(7)}${'D'.padStart(7)}  Win rate (95% CI)       EV/match`)
+  for (const s of standings) {
+    const ev = s.chips / s.played
+    console.log(
+      `  ${s.name.padEnd(nameWidth)}${String(s.wins).padStart(7)}${String(s.losses).padStart(7)}` +
+      `${String(s.draws).padStart(7)}  ${pct(s.wins / s.played).padStart(6)} ` +
+      `(${pct(s.ci[0])}–${pct(s.ci[1])})`.padEnd(18) +
+      `${ev >= 0 ? '+' : ''}${ev.toFixed(2)}`.padStart(9),
+    )
+  }
+  console.log()
+}
+
 // ── help ─────────────────────────────────────────────────────────────────────
 else {
   console.log(`
@@ -563,11 +827,14 @@ Commands:
             [--wager 10]
   status                                         Show all sim agent profiles
   reset                                          Cancel open challenges from sim agents
+  tournament [--matches 200] [--wager 10]       Offline round robin of every strategy
+                                                 shape — no Supabase project needed
 
 Examples:
   npm run simulate lobby -- --matches 50 --challenge-seconds 60 --strategy-seconds 60
   npm run simulate run -- --rounds 20 --wager 10
   npm run simulate status
   npm run simulate reset
+  npm run simulate tournament -- --matches 500
 `)
 }
@@ -18,14 +18,33 @@ interface AgentProfile {
   strategy: Strategy
 }
 
-type Move = 'rock' | 'paper' | 'scissors'
+interface StrategyVersion {
+  version: number
+  strategy: Strategy
+  created_at: string
+  matches: number
+  wins: number
+  losses: number
+  draws: number
+  net_chips: number
+  active: boolean
+}
+
+type Move = 'rock' | 'paper' | 'scissors' | 'lizard' | 'spock'
 
 type Strategy =
   | { type: 'random' }
   | { type: 'always'; move: Move }
   | { type: 'cycle'; sequence: Move[] }
-  | { type: 'weighted'; rock: number; paper: number; scissors: number }
+  | { type: 'weighted'; rock: number; paper: number; scissors: number; lizard?: number; spock?: number }
   | { type: 'counter_last_loss' }
+  | { type: 'markov'; order: number }
+  | { type: 'counter_opponent_last' }
+  | { type: 'counter_opponent_frequency' }
+  | { type: 'win_stay_lose_shift' }
+  | { type: 'streak_breaker'; length: number }
+  | { type: 'rules'; rules: unknown[]; default: Strategy }
+  | { type: 'mixture'; components: { weight: number; strategy: Strategy }[] }
 
 // ---------------------------------------------------------------------------
 // Edge function client
@@ -64,13 +83,26 @@ async function saveStrategy(apiKey: string, strategy: Strategy): Promise<void> {
   await edgeCall('/set-strategy', { method: 'POST', body: { strategy }, agentKey: apiKey })
 }
 
+async function fetchVersions(apiKey: string): Promise<StrategyVersion[]> {
+  const data = await edgeCall<{ versions: StrategyVersion[] }>('/list-strategy-versions', { agentKey: apiKey })
+  return data.versions
+}
+
+async function rollbackStrategy(apiKey: string, version: number): Promise<void> {
+  await edgeCall('/rollback-strategy', { method: 'POST', body: { version }, agentKey: apiKey })
+}
+
 // ---------------------------------------------------------------------------
 // Strategy helpers
 // ---------------------------------------------------------------------------
 
-const MOVE_OPTIONS: Move[] = ['rock', 'paper', 'scissors']
-const MOVE_LABEL: Record<Move, string> = { rock: 'Rock', paper: 'Paper', scissors: 'Claw' }
-const MOVE_EMOJI: Record<Move, string> = { rock: '🪨', paper: '📄', scissors: '🦞' }
+// Lizard and Spock only come up in RPSLS matches; in classic matches a
+// strategy that picks them plays a random classic move instead.
+const MOVE_OPTIONS: Move[] = ['rock', 'paper', 'scissors', 'lizard', 'spock']
+const MOVE_LABEL: Record<Move, string> = { rock: 'Rock', paper: 'Paper', scissors: 'Claw', lizard: 'Lizard', spock: 'Spock' }
+const MOVE_EMOJI: Record<Move, string> = { rock: '🪨', paper: '📄', scissors: '🦞', lizard: '🦎', spock: '🖖' }
+const MARKOV_ORDERS = [1, 2, 3]
+const STREAK_LENGTHS = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10]
 
 function strategyLabel(s: Strategy): string {
   switch (s.type) {
@@ -79,6 +111,13 @@ function strategyLabel(s: Strategy): string {
     case 'cycle':          return `Cycle (${s.sequence.map(m => MOVE_EMOJI[m]).join('→')})`
     case 'weighted':       return `Weighted`
     case 'counter_last_loss': return 'Counter Last Loss'
+    case 'markov':         return `Markov (order ${s.order})`
+    case 'counter_opponent_last':      return 'Counter Opponent Last'
+    case 'counter_opponent_frequency': return 'Counter Opponent Frequency'
+    case 'win_stay_lose_shift': return 'Win-Stay / Lose-Shift'
+    case 'streak_breaker': return `Streak Breaker (${s.length})`
+    case 'rules':          return `Rules (${s.rules.length} + default)`
+    case 'mixture':        return `Mixture (${s.components.map(c => `${Math.round(c.weight * 100)}% ${strategyLabel(c.strategy)}`).join(', ')})`
   }
 }
 
@@ -112,9 +151,9 @@ function renderLoggedIn(profile: AgentProfile): string {
 
       <div class="ap-strategy-editor" id="ap-strategy-editor">
         <div class="ap-type-tabs" id="ap-type-tabs">
-          ${(['random', 'always', 'cycle', 'weighted', 'counter_last_loss'] as const).map(t => `
+          ${(['random', 'always', 'cycle', 'weighted', 'counter_last_loss', 'markov', 'counter_opponent_last', 'counter_opponent_frequency', 'win_stay_lose_shift', 'streak_breaker'] as const).map(t => `
             <button class="ap-type-tab${s.type === t ? ' active' : ''}" data-type="${t}">
-              ${{ random: 'Random', always: 'Always', cycle: 'Cycle', weighted: 'Weighted', counter_last_loss: 'Counter' }[t]}
+              ${{ random: 'Random', always: 'Always', cycle: 'Cycle', weighted: 'Weighted', counter_last_loss: 'Counter', markov: 'Markov', counter_opponent_last: 'Opp. Last', counter_opponent_frequency: 'Opp. Freq', win_stay_lose_shift: 'WSLS', streak_breaker: 'Streak' }[t]}
             </button>`).join('')}
         </div>
 
@@ -126,6 +165,15 @@ function renderLoggedIn(profile: AgentProfile): string {
           <button class="ap-btn ap-btn-primary" id="ap-save">Save Strategy</button>
           <span class="ap-save-status" id="ap-save-status"></span>
         </div>
+
+        <div class="ap-history-row">
+          <span class="ap-weight-label">History</span>
+          <select class="ap-cycle-select ap-history-select" id="ap-history">
+            <option>Loading…</option>
+          </select>
+          <button class="ap-btn ap-btn-ghost" id="ap-rollback" disabled>Roll back</button>
+          <span class="ap-save-status" id="ap-history-status"></span>
+        </div>
       </div>
     </div>
   `
@@ -160,14 +208,12 @@ function renderStrategyConfig(s: Strategy): string {
     }
 
     case 'weighted': {
-      const r = Math.round(s.rock * 100)
-      const p = Math.round(s.paper * 100)
-      const sc = Math.round(s.scissors * 100)
+      const vals = MOVE_OPTIONS.map(m => Math.round((s[m] ?? 0) * 100))
       return `
-        <p class="ap-desc">Set probability weights (must total 100%).</p>
+        <p class="ap-desc">Set probability weights (must total 100%). Lizard and Spock only count in RPSLS matches.</p>
         <div class="ap-weights">
-          ${(['rock', 'paper', 'scissors'] as Move[]).map((m, i) => {
-            const val = [r, p, sc][i]
+          ${MOVE_OPTIONS.map((m, i) => {
+            const val = vals[i]
             return `
             <label class="ap-weight-row">
               <span class="ap-weight-label">${MOVE_EMOJI[m]} ${MOVE_LABEL[m]}</span>
@@ -176,15 +222,56 @@ function renderStrategyConfig(s: Strategy): string {
               <span class="ap-weight-pct">%</span>
             </label>`
           }).join('')}
-          <span class="ap-weight-total" id="ap-weight-total">Total: ${r + p + sc}%</span>
+          <span class="ap-weight-total" id="ap-weight-total">Total: ${vals.reduce((a, b) => a + b, 0)}%</span>
         </div>`
     }
 
     case 'counter_last_loss':
       return `<p class="ap-desc">Plays the counter to the move that beat you last time. Falls back to random if no prior loss.</p>`
+
+    case 'counter_opponent_last':
+      return `<p class="ap-desc">Plays the counter to your current opponent's most recent move. Falls back to random if they have no history.</p>`
+
+    case 'counter_opponent_frequency':
+      return `<p class="ap-desc">Plays the counter to the move your current opponent has played most in their last 20 matches. Falls back to random if they have no history.</p>`
+
+    case 'win_stay_lose_shift':
+      return `<p class="ap-desc">Repeats your last move after a win; after a loss or draw, plays the move that beats it. Falls back to random before your first match.</p>`
+
+    case 'streak_breaker':
+      return `
+        <p class="ap-desc">Plays randomly until you win or lose several in a row. After a win streak it expects the opponent to counter your winning move and gets ahead of them; after a losing streak it counters the move that keeps beating you.</p>
+        <label class="ap-weight-row">
+          <span class="ap-weight-label">Streak</span>
+          <select class="ap-cycle-select" id="ap-streak-length">
+            ${STREAK_LENGTHS.map(n => `<option value="${n}" ${s.length === n ? 'selected' : ''}>${n}</option>`).join('')}
+          </select>
+        </label>`
+
+    case 'rules':
+      return `<p class="ap-desc">Rule-based strategy with ${s.rules.length} clause(s) and a default. Edit it with the <code>set_strategy</code> MCP tool, or pick another type to replace it.</p>`
+
+    case 'mixture':
+      return `<p class="ap-desc">Mixture of ${s.components.length} sub-strategies, one sampled each match. Edit it with the <code>set_strategy</code> MCP tool, or pick another type to replace it.</p>`
+
+    case 'markov':
+      return `
+        <p class="ap-desc">Predicts your opponent's next move from the moves opponents have played against you, then plays the counter. Higher orders look further back.</p>
+        <label class="ap-weight-row">
+          <span class="ap-weight-label">Order</span>
+          <select class="ap-cycle-select" id="ap-markov-order">
+            ${MARKOV_ORDERS.map(o => `<option value="${o}" ${s.order === o ? 'selected' : ''}>${o}</option>`).join('')}
+          </select>
+        </label>`
   }
 }
 
+function versionLabel(v: StrategyVersion): string {
+  const net = `${v.net_chips >= 0 ? '+' : ''}${v.net_chips}`
+  return `v${v.version} · ${strategyLabel(v.strategy)} · W${v.wins} L${v.losses} D${v.draws} · ${net}` +
+    (v.active ? ' (active)' : '')
+}
+
 function esc(s: string): string {
   return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
 }
@@ -197,6 +284,9 @@ function readStrategyFromDOM(container: HTMLElement, type: string): Strategy | n
   switch (type) {
     case 'random': return { type: 'random' }
     case 'counter_last_loss': return { type: 'counter_last_loss' }
+    case 'counter_opponent_last': return { type: 'counter_opponent_last' }
+    case 'counter_opponent_frequency': return { type: 'counter_opponent_frequency' }
+    case 'win_stay_lose_shift': return { type: 'win_stay_lose_shift' }
 
     case 'always': {
       const checked = container.querySelector<HTMLInputElement>('input[name="always-move"]:checked')
@@ -215,9 +305,24 @@ function readStrategyFromDOM(container: HTMLElement, type: string): Strategy | n
       const inputs = [...container.querySelectorAll<HTMLInputElement>('.ap-weight-input')]
       const vals: Record<string, number> = {}
       for (const input of inputs) vals[input.dataset.move!] = Number(input.value) / 100
-      const total = Math.round((vals.rock + vals.paper + vals.scissors) * 100)
+      const total = Math.round(MOVE_OPTIONS.reduce((sum, m) => sum + (vals[m] ?? 0), 0) * 100)
       if (total !== 100) return null
-      return { type: 'weighted', rock: vals.rock, paper: vals.paper, scissors: vals.scissors }
+      const weighted: Strategy = { type: 'weighted', rock: vals.rock, paper: vals.paper, scissors: vals.scissors }
+      if (vals.lizard) weighted.lizard = vals.lizard
+      if (vals.spock) weighted.spock = vals.spock
+      return weighted
+    }
+
+    case 'markov': {
+      const select = container.querySelector<HTMLSelectElement>('#ap-markov-order')
+      if (!select) return null
+      return { type: 'markov', order: Number(select.value) }
+    }
+
+    case 'streak_breaker': {
+      const select = container.querySelector<HTMLSelectElement>('#ap-streak-length')
+      if (!select) return null
+      return { type: 'streak_breaker', length: Number(select.value) }
     }
   }
   return null
@@ -304,6 +409,11 @@ export function mountAgentPanel(container: HTMLElement): void {
         cycle:            { type: 'cycle', sequence: ['rock', 'paper', 'scissors'] },
         weighted:         { type: 'weighted', rock: 0.34, paper: 0.33, scissors: 0.33 },
         counter_last_loss: { type: 'counter_last_loss' },
+        markov:           { type: 'markov', order: 1 },
+        counter_opponent_last:      { type: 'counter_opponent_last' },
+        counter_opponent_frequency: { type: 'counter_opponent_frequency' },
+        win_stay_lose_shift:        { type: 'win_stay_lose_shift' },
+        streak_breaker:             { type: 'streak_breaker', length: 3 },
       }
       // If switching to same type as current profile, restore actual values
       const existing = currentType === profile.strategy.type ? profile.strategy : defaults[currentType]
@@ -344,6 +454,7 @@ export function mountAgentPanel(container: HTMLElement): void {
         // Update the "current strategy" label
         const label = container.querySelector<HTMLElement>('.ap-current-strategy strong')
         if (label) label.textContent = strategyLabel(strategy)
+        loadHistory()
       } catch (err) {
         statusEl.textContent = err instanceof Error ? err.message : 'Save failed'
         statusEl.className = 'ap-save-status error'
@@ -351,6 +462,46 @@ export function mountAgentPanel(container: HTMLElement): void {
         saveBtn.disabled = false
       }
     })
+
+    // Version history + rollback
+    const historyEl = container.querySelector<HTMLSelectElement>('#ap-history')!
+    const rollbackBtn = container.querySelector<HTMLButtonElement>('#ap-rollback')!
+    const historyStatusEl = container.querySelector<HTMLElement>('#ap-history-status')!
+    let versions: StrategyVersion[] = []
+
+    async function loadHistory() {
+      try {
+        versions = await fetchVersions(apiKey)
+        historyEl.innerHTML = versions.map(v =>
+          `<option value="${v.version}" ${v.active ? 'selected' : ''}>${esc(versionLabel(v))}</option>`,
+        ).join('')
+        rollbackBtn.disabled = true
+      } catch {
+        historyEl.innerHTML = '<option>History unavailable</option>'
+      }
+    }
+    loadHistory()
+
+    historyEl.addEventListener('change', () => {
+      const selected = versions.find(v => v.version === Number(historyEl.value))
+      rollbackBtn.disabled = !selected || selected.active
+      historyStatusEl.textContent = ''
+    })
+
+    rollbackBtn.addEventListener('click', async () => {
+      const version = Number(historyEl.value)
+      rollbackBtn.disabled = true
+      historyStatusEl.textContent = 'Rolling back…'
+      historyStatusEl.className = 'ap-save-status'
+      try {
+        await rollbackStrategy(apiKey, version)
+        renderProfile(await fetchProfile(apiKey))
+      } catch (err) {
+        historyStatusEl.textContent = err instanceof Error ? err.message : 'Rollback failed'
+        historyStatusEl.className = 'ap-save-status error'
+        rollbackBtn.disabled = false
+      }
+    })
   }
 
   // ── init ─────────────────────────────────────────────────────────────────
@@ -12,12 +12,29 @@ interface LeaderboardRow {
   draws: number
   balance: number
   win_pct: number
+  rating: number
+  rating_deviation: number
+}
+
+interface SeasonRow {
+  number: number
+  name: string
+  status: 'active' | 'complete'
 }
 
 interface ChallengeRow {
   id: string
   challenger_name: string
   wager_amount: number
+  best_of: number
+  variant: string
+  max_players: number | null
+  seats_taken: number
+  min_win_pct: number | null
+  max_win_pct: number | null
+  min_games: number | null
+  excluded_agent_ids: string[]
+  strategy_family: string | null
   wins: number
   losses: number
   draws: number
@@ -42,15 +59,19 @@ const MOVE_EMOJI: Record<string, string> = {
   rock: '🪨',
   paper: '📄',
   scissors: '🦞',
+  lizard: '🦎',
+  spock: '🖖',
 }
 
 // ---------------------------------------------------------------------------
 // Render helpers
 // ---------------------------------------------------------------------------
 
-function renderLeaderboard(rows: LeaderboardRow[]): string {
+function renderLeaderboard(rows: LeaderboardRow[], season: number | null): string {
   if (rows.length === 0) {
-    return '<p class="empty">No agents registered yet.</p>'
+    return season === null
+      ? '<p class="empty">No agents registered yet.</p>'
+      : '<p class="empty">No matches played this season yet.</p>'
   }
 
   const bodyRows = rows
@@ -63,6 +84,7 @@ function renderLeaderboard(rows: LeaderboardRow[]): string {
         <td>${r.losses}</td>
         <td>${r.draws}</td>
         <td>${r.win_pct.toFixed(1)}%</td>
+        <td title="±${r.rating_deviation}">${r.rating}</td>
         <td class="chips">${r.balance.toLocaleString()}</td>
       </tr>`,
     )
@@ -78,6 +100,7 @@ function renderLeaderboard(rows: LeaderboardRow[]): string {
           <th>L</th>
           <th>D</th>
           <th>Win%</th>
+          <th title="Glicko-2 rating — hover a rating for its deviation">Rating</th>
           <th>Chips</th>
         </tr>
       </thead>
@@ -85,6 +108,30 @@ function renderLeaderboard(rows: LeaderboardRow[]): string {
     </table>`
 }
 
+// Season picker options: every season, newest first, then lifetime records.
+function renderSeasonOptions(seasons: SeasonRow[], selected: number | null): string {
+  const options = seasons.map(
+    (s) => `
+    <option value="${s.number}"${s.number === selected ? ' selected' : ''}>
+      ${escHtml(s.name)}${s.status === 'active' ? ' (current)' : ''}
+    </option>`,
+  )
+  options.push(`<option value=""${selected === null ? ' selected' : ''}>All time</option>`)
+  return options.join('')
+}
+
+// Short summary of a challenge's acceptance constraints, e.g. "≥40% · 10+ games".
+function challengeTerms(c: ChallengeRow): string {
+  const terms: string[] = []
+  if (c.min_win_pct !== null && c.max_win_pct !== null) terms.push(`${c.min_win_pct}–${c.max_win_pct}%`)
+  else if (c.min_win_pct !== null) terms.push(`≥${c.min_win_pct}%`)
+  else if (c.max_win_pct !== null) terms.push(`≤${c.max_win_pct}%`)
+  if (c.min_games !== null) terms.push(`${c.min_games}+ games`)
+  if (c.strategy_family !== null) terms.push(`${c.strategy_family} only`)
+  if (c.excluded_agent_ids.length > 0) terms.push(`${c.excluded_agent_ids.length} excluded`)
+  return terms.join(' · ')
+}
+
 function renderChallenges(challenges: ChallengeRow[]): string {
   if (challenges.length === 0) {
     return '<p class="empty">No open challenges right now.</p>'
@@ -95,12 +142,13 @@ function renderChallenges(challenges: ChallengeRow[]): string {
     <div class="challenge-card">
       <div class="challenge-header">
         <span class="challenger-name">${escHtml(c.challenger_name)}</span>
-        <span class="wager">${MOVE_EMOJI.rock} ${c.wager_amount.toLocaleString()} chips</span>
+        <span class="wager">${MOVE_EMOJI.rock} ${c.wager_amount.toLocaleString()} chips${c.best_of > 1 ? ` · Bo${c.best_of}` : ''}${c.variant !== 'classic' ? ` · ${c.variant.toUpperCase()}` : ''}${c.max_players ? ` · FFA ${c.seats_taken}/${c.max_players}` : ''}</span>
       </div>
       <div class="challenge-record">
         W:${c.wins} &nbsp; L:${c.losses} &nbsp; D:${c.draws}
         <span class="challenge-wait" data-created-at="${escHtml(c.created_at)}">⏳ ${timeAgo(c.created_at)}</span>
       </div>
+      ${challengeTerms(c) ? `<div class="challenge-terms">🔒 ${escHtml(challengeTerms(c))}</div>` : ''}
       <div class="challenge-footer">
         <span class="mcp-only">MCP agents only</span>
         <span class="challenge-id" title="${escHtml(c.id)}">
@@ -174,11 +222,19 @@ function escHtml(s: string): string {
 // Data fetchers
 // ---------------------------------------------------------------------------
 
-async function fetchLeaderboard(): Promise<LeaderboardRow[]> {
-  const { data, error } = await supabase
-    .from('leaderboard')
-    .select('*')
-    .order('rank', { ascending: true })
+// Lifetime records, or one season's standings (live for the current season,
+// as archived for a finished one).
+async function fetchLeaderboard(season: number | null): Promise<LeaderboardRow[]> {
+  const { data, error } = season === null
+    ? await supabase
+      .from('leaderboard')
+      .select('*')
+      .order('rank', { ascending: true })
+    : await supabase
+      .from('season_leaderboard')
+      .select('*')
+      .eq('season_number', season)
+      .order('rank', { ascending: true })
 
   if (error) {
     console.error('leaderboard fetch error:', error.message)
@@ -187,6 +243,19 @@ async function fetchLeaderboard(): Promise<LeaderboardRow[]> {
   return (data ?? []) as LeaderboardRow[]
 }
 
+async function fetchSeasons(): Promise<SeasonRow[]> {
+  const { data, error } = await supabase
+    .from('seasons')
+    .select('number, name, status')
+    .order('number', { ascending: false })
+
+  if (error) {
+    console.error('seasons fetch error:', error.message)
+    return []
+  }
+  return (data ?? []) as SeasonRow[]
+}
+
 async function fetchChallenges(): Promise<ChallengeRow[]> {
   const { data, error } = await supabase
     .from('open_challenges')
@@ -222,6 +291,7 @@ export function mountLobby(onStrategyClick?: (match: StrategyMatchRow) => void):
   const lbEl = document.getElementById('leaderboard-content')
   const chEl = document.getElementById('challenges-content')
   const stEl = document.getElementById('strategy-content')
+  const seasonEl = document.getElementById('season-select') as HTMLSelectElement | null
 
   if (!lbEl || !chEl) {
     console.error('Lobby mount targets not found')
@@ -232,10 +302,26 @@ export function mountLobby(onStrategyClick?: (match: StrategyMatchRow) => void):
   const ch: HTMLElement = chEl
   const st: HTMLElement | null = stEl
 
+  // The leaderboard opens on the current season; the picker switches to a
+  // past one or to lifetime records.
+  let season: number | null = null
+
   async function refreshLeaderboard() {
-    lb.innerHTML = renderLeaderboard(await fetchLeaderboard())
+    lb.innerHTML = renderLeaderboard(await fetchLeaderboard(season), season)
   }
 
+  async function loadSeasons() {
+    const seasons = await fetchSeasons()
+    season = seasons.find((s) => s.status === 'active')?.number ?? null
+    if (seasonEl) seasonEl.innerHTML = renderSeasonOptions(seasons, season)
+    await refreshLeaderboard()
+  }
+
+  seasonEl?.addEventListener('change', () => {
+    season = seasonEl.value ? Number(seasonEl.value) : null
+    refreshLeaderboard()
+  })
+
   async function refreshChallenges() {
     const [challenges, strategyMatches] = await Promise.all([
       fetchChallenges(),
@@ -246,7 +332,7 @@ export function mountLobby(onStrategyClick?: (match: StrategyMatchRow) => void):
   }
 
   // Initial load
-  refreshLeaderboard()
+  loadSeasons()
   refreshChallenges()
 
   // Tick every second: update strategy countdowns + progress bars in-place.
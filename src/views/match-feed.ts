@@ -14,13 +14,22 @@ interface MatchFeedRow {
   winner_name: string | null
   wager_amount: number
   completed_at: string
+  best_of: number
+  variant: string
+  rematch_of: string | null
+  rematch_number: number
+  round: number
+  agent1_series_wins: number
+  agent2_series_wins: number
+  series_settled: boolean
+  series_winner_name: string | null
 }
 
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
 
-const MOVE_EMOJI: Record<string, string> = { rock: '🪨', paper: '📄', scissors: '🦞' }
+const MOVE_EMOJI: Record<string, string> = { rock: '🪨', paper: '📄', scissors: '🦞', lizard: '🦎', spock: '🖖' }
 
 function esc(s: string): string {
   return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
@@ -65,6 +74,19 @@ function renderFeed(
       resultCls = 'feed-win'
     }
 
+    // Rounds of a series show where they sit in it, e.g. "R2/Bo5 1–1".
+    const seriesTag = m.best_of > 1
+      ? ` <span class="feed-series">R${m.round}/Bo${m.best_of} ${m.agent1_series_wins}–${m.agent2_series_wins}</span>`
+      : ''
+    // Rematches show how far down the chain they are, e.g. "🔁2" for the
+    // rematch of a rematch.
+    const rematchTag = m.rematch_number > 0
+      ? ` <span class="feed-series" title="Rematch #${m.rematch_number}">🔁${m.rematch_number > 1 ? m.rematch_number : ''}</span>`
+      : ''
+    const variantTag = m.variant !== 'classic'
+      ? ` <span class="feed-series">${m.variant.toUpperCase()}</span>`
+      : ''
+
     const row = document.createElement('div')
     row.className = 'feed-row'
     row.innerHTML = `
@@ -77,7 +99,7 @@ function renderFeed(
         <span class="feed-agent">${esc(m.agent2_name)}</span>
       </span>
       <span class="feed-result ${resultCls}">${resultHtml}</span>
-      <span class="feed-chips">🪙 ${m.wager_amount}</span>
+      <span class="feed-chips">🪙 ${m.wager_amount}${seriesTag}${variantTag}${rematchTag}</span>
       <button class="feed-replay-btn" aria-label="Watch replay">▶ Replay</button>
     `
 
@@ -9,9 +9,17 @@ export interface ReplayMatch {
   agent2_move: string | null
   winner_name: string | null
   wager_amount: number
+  // Best-of-N series (best_of > 1): score after this round, and who took the
+  // series if this round settled it.
+  best_of?: number
+  round?: number
+  agent1_series_wins?: number
+  agent2_series_wins?: number
+  series_settled?: boolean
+  series_winner_name?: string | null
 }
 
-const MOVE_EMOJI: Record<string, string> = { rock: '🪨', paper: '📄', scissors: '🦞' }
+const MOVE_EMOJI: Record<string, string> = { rock: '🪨', paper: '📄', scissors: '🦞', lizard: '🦎', spock: '🖖' }
 const MOVE_LABEL: Record<string, string> = { rock: 'Rock', paper: 'Paper', scissors: 'Claw' }
 const COUNTDOWN_STEPS = ['🪨  Rock...', '📄  Paper...', '🦞  Claw!']
 
@@ -52,6 +60,7 @@ export function mountReplay(): (match: ReplayMatch) => void {
 
       <div class="replay-footer">
         <span class="replay-wager" id="rp-wager"></span>
+        <div class="replay-series" id="rp-series"></div>
       </div>
     </div>
   `
@@ -95,6 +104,8 @@ export function mountReplay(): (match: ReplayMatch) => void {
     const cd     = el('rp-countdown')
     const result = el('rp-result')
     const wager  = el('rp-wager')
+    const series = el('rp-series')
+    const isSeries = (match.best_of ?? 1) > 1
 
     // Reset
     sideA.className  = 'replay-side'
@@ -109,7 +120,10 @@ export function mountReplay(): (match: ReplayMatch) => void {
     moveB.textContent = '❓'
     cd.textContent    = ''
     result.textContent = ''
-    wager.textContent  = `⚡ ${match.wager_amount} chips at stake`
+    wager.textContent  = isSeries
+      ? `⚡ ${match.wager_amount} chips at stake · Round ${match.round} of best-of-${match.best_of}`
+      : `⚡ ${match.wager_amount} chips at stake`
+    series.textContent = ''
 
     overlay.classList.add('active')
 
@@ -152,6 +166,20 @@ export function mountReplay(): (match: ReplayMatch) => void {
         sideA.classList.add('loser')
       }
     })
+
+    // ── series score ─────────────────────────────────────────────────────
+    if (isSeries) {
+      scheduleAfter(3300, () => {
+        const score = `${match.agent1_series_wins ?? 0}–${match.agent2_series_wins ?? 0}`
+        if (!match.series_settled) {
+          series.textContent = `Series ${score}`
+        } else if (match.series_winner_name) {
+          series.innerHTML = `🏆 ${esc(match.series_winner_name)} takes the series ${score}`
+        } else {
+          series.textContent = `🤝 Series drawn ${score}`
+        }
+      })
+    }
   }
 
   return showReplay
@@ -13,6 +13,21 @@ interface HistoryEntry {
   wager: number
 }
 
+interface HeadToHeadSide {
+  name: string
+  wins: number
+  net_chips: number
+  moves: Record<string, number>
+  fallback_pct: number
+}
+
+interface HeadToHead {
+  a: HeadToHeadSide
+  b: HeadToHeadSide
+  draws: number
+  total_matches: number
+}
+
 interface MatchResult {
   agent1_move: string | null
   agent2_move: string | null
@@ -23,7 +38,7 @@ interface MatchResult {
 // Constants
 // ---------------------------------------------------------------------------
 
-const MOVE_EMOJI: Record<string, string> = { rock: '🪨', paper: '📄', scissors: '🦞' }
+const MOVE_EMOJI: Record<string, string> = { rock: '🪨', paper: '📄', scissors: '🦞', lizard: '🦎', spock: '🖖' }
 const MOVE_LABEL: Record<string, string> = { rock: 'Rock', paper: 'Paper', scissors: 'Claw' }
 const COUNTDOWN_STEPS = ['🪨  Rock…', '📄  Paper…', '🦞  Claw!']
 
@@ -56,6 +71,20 @@ async function fetchHistory(agentName: string): Promise<HistoryEntry[]> {
   })
 }
 
+// The rivalry between the two agents, from the public get-head-to-head
+// Edge Function. null if it cannot be loaded.
+async function fetchHeadToHead(a: string, b: string): Promise<HeadToHead | null> {
+  const url = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/get-head-to-head?${new URLSearchParams({ a, b })}`
+  try {
+    const res = await fetch(url, {
+      headers: { Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}` },
+    })
+    return res.ok ? (await res.json() as HeadToHead) : null
+  } catch {
+    return null
+  }
+}
+
 async function pollForResult(matchId: string): Promise<MatchResult | null> {
   const { data } = await supabase
     .from('match_feed')
@@ -92,6 +121,38 @@ function renderHistory(entries: HistoryEntry[]): string {
     .join('')
 }
 
+function renderH2hSide(side: HeadToHeadSide): string {
+  const moves = Object.entries(side.moves)
+    .sort(([, x], [, y]) => y - x)
+    .map(([move, n]) => `${MOVE_EMOJI[move] ?? '❓'} ${n}`)
+    .join(' ')
+  return `
+    <div class="mdet-h2h-side">
+      <span class="mdet-h2h-moves">${moves}</span>
+      <span class="mdet-h2h-fallback">🤖 ${side.fallback_pct}% on autopilot</span>
+    </div>`
+}
+
+function renderHeadToHead(h2h: HeadToHead | null): string {
+  if (!h2h) return '<p class="sprep-no-history">Head-to-head unavailable</p>'
+  if (h2h.total_matches === 0) return '<p class="sprep-no-history">First meeting</p>'
+
+  const chips = h2h.a.net_chips === 0
+    ? 'chips even'
+    : `${esc(h2h.a.net_chips > 0 ? h2h.a.name : h2h.b.name)} +${Math.abs(h2h.a.net_chips).toLocaleString()} chips`
+  const draws = h2h.draws === 1 ? '1 draw' : `${h2h.draws} draws`
+
+  return `
+    <p class="mdet-h2h-score">
+      ${h2h.a.wins} – ${h2h.b.wins}
+      <span class="mdet-h2h-meta">${draws} · ${chips}</span>
+    </p>
+    <div class="mdet-h2h-sides">
+      ${renderH2hSide(h2h.a)}
+      ${renderH2hSide(h2h.b)}
+    </div>`
+}
+
 // ---------------------------------------------------------------------------
 // Mount — returns a show(match) function
 // ---------------------------------------------------------------------------
@@ -136,6 +197,12 @@ export function mountStrategyPrep(): (match: StrategyMatchRow) => void {
         </div>
       </div>
 
+      <!-- head-to-head (visible during strategy phase, hidden during animation) -->
+      <div class="mdet-h2h" id="mdet-h2h">
+        <p class="sprep-history-label">Head-to-Head</p>
+        <div id="mdet-h2h-body"><p class="sprep-no-history">Loading…</p></div>
+      </div>
+
       <!-- history panels (visible during strategy phase, hidden during animation) -->
       <div class="mdet-history-wrap" id="mdet-history">
         <div class="mdet-hist-col">
@@ -167,6 +234,8 @@ export function mountStrategyPrep(): (match: StrategyMatchRow) => void {
   const resultEl   = q<HTMLElement>('#mdet-result')
   const wagerEl    = q<HTMLElement>('#mdet-wager')
   const historyWrap = q<HTMLElement>('#mdet-history')
+  const h2hWrap    = q<HTMLElement>('#mdet-h2h')
+  const h2hBody    = q<HTMLElement>('#mdet-h2h-body')
   const histA      = q<HTMLElement>('#mdet-hist-a')
   const histB      = q<HTMLElement>('#mdet-hist-b')
 
@@ -202,6 +271,7 @@ export function mountStrategyPrep(): (match: StrategyMatchRow) => void {
 
     // Hide history, show arena fully
     historyWrap.classList.add('mdet-hidden')
+    h2hWrap.classList.add('mdet-hidden')
     statusEl.textContent = '⚔️ Match!'
     countdownEl.textContent = ''
     pbar.style.width = '0%'
@@ -328,17 +398,21 @@ export function mountStrategyPrep(): (match: StrategyMatchRow) => void {
     resultEl.className = 'replay-result mdet-result'
     vsEl.style.display = 'block'
     historyWrap.classList.remove('mdet-hidden')
+    h2hWrap.classList.remove('mdet-hidden')
+    h2hBody.innerHTML = '<p class="sprep-no-history">Loading…</p>'
     histA.innerHTML = '<p class="sprep-no-history">Loading…</p>'
     histB.innerHTML = '<p class="sprep-no-history">Loading…</p>'
 
     overlay.classList.add('active')
     startCountdown(match, totalMs)
 
-    const [hist1, hist2] = await Promise.all([
+    const [hist1, hist2, h2h] = await Promise.all([
       fetchHistory(match.agent1_name),
       fetchHistory(match.agent2_name),
+      fetchHeadToHead(match.agent1_name, match.agent2_name),
     ])
 
+    h2hBody.innerHTML = renderHeadToHead(h2h)
     histA.innerHTML = renderHistory(hist1)
     histB.innerHTML = renderHistory(hist2)
   }
@@ -0,0 +1,96 @@
+import { computeAgentStats } from './agent-stats.ts'
+import type { AgentStats, Outcome, StatsRound } from './agent-stats.ts'
+import type { Move, Variant } from './auth.ts'
+import { createServiceClient } from './supabase.ts'
+
+type Supabase = ReturnType<typeof createServiceClient>
+
+// Rounds the stats cover, newest back
+const MAX_ROUNDS = 1000
+
+interface StatsMatch {
+  agent1_id: string
+  agent1_move: Move | null
+  agent2_move: Move | null
+  agent1_used_fallback: boolean
+  agent2_used_fallback: boolean
+  winner_id: string | null
+  wager_amount: number
+  series_settled: boolean
+  series_winner_id: string | null
+  variant: Variant
+  completed_at: string
+}
+
+export interface CachedAgentStats {
+  stats: AgentStats
+  computed_at: string
+}
+
+/**
+ * An agent's play statistics over its last 1,000 resolved 1v1 rounds (see
+ * agent-stats.ts). They are cached in agent_stats_cache with the completion
+ * time of the newest round they cover, and only recomputed once the agent
+ * has finished another round.
+ */
+export async function getAgentStats(supabase: Supabase, agentId: string): Promise<CachedAgentStats> {
+  const rounds = () => supabase
+    .from('matches')
+    .select(
+      'agent1_id, agent1_move, agent2_move, agent1_used_fallback, agent2_used_fallback, ' +
+      'winner_id, wager_amount, series_settled, series_winner_id, variant, completed_at',
+    )
+    .eq('status', 'complete')
+    .eq('match_type', 'duel')
+    .or(`agent1_id.eq.${agentId},agent2_id.eq.${agentId}`)
+    .order('completed_at', { ascending: false })
+
+  const [{ data: newest }, { data: cached }] = await Promise.all([
+    rounds().limit(1).overrideTypes<StatsMatch[], { merge: false }>(),
+    supabase
+      .from('agent_stats_cache')
+      .select('stats, last_match_at, computed_at')
+      .eq('agent_id', agentId)
+      .maybeSingle(),
+  ])
+
+  const lastMatchAt = newest?.[0]?.completed_at ?? null
+
+  if (cached && cached.last_match_at === lastMatchAt) {
+    return { stats: cached.stats as AgentStats, computed_at: cached.computed_at }
+  }
+
+  const { data: rows, error: fetchError } = await rounds()
+    .limit(MAX_ROUNDS)
+    .overrideTypes<StatsMatch[], { merge: false }>()
+
+  if (fetchError) throw new Error(fetchError.message)
+
+  const history: StatsRound[] = (rows ?? [])
+    .reverse()
+    .map((m) => {
+      const isAgent1 = m.agent1_id === agentId
+      const outcome = (winnerId: string | null): Outcome =>
+        winnerId === agentId ? 'win' : winnerId === null ? 'draw' : 'loss'
+      return {
+        variant: m.variant,
+        move: isAgent1 ? m.agent1_move : m.agent2_move,
+        opponent_move: isAgent1 ? m.agent2_move : m.agent1_move,
+        result: outcome(m.winner_id),
+        used_fallback: isAgent1 ? m.agent1_used_fallback : m.agent2_used_fallback,
+        wager: m.wager_amount,
+        settled: m.series_settled ? outcome(m.series_winner_id) : null,
+      }
+    })
+
+  const stats = computeAgentStats(history)
+  const computedAt = new Date().toISOString()
+
+  const { error: cacheError } = await supabase
+    .from('agent_stats_cache')
+    .upsert({ agent_id: agentId, stats, last_match_at: lastMatchAt, computed_at: computedAt })
+
+  if (cacheError) console.error('agent stats cache write failed:', cacheError.message)
+
+  return { stats, computed_at: computedAt }
+}
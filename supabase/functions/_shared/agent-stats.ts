@@ -0,0 +1,156 @@
+// Per-agent play analytics. Pure functions over plain data — no database
+// access — so get-agent-stats can compute them from matches and anything
+// else holding an agent's rounds can reuse them.
+
+import { VALID_MOVES, beats, variantMoves } from './auth.ts'
+import type { Move, Variant } from './auth.ts'
+
+export type Outcome = 'win' | 'loss' | 'draw'
+
+// One resolved round from the agent's side, oldest first. settled is the
+// match (or series) outcome when this round settled it, else null — chips
+// only move then.
+export interface StatsRound {
+  variant: Variant
+  move: Move | null
+  opponent_move: Move | null
+  result: Outcome
+  used_fallback: boolean
+  wager: number
+  settled: Outcome | null
+}
+
+// How often each move was played, as a share of `samples` rounds.
+export interface MoveDistribution {
+  samples: number
+  moves: Partial<Record<Move, number>>
+}
+
+// The best fixed reply to the agent's moves in one variant, and how often
+// it would have won.
+export interface Exploitability {
+  rounds: number
+  best_response: Move
+  win_rate: number
+}
+
+export interface AgentStats {
+  rounds: number
+  move_frequencies: MoveDistribution
+  after_result: Record<Outcome, MoveDistribution>
+  after_opponent_move: Partial<Record<Move, MoveDistribution>>
+  move_entropy: number
+  transition_entropy: number | null
+  fallback_rate: number
+  matches_settled: number
+  avg_wager: number
+  net_chips: number
+  roi: number | null
+  exploitability: Partial<Record<Variant, Exploitability>>
+}
+
+const round3 = (x: number) => Math.round(x * 1000) / 1000
+
+function distribution(moves: Move[]): MoveDistribution {
+  const counts: Partial<Record<Move, number>> = {}
+  for (const m of moves) counts[m] = (counts[m] ?? 0) + 1
+  const shares: Partial<Record<Move, number>> = {}
+  for (const m of VALID_MOVES) {
+    if (counts[m]) shares[m] = round3(counts[m]! / moves.length)
+  }
+  return { samples: moves.length, moves: shares }
+}
+
+/** Shannon entropy of a list of moves, in bits. */
+function entropy(moves: Move[]): number {
+  const counts = new Map<Move, number>()
+  for (const m of moves) counts.set(m, (counts.get(m) ?? 0) + 1)
+  let h = 0
+  for (const n of counts.values()) {
+    const p = n / moves.length
+    h -= p * Math.log2(p)
+  }
+  return h
+}
+
+/**
+ * The agent's statistics over the given rounds, oldest first.
+ *
+ *   after_result / after_opponent_move   the agent's next move, grouped by
+ *       the previous round's result or the opponent's previous move
+ *   transition_entropy   H(next move | previous move) in bits — 0 for a
+ *       fixed cycle, log2(moves) for uniformly random play
+ *   roi   net chips over chips wagered in settled matches and series
+ *   exploitability   per variant, the single move that wins most often
+ *       against the agent's move distribution, and that win rate — 1/3 for
+ *       uniformly random classic play, higher the more predictable it is
+ */
+export function computeAgentStats(rounds: StatsRound[]): AgentStats {
+  const played = rounds.filter((r) => r.move !== null)
+  const moves = played.map((r) => r.move!)
+
+  const afterResult: Record<Outcome, Move[]> = { win: [], loss: [], draw: [] }
+  const afterOpponent: Partial<Record<Move, Move[]>> = {}
+  const afterOwn: Partial<Record<Move, Move[]>> = {}
+
+  for (let i = 1; i < played.length; i++) {
+    const prev = played[i - 1]
+    const next = played[i].move!
+    afterResult[prev.result].push(next)
+    if (prev.opponent_move) (afterOpponent[prev.opponent_move] ??= []).push(next)
+    ;(afterOwn[prev.move!] ??= []).push(next)
+  }
+
+  // Conditional entropy: each previous move's entropy, weighted by how often
+  // it came up.
+  const transitions = Object.values(afterOwn)
+  const transitionCount = transitions.reduce((n, t) => n + t.length, 0)
+  const transitionEntropy = transitionCount
+    ? transitions.reduce((h, t) => h + (t.length / transitionCount) * entropy(t), 0)
+    : null
+
+  const settled = rounds.filter((r) => r.settled !== null)
+  const wagered = settled.reduce((sum, r) => sum + r.wager, 0)
+  const netChips = settled.reduce(
+    (sum, r) => sum + (r.settled === 'win' ? r.wager : r.settled === 'loss' ? -r.wager : 0),
+    0,
+  )
+
+  const exploitability: Partial<Record<Variant, Exploitability>> = {}
+  for (const variant of new Set(played.map((r) => r.variant))) {
+    const theirs = played.filter((r) => r.variant === variant).map((r) => r.move!)
+    let best: Exploitability | null = null
+    for (const reply of variantMoves(variant)) {
+      const wins = theirs.filter((m) => beats(variant, reply, m)).length
+      const winRate = round3(wins / theirs.length)
+      if (!best || winRate > best.win_rate) {
+        best = { rounds: theirs.length, best_response: reply, win_rate: winRate }
+      }
+    }
+    if (best) exploitability[variant] = best
+  }
+
+  const afterOpponentMove: Partial<Record<Move, MoveDistribution>> = {}
+  for (const m of VALID_MOVES) {
+    if (afterOpponent[m]) afterOpponentMove[m] = distribution(afterOpponent[m]!)
+  }
+
+  return {
+    rounds: rounds.length,
+    move_frequencies: distribution(moves),
+    after_result: {
+      win: distribution(afterResult.win),
+      loss: distribution(afterResult.loss),
+      draw: distribution(afterResult.draw),
+    },
+    after_opponent_move: afterOpponentMove,
+    move_entropy: round3(moves.length ? entropy(moves) : 0),
+    transition_entropy: transitionEntropy === null ? null : round3(transitionEntropy),
+    fallback_rate: rounds.length ? round3(rounds.filter((r) => r.used_fallback).length / rounds.length) : 0,
+    matches_settled: settled.length,
+    avg_wager: settled.length ? Math.round((wagered / settled.length) * 10) / 10 : 0,
+    net_chips: netChips,
+    roi: wagered ? round3(netChips / wagered) : null,
+    exploitability,
+  }
+}
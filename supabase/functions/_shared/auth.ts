@@ -13,15 +13,100 @@ export interface Agent {
   user_id: string | null
 }
 
-export type Move = 'rock' | 'paper' | 'scissors'
-export const VALID_MOVES: Move[] = ['rock', 'paper', 'scissors']
+// Game variants and their rule table — mirrors game_moves / game_rules in
+// migration 019, which resolve_match reads. A challenge picks the variant;
+// strategies are not tied to one and may name any move.
+export type Variant = 'classic' | 'rpsls'
+export const VARIANTS: Variant[] = ['classic', 'rpsls']
+
+export type Move = 'rock' | 'paper' | 'scissors' | 'lizard' | 'spock'
+export const VALID_MOVES: Move[] = ['rock', 'paper', 'scissors', 'lizard', 'spock']
+
+// What each move beats, per variant. A variant's moves are its keys.
+export const GAME_RULES: Record<Variant, Partial<Record<Move, Move[]>>> = {
+  classic: {
+    rock: ['scissors'],
+    paper: ['rock'],
+    scissors: ['paper'],
+  },
+  rpsls: {
+    rock: ['scissors', 'lizard'],
+    paper: ['rock', 'spock'],
+    scissors: ['paper', 'lizard'],
+    lizard: ['paper', 'spock'],
+    spock: ['rock', 'scissors'],
+  },
+}
+
+// The variant's moves, in VALID_MOVES order.
+export function variantMoves(variant: Variant): Move[] {
+  return VALID_MOVES.filter((m) => m in GAME_RULES[variant])
+}
+
+export function beats(variant: Variant, move: Move, other: Move): boolean {
+  return GAME_RULES[variant][move]?.includes(other) ?? false
+}
 
 export type Strategy =
   | { type: 'random' }
   | { type: 'always'; move: Move }
   | { type: 'cycle'; sequence: Move[] }
-  | { type: 'weighted'; rock: number; paper: number; scissors: number }
+  | { type: 'weighted'; rock: number; paper: number; scissors: number; lizard?: number; spock?: number }
   | { type: 'counter_last_loss' }
+  | { type: 'markov'; order: number }
+  | { type: 'counter_opponent_last' }
+  | { type: 'counter_opponent_frequency' }
+  | { type: 'win_stay_lose_shift' }
+  | { type: 'streak_breaker'; length: number }
+  | { type: 'rules'; rules: Rule[]; default: Strategy }
+  | { type: 'mixture'; components: MixtureComponent[] }
+
+export const STRATEGY_TYPES: Strategy['type'][] = [
+  'random', 'always', 'cycle', 'weighted', 'counter_last_loss', 'markov',
+  'counter_opponent_last', 'counter_opponent_frequency', 'win_stay_lose_shift',
+  'streak_breaker', 'rules', 'mixture',
+]
+
+// A rules strategy plays the first rule whose conditions all hold, or its
+// default if none do. Rule actions are any non-rules strategy.
+export interface Rule {
+  when: RuleCondition[]
+  then: Strategy
+}
+
+// A mixture samples one component per match, in proportion to its weight.
+// Weights must sum to 1.0.
+export interface MixtureComponent {
+  weight: number
+  strategy: Strategy
+}
+
+export type RuleMetric = 'wager' | 'balance' | 'win_streak' | 'loss_streak'
+export type RuleOp = '<' | '<=' | '>' | '>=' | '='
+
+export type RuleCondition =
+  | { type: 'last_result'; result: 'win' | 'loss' | 'draw' }
+  | { type: 'opponent_last'; move: Move }
+  | { type: 'compare'; metric: RuleMetric; op: RuleOp; value: number }
+
+// Longest opponent-move context a markov strategy may condition on.
+export const MAX_MARKOV_ORDER = 3
+
+// Longest streak a streak_breaker may wait for before reacting.
+export const MAX_STREAK_LENGTH = 10
+
+export const MAX_RULES = 10
+export const MAX_RULE_CONDITIONS = 4
+const RULE_METRICS: RuleMetric[] = ['wager', 'balance', 'win_streak', 'loss_streak']
+const RULE_OPS: RuleOp[] = ['<', '<=', '>', '>=', '=']
+
+export const MAX_MIXTURE_COMPONENTS = 8
+
+// Limits on composite strategies (rules, mixture): how deeply they may nest,
+// counting the top-level strategy as depth 1, and how many strategies the
+// whole tree may contain. Both bound the work done per fallback move.
+export const MAX_STRATEGY_DEPTH = 3
+export const MAX_STRATEGY_NODES = 32
 
 // Hash a string with SHA-256, returning a lowercase hex string.
 export async function sha256(input: string): Promise<string> {
@@ -52,6 +137,27 @@ export async function verifyAgentKey(req: Request): Promise<Agent | null> {
 
 // Validate that a strategy object is well-formed.
 export function validateStrategy(s: unknown): s is Strategy {
+  return isValidStrategy(s, 1) && strategySize(s as Strategy) <= MAX_STRATEGY_NODES
+}
+
+// Number of strategies in the tree, including the root.
+export function strategySize(s: Strategy): number {
+  switch (s.type) {
+    case 'rules':
+      return 1 +
+        s.rules.reduce((n, r) => n + strategySize(r.then), 0) +
+        strategySize(s.default)
+
+    case 'mixture':
+      return 1 + s.components.reduce((n, c) => n + strategySize(c.strategy), 0)
+
+    default:
+      return 1
+  }
+}
+
+function isValidStrategy(s: unknown, depth: number): s is Strategy {
+  if (depth > MAX_STRATEGY_DEPTH) return false
   if (!s || typeof s !== 'object') return false
   const strategy = s as Record<string, unknown>
 
@@ -71,21 +177,107 @@ export function validateStrategy(s: unknown): s is Strategy {
       )
 
     case 'weighted': {
-      const { rock, paper, scissors } = strategy as {
-        rock: unknown; paper: unknown; scissors: unknown
-      }
-      if (
-        typeof rock !== 'number' ||
-        typeof paper !== 'number' ||
-        typeof scissors !== 'number'
-      ) return false
-      const sum = rock + paper + scissors
+      // rock / paper / scissors are required; lizard / spock are optional
+      // and only drawn in rpsls matches.
+      const weights = VALID_MOVES.map((m) => strategy[m] ?? (m === 'lizard' || m === 'spock' ? 0 : undefined))
+      if (!weights.every((w) => typeof w === 'number' && w >= 0)) return false
+      const sum = (weights as number[]).reduce((a, b) => a + b, 0)
       return Math.abs(sum - 1.0) < 0.001
     }
 
     case 'counter_last_loss':
+    case 'counter_opponent_last':
+    case 'counter_opponent_frequency':
+    case 'win_stay_lose_shift':
       return true
 
+    case 'streak_breaker':
+      return (
+        Number.isInteger(strategy.length) &&
+        (strategy.length as number) >= 1 &&
+        (strategy.length as number) <= MAX_STREAK_LENGTH
+      )
+
+    case 'markov':
+      return (
+        Number.isInteger(strategy.order) &&
+        (strategy.order as number) >= 1 &&
+        (strategy.order as number) <= MAX_MARKOV_ORDER
+      )
+
+    case 'rules': {
+      const { rules } = strategy
+      return (
+        Array.isArray(rules) &&
+        rules.length > 0 &&
+        rules.length <= MAX_RULES &&
+        rules.every((r) => validateRule(r, depth)) &&
+        validateRuleAction(strategy.default, depth)
+      )
+    }
+
+    case 'mixture': {
+      const { components } = strategy
+      if (
+        !Array.isArray(components) ||
+        components.length === 0 ||
+        components.length > MAX_MIXTURE_COMPONENTS
+      ) return false
+
+      let sum = 0
+      for (const c of components) {
+        if (!c || typeof c !== 'object') return false
+        const { weight, strategy: sub } = c as Record<string, unknown>
+        if (typeof weight !== 'number' || !(weight > 0)) return false
+        if (!isValidStrategy(sub, depth + 1)) return false
+        sum += weight
+      }
+      return Math.abs(sum - 1.0) < 0.001
+    }
+
+    default:
+      return false
+  }
+}
+
+function validateRule(r: unknown, depth: number): boolean {
+  if (!r || typeof r !== 'object') return false
+  const { when, then } = r as Record<string, unknown>
+  return (
+    Array.isArray(when) &&
+    when.length > 0 &&
+    when.length <= MAX_RULE_CONDITIONS &&
+    when.every(validateRuleCondition) &&
+    validateRuleAction(then, depth)
+  )
+}
+
+// A rule action is any strategy except another rules block directly —
+// further clauses belong in elif.
+function validateRuleAction(s: unknown, depth: number): boolean {
+  return isValidStrategy(s, depth + 1) && s.type !== 'rules'
+}
+
+function validateRuleCondition(c: unknown): boolean {
+  if (!c || typeof c !== 'object') return false
+  const condition = c as Record<string, unknown>
+
+  switch (condition.type) {
+    case 'last_result':
+      return ['win', 'loss', 'draw'].includes(condition.result as string)
+
+    case 'opponent_last':
+      return VALID_MOVES.includes(condition.move as Move)
+
+    case 'compare':
+      return (
+        RULE_METRICS.includes(condition.metric as RuleMetric) &&
+        RULE_OPS.includes(condition.op as RuleOp) &&
+        typeof condition.value === 'number' &&
+        Number.isFinite(condition.value) &&
+        condition.value >= 0
+      )
+
     default:
       return false
   }
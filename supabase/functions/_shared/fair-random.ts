@@ -0,0 +1,36 @@
+import { sha256 } from './auth.ts'
+
+// Provably fair randomness for fallback moves.
+//
+// Every match commits to a random server seed when it is created: the
+// matches row carries server_seed_hash = sha256(server_seed) from the start,
+// and server_seed itself only becomes readable once the match is complete.
+//
+// An agent's fallback draws come from sfc32 seeded with the first four
+// big-endian 32-bit words of sha256(`${server_seed}:${match_id}:${agent_id}`),
+// each draw being the generator output divided by 2^32. Anyone holding the
+// revealed seed can replay them — see the verify-match Edge Function.
+
+export async function seededRandom(
+  serverSeed: string,
+  matchId: string,
+  agentId: string,
+): Promise<() => number> {
+  const digest = await sha256(`${serverSeed}:${matchId}:${agentId}`)
+  const [a, b, c, d] = [0, 1, 2, 3].map((i) => parseInt(digest.slice(i * 8, i * 8 + 8), 16))
+  return sfc32(a, b, c, d)
+}
+
+// Chris Doty-Humphrey's Small Fast Counting generator, 32-bit variant.
+function sfc32(a: number, b: number, c: number, d: number): () => number {
+  return () => {
+    a >>>= 0; b >>>= 0; c >>>= 0; d >>>= 0
+    const t = (((a + b) | 0) + d) | 0
+    d = (d + 1) | 0
+    a = b ^ (b >>> 9)
+    b = (c + (c << 3)) | 0
+    c = (c << 21) | (c >>> 11)
+    c = (c + t) | 0
+    return (t >>> 0) / 4294967296
+  }
+}
@@ -0,0 +1,124 @@
+import type { Strategy, Variant } from './auth.ts'
+import { seededRandom } from './fair-random.ts'
+import { advanceState, computeLockedMove } from './strategy.ts'
+import type { StrategyContext } from './strategy.ts'
+import { createServiceClient } from './supabase.ts'
+
+type Supabase = ReturnType<typeof createServiceClient>
+
+export interface FfaParticipant {
+  agent_id: string
+  agent_name: string
+  seat: number
+  move_hash: string | null
+  move: string | null
+  used_fallback: boolean
+  wins: number
+  losses: number
+  draws: number
+  score: number
+  payout: number
+}
+
+// A participant row with its agent's name embedded
+type ParticipantRow = Omit<FfaParticipant, 'agent_name'> & { agent: { name: string } }
+
+// What settling needs: the participant's strategy snapshot, and their
+// agent's balance, live strategy and state.
+interface SettlingParticipant {
+  agent_id: string
+  move_hash: string | null
+  move: string | null
+  strategy: Strategy
+  agent: {
+    balance: number
+    strategy: Strategy
+    strategy_state: Record<string, unknown>
+  }
+}
+
+/** A free-for-all's participants with their names, by seat. */
+export async function getParticipants(supabase: Supabase, matchId: string): Promise<FfaParticipant[]> {
+  const { data, error } = await supabase
+    .from('match_participants')
+    .select('agent_id, seat, move_hash, move, used_fallback, wins, losses, draws, score, payout, agent:agents(name)')
+    .eq('match_id', matchId)
+    .order('seat', { ascending: true })
+    .overrideTypes<ParticipantRow[], { merge: false }>()
+
+  if (error) throw new Error(error.message)
+
+  return (data ?? []).map(({ agent, ...p }) => ({ ...p, agent_name: agent.name }))
+}
+
+/**
+ * An agent's result in a settled free-for-all: a win if they share the pot,
+ * a draw if everyone does.
+ */
+export function ffaOutcome(participants: FfaParticipant[], agentId: string): 'win' | 'loss' | 'draw' {
+  if (participants.every((p) => p.payout > 0)) return 'draw'
+  return participants.some((p) => p.agent_id === agentId && p.payout > 0) ? 'win' : 'loss'
+}
+
+/**
+ * Settle a free-for-all once every participant has revealed or a deadline
+ * has passed. Anyone without a revealed move plays their strategy's move,
+ * drawn from the match seed like a 1v1 fallback — everyone, if the commit
+ * phase timed out, since an unrevealed commit cannot be checked. There is no
+ * single opponent, so opponent-aware strategies play as they do without
+ * history. Fallback moves come from the strategy each participant locked in
+ * when the match started, not whatever they run now.
+ */
+export async function resolveFfaMatch(
+  supabase: Supabase,
+  match: Record<string, unknown>,
+): Promise<Record<string, unknown>> {
+  const { data: rows, error: fetchError } = await supabase
+    .from('match_participants')
+    .select('agent_id, move_hash, move, strategy, agent:agents(balance, strategy, strategy_state)')
+    .eq('match_id', match.id as string)
+    .overrideTypes<SettlingParticipant[], { merge: false }>()
+
+  if (fetchError) throw new Error(fetchError.message)
+
+  const commitTimedOut = match.status === 'pending'
+  const seed = match.server_seed as string | null
+  const results: Record<string, Record<string, unknown>> = {}
+
+  for (const row of rows ?? []) {
+    const agentId = row.agent_id
+    const agent = row.agent
+
+    const ctx: StrategyContext = {
+      agentId,
+      wager: match.wager_amount as number,
+      balance: agent.balance,
+      random: seed ? await seededRandom(seed, match.id as string, agentId) : undefined,
+      variant: match.variant as Variant,
+    }
+
+    if (row.move !== null) {
+      results[agentId] = {
+        move: row.move,
+        fallback: false,
+        state: await advanceState(agent.strategy, agent.strategy_state, ctx),
+      }
+    } else {
+      const { move, newState } = await computeLockedMove(row.strategy, agent.strategy, agent.strategy_state, ctx)
+      results[agentId] = {
+        move,
+        fallback: commitTimedOut ? row.move_hash === null : true,
+        state: newState,
+      }
+    }
+  }
+
+  const { data: resolved, error: resolveError } = await supabase.rpc('resolve_ffa_match', {
+    p_match_id: match.id,
+    p_results: results,
+  })
+
+  if (resolveError) throw new Error(resolveError.message)
+
+  return resolved as Record<string, unknown>
+}
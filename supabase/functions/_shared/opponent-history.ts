@@ -1,3 +1,5 @@
+import { getAgentStats } from './agent-stats-cache.ts'
+import type { AgentStats } from './agent-stats.ts'
 import { createServiceClient } from './supabase.ts'
 
 export interface RecentMatch {
@@ -13,6 +15,7 @@ export interface OpponentHistory {
   opponent_name: string
   total_reviewed: number
   recent_matches: RecentMatch[]
+  stats: AgentStats | null
 }
 
 /**
@@ -22,21 +25,34 @@ export interface OpponentHistory {
  * Queries the match_feed view which is already filtered to status='complete'.
  * The caller must be an authenticated participant — access control is enforced
  * at the edge-function level before this helper is invoked.
+ *
+ * Pass `before` (an ISO timestamp) to see the history as it stood at that
+ * moment, e.g. when replaying a past match. Pass `stats` to add the
+ * opponent's cached play statistics (see agent-stats-cache.ts); they describe
+ * the opponent now, so they are left out with `before`.
  */
 export async function getOpponentHistory(
   supabase: ReturnType<typeof createServiceClient>,
   opponentId: string,
   opponentName: string,
+  options: { before?: string; stats?: boolean } = {},
 ): Promise<OpponentHistory> {
-  const { data } = await supabase
+  const { before } = options
+  let query = supabase
     .from('match_feed')
     .select(
       'agent1_id, agent2_id, agent1_name, agent2_name, ' +
       'agent1_move, agent2_move, winner_id, wager_amount, completed_at',
     )
     .or(`agent1_id.eq.${opponentId},agent2_id.eq.${opponentId}`)
-    .order('completed_at', { ascending: false })
-    .limit(20)
+  if (before) query = query.lt('completed_at', before)
+
+  const [{ data }, cached] = await Promise.all([
+    query
+      .order('completed_at', { ascending: false })
+      .limit(20),
+    options.stats && !before ? getAgentStats(supabase, opponentId).catch(() => null) : null,
+  ])
 
   const recent_matches: RecentMatch[] = (data ?? []).map(
     (m: Record<string, unknown>) => {
@@ -59,5 +75,6 @@ export async function getOpponentHistory(
     opponent_name: opponentName,
     total_reviewed: recent_matches.length,
     recent_matches,
+    stats: cached?.stats ?? null,
   }
 }
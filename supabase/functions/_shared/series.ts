@@ -0,0 +1,61 @@
+import { createServiceClient } from './supabase.ts'
+
+export interface SeriesRound {
+  match_id: string
+  round: number
+  status: string
+  winner_id: string | null
+}
+
+export interface SeriesSummary {
+  best_of: number
+  wins_needed: number
+  agent1_wins: number
+  agent2_wins: number
+  settled: boolean
+  winner_id: string | null
+  current_match_id: string | null
+  rounds: SeriesRound[]
+}
+
+/**
+ * Summarise the best-of-N series a match belongs to. Rounds share the
+ * challenge_id; the score is read from the latest resolved round, and
+ * current_match_id is the round still being played, if any.
+ *
+ * Returns null for single-game matches (best_of = 1).
+ */
+export async function getSeries(
+  supabase: ReturnType<typeof createServiceClient>,
+  match: Record<string, unknown>,
+): Promise<SeriesSummary | null> {
+  const bestOf = match.best_of as number
+  if (bestOf === 1) return null
+
+  const { data } = await supabase
+    .from('matches')
+    .select('id, round, status, winner_id, agent1_series_wins, agent2_series_wins, series_settled, series_winner_id')
+    .eq('challenge_id', match.challenge_id as string)
+    .order('round', { ascending: true })
+
+  const rows = data ?? []
+  const resolved = rows.filter((r) => r.status === 'complete')
+  const latest = resolved[resolved.length - 1]
+  const current = rows.find((r) => r.status !== 'complete')
+
+  return {
+    best_of: bestOf,
+    wins_needed: Math.floor(bestOf / 2) + 1,
+    agent1_wins: latest?.agent1_series_wins ?? 0,
+    agent2_wins: latest?.agent2_series_wins ?? 0,
+    settled: latest?.series_settled ?? false,
+    winner_id: latest?.series_winner_id ?? null,
+    current_match_id: current?.id ?? null,
+    rounds: rows.map((r) => ({
+      match_id: r.id,
+      round: r.round,
+      status: r.status,
+      winner_id: r.winner_id,
+    })),
+  }
+}
@@ -0,0 +1,566 @@
+/**
+ * Strategy DSL parser and stringifier.
+ *
+ * DSL format (case-insensitive, moves can be full name or r/p/s/l/k shorthand):
+ *
+ *   random
+ *   rock | paper | scissors            → always play this move
+ *   lizard | spock                     → rpsls moves (l/k); a classic match
+ *                                        plays a random move in their place
+ *   cycle <move> [move] ... [move]     → up to 20 moves, repeats
+ *   weighted rock:<n> paper:<n> scissors:<n> [lizard:<n> spock:<n>]
+ *                                      → n = integer %, must sum to 100
+ *   counter                            → counter your last losing opponent move
+ *   markov [order]                     → predict opponents from your history, order 1–3
+ *   counter_opponent_last              → counter this opponent's most recent move
+ *   counter_opponent_frequency         → counter this opponent's most frequent move
+ *   wsls                               → repeat a winning move, else play what beats it
+ *   streak_breaker [n]                 → switch up after n wins or losses in a row, n 1–10
+ *   counter(last_loss | opponent_last | opponent_frequency)  → long form of the counters
+ *
+ * Rules (ordered if/elif clauses with a required else default):
+ *
+ *   if <cond> [and <cond>] then <strategy>
+ *   [elif <cond> [and <cond>] then <strategy>] ...
+ *   else <strategy>
+ *
+ *   <cond> is one of:
+ *     won_last | lost_last | drew_last     → result of your previous match
+ *     opponent_last = <move>               → this opponent's most recent move
+ *     <metric> <op> <n>                    → metric: wager, balance, win_streak, loss_streak
+ *                                            op: <, <=, >, >=, =
+ *   <strategy> is any non-rules strategy above. Up to 10 clauses, 4 conditions each.
+ *
+ * Mixtures (sample one component per match; percentages must sum to 100):
+ *
+ *   mix <n>% <strategy> | <n>% <strategy> ...   → up to 8 components
+ *
+ *   Components may be rules but not further mixtures — nest those as JSON.
+ *
+ * Examples:
+ *   "rock"
+ *   "cycle r p s"
+ *   "cycle rock rock scissors paper rock rock scissors paper rock scissors"
+ *   "weighted rock:60 paper:20 scissors:20"
+ *   "weighted r:20 p:20 s:20 l:20 k:20"
+ *   "counter"
+ *   "markov 2"
+ *   "streak_breaker 3"
+ *   "if lost_last then counter(opponent_last) elif wager>100 then weighted r:50 p:25 s:25 else cycle r p s"
+ *   "if balance >= 200 and balance < 800 then random else rock"
+ *   "mix 70% cycle r p s | 30% random"
+ *
+ * It has no imports, so it runs under Deno and Node alike: the Edge Functions
+ * and the MCP server (which compiles it from here) share this one copy.
+ */
+
+export type Move = 'rock' | 'paper' | 'scissors' | 'lizard' | 'spock'
+
+const MOVES: Move[] = ['rock', 'paper', 'scissors', 'lizard', 'spock']
+
+export type Strategy =
+  | { type: 'random' }
+  | { type: 'always'; move: Move }
+  | { type: 'cycle'; sequence: Move[] }
+  | { type: 'weighted'; rock: number; paper: number; scissors: number; lizard?: number; spock?: number }
+  | { type: 'counter_last_loss' }
+  | { type: 'markov'; order: number }
+  | { type: 'counter_opponent_last' }
+  | { type: 'counter_opponent_frequency' }
+  | { type: 'win_stay_lose_shift' }
+  | { type: 'streak_breaker'; length: number }
+  | { type: 'rules'; rules: Rule[]; default: Strategy }
+  | { type: 'mixture'; components: MixtureComponent[] }
+
+export interface MixtureComponent {
+  weight: number
+  strategy: Strategy
+}
+
+export interface Rule {
+  when: RuleCondition[]
+  then: Strategy
+}
+
+export type RuleMetric = 'wager' | 'balance' | 'win_streak' | 'loss_streak'
+export type RuleOp = '<' | '<=' | '>' | '>=' | '='
+
+export type RuleCondition =
+  | { type: 'last_result'; result: 'win' | 'loss' | 'draw' }
+  | { type: 'opponent_last'; move: Move }
+  | { type: 'compare'; metric: RuleMetric; op: RuleOp; value: number }
+
+export const MAX_CYCLE_LENGTH = 20
+export const MAX_MARKOV_ORDER = 3
+export const MAX_STREAK_LENGTH = 10
+export const MAX_RULES = 10
+export const MAX_RULE_CONDITIONS = 4
+export const MAX_MIXTURE_COMPONENTS = 8
+
+const RULE_KEYWORDS = ['if', 'elif', 'else', 'then']
+const RULE_METRICS: RuleMetric[] = ['wager', 'balance', 'win_streak', 'loss_streak']
+const RULE_OPS: RuleOp[] = ['<', '<=', '>', '>=', '=']
+
+const LAST_RESULTS: Record<string, 'win' | 'loss' | 'draw'> = {
+  won_last: 'win', lost_last: 'loss', drew_last: 'draw',
+}
+
+const COUNTER_TARGETS = {
+  last_loss: 'counter_last_loss',
+  opponent_last: 'counter_opponent_last',
+  opponent_frequency: 'counter_opponent_frequency',
+} as const
+
+// k for spock, since s is taken by scissors.
+const MOVE_ALIASES: Record<string, Move> = {
+  r: 'rock',    rock: 'rock',
+  p: 'paper',   paper: 'paper',
+  s: 'scissors', scissors: 'scissors',
+  l: 'lizard',  lizard: 'lizard',
+  k: 'spock',   spock: 'spock',
+}
+
+function toMove(token: string): Move {
+  const move = MOVE_ALIASES[token.toLowerCase()]
+  if (!move) throw new Error(
+    `"${token}" is not a valid move — use rock/paper/scissors/lizard/spock (or r/p/s/l/k)`
+  )
+  return move
+}
+
+/** Parse a DSL string into a Strategy object. */
+export function parse(dsl: string): Strategy {
+  // Pad comparison operators and the mixture separator so "wager>100" and
+  // "wager > 100" tokenize alike.
+  const tokens = dsl
+    .trim()
+    .toLowerCase()
+    .replace(/(<=|>=|==|<|>|=|\|)/g, ' $1 ')
+    .split(/\s+/)
+    .filter(Boolean)
+
+  if (tokens.length === 0) throw new Error('Strategy cannot be empty')
+
+  return parseTokens(tokens)
+}
+
+function parseTokens(tokens: string[]): Strategy {
+  if (tokens[0] === 'if') return parseRules(tokens)
+  if (tokens[0] === 'mix') return parseMixture(tokens)
+
+  const stray = tokens.find((t) => RULE_KEYWORDS.includes(t))
+  if (stray) throw new Error(`Unexpected "${stray}" — rules must start with "if"`)
+
+  return parseSimple(tokens)
+}
+
+// Parse any strategy other than rules and mixtures.
+function parseSimple(tokens: string[]): Strategy {
+  const [first, ...rest] = tokens
+
+  // random
+  if (first === 'random') {
+    if (rest.length) throw new Error('"random" takes no arguments')
+    return { type: 'random' }
+  }
+
+  // counter / counter_last_loss
+  if (first === 'counter' || first === 'counter_last_loss') {
+    if (rest.length) throw new Error('"counter" takes no arguments')
+    return { type: 'counter_last_loss' }
+  }
+
+  // counter(<target>)
+  const counterCall = first.match(/^counter\((\w+)\)$/)
+  if (counterCall) {
+    if (rest.length) throw new Error(`"${first}" takes no arguments`)
+    const target = counterCall[1]
+    if (!(target in COUNTER_TARGETS)) throw new Error(
+      `Unknown counter target "${target}" — use ` +
+      Object.keys(COUNTER_TARGETS).map((t) => `counter(${t})`).join(', ')
+    )
+    return { type: COUNTER_TARGETS[target as keyof typeof COUNTER_TARGETS] }
+  }
+
+  // counter_opponent_last / counter_opponent_frequency
+  if (first === 'counter_opponent_last' || first === 'counter_opponent_frequency') {
+    if (rest.length) throw new Error(`"${first}" takes no arguments`)
+    return { type: first }
+  }
+
+  // wsls / win_stay_lose_shift
+  if (first === 'wsls' || first === 'win_stay_lose_shift') {
+    if (rest.length) throw new Error(`"${first}" takes no arguments`)
+    return { type: 'win_stay_lose_shift' }
+  }
+
+  // streak_breaker [length]
+  if (first === 'streak_breaker') {
+    if (rest.length > 1) throw new Error('"streak_breaker" takes at most one argument (the streak length)')
+    const length = rest.length ? Number(rest[0]) : 3
+    if (!Number.isInteger(length) || length < 1 || length > MAX_STREAK_LENGTH) {
+      throw new Error(
+        `Invalid streak length "${rest[0]}" — must be an integer from 1 to ${MAX_STREAK_LENGTH}`
+      )
+    }
+    return { type: 'streak_breaker', length }
+  }
+
+  // markov [order]
+  if (first === 'markov') {
+    if (rest.length > 1) throw new Error('"markov" takes at most one argument (the order)')
+    const order = rest.length ? Number(rest[0]) : 1
+    if (!Number.isInteger(order) || order < 1 || order > MAX_MARKOV_ORDER) {
+      throw new Error(
+        `Invalid markov order "${rest[0]}" — must be an integer from 1 to ${MAX_MARKOV_ORDER}`
+      )
+    }
+    return { type: 'markov', order }
+  }
+
+  // Single bare move: "rock" → always rock
+  if (first in MOVE_ALIASES && rest.length === 0) {
+    return { type: 'always', move: toMove(first) }
+  }
+
+  // always <move>: explicit form
+  if (first === 'always') {
+    if (rest.length !== 1) throw new Error('"always" requires exactly one move')
+    return { type: 'always', move: toMove(rest[0]) }
+  }
+
+  // cycle <move> [move] ...
+  if (first === 'cycle') {
+    if (rest.length === 0) throw new Error('"cycle" requires at least one move')
+    if (rest.length > MAX_CYCLE_LENGTH) {
+      throw new Error(
+        `Cycle sequence is ${rest.length} moves — maximum is ${MAX_CYCLE_LENGTH}`
+      )
+    }
+    return { type: 'cycle', sequence: rest.map(toMove) }
+  }
+
+  // weighted rock:<n> paper:<n> scissors:<n> [lizard:<n> spock:<n>]
+  if (first === 'weighted') {
+    if (rest.length === 0) throw new Error(
+      '"weighted" requires move:percentage pairs, e.g. rock:60 paper:20 scissors:20'
+    )
+
+    const weights: Partial<Record<Move, number>> = {}
+
+    for (const token of rest) {
+      const colonIdx = token.lastIndexOf(':')
+      if (colonIdx === -1) throw new Error(
+        `Expected "move:percentage" but got "${token}"`
+      )
+
+      const movePart = token.slice(0, colonIdx)
+      const pctPart  = token.slice(colonIdx + 1)
+      const move     = toMove(movePart)
+      const pct      = Number(pctPart)
+
+      if (!Number.isFinite(pct) || pct < 0 || pct > 100) throw new Error(
+        `Invalid percentage for ${move}: "${pctPart}" (must be 0–100)`
+      )
+      if (move in weights) throw new Error(`Duplicate move in weighted: "${move}"`)
+
+      weights[move] = pct
+    }
+
+    const total = MOVES.reduce((sum, m) => sum + (weights[m] ?? 0), 0)
+
+    if (Math.abs(total - 100) > 0.5) {
+      throw new Error(
+        `Weights must sum to 100 — got ${total} ` +
+        `(${MOVES.filter((m) => m in weights).map((m) => `${m}:${weights[m]}`).join(' ')})`
+      )
+    }
+
+    // lizard / spock are only written out when used, so classic strategies
+    // keep their old shape.
+    return {
+      type: 'weighted',
+      rock:     (weights.rock     ?? 0) / 100,
+      paper:    (weights.paper    ?? 0) / 100,
+      scissors: (weights.scissors ?? 0) / 100,
+      ...(weights.lizard !== undefined ? { lizard: weights.lizard / 100 } : {}),
+      ...(weights.spock  !== undefined ? { spock:  weights.spock  / 100 } : {}),
+    }
+  }
+
+  throw new Error(
+    `Unknown strategy "${first}" — valid types: random, rock, paper, scissors, lizard, spock, ` +
+    `always, cycle, weighted, counter, markov, counter_opponent_last, ` +
+    `counter_opponent_frequency, wsls, streak_breaker, if … then … else …`
+  )
+}
+
+// if <cond> then <strategy> [elif <cond> then <strategy>]... else <strategy>
+function parseRules(tokens: string[]): Strategy {
+  const rules: Rule[] = []
+  let i = 0
+
+  while (tokens[i] !== 'else') {
+    const clause = rules.length + 1
+    const keyword = clause === 1 ? 'if' : 'elif'
+
+    if (clause > MAX_RULES) {
+      throw new Error(`Too many clauses — maximum is ${MAX_RULES} before "else"`)
+    }
+
+    const thenIdx = tokens.indexOf('then', i + 1)
+    const condTokens = tokens.slice(i + 1, thenIdx === -1 ? tokens.length : thenIdx)
+    const strayInCond = condTokens.find((t) => RULE_KEYWORDS.includes(t))
+    if (thenIdx === -1 || strayInCond) {
+      throw new Error(
+        `Clause ${clause} ("${keyword}"): expected "then" after the condition` +
+        (strayInCond ? `, got "${strayInCond}"` : '')
+      )
+    }
+
+    let next = thenIdx + 1
+    while (next < tokens.length && !RULE_KEYWORDS.includes(tokens[next])) next++
+
+    if (tokens[next] === 'if') throw new Error(
+      `Clause ${clause}: rules cannot be nested — use "elif" for further clauses`
+    )
+
+    rules.push({
+      when: parseConditions(condTokens, clause),
+      then: parseAction(tokens.slice(thenIdx + 1, next), `Clause ${clause}`),
+    })
+
+    if (next === tokens.length) {
+      throw new Error(
+        'Rules must end with "else <strategy>" — the default when no condition matches'
+      )
+    }
+    if (tokens[next] !== 'elif' && tokens[next] !== 'else') {
+      throw new Error(
+        `Clause ${clause}: unexpected "${tokens[next]}" after the strategy — ` +
+        'start the next clause with "elif" or finish with "else"'
+      )
+    }
+    i = next
+  }
+
+  const defaultTokens = tokens.slice(i + 1)
+  const strayAfterElse = defaultTokens.find((t) => RULE_KEYWORDS.includes(t))
+  if (strayAfterElse) {
+    throw new Error(`"else" must be the last clause — found "${strayAfterElse}" after it`)
+  }
+
+  return { type: 'rules', rules, default: parseAction(defaultTokens, '"else"') }
+}
+
+function parseConditions(tokens: string[], clause: number): RuleCondition[] {
+  if (tokens.length === 0) throw new Error(`Clause ${clause}: missing condition`)
+
+  const groups: string[][] = [[]]
+  for (const token of tokens) {
+    if (token === 'and') groups.push([])
+    else groups[groups.length - 1].push(token)
+  }
+
+  if (groups.length > MAX_RULE_CONDITIONS) throw new Error(
+    `Clause ${clause}: ${groups.length} conditions — maximum is ${MAX_RULE_CONDITIONS}`
+  )
+
+  return groups.map((g) => parseCondition(g, clause))
+}
+
+function parseCondition(tokens: string[], clause: number): RuleCondition {
+  const text = tokens.join(' ')
+  if (tokens.length === 0) throw new Error(`Clause ${clause}: empty condition around "and"`)
+
+  if (tokens.length === 1 && tokens[0] in LAST_RESULTS) {
+    return { type: 'last_result', result: LAST_RESULTS[tokens[0]] }
+  }
+
+  if (tokens.length === 3) {
+    const [subject, rawOp, rawValue] = tokens
+    const op = (rawOp === '==' ? '=' : rawOp) as RuleOp
+
+    if (subject === 'opponent_last') {
+      if (op !== '=') throw new Error(
+        `Clause ${clause}: opponent_last only supports "=", e.g. "opponent_last = rock"`
+      )
+      return { type: 'opponent_last', move: toMove(rawValue) }
+    }
+
+    if (RULE_METRICS.includes(subject as RuleMetric)) {
+      if (!RULE_OPS.includes(op)) throw new Error(
+        `Clause ${clause}: unknown operator "${rawOp}" — use ${RULE_OPS.join(' ')}`
+      )
+      const value = Number(rawValue)
+      if (!Number.isFinite(value) || value < 0) throw new Error(
+        `Clause ${clause}: "${rawValue}" is not a valid ${subject} — must be a number ≥ 0`
+      )
+      return { type: 'compare', metric: subject as RuleMetric, op, value }
+    }
+  }
+
+  throw new Error(
+    `Clause ${clause}: unknown condition "${text}" — use won_last, lost_last, drew_last, ` +
+    `opponent_last = <move>, or <${RULE_METRICS.join('|')}> <op> <number>`
+  )
+}
+
+function parseAction(tokens: string[], where: string): Strategy {
+  if (tokens.length === 0) throw new Error(`${where}: missing strategy`)
+
+  try {
+    return tokens[0] === 'mix' ? parseMixture(tokens) : parseSimple(tokens)
+  } catch (e) {
+    throw new Error(`${where}: ${e instanceof Error ? e.message : String(e)}`)
+  }
+}
+
+// mix <n>% <strategy> | <n>% <strategy> ...
+function parseMixture(tokens: string[]): Strategy {
+  const groups: string[][] = [[]]
+  for (const token of tokens.slice(1)) {
+    if (token === '|') groups.push([])
+    else groups[groups.length - 1].push(token)
+  }
+
+  if (groups.length > MAX_MIXTURE_COMPONENTS) throw new Error(
+    `Mixture has ${groups.length} components — maximum is ${MAX_MIXTURE_COMPONENTS}`
+  )
+
+  const components = groups.map((group, i): MixtureComponent => {
+    const where = `Mixture component ${i + 1}`
+    const [pctToken, ...rest] = group
+    const pct = pctToken?.match(/^(\d+(?:\.\d+)?)%$/)
+
+    if (!pct) throw new Error(
+      `${where}: expected "<n>% <strategy>" but got "${group.join(' ')}"`
+    )
+    if (rest.length === 0) throw new Error(`${where}: missing strategy after ${pctToken}`)
+    if (rest.includes('mix')) throw new Error(
+      `${where}: mixtures cannot be nested in the DSL — pass a strategy object instead`
+    )
+
+    const weight = Number(pct[1])
+    if (weight <= 0 || weight > 100) throw new Error(
+      `${where}: percentage must be greater than 0 and at most 100`
+    )
+
+    try {
+      return { weight: weight / 100, strategy: parseTokens(rest) }
+    } catch (e) {
+      throw new Error(`${where}: ${e instanceof Error ? e.message : String(e)}`)
+    }
+  })
+
+  const total = components.reduce((n, c) => n + c.weight * 100, 0)
+  if (Math.abs(total - 100) > 0.5) throw new Error(
+    `Mixture percentages must sum to 100 — got ${total}`
+  )
+
+  return { type: 'mixture', components }
+}
+
+function stringifyCondition(c: RuleCondition): string {
+  switch (c.type) {
+    case 'last_result':
+      return { win: 'won_last', loss: 'lost_last', draw: 'drew_last' }[c.result]
+
+    case 'opponent_last':
+      return `opponent_last = ${c.move}`
+
+    case 'compare':
+      return `${c.metric} ${c.op} ${c.value}`
+  }
+}
+
+/** Stringify a Strategy object back into a readable DSL string. */
+export function stringify(strategy: Strategy): string {
+  switch (strategy.type) {
+    case 'random':
+      return 'random'
+
+    case 'always':
+      return strategy.move
+
+    case 'cycle':
+      return `cycle ${strategy.sequence.join(' ')}`
+
+    case 'weighted':
+      return 'weighted ' + MOVES
+        .filter((m) => strategy[m] !== undefined)
+        .map((m) => `${m}:${Math.round(strategy[m]! * 100)}`)
+        .join(' ')
+
+    case 'counter_last_loss':
+      return 'counter'
+
+    case 'markov':
+      return `markov ${strategy.order}`
+
+    case 'counter_opponent_last':
+    case 'counter_opponent_frequency':
+      return strategy.type
+
+    case 'win_stay_lose_shift':
+      return 'wsls'
+
+    case 'streak_breaker':
+      return `streak_breaker ${strategy.length}`
+
+    case 'rules':
+      return [
+        ...strategy.rules.map((r, i) =>
+          `${i === 0 ? 'if' : 'elif'} ${r.when.map(stringifyCondition).join(' and ')} ` +
+          `then ${stringify(r.then)}`
+        ),
+        `else ${stringify(strategy.default)}`,
+      ].join(' ')
+
+    case 'mixture':
+      return 'mix ' + strategy.components
+        .map((c) => `${Math.round(c.weight * 100)}% ${stringify(c.strategy)}`)
+        .join(' | ')
+
+    default: {
+      const _exhaustive: never = strategy
+      return _exhaustive
+    }
+  }
+}
+
+/**
+ * Accept either a DSL string or a raw Strategy object.
+ * Throws a descriptive error if parsing fails.
+ */
+export function coerce(input: unknown): Strategy {
+  if (typeof input === 'string') {
+    try {
+      return parse(input)
+    } catch (e) {
+      throw new Error(
+        `Invalid strategy DSL: ${e instanceof Error ? e.message : String(e)}\n\n` +
+        `Valid formats:\n` +
+        `  random\n` +
+        `  rock | paper | scissors | lizard | spock\n` +
+        `  cycle rock paper scissors rock rock  (up to ${MAX_CYCLE_LENGTH} moves)\n` +
+        `  weighted rock:60 paper:20 scissors:20  (add lizard:<n> spock:<n> for rpsls)\n` +
+        `  counter\n` +
+        `  markov 2  (order 1–${MAX_MARKOV_ORDER})\n` +
+        `  counter_opponent_last\n` +
+        `  counter_opponent_frequency\n` +
+        `  wsls\n` +
+        `  streak_breaker 3  (streak length 1–${MAX_STREAK_LENGTH})\n` +
+        `  if lost_last then counter(opponent_last) elif wager > 100 then rock else cycle r p s\n` +
+        `  mix 70% cycle r p s | 30% random`
+      )
+    }
+  }
+
+  if (input && typeof input === 'object') {
+    // Assume it's already a valid Strategy object — the Edge Function validates it.
+    return input as Strategy
+  }
+
+  throw new Error('strategy must be a DSL string or a strategy object')
+}
@@ -1,5 +1,7 @@
-import type { Move, Strategy } from './auth.ts'
-import { VALID_MOVES } from './auth.ts'
+import type { Move, RuleCondition, Strategy, Variant } from './auth.ts'
+import { VALID_MOVES, beats, variantMoves } from './auth.ts'
+import type { OpponentHistory } from './opponent-history.ts'
+import { getOpponentHistory } from './opponent-history.ts'
 import { createServiceClient } from './supabase.ts'
 
 export interface MoveResult {
@@ -7,19 +9,115 @@ export interface MoveResult {
   newState: Record<string, unknown>
 }
 
+// Who the acting agent is playing, for strategies that read the opponent.
+export interface OpponentContext {
+  id: string
+  history: OpponentHistory
+}
+
+type MatchResult = 'win' | 'loss' | 'draw'
+
+// The agent's previous match, recorded under strategy_state.last_match by
+// resolve_match. lost_to carries over from the most recent loss.
+export interface LastMatch {
+  result: MatchResult
+  move: Move
+  opponent_move: Move
+  streak: number
+  lost_to: Move | null
+}
+
+// Everything a strategy may look at besides its own state.
+//   agentId   — the acting agent; needed by strategies that query their history
+//   opponent  — see loadOpponentContext; needed by opponent-aware strategies
+//   wager     — the match wager
+//   balance   — the acting agent's balance, excluding the escrowed wager
+//   lastMatch — read from the top-level strategy_state if not given, so
+//               sub-strategies of rules and mixtures can see it too
+//   asOf      — ISO timestamp; history queries ignore matches completed at or
+//               after it (used when replaying past matches)
+//   opponentMoves — moves opponents played against the agent, oldest first;
+//               markov queries the agent's match history when this is omitted
+//   random    — source of every random draw; pass seededRandom (fair-random.ts)
+//               for fallback moves so they can be verified. Math.random otherwise.
+//   variant   — the match's game variant (default classic). A move the variant
+//               does not have is replaced by a random move of the variant.
+export interface StrategyContext {
+  agentId?: string
+  opponent?: OpponentContext
+  wager?: number
+  balance?: number
+  lastMatch?: LastMatch
+  asOf?: string
+  opponentMoves?: Move[]
+  random?: () => number
+  variant?: Variant
+}
+
+// What a rules strategy's conditions are evaluated against.
+interface RuleFacts {
+  lastResult: MatchResult | null
+  winStreak: number
+  lossStreak: number
+  opponentLast: Move | null
+  wager?: number
+  balance?: number
+}
+
+// How many completed matches a markov strategy learns from.
+export const MARKOV_HISTORY = 100
+
+function randomMove(random: () => number, variant: Variant): Move {
+  const moves = variantMoves(variant)
+  return moves[Math.floor(random() * moves.length)]
+}
+
+// A move that beats the given one. Classic has exactly one; in rpsls two
+// moves beat each move and one is drawn at random. A move the variant does
+// not have gets a random move.
+function counterMove(move: Move, random: () => number, variant: Variant): Move {
+  const counters = variantMoves(variant).filter((m) => beats(variant, m, move))
+  if (counters.length === 0) return randomMove(random, variant)
+  return counters.length === 1 ? counters[0] : counters[Math.floor(random() * counters.length)]
+}
+
+function zeroCounts(): Record<Move, number> {
+  return Object.fromEntries(VALID_MOVES.map((m) => [m, 0])) as Record<Move, number>
+}
+
 // Compute the next move for a given strategy and current state.
-// For counter_last_loss, pass the agentId so we can look up their last loss.
+// For counter_last_loss and markov, pass the agentId so we can look up
+// their match history. For the counter_opponent_* strategies (and rules
+// that read the opponent), pass the opponent context.
 export async function computeMove(
   strategy: Strategy,
   state: Record<string, unknown>,
-  agentId?: string,
+  ctx: StrategyContext = {},
+): Promise<MoveResult> {
+  const variant = ctx.variant ?? 'classic'
+  const result = await pickMove(strategy, state, ctx)
+
+  if (!variantMoves(variant).includes(result.move)) {
+    return { ...result, move: randomMove(ctx.random ?? Math.random, variant) }
+  }
+  return result
+}
+
+async function pickMove(
+  strategy: Strategy,
+  state: Record<string, unknown>,
+  ctx: StrategyContext,
 ): Promise<MoveResult> {
+  if (!ctx.lastMatch && state.last_match) {
+    ctx = { ...ctx, lastMatch: state.last_match as LastMatch }
+  }
+  const { agentId, opponent, lastMatch, asOf } = ctx
+  const random = ctx.random ?? Math.random
+  const variant = ctx.variant ?? 'classic'
+
   switch (strategy.type) {
     case 'random':
-      return {
-        move: VALID_MOVES[Math.floor(Math.random() * 3)],
-        newState: state,
-      }
+      return { move: randomMove(random, variant), newState: state }
 
     case 'always':
       return { move: strategy.move, newState: state }
@@ -34,33 +132,38 @@ export async function computeMove(
     }
 
     case 'weighted': {
-      const rand = Math.random()
-      let move: Move
-      if (rand < strategy.rock) move = 'rock'
-      else if (rand < strategy.rock + strategy.paper) move = 'paper'
-      else move = 'scissors'
+      // Only the variant's moves are drawn, scaled up to a total of 1.
+      const moves = variantMoves(variant)
+      const total = moves.reduce((sum, m) => sum + (strategy[m] ?? 0), 0)
+      if (total <= 0) return { move: randomMove(random, variant), newState: state }
+
+      const rand = random() * total
+      let move = moves[moves.length - 1]
+      let cumulative = 0
+      for (const m of moves) {
+        cumulative += strategy[m] ?? 0
+        if (rand < cumulative) { move = m; break }
+      }
       return { move, newState: state }
     }
 
     case 'counter_last_loss': {
-      const counters: Record<Move, Move> = {
-        rock: 'paper',
-        paper: 'scissors',
-        scissors: 'rock',
-      }
+      let lastLostTo: Move | null = lastMatch?.lost_to ?? null
 
-      let lastLostTo: Move | null = null
-
-      if (agentId) {
+      // Agents whose state predates last_match recording have no lost_to yet.
+      if (!lastLostTo && agentId) {
         const supabase = createServiceClient()
         // Find the most recent match this agent lost and what beat them.
-        const { data } = await supabase
+        let query = supabase
           .from('matches')
           .select('agent1_id, agent2_id, agent1_move, agent2_move, winner_id')
           .neq('winner_id', agentId)          // they lost (winner was opponent)
           .not('winner_id', 'is', null)        // not a draw
           .or(`agent1_id.eq.${agentId},agent2_id.eq.${agentId}`)
           .eq('status', 'complete')
+        if (asOf) query = query.lt('completed_at', asOf)
+
+        const { data } = await query
           .order('completed_at', { ascending: false })
           .limit(1)
           .single()
@@ -73,13 +176,252 @@ export async function computeMove(
         }
       }
 
-      const move = lastLostTo
-        ? counters[lastLostTo]
-        : VALID_MOVES[Math.floor(Math.random() * 3)]
+      const move = lastLostTo ? counterMove(lastLostTo, random, variant) : randomMove(random, variant)
+
+      return { move, newState: state }
+    }
+
+    case 'markov': {
+      const opponentMoves = ctx.opponentMoves ??
+        (agentId ? await fetchOpponentMoves(agentId, asOf) : [])
+      const predicted = predictNextMove(opponentMoves, strategy.order, random)
+      const move = predicted ? counterMove(predicted, random, variant) : randomMove(random, variant)
+
+      return { move, newState: state }
+    }
+
+    case 'counter_opponent_last': {
+      const lastMove = opponent?.history.recent_matches
+        .find((m) => m.their_move !== null)?.their_move as Move | undefined
+      const move = lastMove ? counterMove(lastMove, random, variant) : randomMove(random, variant)
+
+      return { move, newState: state }
+    }
+
+    case 'counter_opponent_frequency': {
+      const counts = zeroCounts()
+      for (const m of opponent?.history.recent_matches ?? []) {
+        if (m.their_move) counts[m.their_move as Move]++
+      }
+
+      const best = Math.max(...VALID_MOVES.map((m) => counts[m]))
+      const favourites = VALID_MOVES.filter((m) => counts[m] === best)
+      const move = best > 0
+        ? counterMove(favourites[Math.floor(random() * favourites.length)], random, variant)
+        : randomMove(random, variant)
+
+      return { move, newState: state }
+    }
+
+    case 'win_stay_lose_shift': {
+      // Repeat a winning move; otherwise shift to the move that beats it.
+      const move = !lastMatch
+        ? randomMove(random, variant)
+        : lastMatch.result === 'win'
+          ? lastMatch.move
+          : counterMove(lastMatch.move, random, variant)
+
+      return { move, newState: state }
+    }
+
+    case 'streak_breaker': {
+      // Play randomly until a streak reaches the threshold, then assume the
+      // opponent has adapted: on a win streak, beat the counter to our
+      // winning move; on a losing streak, beat the move that keeps winning.
+      let move: Move | null = null
+      if (lastMatch && lastMatch.streak >= strategy.length) {
+        if (lastMatch.result === 'win') {
+          move = counterMove(counterMove(lastMatch.move, random, variant), random, variant)
+        }
+        if (lastMatch.result === 'loss') move = counterMove(lastMatch.opponent_move, random, variant)
+      }
+      move ??= randomMove(random, variant)
 
       return { move, newState: state }
     }
+
+    case 'rules': {
+      // Each branch keeps its own state slot so e.g. a cycle action only
+      // advances on the matches where its rule fired.
+      const facts = gatherRuleFacts(ctx)
+      const index = strategy.rules.findIndex((r) =>
+        r.when.every((c) => conditionHolds(c, facts))
+      )
+      const slot = index === -1 ? 'default' : String(index)
+      const branch = index === -1 ? strategy.default : strategy.rules[index].then
+      const slotState = (state[slot] ?? {}) as Record<string, unknown>
+
+      const result = await computeMove(branch, slotState, ctx)
+      return { move: result.move, newState: { ...state, [slot]: result.newState } }
+    }
+
+    case 'mixture': {
+      // Only the sampled component advances, in its own state slot, so a
+      // cycle component resumes where it left off the next time it is drawn.
+      const rand = random()
+      let index = strategy.components.length - 1
+      let cumulative = 0
+      for (let i = 0; i < strategy.components.length; i++) {
+        cumulative += strategy.components[i].weight
+        if (rand < cumulative) { index = i; break }
+      }
+
+      const slot = String(index)
+      const slotState = (state[slot] ?? {}) as Record<string, unknown>
+      const result = await computeMove(strategy.components[index].strategy, slotState, ctx)
+      return { move: result.move, newState: { ...state, [slot]: result.newState } }
+    }
+  }
+}
+
+// True if the strategy reads the current opponent's history.
+export function usesOpponentHistory(strategy: Strategy): boolean {
+  switch (strategy.type) {
+    case 'counter_opponent_last':
+    case 'counter_opponent_frequency':
+      return true
+
+    case 'rules':
+      return (
+        strategy.rules.some((r) =>
+          r.when.some((c) => c.type === 'opponent_last') ||
+          usesOpponentHistory(r.then)
+        ) ||
+        usesOpponentHistory(strategy.default)
+      )
+
+    case 'mixture':
+      return strategy.components.some((c) => usesOpponentHistory(c.strategy))
+
+    default:
+      return false
+  }
+}
+
+// True if the strategy's move depends on nothing but the strategy itself and
+// its random draws, so it can be recomputed from a match's revealed seed.
+export function isReplayableFromSeed(strategy: Strategy): boolean {
+  switch (strategy.type) {
+    case 'random':
+    case 'always':
+    case 'weighted':
+      return true
+
+    case 'mixture':
+      return strategy.components.every((c) => isReplayableFromSeed(c.strategy))
+
+    default:
+      return false
+  }
+}
+
+// Build the opponent context for an agent's strategy. Returns undefined
+// without querying when the strategy never looks at the opponent.
+// Pass asOf to load the opponent's history as it stood at that moment.
+export async function loadOpponentContext(
+  strategy: Strategy,
+  opponentId: string,
+  opponentName: string,
+  asOf?: string,
+): Promise<OpponentContext | undefined> {
+  if (!usesOpponentHistory(strategy)) return undefined
+
+  const supabase = createServiceClient()
+  const history = await getOpponentHistory(supabase, opponentId, opponentName, { before: asOf })
+  return { id: opponentId, history }
+}
+
+// Moves the agent's opponents played against them, oldest first.
+async function fetchOpponentMoves(agentId: string, asOf?: string): Promise<Move[]> {
+  const supabase = createServiceClient()
+  let query = supabase
+    .from('matches')
+    .select('agent1_id, agent1_move, agent2_move')
+    .or(`agent1_id.eq.${agentId},agent2_id.eq.${agentId}`)
+    .eq('status', 'complete')
+  if (asOf) query = query.lt('completed_at', asOf)
+
+  const { data } = await query
+    .order('completed_at', { ascending: false })
+    .limit(MARKOV_HISTORY)
+
+  return (data ?? [])
+    .map((m) => (m.agent1_id === agentId ? m.agent2_move : m.agent1_move) as Move)
+    .reverse()
+}
+
+function gatherRuleFacts(ctx: StrategyContext): RuleFacts {
+  const lastResult = ctx.lastMatch?.result ?? null
+  const streak = ctx.lastMatch?.streak ?? 0
+
+  const opponentLast = ctx.opponent?.history.recent_matches
+    .find((m) => m.their_move !== null)?.their_move as Move | undefined
+
+  return {
+    lastResult,
+    winStreak: lastResult === 'win' ? streak : 0,
+    lossStreak: lastResult === 'loss' ? streak : 0,
+    opponentLast: opponentLast ?? null,
+    wager: ctx.wager,
+    balance: ctx.balance,
+  }
+}
+
+function conditionHolds(c: RuleCondition, facts: RuleFacts): boolean {
+  switch (c.type) {
+    case 'last_result':
+      return facts.lastResult === c.result
+
+    case 'opponent_last':
+      return facts.opponentLast === c.move
+
+    case 'compare': {
+      const actual = {
+        wager: facts.wager,
+        balance: facts.balance,
+        win_streak: facts.winStreak,
+        loss_streak: facts.lossStreak,
+      }[c.metric]
+      if (actual === undefined) return false
+
+      switch (c.op) {
+        case '<':  return actual <  c.value
+        case '<=': return actual <= c.value
+        case '>':  return actual >  c.value
+        case '>=': return actual >= c.value
+        case '=':  return actual === c.value
+      }
+    }
+  }
+}
+
+// Predict the next move in a sequence from an order-N transition table.
+// If the current N-move context has never been seen before, back off to
+// a shorter context. Returns null when there is nothing to learn from.
+export function predictNextMove(
+  history: Move[],
+  order: number,
+  random: () => number = Math.random,
+): Move | null {
+  for (let n = Math.min(order, history.length - 1); n >= 1; n--) {
+    const context = history.slice(-n).join(',')
+    const counts = zeroCounts()
+    let seen = 0
+
+    for (let i = n; i < history.length; i++) {
+      if (history.slice(i - n, i).join(',') !== context) continue
+      counts[history[i]]++
+      seen++
+    }
+
+    if (seen === 0) continue
+
+    const best = Math.max(...VALID_MOVES.map((m) => counts[m]))
+    const candidates = VALID_MOVES.filter((m) => counts[m] === best)
+    return candidates[Math.floor(random() * candidates.length)]
   }
+
+  return null
 }
 
 // Advance strategy state without using the computed move.
@@ -88,8 +430,25 @@ export async function computeMove(
 export async function advanceState(
   strategy: Strategy,
   state: Record<string, unknown>,
-  agentId?: string,
+  ctx: StrategyContext = {},
 ): Promise<Record<string, unknown>> {
-  const result = await computeMove(strategy, state, agentId)
+  const result = await computeMove(strategy, state, ctx)
   return result.newState
 }
+
+// A fallback move from the strategy locked in when the match was created.
+// The agent's state belongs to the strategy they run now, so if they have
+// switched since, the locked-in strategy plays from last_match alone and the
+// state is advanced for the live strategy instead — never saved against the
+// wrong one.
+export async function computeLockedMove(
+  locked: Strategy,
+  live: Strategy,
+  state: Record<string, unknown>,
+  ctx: StrategyContext = {},
+): Promise<MoveResult> {
+  if (JSON.stringify(locked) === JSON.stringify(live)) return computeMove(locked, state, ctx)
+
+  const { move } = await computeMove(locked, state.last_match ? { last_match: state.last_match } : {}, ctx)
+  return { move, newState: await advanceState(live, state, ctx) }
+}
@@ -0,0 +1,199 @@
+// Swiss-system pairing and standings. Pure functions over plain data — no
+// database access — so the tournament scheduler (process-tournaments) and
+// get-tournament agree on the same numbers.
+
+export const WIN_POINTS = 3
+export const DRAW_POINTS = 1
+export const BYE_POINTS = 3
+
+export interface SwissPlayer {
+  id: string
+  seed: number
+}
+
+// A finished game. agent2_id is null for a bye; winner_id is null for a draw.
+export interface SwissGame {
+  round: number
+  agent1_id: string
+  agent2_id: string | null
+  winner_id: string | null
+}
+
+export interface SwissPairing {
+  agent1_id: string
+  agent2_id: string | null
+}
+
+export interface SwissStanding {
+  id: string
+  seed: number
+  points: number
+  wins: number
+  draws: number
+  losses: number
+  byes: number
+  buchholz: number
+  opponents: string[]
+  rank: number
+}
+
+// Search budget for pairing without rematches before falling back to
+// allowing them; plenty for the 64-player cap.
+const MAX_PAIRING_STEPS = 20_000
+
+/** Rounds needed to separate a field: ceil(log2(n)), at least 1. */
+export function swissRounds(players: number): number {
+  return Math.max(1, Math.ceil(Math.log2(Math.max(players, 2))))
+}
+
+/**
+ * Standings after the given games, best first. Ties on points are broken by
+ * Buchholz (the sum of opponents' points; byes add nothing), then by the
+ * results between the tied agents, then by seed.
+ */
+export function swissStandings(players: SwissPlayer[], games: SwissGame[]): SwissStanding[] {
+  const table = new Map<string, SwissStanding>()
+  for (const p of players) {
+    table.set(p.id, {
+      id: p.id, seed: p.seed, points: 0, wins: 0, draws: 0, losses: 0,
+      byes: 0, buchholz: 0, opponents: [], rank: 0,
+    })
+  }
+
+  for (const g of games) {
+    const a = table.get(g.agent1_id)
+    if (!a) continue
+
+    if (g.agent2_id === null) {
+      a.byes++
+      a.points += BYE_POINTS
+      continue
+    }
+
+    const b = table.get(g.agent2_id)
+    if (!b) continue
+
+    a.opponents.push(b.id)
+    b.opponents.push(a.id)
+
+    if (g.winner_id === null) {
+      a.draws++
+      b.draws++
+      a.points += DRAW_POINTS
+      b.points += DRAW_POINTS
+    } else {
+      const [winner, loser] = g.winner_id === a.id ? [a, b] : [b, a]
+      winner.wins++
+      loser.losses++
+      winner.points += WIN_POINTS
+    }
+  }
+
+  for (const s of table.values()) {
+    s.buchholz = s.opponents.reduce((sum, id) => sum + (table.get(id)?.points ?? 0), 0)
+  }
+
+  const sorted = [...table.values()].sort((a, b) =>
+    b.points - a.points || b.buchholz - a.buchholz || a.seed - b.seed
+  )
+
+  // Head-to-head: within each run tied on points and Buchholz, rank by the
+  // points scored in games between the tied agents only.
+  const ranked: SwissStanding[] = []
+  for (let i = 0; i < sorted.length;) {
+    let j = i + 1
+    while (
+      j < sorted.length &&
+      sorted[j].points === sorted[i].points &&
+      sorted[j].buchholz === sorted[i].buchholz
+    ) j++
+
+    const group = sorted.slice(i, j)
+    if (group.length > 1) {
+      const h2h = headToHead(group.map((s) => s.id), games)
+      group.sort((a, b) => (h2h.get(b.id) ?? 0) - (h2h.get(a.id) ?? 0) || a.seed - b.seed)
+    }
+    ranked.push(...group)
+    i = j
+  }
+
+  ranked.forEach((s, i) => { s.rank = i + 1 })
+  return ranked
+}
+
+function headToHead(ids: string[], games: SwissGame[]): Map<string, number> {
+  const tied = new Set(ids)
+  const points = new Map<string, number>()
+
+  for (const g of games) {
+    if (g.agent2_id === null || !tied.has(g.agent1_id) || !tied.has(g.agent2_id)) continue
+
+    if (g.winner_id === null) {
+      points.set(g.agent1_id, (points.get(g.agent1_id) ?? 0) + DRAW_POINTS)
+      points.set(g.agent2_id, (points.get(g.agent2_id) ?? 0) + DRAW_POINTS)
+    } else {
+      points.set(g.winner_id, (points.get(g.winner_id) ?? 0) + WIN_POINTS)
+    }
+  }
+
+  return points
+}
+
+/**
+ * Pair the next round. Agents are taken in standings order and each is
+ * matched with the closest-ranked agent they have not played yet
+ * (Monrad-style), backtracking when a choice would leave someone unpaired.
+ * With an odd field the lowest-ranked agent without a bye sits out. If no
+ * pairing avoids rematches, rematches are allowed rather than stalling.
+ *
+ * The higher-ranked agent of each pairing is agent1 (the challenger).
+ */
+export function pairSwissRound(players: SwissPlayer[], games: SwissGame[]): SwissPairing[] {
+  const standings = swissStandings(players, games)
+  const met = new Set<string>()
+  for (const s of standings) {
+    for (const o of s.opponents) met.add(`${s.id}:${o}`)
+  }
+
+  const order = standings.map((s) => s.id)
+  const byeCandidates = standings.length % 2 === 1
+    ? [...standings].reverse().sort((a, b) => Number(a.byes > 0) - Number(b.byes > 0)).map((s) => s.id)
+    : [null]
+
+  for (const allowRematch of [false, true]) {
+    const budget = { steps: 0 }
+    for (const bye of byeCandidates) {
+      const pool = order.filter((id) => id !== bye)
+      const pairs = pairPool(pool, met, allowRematch, budget)
+      if (pairs) {
+        const pairings: SwissPairing[] = pairs.map(([agent1_id, agent2_id]) => ({ agent1_id, agent2_id }))
+        if (bye) pairings.push({ agent1_id: bye, agent2_id: null })
+        return pairings
+      }
+      if (budget.steps > MAX_PAIRING_STEPS) break
+    }
+  }
+
+  // Unreachable: with rematches allowed any even pool pairs off in order.
+  return []
+}
+
+function pairPool(
+  pool: string[],
+  met: Set<string>,
+  allowRematch: boolean,
+  budget: { steps: number },
+): [string, string][] | null {
+  if (pool.length === 0) return []
+  if (++budget.steps > MAX_PAIRING_STEPS && !allowRematch) return null
+
+  const [first, ...rest] = pool
+  for (let i = 0; i < rest.length; i++) {
+    if (!allowRematch && met.has(`${first}:${rest[i]}`)) continue
+
+    const tail = pairPool([...rest.slice(0, i), ...rest.slice(i + 1)], met, allowRematch, budget)
+    if (tail) return [[first, rest[i]], ...tail]
+  }
+
+  return null
+}
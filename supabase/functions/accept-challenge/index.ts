@@ -1,4 +1,5 @@
-import { verifyAgentKey } from '../_shared/auth.ts'
+import { variantMoves, verifyAgentKey } from '../_shared/auth.ts'
+import type { Variant } from '../_shared/auth.ts'
 import { error, handleCors, json } from '../_shared/cors.ts'
 import { getOpponentHistory } from '../_shared/opponent-history.ts'
 import { createServiceClient } from '../_shared/supabase.ts'
@@ -38,6 +39,17 @@ Deno.serve(async (req) => {
 
   const supabase = createServiceClient()
 
+  // A free-for-all is joined seat by seat instead.
+  const { data: challenge } = await supabase
+    .from('challenges')
+    .select('max_players')
+    .eq('id', challengeId)
+    .maybeSingle()
+
+  if (challenge?.max_players) {
+    return await joinFfa(supabase, challengeId, agent.id, strategySeconds, commitSeconds)
+  }
+
   // create_match() atomically:
   //   validates challenge, escrows accepter balance, creates match in 'pending'
   //   with a strategy_deadline before the commit window opens.
@@ -62,7 +74,7 @@ Deno.serve(async (req) => {
     .single()
 
   const opponentHistory = challenger
-    ? await getOpponentHistory(supabase, challenger.id, challenger.name)
+    ? await getOpponentHistory(supabase, challenger.id, challenger.name, { stats: true })
     : null
 
   return json({
@@ -72,7 +84,67 @@ Deno.serve(async (req) => {
     strategy_deadline: match.strategy_deadline,
     commit_deadline:   match.commit_deadline,
     your_role:         'agent2',
+    best_of:           match.best_of,
+    round:             match.round,
+    variant:           match.variant,
+    moves:             variantMoves(match.variant as Variant),
     opponent_history:  opponentHistory,
     message: `Study your opponent — commit after ${match.strategy_deadline}`,
   })
 })
+
+// Take a seat in a free-for-all. The agent taking the last seat starts the
+// match and sets its timings, as the accepter of a 1v1 challenge does.
+async function joinFfa(
+  supabase: ReturnType<typeof createServiceClient>,
+  challengeId: string,
+  agentId: string,
+  strategySeconds: number,
+  commitSeconds: number,
+) {
+  const { data, error: rpcError } = await supabase.rpc('join_ffa_challenge', {
+    p_challenge_id:     challengeId,
+    p_agent_id:         agentId,
+    p_strategy_seconds: strategySeconds,
+    p_commit_seconds:   commitSeconds,
+  })
+
+  if (rpcError) return error(rpcError.message, 400)
+
+  const challenge = data as Record<string, unknown>
+
+  if (challenge.status !== 'matched') {
+    const { count } = await supabase
+      .from('challenge_entrants')
+      .select('*', { count: 'exact', head: true })
+      .eq('challenge_id', challengeId)
+
+    return json({
+      challenge_id: challengeId,
+      match_type:   'ffa',
+      seats_taken:  (count ?? 0) + 1,
+      max_players:  challenge.max_players,
+      message: 'Seat taken — the match starts when every seat is filled. ' +
+        `Find it with get-match?challenge_id=${challengeId}.`,
+    })
+  }
+
+  const { data: match } = await supabase
+    .from('matches')
+    .select('*')
+    .eq('challenge_id', challengeId)
+    .single()
+
+  return json({
+    match_id:          match.id,
+    match_type:        'ffa',
+    phase:             match.phase,
+    status:            match.status,
+    strategy_deadline: match.strategy_deadline,
+    commit_deadline:   match.commit_deadline,
+    players:           challenge.max_players,
+    variant:           match.variant,
+    moves:             variantMoves(match.variant as Variant),
+    message: `Every seat is taken — study the field with get-match, then commit after ${match.strategy_deadline}`,
+  })
+}
@@ -0,0 +1,170 @@
+import { handleCors, json, error } from '../_shared/cors.ts'
+import { createServiceClient } from '../_shared/supabase.ts'
+import { beats, verifyAgentKey, validateStrategy } from '../_shared/auth.ts'
+import type { Move, Strategy, Variant } from '../_shared/auth.ts'
+import { rateLimit } from '../_shared/rate-limit.ts'
+import { computeMove, loadOpponentContext } from '../_shared/strategy.ts'
+import type { LastMatch } from '../_shared/strategy.ts'
+// The DSL parser is shared with the MCP server so both accept the same syntax.
+import { parse } from '../_shared/strategy-parser.ts'
+
+const DEFAULT_LIMIT = 20
+const MAX_LIMIT = 100
+
+type Result = 'win' | 'loss' | 'draw'
+
+interface FeedMatch {
+  id: string
+  agent1_id: string
+  agent2_id: string
+  agent1_name: string
+  agent2_name: string
+  agent1_move: Move
+  agent2_move: Move
+  winner_id: string | null
+  wager_amount: number
+  completed_at: string
+  variant: Variant
+}
+
+function outcome(move: Move, theirs: Move, variant: Variant): Result {
+  if (move === theirs) return 'draw'
+  return beats(variant, move, theirs) ? 'win' : 'loss'
+}
+
+function chips(result: Result, wager: number): number {
+  return result === 'win' ? wager : result === 'loss' ? -wager : 0
+}
+
+// Replay a candidate strategy against the caller's last N completed matches.
+//
+// Each opponent is assumed to play exactly what they played at the time, and
+// the strategy sees what it would have seen then: its own state and
+// last_match threaded through the replay, opponent history and match history
+// as of that match, and a balance reconstructed from the replayed results.
+// Strategies with a random element give different results from run to run.
+Deno.serve(async (req) => {
+  const cors = handleCors(req)
+  if (cors) return cors
+
+  if (req.method !== 'POST') return error('Method not allowed', 405)
+
+  const agent = await verifyAgentKey(req)
+  if (!agent) return error('Invalid or missing API key', 401)
+
+  // Rate limit: 10 backtests per agent per 5 minutes
+  const limited = await rateLimit(`backtest-strategy:${agent.id}`, 300, 10)
+  if (limited) return limited
+
+  const body = await req.json().catch(() => null)
+  if (!body?.strategy) return error('strategy is required')
+
+  let strategy: Strategy
+  if (typeof body.strategy === 'string') {
+    try {
+      strategy = parse(body.strategy)
+    } catch (e) {
+      return error(`Invalid strategy DSL: ${e instanceof Error ? e.message : String(e)}`)
+    }
+  } else {
+    strategy = body.strategy
+  }
+  if (!validateStrategy(strategy)) return error('Invalid strategy')
+
+  const limit = body.limit ?? DEFAULT_LIMIT
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return error(`limit must be an integer from 1 to ${MAX_LIMIT}`)
+  }
+
+  const supabase = createServiceClient()
+
+  const { data, error: fetchError } = await supabase
+    .from('match_feed')
+    .select(
+      'id, agent1_id, agent2_id, agent1_name, agent2_name, ' +
+      'agent1_move, agent2_move, winner_id, wager_amount, completed_at, variant',
+    )
+    .or(`agent1_id.eq.${agent.id},agent2_id.eq.${agent.id}`)
+    .order('completed_at', { ascending: false })
+    .limit(limit)
+    .overrideTypes<FeedMatch[], { merge: false }>()
+
+  if (fetchError) return error(fetchError.message, 500)
+
+  // Oldest first, so state carries forward the way it would have live.
+  const history = (data ?? []).reverse()
+
+  const actual = { wins: 0, losses: 0, draws: 0, net_chips: 0 }
+  for (const m of history) {
+    const result: Result = m.winner_id === null ? 'draw'
+      : m.winner_id === agent.id ? 'win'
+      : 'loss'
+    actual[result === 'win' ? 'wins' : result === 'loss' ? 'losses' : 'draws']++
+    actual.net_chips += chips(result, m.wager_amount)
+  }
+
+  const summary = { wins: 0, losses: 0, draws: 0, net_chips: 0 }
+  const matches = []
+  let balance = agent.balance - actual.net_chips
+  let state: Record<string, unknown> = {}
+  let lastMatch: LastMatch | undefined
+
+  for (const m of history) {
+    const isAgent1 = m.agent1_id === agent.id
+    const opponentId = isAgent1 ? m.agent2_id : m.agent1_id
+    const opponentName = isAgent1 ? m.agent2_name : m.agent1_name
+    const theirMove = isAgent1 ? m.agent2_move : m.agent1_move
+    const actualMove = isAgent1 ? m.agent1_move : m.agent2_move
+    const wager = m.wager_amount
+    const completedAt = m.completed_at
+    const variant = m.variant
+
+    const opponent = await loadOpponentContext(strategy, opponentId, opponentName, completedAt)
+    const { move, newState } = await computeMove(strategy, state, {
+      agentId: agent.id,
+      opponent,
+      wager,
+      balance: balance - wager,
+      lastMatch,
+      asOf: completedAt,
+      variant,
+    })
+
+    const result = outcome(move, theirMove, variant)
+    const delta = chips(result, wager)
+
+    summary[result === 'win' ? 'wins' : result === 'loss' ? 'losses' : 'draws']++
+    summary.net_chips += delta
+    balance += delta
+
+    // Mirrors record_match_outcome in resolve_match.
+    lastMatch = {
+      result,
+      move,
+      opponent_move: theirMove,
+      streak: lastMatch?.result === result ? lastMatch.streak + 1 : 1,
+      lost_to: result === 'loss' ? theirMove : lastMatch?.lost_to ?? null,
+    }
+    state = newState
+
+    matches.push({
+      match_id: m.id,
+      completed_at: completedAt,
+      opponent: opponentName,
+      wager,
+      move,
+      their_move: theirMove,
+      result,
+      chips: delta,
+      actual_move: actualMove,
+      actual_result: outcome(actualMove, theirMove, variant),
+    })
+  }
+
+  return json({
+    strategy,
+    backtest: { matches: history.length, ...summary },
+    actual: { matches: history.length, ...actual },
+    matches,
+  })
+})
@@ -0,0 +1,39 @@
+import { handleCors, json, error } from '../_shared/cors.ts'
+import { createServiceClient } from '../_shared/supabase.ts'
+import { verifyAgentKey } from '../_shared/auth.ts'
+import { rateLimit } from '../_shared/rate-limit.ts'
+
+// Withdraw a scheduled strategy change. Cancelling a window that is in
+// progress ends it now and restores the strategy it replaced, unless the
+// agent has changed strategy by hand since it opened.
+Deno.serve(async (req) => {
+  const cors = handleCors(req)
+  if (cors) return cors
+
+  if (req.method !== 'POST') return error('Method not allowed', 405)
+
+  const agent = await verifyAgentKey(req)
+  if (!agent) return error('Invalid or missing API key', 401)
+
+  // Shares set-strategy's limit: 10 strategy changes per agent per 5 minutes
+  const limited = await rateLimit(`set-strategy:${agent.id}`, 300, 10)
+  if (limited) return limited
+
+  const url = new URL(req.url)
+  // Expect: /cancel-strategy-schedule/<schedule_id>
+  const scheduleId = url.pathname.split('/').pop()
+  if (!scheduleId) return error('schedule_id is required in the URL path')
+
+  const supabase = createServiceClient()
+
+  const { data, error: rpcError } = await supabase.rpc('cancel_strategy_schedule', {
+    p_schedule_id: scheduleId,
+    p_agent_id:    agent.id,
+  })
+
+  if (rpcError) return error(rpcError.message, 400)
+
+  const schedule = data as Record<string, unknown>
+
+  return json({ schedule_id: schedule.id, status: schedule.status })
+})
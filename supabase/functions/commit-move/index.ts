@@ -2,6 +2,7 @@ import { handleCors, json, error } from '../_shared/cors.ts'
 import { createServiceClient } from '../_shared/supabase.ts'
 import { verifyAgentKey } from '../_shared/auth.ts'
 import { rateLimit } from '../_shared/rate-limit.ts'
+import { getParticipants } from '../_shared/ffa.ts'
 
 Deno.serve(async (req) => {
   const cors = handleCors(req)
@@ -35,6 +36,23 @@ Deno.serve(async (req) => {
   if (rpcError) return error(rpcError.message, 400)
 
   const match = data as Record<string, unknown>
+
+  // Free-for-all: how many of the participants have committed so far.
+  if (match.match_type === 'ffa') {
+    const participants = await getParticipants(supabase, match.id as string)
+    return json({
+      match_id: match.id,
+      status: match.status,
+      you_committed: true,
+      committed: participants.filter((p) => p.move_hash !== null).length,
+      players: participants.length,
+      ...(match.status === 'waiting_reveals' && {
+        reveal_deadline: match.reveal_deadline,
+        message: `Everyone committed — reveal your move before ${match.reveal_deadline}`,
+      }),
+    })
+  }
+
   const isAgent1 = match.agent1_id === agent.id
 
   // Tell the agent their own commit status and whether opponent has committed,
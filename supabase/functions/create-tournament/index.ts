@@ -0,0 +1,122 @@
+import { handleCors, json, error } from '../_shared/cors.ts'
+import { createServiceClient } from '../_shared/supabase.ts'
+import { verifyAgentKey } from '../_shared/auth.ts'
+import { rateLimit } from '../_shared/rate-limit.ts'
+
+const FORMATS = ['round_robin', 'single_elimination', 'swiss']
+const BEST_OF = [1, 3, 5, 7]
+
+// Registration runs for one minute to one week; an hour by default.
+const DEFAULT_STARTS_IN_SECONDS = 60 * 60
+const MIN_STARTS_IN_SECONDS = 60
+const MAX_STARTS_IN_SECONDS = 7 * 24 * 60 * 60
+
+const MAX_PLAYERS = 64
+
+// Same bounds accept-challenge applies to its timings.
+function clampSeconds(value: unknown): number {
+  const n = Number(value)
+  return value !== undefined && !Number.isNaN(n) ? Math.max(10, Math.min(120, n)) : 60
+}
+
+// Create a tournament. The caller organises it but is not entered — they
+// join-tournament like everyone else. It starts when full or at starts_at.
+//
+// Body: { name, format, entry_fee, max_players, payout_split?, best_of?,
+//         starts_in_seconds?, strategy_seconds?, commit_seconds?, rounds? }
+//
+// payout_split is the percentage of the prize pool for 1st, 2nd, … and must
+// add up to 100. Defaults to winner takes all.
+//
+// rounds is for Swiss only; by default ceil(log2(entrants)), and never more
+// than entrants - 1.
+Deno.serve(async (req) => {
+  const cors = handleCors(req)
+  if (cors) return cors
+
+  if (req.method !== 'POST') return error('Method not allowed', 405)
+
+  const agent = await verifyAgentKey(req)
+  if (!agent) return error('Invalid or missing API key', 401)
+
+  // Rate limit: 5 tournaments per agent per hour
+  const limited = await rateLimit(`create-tournament:${agent.id}`, 3600, 5)
+  if (limited) return limited
+
+  const body = await req.json().catch(() => null)
+
+  const name = typeof body?.name === 'string' ? body.name.trim() : ''
+  if (name.length < 3 || name.length > 64) {
+    return error('name must be 3 to 64 characters')
+  }
+
+  const format = body?.format
+  if (!FORMATS.includes(format)) {
+    return error(`format must be one of: ${FORMATS.join(', ')}`)
+  }
+
+  const entryFee = body?.entry_fee ?? 0
+  if (!Number.isInteger(entryFee) || entryFee < 0) {
+    return error('entry_fee must be a non-negative integer')
+  }
+
+  const maxPlayers = body?.max_players
+  if (!Number.isInteger(maxPlayers) || maxPlayers < 2 || maxPlayers > MAX_PLAYERS) {
+    return error(`max_players must be an integer from 2 to ${MAX_PLAYERS}`)
+  }
+
+  const payoutSplit: unknown = body?.payout_split ?? [100]
+  if (
+    !Array.isArray(payoutSplit) ||
+    payoutSplit.length === 0 ||
+    payoutSplit.length > maxPlayers ||
+    !payoutSplit.every((p) => Number.isInteger(p) && p > 0) ||
+    payoutSplit.reduce((sum: number, p: number) => sum + p, 0) !== 100
+  ) {
+    return error('payout_split must be a list of positive whole percentages adding up to 100, no longer than max_players')
+  }
+
+  const bestOf = body?.best_of ?? 1
+  if (!BEST_OF.includes(bestOf)) {
+    return error('best_of must be 1, 3, 5 or 7')
+  }
+
+  const rounds = body?.rounds ?? null
+  if (rounds !== null && (format !== 'swiss' || !Number.isInteger(rounds) || rounds < 1 || rounds >= maxPlayers)) {
+    return error('rounds is only for swiss tournaments, from 1 to max_players - 1')
+  }
+
+  const startsIn = body?.starts_in_seconds ?? DEFAULT_STARTS_IN_SECONDS
+  if (!Number.isInteger(startsIn) || startsIn < MIN_STARTS_IN_SECONDS || startsIn > MAX_STARTS_IN_SECONDS) {
+    return error(
+      `starts_in_seconds must be an integer from ${MIN_STARTS_IN_SECONDS} to ${MAX_STARTS_IN_SECONDS}`,
+    )
+  }
+
+  const supabase = createServiceClient()
+
+  const { data: tournament, error: insertError } = await supabase
+    .from('tournaments')
+    .insert({
+      name,
+      format,
+      created_by: agent.id,
+      entry_fee: entryFee,
+      payout_split: payoutSplit,
+      max_players: maxPlayers,
+      best_of: bestOf,
+      swiss_rounds: rounds,
+      strategy_seconds: clampSeconds(body?.strategy_seconds),
+      commit_seconds: clampSeconds(body?.commit_seconds),
+      starts_at: new Date(Date.now() + startsIn * 1000).toISOString(),
+    })
+    .select()
+    .single()
+
+  if (insertError) return error(insertError.message, 500)
+
+  return json({
+    tournament,
+    message: `Tournament created — registration is open until ${tournament.starts_at}.`,
+  }, 201)
+})
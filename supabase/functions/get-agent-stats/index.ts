@@ -0,0 +1,45 @@
+import { handleCors, json, error } from '../_shared/cors.ts'
+import { rateLimit, clientIp } from '../_shared/rate-limit.ts'
+import { createServiceClient } from '../_shared/supabase.ts'
+import { getAgentStats } from '../_shared/agent-stats-cache.ts'
+
+// Public — no API key required.
+//
+//   /get-agent-stats/<name>
+//
+// How an agent plays, from its last 1,000 resolved 1v1 rounds: move
+// frequencies, what it plays after a win, loss or draw and after each
+// opponent move, entropy, fallback rate, average wager, ROI and how
+// exploitable its move distribution is (see _shared/agent-stats.ts).
+// Results are cached in agent_stats_cache until the agent plays again.
+Deno.serve(async (req) => {
+  const cors = handleCors(req)
+  if (cors) return cors
+
+  if (req.method !== 'GET') return error('Method not allowed', 405)
+
+  // Rate limit: 30 requests per IP per minute
+  const limited = await rateLimit(`get-agent-stats:${clientIp(req)}`, 60, 30)
+  if (limited) return limited
+
+  const last = new URL(req.url).pathname.split('/').pop()
+  const name = last && last !== 'get-agent-stats' ? decodeURIComponent(last) : null
+  if (!name) return error('Agent name is required: /get-agent-stats/<name>')
+
+  const supabase = createServiceClient()
+
+  const { data: agent } = await supabase
+    .from('agents')
+    .select('id, name')
+    .eq('name', name)
+    .maybeSingle()
+
+  if (!agent) return error('Agent not found', 404)
+
+  try {
+    const { stats, computed_at } = await getAgentStats(supabase, agent.id)
+    return json({ agent: agent.name, ...stats, computed_at })
+  } catch (e) {
+    return error(e instanceof Error ? e.message : String(e), 500)
+  }
+})
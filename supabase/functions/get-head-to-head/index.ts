@@ -0,0 +1,197 @@
+import { handleCors, json, error } from '../_shared/cors.ts'
+import { rateLimit, clientIp } from '../_shared/rate-limit.ts'
+import { createServiceClient } from '../_shared/supabase.ts'
+
+const DEFAULT_LIMIT = 50
+const MAX_LIMIT = 100
+const MOVES = ['rock', 'paper', 'scissors', 'lizard', 'spock'] as const
+
+// A head_to_head row: one agent's totals against the other
+interface Totals {
+  agent_id: string
+  opponent_id: string
+  matches: number
+  wins: number
+  losses: number
+  draws: number
+  net_chips: number
+  fallbacks: number
+  rock: number
+  paper: number
+  scissors: number
+  lizard: number
+  spock: number
+}
+
+interface FeedMatch {
+  id: string
+  agent1_id: string
+  agent1_move: string | null
+  agent2_move: string | null
+  agent1_used_fallback: boolean
+  agent2_used_fallback: boolean
+  winner_id: string | null
+  wager_amount: number
+  best_of: number
+  round: number
+  variant: string
+  completed_at: string
+}
+
+interface Side {
+  name: string
+  wins: number
+  net_chips: number
+  moves: Record<string, number>
+  fallbacks: number
+  fallback_pct: number
+}
+
+// A cursor is the completion time and id of the last match on a page.
+function decodeCursor(cursor: string): [string, string] | null {
+  try {
+    const [completedAt, id] = JSON.parse(atob(cursor))
+    return typeof completedAt === 'string' && !Number.isNaN(Date.parse(completedAt)) &&
+      typeof id === 'string' && /^[0-9a-f-]{36}$/.test(id)
+      ? [completedAt, id]
+      : null
+  } catch {
+    return null
+  }
+}
+
+// One agent's side from its head_to_head row (none if they have never met)
+function side(name: string, row: Totals | undefined): Side {
+  const moves: Record<string, number> = {}
+  for (const move of MOVES) {
+    if (row?.[move]) moves[move] = row[move]
+  }
+  return {
+    name,
+    wins: row?.wins ?? 0,
+    net_chips: row?.net_chips ?? 0,
+    moves,
+    fallbacks: row?.fallbacks ?? 0,
+    fallback_pct: row?.matches ? Math.round((row.fallbacks / row.matches) * 1000) / 10 : 0,
+  }
+}
+
+// Public — no API key required.
+//
+//   /get-head-to-head?a=<name>&b=<name>
+//
+// The rivalry between two agents from each side — rounds won, chips won or
+// lost, which moves they played and how often their strategy played for
+// them — over every completed match between them (the head_to_head view).
+// Wins and moves count rounds; net chips count settled matches and series,
+// since a series' wager moves once.
+//
+// The matches themselves come newest first, a page at a time: limit (1–100,
+// default 50), and cursor set to the previous page's next_cursor.
+Deno.serve(async (req) => {
+  const cors = handleCors(req)
+  if (cors) return cors
+
+  if (req.method !== 'GET') return error('Method not allowed', 405)
+
+  // Rate limit: 30 requests per IP per minute
+  const limited = await rateLimit(`get-head-to-head:${clientIp(req)}`, 60, 30)
+  if (limited) return limited
+
+  const params = new URL(req.url).searchParams
+  const nameA = params.get('a')?.trim()
+  const nameB = params.get('b')?.trim()
+
+  if (!nameA || !nameB) return error('a and b (agent names) are required')
+  if (nameA === nameB) return error('a and b must be different agents')
+
+  const limit = Number(params.get('limit') ?? DEFAULT_LIMIT)
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return error(`limit must be an integer from 1 to ${MAX_LIMIT}`)
+  }
+
+  const cursorParam = params.get('cursor')
+  const cursor = cursorParam === null ? null : decodeCursor(cursorParam)
+  if (cursorParam !== null && !cursor) return error('Invalid cursor')
+
+  const supabase = createServiceClient()
+
+  const { data: agents, error: agentsError } = await supabase
+    .from('agents')
+    .select('id, name')
+    .in('name', [nameA, nameB])
+
+  if (agentsError) return error(agentsError.message, 500)
+
+  const agentA = agents?.find((a) => a.name === nameA)
+  const agentB = agents?.find((a) => a.name === nameB)
+  if (!agentA) return error(`Agent "${nameA}" not found`, 404)
+  if (!agentB) return error(`Agent "${nameB}" not found`, 404)
+
+  const pair = [agentA.id, agentB.id]
+
+  // An agent never plays itself, so both ids in both seats is this pair
+  let page = supabase
+    .from('match_feed')
+    .select(
+      'id, agent1_id, agent1_move, agent2_move, agent1_used_fallback, agent2_used_fallback, ' +
+      'winner_id, wager_amount, best_of, round, variant, completed_at',
+    )
+    .in('agent1_id', pair)
+    .in('agent2_id', pair)
+  if (cursor) {
+    page = page.or(`completed_at.lt."${cursor[0]}",and(completed_at.eq."${cursor[0]}",id.lt.${cursor[1]})`)
+  }
+
+  // One extra row says whether there is another page
+  const [{ data: totals, error: totalsError }, { data: rows, error: fetchError }] = await Promise.all([
+    supabase
+      .from('head_to_head')
+      .select('*')
+      .in('agent_id', pair)
+      .in('opponent_id', pair)
+      .overrideTypes<Totals[], { merge: false }>(),
+    page
+      .order('completed_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(limit + 1)
+      .overrideTypes<FeedMatch[], { merge: false }>(),
+  ])
+
+  if (totalsError) return error(totalsError.message, 500)
+  if (fetchError) return error(fetchError.message, 500)
+
+  const totalsA = (totals ?? []).find((t) => t.agent_id === agentA.id)
+  const a = side(agentA.name, totalsA)
+  const b = side(agentB.name, (totals ?? []).find((t) => t.agent_id === agentB.id))
+
+  // Each match from a's side
+  const found = rows ?? []
+  const matches = found.slice(0, limit).map((m) => {
+    const aIsAgent1 = m.agent1_id === agentA.id
+    return {
+      match_id: m.id,
+      result: m.winner_id === agentA.id ? 'win' : m.winner_id === agentB.id ? 'loss' : 'draw',
+      a_move: aIsAgent1 ? m.agent1_move : m.agent2_move,
+      b_move: aIsAgent1 ? m.agent2_move : m.agent1_move,
+      a_used_fallback: aIsAgent1 ? m.agent1_used_fallback : m.agent2_used_fallback,
+      b_used_fallback: aIsAgent1 ? m.agent2_used_fallback : m.agent1_used_fallback,
+      wager: m.wager_amount,
+      best_of: m.best_of,
+      round: m.round,
+      variant: m.variant,
+      completed_at: m.completed_at,
+    }
+  })
+
+  const last = matches[matches.length - 1]
+
+  return json({
+    a,
+    b,
+    draws: totalsA?.draws ?? 0,
+    total_matches: totalsA?.matches ?? 0,
+    matches,
+    next_cursor: found.length > limit ? btoa(JSON.stringify([last.completed_at, last.match_id])) : null,
+  })
+})
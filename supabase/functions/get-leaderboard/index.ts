@@ -1,7 +1,66 @@
 import { handleCors, json, error } from '../_shared/cors.ts'
 import { rateLimit, clientIp } from '../_shared/rate-limit.ts'
 import { createServiceClient } from '../_shared/supabase.ts'
+import { verifyAgentKey } from '../_shared/auth.ts'
 
+// Each sort key's column and direction. wins and rating use the view's rank
+// columns, which already break ties (by balance — by season losses then
+// rating on a season board — and by rating deviation).
+const SORTS: Record<string, { column: string; ascending: boolean }> = {
+  wins: { column: 'rank', ascending: true },
+  rating: { column: 'rating_rank', ascending: true },
+  balance: { column: 'balance', ascending: false },
+  win_pct: { column: 'win_pct', ascending: false },
+  net_profit: { column: 'net_profit', ascending: false },
+  games_played: { column: 'total_matches', ascending: false },
+}
+
+const DEFAULT_LIMIT = 50
+const MAX_LIMIT = 100
+const DEFAULT_NEIGHBORS = 5
+const MAX_NEIGHBORS = 25
+
+type Sort = { column: string; ascending: boolean }
+
+// A cursor is the sort value and agent id of the last row on a page, so the
+// next page starts right after it however the board has moved in between.
+function encodeCursor(sort: Sort, row: Record<string, unknown>): string {
+  return btoa(JSON.stringify([row[sort.column], row.id]))
+}
+
+function decodeCursor(cursor: string): [number, string] | null {
+  try {
+    const [value, id] = JSON.parse(atob(cursor))
+    return typeof value === 'number' && typeof id === 'string' && /^[0-9a-f-]{36}$/.test(id)
+      ? [value, id]
+      : null
+  } catch {
+    return null
+  }
+}
+
+// PostgREST filter for rows after (value, id) in the sort order, ties broken
+// by id; with before, the rows ahead of it.
+function beyond(sort: Sort, value: number, id: string, before = false): string {
+  const op = sort.ascending !== before ? 'gt' : 'lt'
+  return `${sort.column}.${op}.${value},and(${sort.column}.eq.${value},id.${before ? 'lt' : 'gt'}.${id})`
+}
+
+// Public — no API key required, except to find yourself.
+//
+//   /get-leaderboard                 lifetime records
+//   /get-leaderboard?season=current  the season in progress
+//   /get-leaderboard?season=<n>      season n — final standings once it is over
+//
+// Query params:
+//   sort          wins (default, then tie-breaks), rating, balance, win_pct,
+//                 net_profit or games_played
+//   limit         rows per page, 1–100 (default 50)
+//   cursor        next_cursor from the previous page
+//   min_games     only agents with at least this many games
+//   search        only agents whose name contains this (case-insensitive)
+//   find_me=true  the caller's position with `neighbors` agents (default 5)
+//                 either side, instead of a page
 Deno.serve(async (req) => {
   const cors = handleCors(req)
   if (cors) return cors
@@ -12,14 +71,115 @@ Deno.serve(async (req) => {
   const limited = await rateLimit(`get-leaderboard:${clientIp(req)}`, 60, 30)
   if (limited) return limited
 
+  const params = new URL(req.url).searchParams
+
+  const sortParam = params.get('sort') ?? 'wins'
+  if (!(sortParam in SORTS)) return error(`sort must be one of: ${Object.keys(SORTS).join(', ')}`)
+  const sort = SORTS[sortParam]
+
+  const seasonParam = params.get('season')
+  if (seasonParam !== null && seasonParam !== 'current' && !/^[1-9]\d*$/.test(seasonParam)) {
+    return error('season must be "current" or a season number')
+  }
+
+  const limit = Number(params.get('limit') ?? DEFAULT_LIMIT)
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return error(`limit must be an integer from 1 to ${MAX_LIMIT}`)
+  }
+
+  const cursorParam = params.get('cursor')
+  const cursor = cursorParam === null ? null : decodeCursor(cursorParam)
+  if (cursorParam !== null && !cursor) return error('Invalid cursor')
+
+  const minGames = params.get('min_games') === null ? null : Number(params.get('min_games'))
+  if (minGames !== null && (!Number.isInteger(minGames) || minGames < 0)) {
+    return error('min_games must be a non-negative integer')
+  }
+
+  const search = params.get('search')?.trim() || null
+
+  const findMe = params.get('find_me') === 'true'
+  const neighbors = Number(params.get('neighbors') ?? DEFAULT_NEIGHBORS)
+  if (!Number.isInteger(neighbors) || neighbors < 0 || neighbors > MAX_NEIGHBORS) {
+    return error(`neighbors must be an integer from 0 to ${MAX_NEIGHBORS}`)
+  }
+
+  const agent = findMe ? await verifyAgentKey(req) : null
+  if (findMe && !agent) return error('find_me needs your API key', 401)
+
   const supabase = createServiceClient()
 
-  const { data, error: fetchError } = await supabase
-    .from('leaderboard')
-    .select('*')
-    .limit(50)
+  let season: Record<string, unknown> | null = null
+  if (seasonParam !== null) {
+    const seasonQuery = supabase.from('seasons').select('*')
+    const { data } = await (seasonParam === 'current'
+      ? seasonQuery.eq('status', 'active')
+      : seasonQuery.eq('number', Number(seasonParam))
+    ).maybeSingle()
+
+    if (!data) return error('Season not found', 404)
+    season = data
+  }
+
+  // The board with its filters, in sort order; the caller adds paging.
+  function board(options?: { count: 'exact'; head: true }) {
+    let query = supabase.from(season ? 'season_leaderboard' : 'leaderboard').select('*', options)
+    if (season) query = query.eq('season_number', season.number)
+    if (minGames !== null) query = query.gte('total_matches', minGames)
+    if (search) query = query.ilike('name', `%${search.replace(/[\\%_]/g, '\\$&')}%`)
+    return query
+  }
+
+  if (findMe) {
+    const { data: me } = await board().eq('id', agent!.id).maybeSingle()
+    if (!me) {
+      return error(
+        season
+          ? 'You have no games in this season, or are filtered out'
+          : 'You are filtered out of this leaderboard',
+        404,
+      )
+    }
+
+    const value = me[sort.column] as number
+    const [{ count: ahead }, { data: above }, { data: below }] = await Promise.all([
+      board({ count: 'exact', head: true }).or(beyond(sort, value, me.id, true)),
+      board()
+        .or(beyond(sort, value, me.id, true))
+        .order(sort.column, { ascending: !sort.ascending })
+        .order('id', { ascending: false })
+        .limit(neighbors),
+      board()
+        .or(beyond(sort, value, me.id))
+        .order(sort.column, { ascending: sort.ascending })
+        .order('id', { ascending: true })
+        .limit(neighbors),
+    ])
+
+    return json({
+      ...(season ? { season } : {}),
+      me: { ...me, position: (ahead ?? 0) + 1 },
+      leaderboard: [...(above ?? []).reverse(), me, ...(below ?? [])],
+    })
+  }
+
+  let query = board()
+  if (cursor) query = query.or(beyond(sort, cursor[0], cursor[1]))
+
+  // One extra row says whether there is another page
+  const { data, error: fetchError } = await query
+    .order(sort.column, { ascending: sort.ascending })
+    .order('id', { ascending: true })
+    .limit(limit + 1)
 
   if (fetchError) return error(fetchError.message, 500)
 
-  return json({ leaderboard: data })
+  const rows = (data ?? []) as Record<string, unknown>[]
+  const page = rows.slice(0, limit)
+
+  return json({
+    ...(season ? { season } : {}),
+    leaderboard: page,
+    next_cursor: rows.length > limit ? encodeCursor(sort, page[page.length - 1]) : null,
+  })
 })
@@ -1,7 +1,10 @@
 import { handleCors, json, error } from '../_shared/cors.ts'
 import { createServiceClient } from '../_shared/supabase.ts'
-import { verifyAgentKey } from '../_shared/auth.ts'
+import { verifyAgentKey, variantMoves } from '../_shared/auth.ts'
+import type { Variant } from '../_shared/auth.ts'
 import { getOpponentHistory } from '../_shared/opponent-history.ts'
+import { getSeries } from '../_shared/series.ts'
+import { getParticipants } from '../_shared/ffa.ts'
 
 Deno.serve(async (req) => {
   const cors = handleCors(req)
@@ -9,9 +12,14 @@ Deno.serve(async (req) => {
 
   if (req.method !== 'GET') return error('Method not allowed', 405)
 
+  // /get-match/<match_id>, or /get-match?challenge_id=<id> for the latest
+  // match of a challenge — how the agents seated in a free-for-all find the
+  // match once the last seat is taken.
   const url = new URL(req.url)
-  const matchId = url.pathname.split('/').pop()
-  if (!matchId) return error('match_id is required in the URL path')
+  const last = url.pathname.split('/').pop()
+  const matchId = last && last !== 'get-match' ? last : null
+  const challengeId = url.searchParams.get('challenge_id')
+  if (!matchId && !challengeId) return error('match_id is required in the URL path, or challenge_id as a query parameter')
 
   // API key is optional — anon can see completed matches, participants
   // get a richer sanitised view of in-progress matches.
@@ -19,17 +27,59 @@ Deno.serve(async (req) => {
 
   const supabase = createServiceClient()
 
-  const { data: match, error: matchError } = await supabase
-    .from('matches')
-    .select('*')
-    .eq('id', matchId)
-    .single()
+  const { data: match, error: matchError } = matchId
+    ? await supabase
+      .from('matches')
+      .select('*')
+      .eq('id', matchId)
+      .single()
+    : await supabase
+      .from('matches')
+      .select('*')
+      .eq('challenge_id', challengeId!)
+      .order('round', { ascending: false })
+      .limit(1)
+      .single()
 
   if (matchError || !match) return error('Match not found', 404)
 
-  // Completed (finished phase) matches are fully public.
+  // Rounds of a best-of-N series carry the series score; null for single games.
+  const series = await getSeries(supabase, match)
+
+  if (match.match_type === 'ffa') return await getFfaMatch(supabase, match, agent?.id ?? null)
+
+  // Completed (finished phase) matches are fully public, along with the
+  // rematch offered on them, if any — pending, or accepted with its match.
   if (match.phase === 'finished') {
-    return json({ match })
+    const { data: offer } = await supabase
+      .from('challenges')
+      .select('id, challenger_id, wager_amount, status, expires_at, rematch_number')
+      .eq('rematch_of', match.id)
+      .in('status', ['open', 'matched'])
+      .maybeSingle()
+
+    const { data: next } = offer?.status === 'matched'
+      ? await supabase
+        .from('matches')
+        .select('id')
+        .eq('challenge_id', offer.id)
+        .eq('round', 1)
+        .maybeSingle()
+      : { data: null }
+
+    const rematch = offer
+      ? {
+        challenge_id: offer.id,
+        offered_by: offer.challenger_id,
+        wager_amount: offer.wager_amount,
+        status: offer.status,
+        expires_at: offer.expires_at,
+        rematch_number: offer.rematch_number,
+        match_id: next?.id ?? null,
+      }
+      : null
+
+    return json({ match, series, rematch })
   }
 
   // In-progress matches: only participants can see state, and only their
@@ -54,7 +104,7 @@ Deno.serve(async (req) => {
   // Include opponent history during the strategy phase.
   const opponentHistory =
     match.phase === 'strategy' && opponentName
-      ? await getOpponentHistory(supabase, opponentId as string, opponentName)
+      ? await getOpponentHistory(supabase, opponentId as string, opponentName, { stats: true })
       : null
 
   // Sanitise: replace opponent's hash/move/salt with boolean presence flags.
@@ -68,6 +118,14 @@ Deno.serve(async (req) => {
     reveal_deadline: match.reveal_deadline,
     created_at: match.created_at,
     your_role: isAgent1 ? 'agent1' : 'agent2',
+    best_of: match.best_of,
+    round: match.round,
+    variant: match.variant,
+    moves: variantMoves(match.variant),
+
+    // Commitment to the seed behind fallback moves; the seed itself is
+    // revealed once the match is finished (see verify-match).
+    server_seed_hash: match.server_seed_hash,
 
     // Own data — full visibility.
     your_move_hash: isAgent1 ? match.agent1_move_hash : match.agent2_move_hash,
@@ -85,5 +143,70 @@ Deno.serve(async (req) => {
     opponent_history: opponentHistory,
   }
 
-  return json({ match: sanitised })
+  return json({ match: sanitised, series })
 })
+
+// Free-for-all: the participants instead of agent1/agent2. Once finished
+// every move and payout is public; until then participants see their own
+// commit and who else has committed or revealed, plus each other agent's
+// recent history during the strategy phase.
+async function getFfaMatch(
+  supabase: ReturnType<typeof createServiceClient>,
+  match: Record<string, unknown>,
+  agentId: string | null,
+) {
+  const participants = await getParticipants(supabase, match.id as string)
+
+  if (match.phase === 'finished') {
+    return json({
+      match,
+      participants: participants.map(({ move_hash: _hash, ...p }) => p),
+    })
+  }
+
+  if (!agentId) return error('Authentication required for in-progress matches', 401)
+
+  const you = participants.find((p) => p.agent_id === agentId)
+  if (!you) return error('You are not a participant in this match', 403)
+
+  const others = participants.filter((p) => p.agent_id !== agentId)
+  const histories = match.phase === 'strategy'
+    ? await Promise.all(
+      others.map((p) => getOpponentHistory(supabase, p.agent_id, p.agent_name, { stats: true })),
+    )
+    : null
+
+  return json({
+    match: {
+      id: match.id,
+      match_type: 'ffa',
+      phase: match.phase,
+      status: match.status,
+      wager_amount: match.wager_amount,
+      pot: (match.wager_amount as number) * participants.length,
+      strategy_deadline: match.strategy_deadline ?? null,
+      commit_deadline: match.commit_deadline,
+      reveal_deadline: match.reveal_deadline,
+      created_at: match.created_at,
+      your_seat: you.seat,
+      variant: match.variant,
+      moves: variantMoves(match.variant as Variant),
+      server_seed_hash: match.server_seed_hash,
+
+      // Own data — full visibility.
+      your_move_hash: you.move_hash,
+      your_move: you.move,
+
+      // Everyone else — existence flags only, and history while it is
+      // time to study the field.
+      opponents: others.map((p, i) => ({
+        agent_id: p.agent_id,
+        agent_name: p.agent_name,
+        seat: p.seat,
+        committed: p.move_hash !== null,
+        revealed: p.move !== null,
+        history: histories?.[i] ?? null,
+      })),
+    },
+  })
+}
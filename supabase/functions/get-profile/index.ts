@@ -15,7 +15,7 @@ Deno.serve(async (req) => {
 
   const { data, error: fetchError } = await supabase
     .from('agents')
-    .select('id, name, balance, wins, losses, draws, strategy, created_at')
+    .select('id, name, balance, wins, losses, draws, rating, rating_deviation, rating_volatility, strategy, created_at')
     .eq('id', agent.id)
     .single()
 
@@ -0,0 +1,91 @@
+import { handleCors, json, error } from '../_shared/cors.ts'
+import { createServiceClient } from '../_shared/supabase.ts'
+import { verifyAgentKey } from '../_shared/auth.ts'
+import type { Strategy } from '../_shared/auth.ts'
+
+interface VersionMatch {
+  id: string
+  agent1_id: string
+  agent2_id: string
+  agent1_move: string | null
+  agent2_move: string | null
+  agent1_strategy: Strategy | null
+  agent2_strategy: Strategy | null
+  agent1_used_fallback: boolean
+  agent2_used_fallback: boolean
+  winner_id: string | null
+  wager_amount: number
+  completed_at: string
+}
+
+// How one of the caller's strategy versions performed while it was active:
+// its record plus the matches that count towards it, most recent first.
+Deno.serve(async (req) => {
+  const cors = handleCors(req)
+  if (cors) return cors
+
+  if (req.method !== 'GET') return error('Method not allowed', 405)
+
+  const agent = await verifyAgentKey(req)
+  if (!agent) return error('Invalid or missing API key', 401)
+
+  const url = new URL(req.url)
+  const version = Number(url.pathname.split('/').pop())
+  if (!Number.isInteger(version) || version < 1) {
+    return error('version is required in the URL path')
+  }
+
+  const supabase = createServiceClient()
+
+  const { data: perf } = await supabase
+    .from('strategy_version_performance')
+    .select('version, strategy, created_at, superseded_at, matches, wins, losses, draws, net_chips')
+    .eq('agent_id', agent.id)
+    .eq('version', version)
+    .single()
+
+  if (!perf) return error('Version not found', 404)
+
+  // Same rule as the view: created in the version's window, and the
+  // agent's strategy snapshot equals the version's strategy.
+  let query = supabase
+    .from('matches')
+    .select(
+      'id, agent1_id, agent2_id, agent1_move, agent2_move, agent1_strategy, agent2_strategy, ' +
+      'agent1_used_fallback, agent2_used_fallback, winner_id, wager_amount, completed_at',
+    )
+    .or(`agent1_id.eq.${agent.id},agent2_id.eq.${agent.id}`)
+    .eq('status', 'complete')
+    .gte('created_at', perf.created_at)
+  if (perf.superseded_at) query = query.lt('created_at', perf.superseded_at)
+
+  const { data: matches, error: fetchError } = await query
+    .order('completed_at', { ascending: false })
+    .limit(100)
+    .overrideTypes<VersionMatch[], { merge: false }>()
+
+  if (fetchError) return error(fetchError.message, 500)
+
+  const played = (matches ?? [])
+    .filter((m) => {
+      const snapshot = m.agent1_id === agent.id ? m.agent1_strategy : m.agent2_strategy
+      return JSON.stringify(snapshot) === JSON.stringify(perf.strategy)
+    })
+    .map((m) => {
+      const isAgent1 = m.agent1_id === agent.id
+      return {
+        match_id: m.id,
+        your_move: isAgent1 ? m.agent1_move : m.agent2_move,
+        their_move: isAgent1 ? m.agent2_move : m.agent1_move,
+        used_fallback: isAgent1 ? m.agent1_used_fallback : m.agent2_used_fallback,
+        result: m.winner_id === null ? 'draw' : m.winner_id === agent.id ? 'win' : 'loss',
+        wager: m.wager_amount,
+        completed_at: m.completed_at,
+      }
+    })
+
+  return json({
+    version: { ...perf, active: perf.superseded_at === null },
+    matches: played,
+  })
+})
@@ -0,0 +1,142 @@
+import { handleCors, json, error } from '../_shared/cors.ts'
+import { createServiceClient } from '../_shared/supabase.ts'
+import { swissStandings } from '../_shared/swiss.ts'
+
+const STATUSES = ['registration', 'in_progress', 'complete', 'cancelled']
+
+interface Entry {
+  agent_id: string
+  seed: number | null
+  points: number
+  wins: number
+  losses: number
+  draws: number
+  eliminated_round: number | null
+  final_rank: number | null
+  payout: number
+  agent: { name: string }
+}
+
+// Public — no API key required.
+//
+//   /get-tournament              tournaments open for registration or in
+//                                progress (?status= to pick one status)
+//   /get-tournament/<id>         one tournament with its standings and every
+//                                pairing, round by round
+Deno.serve(async (req) => {
+  const cors = handleCors(req)
+  if (cors) return cors
+
+  if (req.method !== 'GET') return error('Method not allowed', 405)
+
+  const url = new URL(req.url)
+  const last = url.pathname.split('/').pop()
+  const tournamentId = last && last !== 'get-tournament' ? last : null
+
+  const supabase = createServiceClient()
+
+  if (!tournamentId) {
+    const status = url.searchParams.get('status')
+    if (status && !STATUSES.includes(status)) {
+      return error(`status must be one of: ${STATUSES.join(', ')}`)
+    }
+
+    const { data, error: fetchError } = await supabase
+      .from('tournaments')
+      .select('*')
+      .in('status', status ? [status] : ['registration', 'in_progress'])
+      .order('starts_at', { ascending: true })
+      .limit(50)
+
+    if (fetchError) return error(fetchError.message, 500)
+
+    return json({ tournaments: data ?? [] })
+  }
+
+  const { data: tournament, error: fetchError } = await supabase
+    .from('tournaments')
+    .select('*')
+    .eq('id', tournamentId)
+    .single()
+
+  if (fetchError || !tournament) return error('Tournament not found', 404)
+
+  const { data: entryRows } = await supabase
+    .from('tournament_entries')
+    .select('*, agent:agents(name)')
+    .eq('tournament_id', tournamentId)
+    .overrideTypes<Entry[], { merge: false }>()
+
+  const entries = entryRows ?? []
+  const names = new Map(entries.map((e) => [e.agent_id, e.agent.name]))
+
+  const { data: pairingRows } = await supabase
+    .from('tournament_pairings')
+    .select('*')
+    .eq('tournament_id', tournamentId)
+    .order('round', { ascending: true })
+    .order('slot', { ascending: true })
+
+  const pairingList = pairingRows ?? []
+
+  // Swiss standings carry Buchholz and are ordered by the same tiebreakers
+  // the scheduler uses.
+  const swiss = tournament.format === 'swiss'
+    ? swissStandings(
+      entries.map((e) => ({ id: e.agent_id, seed: e.seed ?? 0 })),
+      pairingList.filter((p) => p.status === 'complete'),
+    )
+    : null
+  const swissRank = new Map(swiss?.map((s) => [s.id, s]) ?? [])
+
+  // Standings: final rank once complete, otherwise points then wins (Swiss:
+  // its own tiebreakers).
+  const standings = entries
+    .map((e) => ({
+      agent_id: e.agent_id,
+      agent_name: names.get(e.agent_id) ?? null,
+      seed: e.seed,
+      points: e.points,
+      wins: e.wins,
+      losses: e.losses,
+      draws: e.draws,
+      eliminated_round: e.eliminated_round,
+      ...(swiss ? { buchholz: swissRank.get(e.agent_id)?.buchholz ?? 0 } : {}),
+      final_rank: e.final_rank,
+      payout: e.payout,
+    }))
+    .sort((a, b) =>
+      (a.final_rank ?? 0) - (b.final_rank ?? 0) ||
+      (swissRank.get(a.agent_id)?.rank ?? 0) - (swissRank.get(b.agent_id)?.rank ?? 0) ||
+      b.points - a.points ||
+      b.wins - a.wins ||
+      (a.seed ?? 0) - (b.seed ?? 0)
+    )
+
+  // The match each pairing is on: the latest round of its series, which is
+  // the one in progress if any.
+  const challengeIds = pairingList.map((p) => p.challenge_id).filter(Boolean)
+  const { data: matchRows } = challengeIds.length
+    ? await supabase
+      .from('matches')
+      .select('id, challenge_id, round')
+      .in('challenge_id', challengeIds)
+      .order('round', { ascending: true })
+    : { data: [] }
+
+  const currentMatch = new Map<string, string>()
+  for (const m of matchRows ?? []) currentMatch.set(m.challenge_id, m.id)
+
+  const pairings = pairingList.map((p) => ({
+    round: p.round,
+    slot: p.slot,
+    agent1_name: names.get(p.agent1_id) ?? null,
+    agent2_name: p.agent2_id ? names.get(p.agent2_id) ?? null : null,
+    winner_name: p.winner_id ? names.get(p.winner_id) ?? null : null,
+    bye: p.agent2_id === null,
+    status: p.status,
+    match_id: p.challenge_id ? currentMatch.get(p.challenge_id) ?? null : null,
+  }))
+
+  return json({ tournament, standings, pairings })
+})
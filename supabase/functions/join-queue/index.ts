@@ -0,0 +1,80 @@
+import { handleCors, json, error } from '../_shared/cors.ts'
+import { createServiceClient } from '../_shared/supabase.ts'
+import { verifyAgentKey } from '../_shared/auth.ts'
+import { rateLimit } from '../_shared/rate-limit.ts'
+
+const DEFAULT_WAIT_SECONDS = 600
+const MAX_WAIT_SECONDS = 3600
+
+// Same bounds accept-challenge applies to its timings.
+function clampSeconds(value: unknown): number {
+  const n = Number(value)
+  return value !== undefined && !Number.isNaN(n) ? Math.max(10, Math.min(120, n)) : 60
+}
+
+// Join the matchmaking queue. The run-matchmaker cron pairs compatible
+// agents; poll queue-status for the match. Joining again replaces the
+// caller's preferences, clears any failed pairings and puts them back at the
+// end of the queue.
+//
+// Body: { min_wager, max_wager, strategy_seconds?, commit_seconds?, max_wait_seconds? }
+Deno.serve(async (req) => {
+  const cors = handleCors(req)
+  if (cors) return cors
+
+  if (req.method !== 'POST') return error('Method not allowed', 405)
+
+  const agent = await verifyAgentKey(req)
+  if (!agent) return error('Invalid or missing API key', 401)
+
+  // Rate limit: 20 joins per agent per 5 minutes
+  const limited = await rateLimit(`join-queue:${agent.id}`, 300, 20)
+  if (limited) return limited
+
+  const body = await req.json().catch(() => null)
+  const minWager = body?.min_wager
+  const maxWager = body?.max_wager ?? minWager
+
+  if (!Number.isInteger(minWager) || minWager <= 0) {
+    return error('min_wager must be a positive integer')
+  }
+  if (!Number.isInteger(maxWager) || maxWager < minWager) {
+    return error('max_wager must be an integer no smaller than min_wager')
+  }
+  if (agent.balance < minWager) {
+    return error(`Insufficient balance — min_wager is ${minWager} chips`)
+  }
+
+  const waitSeconds = body?.max_wait_seconds ?? DEFAULT_WAIT_SECONDS
+  if (!Number.isInteger(waitSeconds) || waitSeconds < 10 || waitSeconds > MAX_WAIT_SECONDS) {
+    return error(`max_wait_seconds must be an integer from 10 to ${MAX_WAIT_SECONDS}`)
+  }
+
+  const supabase = createServiceClient()
+
+  const { data: entry, error: upsertError } = await supabase
+    .from('matchmaking_queue')
+    .upsert({
+      agent_id: agent.id,
+      min_wager: minWager,
+      max_wager: maxWager,
+      strategy_seconds: clampSeconds(body?.strategy_seconds),
+      commit_seconds: clampSeconds(body?.commit_seconds),
+      status: 'waiting',
+      match_id: null,
+      joined_at: new Date().toISOString(),
+      expires_at: new Date(Date.now() + waitSeconds * 1000).toISOString(),
+      matched_at: null,
+      failed_partners: [],
+      last_error: null,
+    })
+    .select()
+    .single()
+
+  if (upsertError) return error(upsertError.message, 500)
+
+  return json({
+    queue: entry,
+    message: 'Queued — poll queue-status for your match.',
+  }, 201)
+})
@@ -0,0 +1,41 @@
+import { handleCors, json, error } from '../_shared/cors.ts'
+import { createServiceClient } from '../_shared/supabase.ts'
+import { verifyAgentKey } from '../_shared/auth.ts'
+import { rateLimit } from '../_shared/rate-limit.ts'
+
+// Enter a tournament during registration. The entry fee is escrowed into the
+// prize pool; taking the last seat starts round 1 immediately.
+Deno.serve(async (req) => {
+  const cors = handleCors(req)
+  if (cors) return cors
+
+  if (req.method !== 'POST') return error('Method not allowed', 405)
+
+  const agent = await verifyAgentKey(req)
+  if (!agent) return error('Invalid or missing API key', 401)
+
+  // Rate limit: 20 joins per agent per 5 minutes
+  const limited = await rateLimit(`join-tournament:${agent.id}`, 300, 20)
+  if (limited) return limited
+
+  const url = new URL(req.url)
+  // Expect: /join-tournament/<tournament_id>
+  const tournamentId = url.pathname.split('/').pop()
+  if (!tournamentId) return error('tournament_id is required in the URL path')
+
+  const supabase = createServiceClient()
+
+  const { data: tournament, error: rpcError } = await supabase.rpc('join_tournament', {
+    p_tournament_id: tournamentId,
+    p_agent_id: agent.id,
+  })
+
+  if (rpcError) return error(rpcError.message, 400)
+
+  return json({
+    tournament,
+    message: tournament.status === 'in_progress'
+      ? 'Joined — the tournament is full and round 1 has started. Check get-tournament for your match.'
+      : `Joined — the tournament starts at ${tournament.starts_at}.`,
+  })
+})
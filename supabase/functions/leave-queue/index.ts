@@ -0,0 +1,34 @@
+import { handleCors, json, error } from '../_shared/cors.ts'
+import { createServiceClient } from '../_shared/supabase.ts'
+import { verifyAgentKey } from '../_shared/auth.ts'
+import { rateLimit } from '../_shared/rate-limit.ts'
+
+// Leave the matchmaking queue. Nothing is escrowed while waiting, so there
+// is nothing to refund; once paired, the match has to be played.
+Deno.serve(async (req) => {
+  const cors = handleCors(req)
+  if (cors) return cors
+
+  if (req.method !== 'POST') return error('Method not allowed', 405)
+
+  const agent = await verifyAgentKey(req)
+  if (!agent) return error('Invalid or missing API key', 401)
+
+  // Rate limit: 20 leaves per agent per 5 minutes
+  const limited = await rateLimit(`leave-queue:${agent.id}`, 300, 20)
+  if (limited) return limited
+
+  const supabase = createServiceClient()
+
+  const { data, error: deleteError } = await supabase
+    .from('matchmaking_queue')
+    .delete()
+    .eq('agent_id', agent.id)
+    .eq('status', 'waiting')
+    .select('agent_id')
+
+  if (deleteError) return error(deleteError.message, 500)
+  if (!data || data.length === 0) return error('You are not waiting in the queue', 404)
+
+  return json({ message: 'Left the queue.' })
+})
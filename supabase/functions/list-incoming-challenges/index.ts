@@ -0,0 +1,63 @@
+import { handleCors, json, error } from '../_shared/cors.ts'
+import { createServiceClient } from '../_shared/supabase.ts'
+import { verifyAgentKey } from '../_shared/auth.ts'
+
+interface IncomingChallenge {
+  id: string
+  wager_amount: number
+  best_of: number
+  variant: string
+  rematch_of: string | null
+  rematch_number: number
+  created_at: string
+  expires_at: string | null
+  challenger: { id: string; name: string; wins: number; losses: number; draws: number; balance: number }
+}
+
+// The caller's inbox: open challenges addressed to them, newest first.
+// Accept with accept-challenge or turn down with decline-challenge.
+// Rematch offers carry rematch_of, the match they follow.
+Deno.serve(async (req) => {
+  const cors = handleCors(req)
+  if (cors) return cors
+
+  if (req.method !== 'GET') return error('Method not allowed', 405)
+
+  const agent = await verifyAgentKey(req)
+  if (!agent) return error('Invalid or missing API key', 401)
+
+  const supabase = createServiceClient()
+
+  const { data, error: fetchError } = await supabase
+    .from('challenges')
+    .select('id, wager_amount, best_of, variant, rematch_of, rematch_number, created_at, expires_at, challenger:agents!challenges_challenger_id_fkey(id, name, wins, losses, draws, balance)')
+    .eq('target_agent_id', agent.id)
+    .eq('status', 'open')
+    .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`)
+    .order('created_at', { ascending: false })
+    .overrideTypes<IncomingChallenge[], { merge: false }>()
+
+  if (fetchError) return error(fetchError.message, 500)
+
+  const challenges = (data ?? []).map((c) => {
+    const challenger = c.challenger
+    return {
+      id: c.id,
+      wager_amount: c.wager_amount,
+      best_of: c.best_of,
+      variant: c.variant,
+      rematch_of: c.rematch_of,
+      rematch_number: c.rematch_number,
+      created_at: c.created_at,
+      expires_at: c.expires_at,
+      challenger_id: challenger.id,
+      challenger_name: challenger.name,
+      wins: challenger.wins,
+      losses: challenger.losses,
+      draws: challenger.draws,
+      challenger_balance: challenger.balance,
+    }
+  })
+
+  return json({ challenges })
+})
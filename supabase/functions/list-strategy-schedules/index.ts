@@ -0,0 +1,42 @@
+import { handleCors, json, error } from '../_shared/cors.ts'
+import { createServiceClient } from '../_shared/supabase.ts'
+import { verifyAgentKey } from '../_shared/auth.ts'
+
+// List the caller's scheduled strategy changes, newest first. Pass
+// ?open=true for only those still waiting to fire or in progress.
+Deno.serve(async (req) => {
+  const cors = handleCors(req)
+  if (cors) return cors
+
+  if (req.method !== 'GET') return error('Method not allowed', 405)
+
+  const agent = await verifyAgentKey(req)
+  if (!agent) return error('Invalid or missing API key', 401)
+
+  const url = new URL(req.url)
+  const openOnly = url.searchParams.get('open') === 'true'
+
+  const supabase = createServiceClient()
+
+  let query = supabase
+    .from('strategy_schedules')
+    .select('id, strategy, after_matches, target_games, window_start, window_end, status, created_at, applied_at')
+    .eq('agent_id', agent.id)
+    .order('created_at', { ascending: false })
+
+  if (openOnly) query = query.in('status', ['pending', 'active'])
+
+  const { data, error: fetchError } = await query
+  if (fetchError) return error(fetchError.message, 500)
+
+  const gamesPlayed = agent.wins + agent.losses + agent.draws
+  const schedules = (data ?? []).map((s) => ({
+    ...s,
+    kind: s.after_matches !== null ? 'after_matches' : 'window',
+    matches_remaining: s.target_games !== null && s.status === 'pending'
+      ? Math.max(0, s.target_games - gamesPlayed)
+      : null,
+  }))
+
+  return json({ games_played: gamesPlayed, schedules })
+})
@@ -0,0 +1,29 @@
+import { handleCors, json, error } from '../_shared/cors.ts'
+import { createServiceClient } from '../_shared/supabase.ts'
+import { verifyAgentKey } from '../_shared/auth.ts'
+
+// List the caller's strategy versions, newest first, with each version's
+// record while it was active. See get-strategy-version for the matches.
+Deno.serve(async (req) => {
+  const cors = handleCors(req)
+  if (cors) return cors
+
+  if (req.method !== 'GET') return error('Method not allowed', 405)
+
+  const agent = await verifyAgentKey(req)
+  if (!agent) return error('Invalid or missing API key', 401)
+
+  const supabase = createServiceClient()
+
+  const { data, error: fetchError } = await supabase
+    .from('strategy_version_performance')
+    .select('version, strategy, created_at, superseded_at, matches, wins, losses, draws, net_chips')
+    .eq('agent_id', agent.id)
+    .order('version', { ascending: false })
+
+  if (fetchError) return error(fetchError.message, 500)
+
+  const versions = (data ?? []).map((v) => ({ ...v, active: v.superseded_at === null }))
+
+  return json({ versions })
+})
@@ -0,0 +1,60 @@
+import { handleCors, json, error } from '../_shared/cors.ts'
+import { createServiceClient } from '../_shared/supabase.ts'
+import { verifyAgentKey } from '../_shared/auth.ts'
+import { rateLimit } from '../_shared/rate-limit.ts'
+
+// The opponent has two minutes to accept by default; 30 seconds to 10 minutes.
+const DEFAULT_EXPIRY_SECONDS = 120
+const MIN_EXPIRY_SECONDS = 30
+const MAX_EXPIRY_SECONDS = 10 * 60
+
+// Offer the opponent of a settled match a rematch, at the same wager or
+// doubled. The offer is a direct challenge to them with the same best_of and
+// variant; they accept it with accept-challenge (or the MCP accept_rematch
+// tool) and go straight into the new match.
+//
+// Body: { match_id, double?, expires_in_seconds? }
+Deno.serve(async (req) => {
+  const cors = handleCors(req)
+  if (cors) return cors
+
+  if (req.method !== 'POST') return error('Method not allowed', 405)
+
+  const agent = await verifyAgentKey(req)
+  if (!agent) return error('Invalid or missing API key', 401)
+
+  // Rate limit: 20 offers per agent per 5 minutes
+  const limited = await rateLimit(`offer-rematch:${agent.id}`, 300, 20)
+  if (limited) return limited
+
+  const body = await req.json().catch(() => null)
+
+  const matchId = body?.match_id
+  if (typeof matchId !== 'string' || !matchId) return error('match_id is required')
+
+  const double = body?.double ?? false
+  if (typeof double !== 'boolean') return error('double must be true or false')
+
+  const expiresIn = body?.expires_in_seconds ?? DEFAULT_EXPIRY_SECONDS
+  if (!Number.isInteger(expiresIn) || expiresIn < MIN_EXPIRY_SECONDS || expiresIn > MAX_EXPIRY_SECONDS) {
+    return error(
+      `expires_in_seconds must be an integer from ${MIN_EXPIRY_SECONDS} to ${MAX_EXPIRY_SECONDS}`,
+    )
+  }
+
+  const supabase = createServiceClient()
+
+  const { data: challenge, error: rpcError } = await supabase.rpc('offer_rematch', {
+    p_match_id: matchId,
+    p_agent_id: agent.id,
+    p_double: double,
+    p_expires_seconds: expiresIn,
+  })
+
+  if (rpcError) return error(rpcError.message, 400)
+
+  return json({
+    challenge,
+    message: `Rematch offered for ${challenge.wager_amount} chips — your opponent has until ${challenge.expires_at} to accept.`,
+  }, 201)
+})
@@ -1,8 +1,26 @@
 import { handleCors, json, error } from '../_shared/cors.ts'
 import { createServiceClient } from '../_shared/supabase.ts'
-import { verifyAgentKey } from '../_shared/auth.ts'
+import { verifyAgentKey, STRATEGY_TYPES, VARIANTS, variantMoves } from '../_shared/auth.ts'
 import { rateLimit } from '../_shared/rate-limit.ts'
 
+const BEST_OF = [1, 3, 5, 7]
+
+// Bounds for expires_in_seconds: one minute to one week.
+const MIN_EXPIRY_SECONDS = 60
+const MAX_EXPIRY_SECONDS = 7 * 24 * 60 * 60
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+const MAX_EXCLUDED_AGENTS = 50
+
+// Free-for-all seats, the challenger included.
+const MIN_FFA_PLAYERS = 3
+const MAX_FFA_PLAYERS = 8
+
+function isWinPct(v: unknown): v is number {
+  return typeof v === 'number' && v >= 0 && v <= 100
+}
+
 Deno.serve(async (req) => {
   const cors = handleCors(req)
   if (cors) return cors
@@ -23,8 +41,116 @@ Deno.serve(async (req) => {
     return error('wager_amount must be a positive integer')
   }
 
+  // Best-of-N series settle one escrowed wager over several rounds.
+  const bestOf = body?.best_of ?? 1
+  if (!BEST_OF.includes(bestOf)) {
+    return error('best_of must be 1, 3, 5 or 7')
+  }
+
+  // The game both agents play: classic rock-paper-scissors, or rpsls with
+  // lizard and spock added.
+  const variant = body?.variant ?? 'classic'
+  if (!VARIANTS.includes(variant)) {
+    return error(`variant must be one of: ${VARIANTS.join(', ')}`)
+  }
+
+  // Without an expiry the challenge stays open until cancelled or accepted.
+  const expiresIn = body?.expires_in_seconds
+  if (
+    expiresIn !== undefined &&
+    (!Number.isInteger(expiresIn) || expiresIn < MIN_EXPIRY_SECONDS || expiresIn > MAX_EXPIRY_SECONDS)
+  ) {
+    return error(
+      `expires_in_seconds must be an integer from ${MIN_EXPIRY_SECONDS} to ${MAX_EXPIRY_SECONDS}`,
+    )
+  }
+  const expiresAt = expiresIn !== undefined
+    ? new Date(Date.now() + expiresIn * 1000).toISOString()
+    : null
+
+  // Acceptance constraints — create_match checks them against the accepter.
+  const minWinPct = body?.min_win_pct ?? null
+  const maxWinPct = body?.max_win_pct ?? null
+  const minGames = body?.min_games ?? null
+  const strategyFamily = body?.strategy_family ?? null
+  const excluded: unknown[] = body?.excluded_agents ?? []
+
+  if (minWinPct !== null && !isWinPct(minWinPct)) return error('min_win_pct must be from 0 to 100')
+  if (maxWinPct !== null && !isWinPct(maxWinPct)) return error('max_win_pct must be from 0 to 100')
+  if (minWinPct !== null && maxWinPct !== null && minWinPct > maxWinPct) {
+    return error('min_win_pct cannot be greater than max_win_pct')
+  }
+  if (minGames !== null && (!Number.isInteger(minGames) || minGames < 1)) {
+    return error('min_games must be a positive integer')
+  }
+  if (strategyFamily !== null && !STRATEGY_TYPES.includes(strategyFamily)) {
+    return error(`strategy_family must be one of: ${STRATEGY_TYPES.join(', ')}`)
+  }
+  if (!Array.isArray(excluded) || excluded.length > MAX_EXCLUDED_AGENTS) {
+    return error(`excluded_agents must be a list of at most ${MAX_EXCLUDED_AGENTS} agent names or ids`)
+  }
+
+  // A free-for-all is one open round that starts when every seat is taken.
+  const maxPlayers = body?.max_players ?? null
+  if (maxPlayers !== null) {
+    if (!Number.isInteger(maxPlayers) || maxPlayers < MIN_FFA_PLAYERS || maxPlayers > MAX_FFA_PLAYERS) {
+      return error(`max_players must be an integer from ${MIN_FFA_PLAYERS} to ${MAX_FFA_PLAYERS}`)
+    }
+    if (
+      bestOf !== 1 || body?.target_agent !== undefined ||
+      minWinPct !== null || maxWinPct !== null || minGames !== null ||
+      strategyFamily !== null || excluded.length > 0
+    ) {
+      return error('best_of, target_agent and acceptance constraints are for 1v1 challenges, not a free-for-all')
+    }
+  }
+
   const supabase = createServiceClient()
 
+  // Excluded agents are given by name or id, like target_agent.
+  const excludedRefs = excluded.map(String)
+  const excludedIds = excludedRefs.filter((r) => UUID_PATTERN.test(r))
+  const excludedNames = excludedRefs.filter((r) => !UUID_PATTERN.test(r))
+  let excludedAgentIds: string[] = []
+
+  if (excludedRefs.length > 0) {
+    const filters = []
+    if (excludedIds.length > 0) filters.push(`id.in.(${excludedIds.join(',')})`)
+    if (excludedNames.length > 0) {
+      filters.push(`name.in.(${excludedNames.map((n) => JSON.stringify(n)).join(',')})`)
+    }
+
+    const { data: found, error: lookupError } = await supabase
+      .from('agents')
+      .select('id, name')
+      .or(filters.join(','))
+
+    if (lookupError) return error(lookupError.message, 500)
+
+    const missing = excludedRefs.filter(
+      (r) => !found?.some((a) => a.id === r || a.name === r),
+    )
+    if (missing.length > 0) return error(`Agents not found: ${missing.join(', ')}`, 404)
+
+    excludedAgentIds = [...new Set(found!.map((a) => a.id))]
+  }
+
+  // A direct challenge names its opponent by name or id. Only they can
+  // accept it, and it is kept out of the public lobby.
+  let targetAgentId: string | null = null
+  if (body?.target_agent !== undefined) {
+    const target = String(body.target_agent)
+    const { data: targetAgent } = await supabase
+      .from('agents')
+      .select('id')
+      .eq(UUID_PATTERN.test(target) ? 'id' : 'name', target)
+      .maybeSingle()
+
+    if (!targetAgent) return error(`Agent '${target}' not found`, 404)
+    if (targetAgent.id === agent.id) return error('You cannot challenge yourself')
+    targetAgentId = targetAgent.id
+  }
+
   // Atomically check balance and escrow the wager (prevents race conditions).
   const { data: escrowed, error: escrowError } = await supabase.rpc(
     'escrow_wager',
@@ -38,7 +164,20 @@ Deno.serve(async (req) => {
 
   const { data: challenge, error: challengeError } = await supabase
     .from('challenges')
-    .insert({ challenger_id: agent.id, wager_amount: wager })
+    .insert({
+      challenger_id: agent.id,
+      wager_amount: wager,
+      best_of: bestOf,
+      variant,
+      target_agent_id: targetAgentId,
+      expires_at: expiresAt,
+      min_win_pct: minWinPct,
+      max_win_pct: maxWinPct,
+      min_games: minGames,
+      excluded_agent_ids: excludedAgentIds,
+      strategy_family: strategyFamily,
+      max_players: maxPlayers,
+    })
     .select()
     .single()
 
@@ -51,5 +190,5 @@ Deno.serve(async (req) => {
     return error(challengeError.message, 500)
   }
 
-  return json({ challenge }, 201)
+  return json({ challenge, moves: variantMoves(variant) }, 201)
 })
@@ -0,0 +1,20 @@
+// Cron Edge Function — called on a schedule (every few minutes is plenty).
+// Ends the current season once its time is up: snapshots the standings,
+// pays any end-of-season rewards, resets season records and ratings and
+// opens the next season. See roll_over_season in migration 023.
+//
+// Set up in Supabase Dashboard → Edge Functions → Schedules,
+// or via the Supabase CLI cron config.
+
+import { json } from '../_shared/cors.ts'
+import { createServiceClient } from '../_shared/supabase.ts'
+
+Deno.serve(async (_req) => {
+  const supabase = createServiceClient()
+
+  const { data, error: rpcError } = await supabase.rpc('roll_over_season')
+
+  if (rpcError) return json({ error: rpcError.message }, 500)
+
+  return json({ rolled_over: Boolean(data?.id), season: data?.id ? data : null })
+})
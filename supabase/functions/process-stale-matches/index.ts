@@ -1,36 +1,54 @@
 // Cron Edge Function — called on a schedule (every 15–30s recommended).
-// Finds matches past their commit or reveal deadline and resolves them
+// Expires open challenges past their expires_at, refunding the escrow, then
+// finds matches past their commit or reveal deadline and resolves them
 // using the strategy fallback for any agent that failed to respond in time.
+// Each round of a best-of-N series is its own match with its own deadlines,
+// so rounds fall back one at a time; resolve_match starts the next round.
+// Free-for-alls fall back per participant (see _shared/ffa.ts).
 //
 // Set up in Supabase Dashboard → Edge Functions → Schedules,
 // or via the Supabase CLI cron config.
 
 import { json } from '../_shared/cors.ts'
 import { createServiceClient } from '../_shared/supabase.ts'
-import { computeMove, advanceState } from '../_shared/strategy.ts'
+import { advanceState, computeLockedMove, loadOpponentContext } from '../_shared/strategy.ts'
+import type { StrategyContext } from '../_shared/strategy.ts'
+import type { Strategy, Variant } from '../_shared/auth.ts'
+import { seededRandom } from '../_shared/fair-random.ts'
+import { getParticipants, resolveFfaMatch } from '../_shared/ffa.ts'
 
 Deno.serve(async (_req) => {
   const supabase = createServiceClient()
 
+  // Refunds go through close_challenge, the same path as cancel_challenge.
+  const { data: expired, error: expireError } = await supabase.rpc('expire_challenges')
+
+  if (expireError) return json({ error: expireError.message }, 500)
+  const expiredChallenges = expired ?? []
+
   // stale_matches view returns all matches past their commit or reveal deadline.
   const { data: stale, error: fetchError } = await supabase
     .from('stale_matches')
     .select('*')
 
   if (fetchError) return json({ error: fetchError.message }, 500)
-  if (!stale || stale.length === 0) return json({ processed: 0 })
+  if (!stale || stale.length === 0) {
+    return json({ processed: 0, expired_challenges: expiredChallenges })
+  }
 
   const results = []
 
   for (const match of stale) {
     try {
-      results.push(await processMatch(supabase, match))
+      results.push(match.match_type === 'ffa'
+        ? await processFfaMatch(supabase, match)
+        : await processMatch(supabase, match))
     } catch (e) {
       results.push({ match_id: match.id, error: String(e) })
     }
   }
 
-  return json({ processed: results.length, results })
+  return json({ processed: results.length, results, expired_challenges: expiredChallenges })
 })
 
 async function processMatch(
@@ -40,7 +58,7 @@ async function processMatch(
   // Load both agents' strategy and state.
   const { data: agents } = await supabase
     .from('agents')
-    .select('id, strategy, strategy_state')
+    .select('id, name, balance, strategy, strategy_state')
     .in('id', [match.agent1_id, match.agent2_id])
 
   const agent1 = agents?.find((a: { id: string }) => a.id === match.agent1_id)
@@ -48,6 +66,46 @@ async function processMatch(
 
   if (!agent1 || !agent2) throw new Error(`Agents not found for match ${match.id}`)
 
+  // Fallback moves play the strategy locked in when the match was created,
+  // not whatever the agent has switched to since. Matches from before
+  // strategy snapshots have none; those use the live strategy.
+  const strategy1 = (match.agent1_strategy ?? agent1.strategy) as Strategy
+  const strategy2 = (match.agent2_strategy ?? agent2.strategy) as Strategy
+
+  // Opponent-aware strategies read the other side's recent history.
+  const [opponent1, opponent2] = await Promise.all([
+    loadOpponentContext(strategy1, agent2.id, agent2.name),
+    loadOpponentContext(strategy2, agent1.id, agent1.name),
+  ])
+
+  // Fallback draws come from the match's committed seed so they can be
+  // verified once it is revealed. Matches created before seeding fall back
+  // to Math.random.
+  const seed = match.server_seed as string | null
+  const [random1, random2] = seed
+    ? await Promise.all([
+      seededRandom(seed, match.id as string, agent1.id),
+      seededRandom(seed, match.id as string, agent2.id),
+    ])
+    : [undefined, undefined]
+
+  const ctx1: StrategyContext = {
+    agentId: agent1.id,
+    opponent: opponent1,
+    wager: match.wager_amount as number,
+    balance: agent1.balance,
+    random: random1,
+    variant: match.variant as Variant,
+  }
+  const ctx2: StrategyContext = {
+    agentId: agent2.id,
+    opponent: opponent2,
+    wager: match.wager_amount as number,
+    balance: agent2.balance,
+    random: random2,
+    variant: match.variant as Variant,
+  }
+
   let agent1Move: string
   let agent2Move: string
   let agent1Fallback: boolean
@@ -68,8 +126,8 @@ async function processMatch(
     // Edge case: one agent committed but the other didn't before deadline.
     // The committing agent is penalised too — this discourages posting
     // challenges and going offline.
-    const r1 = await computeMove(agent1.strategy, agent1.strategy_state, agent1.id)
-    const r2 = await computeMove(agent2.strategy, agent2.strategy_state, agent2.id)
+    const r1 = await computeLockedMove(strategy1, agent1.strategy, agent1.strategy_state, ctx1)
+    const r2 = await computeLockedMove(strategy2, agent2.strategy, agent2.strategy_state, ctx2)
 
     agent1Move = r1.move
     agent2Move = r2.move
@@ -87,10 +145,10 @@ async function processMatch(
 
     if (agent1Revealed) {
       agent1Move = match.agent1_move as string
-      newState1 = await advanceState(agent1.strategy, agent1.strategy_state, agent1.id)
+      newState1 = await advanceState(agent1.strategy, agent1.strategy_state, ctx1)
       agent1Fallback = false
     } else {
-      const r1 = await computeMove(agent1.strategy, agent1.strategy_state, agent1.id)
+      const r1 = await computeLockedMove(strategy1, agent1.strategy, agent1.strategy_state, ctx1)
       agent1Move = r1.move
       newState1 = r1.newState
       agent1Fallback = true
@@ -98,10 +156,10 @@ async function processMatch(
 
     if (agent2Revealed) {
       agent2Move = match.agent2_move as string
-      newState2 = await advanceState(agent2.strategy, agent2.strategy_state, agent2.id)
+      newState2 = await advanceState(agent2.strategy, agent2.strategy_state, ctx2)
       agent2Fallback = false
     } else {
-      const r2 = await computeMove(agent2.strategy, agent2.strategy_state, agent2.id)
+      const r2 = await computeLockedMove(strategy2, agent2.strategy, agent2.strategy_state, ctx2)
       agent2Move = r2.move
       newState2 = r2.newState
       agent2Fallback = true
@@ -126,6 +184,9 @@ async function processMatch(
   const result = resolved as Record<string, unknown>
   return {
     match_id: match.id,
+    round: match.round,
+    best_of: match.best_of,
+    series_settled: result.series_settled,
     winner_id: result.winner_id,
     agent1_move: agent1Move,
     agent2_move: agent2Move,
@@ -133,3 +194,23 @@ async function processMatch(
     agent2_fallback: agent2Fallback,
   }
 }
+
+async function processFfaMatch(
+  supabase: ReturnType<typeof import('../_shared/supabase.ts').createServiceClient>,
+  match: Record<string, unknown>,
+) {
+  const result = await resolveFfaMatch(supabase, match)
+  const participants = await getParticipants(supabase, match.id as string)
+
+  return {
+    match_id: match.id,
+    match_type: 'ffa',
+    winner_id: result.winner_id,
+    participants: participants.map((p) => ({
+      agent_id: p.agent_id,
+      move: p.move,
+      fallback: p.used_fallback,
+      payout: p.payout,
+    })),
+  }
+}
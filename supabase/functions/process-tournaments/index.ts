@@ -0,0 +1,72 @@
+// Cron Edge Function — called on a schedule (every minute recommended).
+//
+// 1. Starts tournaments whose registration has closed, or cancels and
+//    refunds them if fewer than two agents joined.
+// 2. Pairs the next round of Swiss tournaments whose previous round has
+//    finished (see _shared/swiss.ts), or ranks the field and pays out after
+//    the last round.
+//
+// Bracket and round-robin rounds start on their own as matches resolve; see
+// migrations 017 and 018.
+//
+// Set up in Supabase Dashboard → Edge Functions → Schedules,
+// or via the Supabase CLI cron config.
+
+import { json } from '../_shared/cors.ts'
+import { createServiceClient } from '../_shared/supabase.ts'
+import { pairSwissRound, swissStandings, type SwissGame, type SwissPlayer } from '../_shared/swiss.ts'
+
+Deno.serve(async (_req) => {
+  const supabase = createServiceClient()
+
+  const { data: started, error: rpcError } = await supabase.rpc('start_due_tournaments')
+
+  if (rpcError) return json({ error: rpcError.message }, 500)
+
+  const { data: due, error: dueError } = await supabase
+    .from('tournaments')
+    .select('id, current_round, swiss_rounds')
+    .eq('format', 'swiss')
+    .eq('status', 'in_progress')
+    .eq('pairing_due', true)
+
+  if (dueError) return json({ error: dueError.message }, 500)
+
+  const swiss = []
+
+  for (const t of due ?? []) {
+    const [{ data: entries }, { data: pairings }] = await Promise.all([
+      supabase
+        .from('tournament_entries')
+        .select('agent_id, seed')
+        .eq('tournament_id', t.id),
+      supabase
+        .from('tournament_pairings')
+        .select('round, agent1_id, agent2_id, winner_id')
+        .eq('tournament_id', t.id)
+        .eq('status', 'complete'),
+    ])
+
+    const players: SwissPlayer[] = (entries ?? []).map((e) => ({ id: e.agent_id, seed: e.seed }))
+    const games: SwissGame[] = pairings ?? []
+
+    if (t.current_round >= t.swiss_rounds) {
+      const ranking = swissStandings(players, games).map((s) => s.id)
+      const { error: finishError } = await supabase.rpc('finish_tournament', {
+        p_tournament_id: t.id,
+        p_ranking: ranking,
+      })
+      swiss.push({ tournament_id: t.id, finished: !finishError, error: finishError?.message })
+      continue
+    }
+
+    const { error: roundError } = await supabase.rpc('start_swiss_round', {
+      p_tournament_id: t.id,
+      p_round: t.current_round + 1,
+      p_pairings: pairSwissRound(players, games),
+    })
+    swiss.push({ tournament_id: t.id, round: t.current_round + 1, error: roundError?.message })
+  }
+
+  return json({ processed: (started ?? []).length, tournaments: started ?? [], swiss })
+})
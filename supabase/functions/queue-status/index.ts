@@ -0,0 +1,65 @@
+import { handleCors, json, error } from '../_shared/cors.ts'
+import { createServiceClient } from '../_shared/supabase.ts'
+import { verifyAgentKey } from '../_shared/auth.ts'
+import { rateLimit } from '../_shared/rate-limit.ts'
+
+// The caller's queue entry. Once status is 'matched', match describes the
+// match the matchmaker created — the same fields accept-challenge returns.
+// last_error is why the latest pairing attempt failed, if one did; that
+// partner is skipped from then on.
+Deno.serve(async (req) => {
+  const cors = handleCors(req)
+  if (cors) return cors
+
+  if (req.method !== 'GET') return error('Method not allowed', 405)
+
+  const agent = await verifyAgentKey(req)
+  if (!agent) return error('Invalid or missing API key', 401)
+
+  // Rate limit: 60 polls per agent per minute
+  const limited = await rateLimit(`queue-status:${agent.id}`, 60, 60)
+  if (limited) return limited
+
+  const supabase = createServiceClient()
+
+  const { data: entry } = await supabase
+    .from('matchmaking_queue')
+    .select('*')
+    .eq('agent_id', agent.id)
+    .maybeSingle()
+
+  if (!entry) return error('You have not joined the queue', 404)
+
+  if (entry.status !== 'matched' || !entry.match_id) {
+    return json({ queue: entry, match: null })
+  }
+
+  const { data: match } = await supabase
+    .from('matches')
+    .select('id, phase, status, agent1_id, agent2_id, wager_amount, best_of, strategy_deadline, commit_deadline')
+    .eq('id', entry.match_id)
+    .single()
+
+  if (!match) return json({ queue: entry, match: null })
+
+  const isAgent1 = match.agent1_id === agent.id
+  const { data: opponent } = await supabase
+    .from('agents')
+    .select('name')
+    .eq('id', isAgent1 ? match.agent2_id : match.agent1_id)
+    .single()
+
+  return json({
+    queue: entry,
+    match: {
+      match_id:          match.id,
+      phase:             match.phase,
+      status:            match.status,
+      wager_amount:      match.wager_amount,
+      strategy_deadline: match.strategy_deadline,
+      commit_deadline:   match.commit_deadline,
+      your_role:         isAgent1 ? 'agent1' : 'agent2',
+      opponent_name:     opponent?.name ?? null,
+    },
+  })
+})
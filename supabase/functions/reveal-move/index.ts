@@ -1,8 +1,11 @@
 import { VALID_MOVES, verifyAgentKey } from '../_shared/auth.ts'
+import type { Variant } from '../_shared/auth.ts'
 import { error, handleCors, json } from '../_shared/cors.ts'
 import { rateLimit } from '../_shared/rate-limit.ts'
-import { advanceState } from '../_shared/strategy.ts'
+import { advanceState, loadOpponentContext } from '../_shared/strategy.ts'
 import { createServiceClient } from '../_shared/supabase.ts'
+import { getSeries } from '../_shared/series.ts'
+import { ffaOutcome, getParticipants, resolveFfaMatch } from '../_shared/ffa.ts'
 
 Deno.serve(async (req) => {
   const cors = handleCors(req)
@@ -21,7 +24,8 @@ Deno.serve(async (req) => {
   const { match_id, move, salt } = body ?? {}
 
   if (!match_id) return error('match_id is required')
-  if (!VALID_MOVES.includes(move)) return error('move must be rock, paper, or scissors')
+  // submit_reveal checks the move belongs to the match's variant.
+  if (!VALID_MOVES.includes(move)) return error(`move must be one of: ${VALID_MOVES.join(', ')}`)
   if (!salt || typeof salt !== 'string' || salt.length < 16) {
     return error('salt must be a string of at least 16 characters for cryptographic safety')
   }
@@ -40,6 +44,10 @@ Deno.serve(async (req) => {
 
   const match = data as Record<string, unknown>
 
+  if (match.match_type === 'ffa') {
+    return await revealFfa(supabase, match, agent.id, move)
+  }
+
   // If both moves are now revealed, resolve the match immediately.
   if (match.agent1_move !== null && match.agent2_move !== null) {
     return await resolveMatch(supabase, match, agent.id)
@@ -63,7 +71,7 @@ async function resolveMatch(
   // Load both agents' full profiles for strategy state advancement.
   const { data: agents } = await supabase
     .from('agents')
-    .select('id, strategy, strategy_state')
+    .select('id, name, balance, strategy, strategy_state')
     .in('id', [match.agent1_id, match.agent2_id])
 
   const agent1 = agents?.find((a: { id: string }) => a.id === match.agent1_id)
@@ -73,11 +81,28 @@ async function resolveMatch(
     return json({ error: 'Could not load agents for resolution' }, 500)
   }
 
+  const [opponent1, opponent2] = await Promise.all([
+    loadOpponentContext(agent1.strategy, agent2.id, agent2.name),
+    loadOpponentContext(agent2.strategy, agent1.id, agent1.name),
+  ])
+
   // Advance strategy state for both agents (keeps cycle indices in sync
   // even though both agents submitted their own moves live).
   const [newState1, newState2] = await Promise.all([
-    advanceState(agent1.strategy, agent1.strategy_state, agent1.id),
-    advanceState(agent2.strategy, agent2.strategy_state, agent2.id),
+    advanceState(agent1.strategy, agent1.strategy_state, {
+      agentId: agent1.id,
+      opponent: opponent1,
+      wager: match.wager_amount as number,
+      balance: agent1.balance,
+      variant: match.variant as Variant,
+    }),
+    advanceState(agent2.strategy, agent2.strategy_state, {
+      agentId: agent2.id,
+      opponent: opponent2,
+      wager: match.wager_amount as number,
+      balance: agent2.balance,
+      variant: match.variant as Variant,
+    }),
   ])
 
   const { data: resolved, error: resolveError } = await supabase.rpc(
@@ -107,6 +132,10 @@ async function resolveMatch(
   else if (result.winner_id === triggeringAgentId) outcome = 'win'
   else outcome = 'loss'
 
+  // In a series, the wager only moves once someone clinches it; until then
+  // the next round is already waiting in its strategy phase.
+  const series = await getSeries(supabase, result)
+
   return json({
     match_id: result.id,
     phase: 'finished',
@@ -116,5 +145,62 @@ async function resolveMatch(
     outcome,
     winner_id: result.winner_id,
     wager_amount: result.wager_amount,
+    series,
+    ...(series && !series.settled
+      ? { next_match_id: series.current_match_id, message: 'Round over — the next round has started.' }
+      : {}),
+  })
+}
+
+// Free-for-all: settle once the last participant has revealed, otherwise
+// report how many have.
+async function revealFfa(
+  supabase: ReturnType<typeof import('../_shared/supabase.ts').createServiceClient>,
+  match: Record<string, unknown>,
+  agentId: string,
+  move: string,
+) {
+  let participants = await getParticipants(supabase, match.id as string)
+  const revealed = participants.filter((p) => p.move !== null).length
+
+  if (revealed < participants.length) {
+    return json({
+      match_id: match.id,
+      status: match.status,
+      your_move: move,
+      revealed,
+      players: participants.length,
+      message: 'Waiting for the other participants to reveal.',
+    })
+  }
+
+  let result: Record<string, unknown>
+  try {
+    result = await resolveFfaMatch(supabase, match)
+  } catch (e) {
+    return json({ error: String(e) }, 500)
+  }
+  participants = await getParticipants(supabase, match.id as string)
+  const you = participants.find((p) => p.agent_id === agentId)
+
+  return json({
+    match_id: result.id,
+    phase: 'finished',
+    status: 'complete',
+    your_move: move,
+    outcome: ffaOutcome(participants, agentId),
+    payout: you?.payout ?? 0,
+    winner_id: result.winner_id,
+    wager_amount: result.wager_amount,
+    participants: participants.map((p) => ({
+      agent_name: p.agent_name,
+      seat: p.seat,
+      move: p.move,
+      wins: p.wins,
+      losses: p.losses,
+      draws: p.draws,
+      score: p.score,
+      payout: p.payout,
+    })),
   })
 }
@@ -0,0 +1,56 @@
+import { handleCors, json, error } from '../_shared/cors.ts'
+import { createServiceClient } from '../_shared/supabase.ts'
+import { verifyAgentKey } from '../_shared/auth.ts'
+import { rateLimit } from '../_shared/rate-limit.ts'
+
+// Re-apply one of the caller's earlier strategy versions. The trigger on
+// agents records it as a new version, so history is never rewritten.
+Deno.serve(async (req) => {
+  const cors = handleCors(req)
+  if (cors) return cors
+
+  if (req.method !== 'POST') return error('Method not allowed', 405)
+
+  const agent = await verifyAgentKey(req)
+  if (!agent) return error('Invalid or missing API key', 401)
+
+  // Shares set-strategy's limit: 10 strategy changes per agent per 5 minutes
+  const limited = await rateLimit(`set-strategy:${agent.id}`, 300, 10)
+  if (limited) return limited
+
+  const body = await req.json().catch(() => null)
+  const version = body?.version
+  if (!Number.isInteger(version) || version < 1) {
+    return error('version must be a positive integer')
+  }
+
+  const supabase = createServiceClient()
+
+  const { data: target } = await supabase
+    .from('strategy_versions')
+    .select('version, strategy')
+    .eq('agent_id', agent.id)
+    .eq('version', version)
+    .single()
+
+  if (!target) return error('Version not found', 404)
+
+  if (JSON.stringify(target.strategy) === JSON.stringify(agent.strategy)) {
+    return error(`Version ${version} is already your active strategy`, 409)
+  }
+
+  const { error: updateError } = await supabase
+    .from('agents')
+    .update({
+      strategy: target.strategy,
+      // Same reset as set-strategy: fresh state, but keep the last match.
+      strategy_state: agent.strategy_state.last_match
+        ? { last_match: agent.strategy_state.last_match }
+        : {},
+    })
+    .eq('id', agent.id)
+
+  if (updateError) return error(updateError.message, 500)
+
+  return json({ strategy: target.strategy, rolled_back_to: version })
+})
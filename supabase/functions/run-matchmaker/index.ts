@@ -0,0 +1,19 @@
+// Cron Edge Function — called on a schedule (every 5–15s recommended).
+// Pairs waiting agents in the matchmaking queue into matches; see
+// run_matchmaker in migration 016 for the pairing rules.
+//
+// Set up in Supabase Dashboard → Edge Functions → Schedules,
+// or via the Supabase CLI cron config.
+
+import { json } from '../_shared/cors.ts'
+import { createServiceClient } from '../_shared/supabase.ts'
+
+Deno.serve(async (_req) => {
+  const supabase = createServiceClient()
+
+  const { data, error: rpcError } = await supabase.rpc('run_matchmaker')
+
+  if (rpcError) return json({ error: rpcError.message }, 500)
+
+  return json({ matched: (data ?? []).length, matches: data ?? [] })
+})
@@ -0,0 +1,96 @@
+import { handleCors, json, error } from '../_shared/cors.ts'
+import { createServiceClient } from '../_shared/supabase.ts'
+import { verifyAgentKey, validateStrategy } from '../_shared/auth.ts'
+import type { Strategy } from '../_shared/auth.ts'
+import { rateLimit } from '../_shared/rate-limit.ts'
+// The DSL parser is shared with the MCP server so both accept the same syntax.
+import { parse } from '../_shared/strategy-parser.ts'
+
+const MAX_AFTER_MATCHES = 1000
+const MAX_OPEN_SCHEDULES = 10
+
+// 24-hour HH:MM, UTC.
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/
+
+// Queue a strategy change instead of making it now. Either:
+//   after_matches: N                        switch once N more matches complete
+//   window_start/window_end: 'HH:MM' (UTC)  play it inside that window every day
+//
+// Schedules are applied by create_match when the agent's next match starts,
+// so the change shows up in that match's strategy snapshot.
+Deno.serve(async (req) => {
+  const cors = handleCors(req)
+  if (cors) return cors
+
+  if (req.method !== 'POST') return error('Method not allowed', 405)
+
+  const agent = await verifyAgentKey(req)
+  if (!agent) return error('Invalid or missing API key', 401)
+
+  // Shares set-strategy's limit: 10 strategy changes per agent per 5 minutes
+  const limited = await rateLimit(`set-strategy:${agent.id}`, 300, 10)
+  if (limited) return limited
+
+  const body = await req.json().catch(() => null)
+  if (!body?.strategy) return error('strategy is required')
+
+  let strategy: Strategy
+  if (typeof body.strategy === 'string') {
+    try {
+      strategy = parse(body.strategy)
+    } catch (e) {
+      return error(`Invalid strategy DSL: ${e instanceof Error ? e.message : String(e)}`)
+    }
+  } else {
+    strategy = body.strategy
+  }
+  if (!validateStrategy(strategy)) return error('Invalid strategy')
+
+  const afterMatches = body.after_matches
+  const windowStart = body.window_start
+  const windowEnd = body.window_end
+  const hasWindow = windowStart !== undefined || windowEnd !== undefined
+
+  if ((afterMatches === undefined) === !hasWindow) {
+    return error('Provide either after_matches or window_start and window_end')
+  }
+
+  const row: Record<string, unknown> = { agent_id: agent.id, strategy }
+
+  if (afterMatches !== undefined) {
+    if (!Number.isInteger(afterMatches) || afterMatches < 1 || afterMatches > MAX_AFTER_MATCHES) {
+      return error(`after_matches must be an integer from 1 to ${MAX_AFTER_MATCHES}`)
+    }
+    row.after_matches = afterMatches
+    row.target_games = agent.wins + agent.losses + agent.draws + afterMatches
+  } else {
+    if (!TIME_PATTERN.test(windowStart ?? '') || !TIME_PATTERN.test(windowEnd ?? '')) {
+      return error('window_start and window_end must be UTC times as HH:MM')
+    }
+    if (windowStart === windowEnd) return error('window_start and window_end must differ')
+    row.window_start = windowStart
+    row.window_end = windowEnd
+  }
+
+  const supabase = createServiceClient()
+
+  const { count } = await supabase
+    .from('strategy_schedules')
+    .select('id', { count: 'exact', head: true })
+    .eq('agent_id', agent.id)
+    .in('status', ['pending', 'active'])
+
+  if ((count ?? 0) >= MAX_OPEN_SCHEDULES) {
+    return error(`At most ${MAX_OPEN_SCHEDULES} schedules can be open at once`, 409)
+  }
+
+  const { data: schedule, error: insertError } = await supabase
+    .from('strategy_schedules')
+    .insert(row)
+    .select('id, strategy, after_matches, target_games, window_start, window_end, status, created_at')
+    .single()
+
+  if (insertError) return error(insertError.message, 500)
+
+  return json({ schedule }, 201)
+})
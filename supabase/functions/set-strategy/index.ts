@@ -21,7 +21,10 @@ Deno.serve(async (req) => {
 
   if (!validateStrategy(body.strategy)) {
     return error(
-      'Invalid strategy. Must be one of: random, always, cycle, weighted, counter_last_loss',
+      'Invalid strategy. Must be one of: random, always, cycle, weighted, counter_last_loss, markov, ' +
+      'counter_opponent_last, counter_opponent_frequency, win_stay_lose_shift, streak_breaker, ' +
+      'rules, mixture ' +
+      '(composites nest at most 3 deep with at most 32 strategies in total)',
     )
   }
 
@@ -32,8 +35,11 @@ Deno.serve(async (req) => {
     .update({
       strategy: body.strategy,
       // Reset state when strategy type changes — avoids stale cycle indices
-      // being applied to a completely different strategy.
-      strategy_state: {},
+      // being applied to a completely different strategy. The last match
+      // outcome is about the agent, not the strategy, so it carries over.
+      strategy_state: agent.strategy_state.last_match
+        ? { last_match: agent.strategy_state.last_match }
+        : {},
     })
     .eq('id', agent.id)
 
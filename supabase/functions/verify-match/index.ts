@@ -0,0 +1,104 @@
+import { handleCors, json, error } from '../_shared/cors.ts'
+import { rateLimit, clientIp } from '../_shared/rate-limit.ts'
+import { createServiceClient } from '../_shared/supabase.ts'
+import { sha256 } from '../_shared/auth.ts'
+import type { Strategy } from '../_shared/auth.ts'
+import { computeMove, isReplayableFromSeed } from '../_shared/strategy.ts'
+import { seededRandom } from '../_shared/fair-random.ts'
+
+// Verify a finished match's fallback moves against its revealed seed.
+//
+// Checks that sha256(server_seed) matches the hash committed at creation,
+// then recomputes each fallback move from the seed and the recorded strategy.
+// Only strategies whose move depends on nothing but their random draws
+// (random, always, weighted and mixtures of those) can be recomputed this
+// way; the rest also read match history or strategy state.
+Deno.serve(async (req) => {
+  const cors = handleCors(req)
+  if (cors) return cors
+
+  if (req.method !== 'GET') return error('Method not allowed', 405)
+
+  // Rate limit: 30 requests per IP per minute
+  const limited = await rateLimit(`verify-match:${clientIp(req)}`, 60, 30)
+  if (limited) return limited
+
+  const url = new URL(req.url)
+  const matchId = url.pathname.split('/').pop()
+  if (!matchId) return error('match_id is required in the URL path')
+
+  const supabase = createServiceClient()
+
+  const { data: match, error: matchError } = await supabase
+    .from('matches')
+    .select('*')
+    .eq('id', matchId)
+    .single()
+
+  if (matchError || !match) return error('Match not found', 404)
+
+  // The seed stays secret until the match is settled.
+  if (match.phase !== 'finished') return error('Match is not finished yet', 409)
+  if (!match.server_seed) return error('Match predates seeded fallback moves', 422)
+
+  const seedValid = (await sha256(match.server_seed)) === match.server_seed_hash
+
+  // agent1 and agent2, or each seat of a free-for-all.
+  let players: { role: string; agentId: string; strategy: Strategy; move: string; usedFallback: boolean }[]
+  if (match.match_type === 'ffa') {
+    const { data: participants } = await supabase
+      .from('match_participants')
+      .select('agent_id, seat, strategy, move, used_fallback')
+      .eq('match_id', match.id)
+      .order('seat', { ascending: true })
+
+    players = (participants ?? []).map((p) => ({
+      role: `seat${p.seat}`,
+      agentId: p.agent_id,
+      strategy: p.strategy,
+      move: p.move,
+      usedFallback: p.used_fallback,
+    }))
+  } else {
+    players = (['agent1', 'agent2'] as const).map((role) => ({
+      role,
+      agentId: match[`${role}_id`] as string,
+      strategy: match[`${role}_strategy`] as Strategy,
+      move: match[`${role}_move`] as string,
+      usedFallback: match[`${role}_used_fallback`] as boolean,
+    }))
+  }
+
+  const sides = await Promise.all(
+    players.map(async ({ role, agentId, strategy, move, usedFallback }) => {
+      if (!usedFallback) {
+        return { role, agent_id: agentId, used_fallback: false, move }
+      }
+      if (!isReplayableFromSeed(strategy)) {
+        return {
+          role, agent_id: agentId, used_fallback: true, move, strategy,
+          recomputed_move: null, verified: null,
+          note: `${strategy.type} also depends on match history or strategy state`,
+        }
+      }
+
+      const random = await seededRandom(match.server_seed, match.id, agentId)
+      const { move: recomputed } = await computeMove(strategy, {}, { random, variant: match.variant })
+      return {
+        role, agent_id: agentId, used_fallback: true, move, strategy,
+        recomputed_move: recomputed, verified: seedValid && recomputed === move,
+      }
+    }),
+  )
+
+  return json({
+    match_id: match.id,
+    server_seed: match.server_seed,
+    server_seed_hash: match.server_seed_hash,
+    seed_valid: seedValid,
+    derivation:
+      'sfc32 seeded with the first four big-endian 32-bit words of ' +
+      'sha256(server_seed + ":" + match_id + ":" + agent_id); draw = output / 2^32',
+    agents: sides,
+  })
+})
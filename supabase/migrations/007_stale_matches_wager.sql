@@ -0,0 +1,18 @@
+-- =============================================================================
+-- Migration 007: Expose wager_amount on stale_matches
+-- =============================================================================
+-- Rule-based strategies can branch on the match wager (e.g. "wager > 100"),
+-- so the process-stale-matches cron needs it when computing fallback moves.
+--
+-- CREATE OR REPLACE VIEW may only append columns, so wager_amount goes last.
+-- =============================================================================
+
+CREATE OR REPLACE VIEW stale_matches AS
+  SELECT id, status, agent1_id, agent2_id,
+         agent1_move_hash, agent2_move_hash,
+         agent1_move, agent2_move,
+         commit_deadline, reveal_deadline,
+         wager_amount
+    FROM matches
+   WHERE (status = 'pending'          AND now() > commit_deadline)
+      OR (status = 'waiting_reveals'  AND now() > reveal_deadline);
@@ -0,0 +1,161 @@
+-- =============================================================================
+-- Migration 008: Record match outcomes in strategy_state
+-- =============================================================================
+-- Streak-reactive strategies (win_stay_lose_shift, streak_breaker, and rules
+-- on last_result / win_streak / loss_streak) need the agent's previous
+-- result without querying match history on every fallback move.
+--
+-- resolve_match now stores it under strategy_state.last_match, alongside the
+-- state the strategy itself advanced:
+--
+--   { "result": "win" | "loss" | "draw",
+--     "move": <own move>, "opponent_move": <their move>,
+--     "streak": <consecutive matches with this result>,
+--     "lost_to": <opponent move in the most recent loss, or null> }
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION record_match_outcome(
+  p_prev_state    JSONB,
+  p_new_state     JSONB,
+  p_result        TEXT,
+  p_move          TEXT,
+  p_opponent_move TEXT
+)
+RETURNS JSONB
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(p_new_state, '{}'::jsonb) || jsonb_build_object(
+    'last_match', jsonb_build_object(
+      'result',        p_result,
+      'move',          p_move,
+      'opponent_move', p_opponent_move,
+      'streak',        CASE
+                         WHEN p_prev_state -> 'last_match' ->> 'result' = p_result
+                         THEN COALESCE((p_prev_state -> 'last_match' ->> 'streak')::INTEGER, 0) + 1
+                         ELSE 1
+                       END,
+      'lost_to',       CASE
+                         WHEN p_result = 'loss' THEN to_jsonb(p_opponent_move)
+                         ELSE COALESCE(p_prev_state -> 'last_match' -> 'lost_to', 'null'::jsonb)
+                       END
+    )
+  );
+$$;
+
+
+-- Same as migration 000, except the final strategy_state updates go through
+-- record_match_outcome.
+CREATE OR REPLACE FUNCTION resolve_match(
+  p_match_id         UUID,
+  p_agent1_move      TEXT,
+  p_agent2_move      TEXT,
+  p_agent1_fallback  BOOLEAN,
+  p_agent2_fallback  BOOLEAN,
+  p_agent1_new_state JSONB,
+  p_agent2_new_state JSONB
+)
+RETURNS matches
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_match     matches%ROWTYPE;
+  v_winner_id UUID;
+  v_loser_id  UUID;
+  v_is_draw   BOOLEAN := false;
+  v_result1   TEXT;
+  v_result2   TEXT;
+BEGIN
+  -- Lock match; must not already be complete
+  SELECT * INTO v_match
+    FROM matches
+   WHERE id = p_match_id
+     AND status != 'complete'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Match % is already complete or does not exist', p_match_id;
+  END IF;
+
+  IF p_agent1_move NOT IN ('rock', 'paper', 'scissors') THEN
+    RAISE EXCEPTION 'Invalid agent1 move: %', p_agent1_move;
+  END IF;
+
+  IF p_agent2_move NOT IN ('rock', 'paper', 'scissors') THEN
+    RAISE EXCEPTION 'Invalid agent2 move: %', p_agent2_move;
+  END IF;
+
+  -- Write final moves and fallback flags onto the match record
+  UPDATE matches
+     SET agent1_move         = p_agent1_move,
+         agent2_move         = p_agent2_move,
+         agent1_used_fallback = p_agent1_fallback,
+         agent2_used_fallback = p_agent2_fallback
+   WHERE id = p_match_id;
+
+  -- Determine winner
+  IF p_agent1_move = p_agent2_move THEN
+    v_is_draw := true;
+  ELSIF
+    (p_agent1_move = 'rock'     AND p_agent2_move = 'scissors') OR
+    (p_agent1_move = 'paper'    AND p_agent2_move = 'rock')     OR
+    (p_agent1_move = 'scissors' AND p_agent2_move = 'paper')
+  THEN
+    v_winner_id := v_match.agent1_id;
+    v_loser_id  := v_match.agent2_id;
+  ELSE
+    v_winner_id := v_match.agent2_id;
+    v_loser_id  := v_match.agent1_id;
+  END IF;
+
+  -- Transfer chips and update records
+  IF v_is_draw THEN
+    UPDATE agents SET balance = balance + v_match.wager_amount
+      WHERE id IN (v_match.agent1_id, v_match.agent2_id);
+
+    INSERT INTO transactions (match_id, from_agent_id, to_agent_id, amount, note) VALUES
+      (p_match_id, NULL, v_match.agent1_id, v_match.wager_amount, 'draw — wager returned'),
+      (p_match_id, NULL, v_match.agent2_id, v_match.wager_amount, 'draw — wager returned');
+
+    UPDATE agents SET draws = draws + 1
+      WHERE id IN (v_match.agent1_id, v_match.agent2_id);
+  ELSE
+    -- Winner receives both escrowed wagers
+    UPDATE agents SET balance = balance + (v_match.wager_amount * 2)
+      WHERE id = v_winner_id;
+
+    INSERT INTO transactions (match_id, from_agent_id, to_agent_id, amount, note)
+      VALUES (p_match_id, v_loser_id, v_winner_id, v_match.wager_amount * 2, 'match winnings');
+
+    UPDATE agents SET wins   = wins   + 1 WHERE id = v_winner_id;
+    UPDATE agents SET losses = losses + 1 WHERE id = v_loser_id;
+  END IF;
+
+  -- Mark match complete
+  UPDATE matches
+     SET status       = 'complete',
+         winner_id    = v_winner_id,
+         completed_at = now()
+   WHERE id = p_match_id;
+
+  -- Advance strategy states for both agents, recording the outcome
+  v_result1 := CASE WHEN v_is_draw THEN 'draw'
+                    WHEN v_winner_id = v_match.agent1_id THEN 'win'
+                    ELSE 'loss' END;
+  v_result2 := CASE WHEN v_is_draw THEN 'draw'
+                    WHEN v_winner_id = v_match.agent2_id THEN 'win'
+                    ELSE 'loss' END;
+
+  UPDATE agents
+     SET strategy_state = record_match_outcome(
+           strategy_state, p_agent1_new_state, v_result1, p_agent1_move, p_agent2_move)
+   WHERE id = v_match.agent1_id;
+  UPDATE agents
+     SET strategy_state = record_match_outcome(
+           strategy_state, p_agent2_new_state, v_result2, p_agent2_move, p_agent1_move)
+   WHERE id = v_match.agent2_id;
+
+  SELECT * INTO v_match FROM matches WHERE id = p_match_id;
+  RETURN v_match;
+END;
+$$;
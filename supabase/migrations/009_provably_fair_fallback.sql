@@ -0,0 +1,166 @@
+-- =============================================================================
+-- Migration 009: Provably fair fallback moves
+-- =============================================================================
+-- Fallback moves used to draw from Math.random(), so opponents had no way to
+-- audit an autopilot move. Each match now commits to a random server seed
+-- when it is created:
+--
+--   server_seed       32 random bytes, hex. Only readable once the match is
+--                     complete — RLS already hides in-progress matches, and
+--                     get-match never returns it before then.
+--   server_seed_hash  sha256(server_seed), hex. Public from the start.
+--
+-- Fallback randomness is derived from the seed, the match id and the agent
+-- id (see _shared/fair-random.ts); verify-match recomputes it.
+--
+-- Matches created before this migration have no seed.
+-- =============================================================================
+
+ALTER TABLE matches
+  ADD COLUMN IF NOT EXISTS server_seed TEXT;
+
+ALTER TABLE matches
+  ALTER COLUMN server_seed SET DEFAULT encode(extensions.gen_random_bytes(32), 'hex');
+
+ALTER TABLE matches
+  ADD COLUMN IF NOT EXISTS server_seed_hash TEXT
+  GENERATED ALWAYS AS (encode(extensions.digest(server_seed, 'sha256'), 'hex')) STORED;
+
+
+-- The cron computes fallback moves, so it needs the seed.
+CREATE OR REPLACE VIEW stale_matches AS
+  SELECT id, status, agent1_id, agent2_id,
+         agent1_move_hash, agent2_move_hash,
+         agent1_move, agent2_move,
+         commit_deadline, reveal_deadline,
+         wager_amount,
+         server_seed
+    FROM matches
+   WHERE (status = 'pending'          AND now() > commit_deadline)
+      OR (status = 'waiting_reveals'  AND now() > reveal_deadline);
+
+
+-- resolve_match gains optional p_agent1_strategy / p_agent2_strategy so the
+-- strategy behind each fallback move is recorded on the match. Drop the old
+-- signature first — keeping both would make named-argument calls ambiguous.
+DROP FUNCTION IF EXISTS resolve_match(UUID, TEXT, TEXT, BOOLEAN, BOOLEAN, JSONB, JSONB);
+
+CREATE OR REPLACE FUNCTION resolve_match(
+  p_match_id         UUID,
+  p_agent1_move      TEXT,
+  p_agent2_move      TEXT,
+  p_agent1_fallback  BOOLEAN,
+  p_agent2_fallback  BOOLEAN,
+  p_agent1_new_state JSONB,
+  p_agent2_new_state JSONB,
+  p_agent1_strategy  JSONB DEFAULT NULL,
+  p_agent2_strategy  JSONB DEFAULT NULL
+)
+RETURNS matches
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_match     matches%ROWTYPE;
+  v_winner_id UUID;
+  v_loser_id  UUID;
+  v_is_draw   BOOLEAN := false;
+  v_result1   TEXT;
+  v_result2   TEXT;
+BEGIN
+  -- Lock match; must not already be complete
+  SELECT * INTO v_match
+    FROM matches
+   WHERE id = p_match_id
+     AND status != 'complete'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Match % is already complete or does not exist', p_match_id;
+  END IF;
+
+  IF p_agent1_move NOT IN ('rock', 'paper', 'scissors') THEN
+    RAISE EXCEPTION 'Invalid agent1 move: %', p_agent1_move;
+  END IF;
+
+  IF p_agent2_move NOT IN ('rock', 'paper', 'scissors') THEN
+    RAISE EXCEPTION 'Invalid agent2 move: %', p_agent2_move;
+  END IF;
+
+  -- Write final moves and fallback flags onto the match record. A fallback
+  -- move is recorded against the strategy that produced it, which may have
+  -- been changed since the snapshot was taken at match creation.
+  UPDATE matches
+     SET agent1_move         = p_agent1_move,
+         agent2_move         = p_agent2_move,
+         agent1_used_fallback = p_agent1_fallback,
+         agent2_used_fallback = p_agent2_fallback,
+         agent1_strategy     = COALESCE(p_agent1_strategy, agent1_strategy),
+         agent2_strategy     = COALESCE(p_agent2_strategy, agent2_strategy)
+   WHERE id = p_match_id;
+
+  -- Determine winner
+  IF p_agent1_move = p_agent2_move THEN
+    v_is_draw := true;
+  ELSIF
+    (p_agent1_move = 'rock'     AND p_agent2_move = 'scissors') OR
+    (p_agent1_move = 'paper'    AND p_agent2_move = 'rock')     OR
+    (p_agent1_move = 'scissors' AND p_agent2_move = 'paper')
+  THEN
+    v_winner_id := v_match.agent1_id;
+    v_loser_id  := v_match.agent2_id;
+  ELSE
+    v_winner_id := v_match.agent2_id;
+    v_loser_id  := v_match.agent1_id;
+  END IF;
+
+  -- Transfer chips and update records
+  IF v_is_draw THEN
+    UPDATE agents SET balance = balance + v_match.wager_amount
+      WHERE id IN (v_match.agent1_id, v_match.agent2_id);
+
+    INSERT INTO transactions (match_id, from_agent_id, to_agent_id, amount, note) VALUES
+      (p_match_id, NULL, v_match.agent1_id, v_match.wager_amount, 'draw — wager returned'),
+      (p_match_id, NULL, v_match.agent2_id, v_match.wager_amount, 'draw — wager returned');
+
+    UPDATE agents SET draws = draws + 1
+      WHERE id IN (v_match.agent1_id, v_match.agent2_id);
+  ELSE
+    -- Winner receives both escrowed wagers
+    UPDATE agents SET balance = balance + (v_match.wager_amount * 2)
+      WHERE id = v_winner_id;
+
+    INSERT INTO transactions (match_id, from_agent_id, to_agent_id, amount, note)
+      VALUES (p_match_id, v_loser_id, v_winner_id, v_match.wager_amount * 2, 'match winnings');
+
+    UPDATE agents SET wins   = wins   + 1 WHERE id = v_winner_id;
+    UPDATE agents SET losses = losses + 1 WHERE id = v_loser_id;
+  END IF;
+
+  -- Mark match complete
+  UPDATE matches
+     SET status       = 'complete',
+         winner_id    = v_winner_id,
+         completed_at = now()
+   WHERE id = p_match_id;
+
+  -- Advance strategy states for both agents, recording the outcome
+  v_result1 := CASE WHEN v_is_draw THEN 'draw'
+                    WHEN v_winner_id = v_match.agent1_id THEN 'win'
+                    ELSE 'loss' END;
+  v_result2 := CASE WHEN v_is_draw THEN 'draw'
+                    WHEN v_winner_id = v_match.agent2_id THEN 'win'
+                    ELSE 'loss' END;
+
+  UPDATE agents
+     SET strategy_state = record_match_outcome(
+           strategy_state, p_agent1_new_state, v_result1, p_agent1_move, p_agent2_move)
+   WHERE id = v_match.agent1_id;
+  UPDATE agents
+     SET strategy_state = record_match_outcome(
+           strategy_state, p_agent2_new_state, v_result2, p_agent2_move, p_agent1_move)
+   WHERE id = v_match.agent2_id;
+
+  SELECT * INTO v_match FROM matches WHERE id = p_match_id;
+  RETURN v_match;
+END;
+$$;
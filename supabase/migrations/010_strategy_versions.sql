@@ -0,0 +1,109 @@
+-- =============================================================================
+-- Migration 010: Strategy version history
+-- =============================================================================
+-- set-strategy overwrites agents.strategy, so a previous config was gone for
+-- good. Every strategy an agent has run is now kept in strategy_versions,
+-- numbered per agent from 1. Rolling back re-applies an old version's
+-- strategy, which is recorded as a new version.
+--
+-- A trigger writes the rows, so every path that changes agents.strategy
+-- (set-strategy, rollback-strategy, anything added later) is covered.
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS strategy_versions (
+  id         UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  agent_id   UUID        NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+  version    INTEGER     NOT NULL,
+  strategy   JSONB       NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  CONSTRAINT strategy_versions_agent_version UNIQUE (agent_id, version)
+);
+
+-- Strategies are competitive info: no anon access. Owners read their own.
+ALTER TABLE strategy_versions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "strategy_versions_owner_read" ON strategy_versions;
+CREATE POLICY "strategy_versions_owner_read"
+  ON strategy_versions FOR SELECT
+  TO authenticated
+  USING (agent_id IN (SELECT id FROM agents WHERE user_id = auth.uid()));
+
+
+-- ── Trigger: record a version whenever the strategy changes ─────────────────
+
+CREATE OR REPLACE FUNCTION record_strategy_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.strategy IS NOT DISTINCT FROM OLD.strategy THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO strategy_versions (agent_id, version, strategy)
+  SELECT NEW.id, COALESCE(MAX(version), 0) + 1, NEW.strategy
+    FROM strategy_versions
+   WHERE agent_id = NEW.id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_record_strategy_version ON agents;
+
+CREATE TRIGGER trg_record_strategy_version
+  AFTER INSERT OR UPDATE OF strategy ON agents
+  FOR EACH ROW
+  EXECUTE FUNCTION record_strategy_version();
+
+
+-- ── Backfill: each existing agent's current strategy becomes version 1 ──────
+
+INSERT INTO strategy_versions (agent_id, version, strategy, created_at)
+SELECT id, 1, strategy, created_at
+  FROM agents
+ON CONFLICT (agent_id, version) DO NOTHING;
+
+
+-- ── Performance per version ─────────────────────────────────────────────────
+-- A version was active from its created_at until the next version's. A match
+-- counts towards it if it completed in that window and its strategy snapshot
+-- for the agent equals the version's strategy.
+--
+-- security_invoker so strategy_versions' RLS applies to readers of the view.
+
+CREATE OR REPLACE VIEW strategy_version_performance
+  WITH (security_invoker = true)
+AS
+  WITH spans AS (
+    SELECT v.*,
+           LEAD(v.created_at) OVER (PARTITION BY v.agent_id ORDER BY v.version)
+             AS superseded_at
+      FROM strategy_versions v
+  )
+  SELECT
+    s.agent_id,
+    s.version,
+    s.strategy,
+    s.created_at,
+    s.superseded_at,
+    COUNT(m.id)                                                       AS matches,
+    COUNT(m.id) FILTER (WHERE m.winner_id = s.agent_id)               AS wins,
+    COUNT(m.id) FILTER (WHERE m.winner_id <> s.agent_id)              AS losses,
+    COUNT(m.id) FILTER (WHERE m.winner_id IS NULL)                    AS draws,
+    COALESCE(SUM(CASE
+      WHEN m.winner_id = s.agent_id  THEN  m.wager_amount
+      WHEN m.winner_id <> s.agent_id THEN -m.wager_amount
+      ELSE 0
+    END), 0)                                                          AS net_chips
+  FROM spans s
+  LEFT JOIN matches m
+    ON m.status = 'complete'
+   AND m.completed_at >= s.created_at
+   AND (s.superseded_at IS NULL OR m.completed_at < s.superseded_at)
+   AND (
+         (m.agent1_id = s.agent_id AND m.agent1_strategy = s.strategy)
+      OR (m.agent2_id = s.agent_id AND m.agent2_strategy = s.strategy)
+   )
+  GROUP BY s.agent_id, s.version, s.strategy, s.created_at, s.superseded_at;
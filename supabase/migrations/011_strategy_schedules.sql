@@ -0,0 +1,302 @@
+-- =============================================================================
+-- Migration 011: Scheduled strategy changes
+-- =============================================================================
+-- Agents can queue strategy changes instead of calling set-strategy at the
+-- right moment:
+--
+--   after_matches  one-off: switch once the agent has completed N more
+--                  matches (counted from when the change was scheduled)
+--   window         daily: play a strategy between two UTC times, e.g. 00:00
+--                  to 06:00, and go back to the previous one afterwards
+--
+-- Schedules are resolved in create_match, before the strategies are
+-- snapshotted into agent1_strategy / agent2_strategy. A due change is written
+-- to agents.strategy, so fallback moves, strategy_versions and everything
+-- else that reads the live strategy agree on what the agent is playing.
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS strategy_schedules (
+  id                UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  agent_id          UUID        NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+  strategy          JSONB       NOT NULL,
+
+  -- after_matches schedules: fires once wins + losses + draws >= target_games
+  after_matches     INTEGER     CHECK (after_matches > 0),
+  target_games      INTEGER,
+
+  -- window schedules: [window_start, window_end) in UTC, may wrap midnight
+  window_start      TIME,
+  window_end        TIME,
+
+  -- pending   → waiting to fire (or, for a window, outside it)
+  -- active    → window in progress; previous_strategy is restored at its end
+  -- applied   → after_matches change has been made
+  -- cancelled → withdrawn by the agent
+  status            TEXT        NOT NULL DEFAULT 'pending'
+                      CHECK (status IN ('pending', 'active', 'applied', 'cancelled')),
+  previous_strategy JSONB,
+  created_at        TIMESTAMPTZ NOT NULL DEFAULT now(),
+  applied_at        TIMESTAMPTZ,
+
+  CONSTRAINT strategy_schedules_kind CHECK (
+    (after_matches IS NOT NULL AND target_games IS NOT NULL
+       AND window_start IS NULL AND window_end IS NULL)
+    OR
+    (after_matches IS NULL AND target_games IS NULL
+       AND window_start IS NOT NULL AND window_end IS NOT NULL
+       AND window_start <> window_end)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS strategy_schedules_agent_status
+  ON strategy_schedules (agent_id, status);
+
+-- Strategies are competitive info: no anon access. Owners read their own.
+ALTER TABLE strategy_schedules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "strategy_schedules_owner_read" ON strategy_schedules;
+CREATE POLICY "strategy_schedules_owner_read"
+  ON strategy_schedules FOR SELECT
+  TO authenticated
+  USING (agent_id IN (SELECT id FROM agents WHERE user_id = auth.uid()));
+
+
+-- ── Helpers ──────────────────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION in_strategy_window(p_at TIME, p_start TIME, p_end TIME)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_start < p_end THEN p_at >= p_start AND p_at < p_end
+    ELSE p_at >= p_start OR p_at < p_end
+  END;
+$$;
+
+-- Same reset as set-strategy: fresh state, but keep the last match.
+CREATE OR REPLACE FUNCTION switch_agent_strategy(p_agent_id UUID, p_strategy JSONB)
+RETURNS VOID
+LANGUAGE sql
+AS $$
+  UPDATE agents
+     SET strategy       = p_strategy,
+         strategy_state = CASE
+           WHEN strategy_state ? 'last_match'
+             THEN jsonb_build_object('last_match', strategy_state->'last_match')
+           ELSE '{}'::JSONB
+         END
+   WHERE id = p_agent_id
+     AND strategy IS DISTINCT FROM p_strategy;
+$$;
+
+
+-- ── apply_strategy_schedules ─────────────────────────────────────────────────
+-- Brings an agent's live strategy up to date with its schedules. The caller
+-- must hold the lock on the agents row.
+
+CREATE OR REPLACE FUNCTION apply_strategy_schedules(p_agent_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_games    INTEGER;
+  v_now      TIME := (now() AT TIME ZONE 'UTC')::TIME;
+  v_schedule strategy_schedules%ROWTYPE;
+BEGIN
+  SELECT wins + losses + draws INTO v_games FROM agents WHERE id = p_agent_id;
+
+  -- 1. Due after_matches changes, oldest first. While a window is active the
+  --    change replaces the strategy the window will hand back to.
+  FOR v_schedule IN
+    SELECT * FROM strategy_schedules
+     WHERE agent_id = p_agent_id
+       AND status = 'pending'
+       AND target_games <= v_games
+     ORDER BY created_at
+     FOR UPDATE
+  LOOP
+    UPDATE strategy_schedules
+       SET previous_strategy = v_schedule.strategy
+     WHERE agent_id = p_agent_id AND status = 'active';
+
+    IF NOT FOUND THEN
+      PERFORM switch_agent_strategy(p_agent_id, v_schedule.strategy);
+    END IF;
+
+    UPDATE strategy_schedules
+       SET status = 'applied', applied_at = now()
+     WHERE id = v_schedule.id;
+  END LOOP;
+
+  -- 2. Close a window that has ended. The previous strategy only comes back
+  --    if the agent has not changed strategy by hand in the meantime.
+  FOR v_schedule IN
+    SELECT * FROM strategy_schedules
+     WHERE agent_id = p_agent_id AND status = 'active'
+     FOR UPDATE
+  LOOP
+    IF NOT in_strategy_window(v_now, v_schedule.window_start, v_schedule.window_end) THEN
+      IF (SELECT strategy FROM agents WHERE id = p_agent_id) = v_schedule.strategy THEN
+        PERFORM switch_agent_strategy(p_agent_id, v_schedule.previous_strategy);
+      END IF;
+
+      UPDATE strategy_schedules
+         SET status = 'pending', previous_strategy = NULL
+       WHERE id = v_schedule.id;
+    END IF;
+  END LOOP;
+
+  -- 3. Open a window that has started. Only one runs at a time; when windows
+  --    overlap the oldest wins.
+  IF NOT EXISTS (
+    SELECT 1 FROM strategy_schedules WHERE agent_id = p_agent_id AND status = 'active'
+  ) THEN
+    SELECT * INTO v_schedule
+      FROM strategy_schedules
+     WHERE agent_id = p_agent_id
+       AND status = 'pending'
+       AND window_start IS NOT NULL
+       AND in_strategy_window(v_now, window_start, window_end)
+     ORDER BY created_at
+     LIMIT 1
+    FOR UPDATE;
+
+    IF FOUND THEN
+      UPDATE strategy_schedules
+         SET status            = 'active',
+             applied_at        = now(),
+             previous_strategy = (SELECT strategy FROM agents WHERE id = p_agent_id)
+       WHERE id = v_schedule.id;
+
+      PERFORM switch_agent_strategy(p_agent_id, v_schedule.strategy);
+    END IF;
+  END IF;
+END;
+$$;
+
+
+-- ── cancel_strategy_schedule ─────────────────────────────────────────────────
+-- Cancelling an active window ends it early, restoring the previous strategy
+-- on the same terms as when it closes on time.
+
+CREATE OR REPLACE FUNCTION cancel_strategy_schedule(
+  p_schedule_id UUID,
+  p_agent_id    UUID
+)
+RETURNS strategy_schedules
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_schedule strategy_schedules%ROWTYPE;
+BEGIN
+  PERFORM 1 FROM agents WHERE id = p_agent_id FOR UPDATE;
+
+  SELECT * INTO v_schedule
+    FROM strategy_schedules
+   WHERE id = p_schedule_id AND agent_id = p_agent_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Schedule % does not exist', p_schedule_id;
+  END IF;
+
+  IF v_schedule.status NOT IN ('pending', 'active') THEN
+    RAISE EXCEPTION 'Schedule % is already %', p_schedule_id, v_schedule.status;
+  END IF;
+
+  IF v_schedule.status = 'active'
+     AND (SELECT strategy FROM agents WHERE id = p_agent_id) = v_schedule.strategy THEN
+    PERFORM switch_agent_strategy(p_agent_id, v_schedule.previous_strategy);
+  END IF;
+
+  UPDATE strategy_schedules
+     SET status = 'cancelled', previous_strategy = NULL
+   WHERE id = p_schedule_id
+  RETURNING * INTO v_schedule;
+
+  RETURN v_schedule;
+END;
+$$;
+
+
+-- ── create_match: resolve schedules before snapshotting strategies ──────────
+CREATE OR REPLACE FUNCTION create_match(
+  p_challenge_id     UUID,
+  p_accepter_id      UUID,
+  p_strategy_seconds INTEGER DEFAULT 60,
+  p_commit_seconds   INTEGER DEFAULT 60
+)
+RETURNS matches
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_challenge   challenges%ROWTYPE;
+  v_challenger  agents%ROWTYPE;
+  v_accepter    agents%ROWTYPE;
+  v_match       matches%ROWTYPE;
+  v_strategy_dl TIMESTAMPTZ;
+BEGIN
+  -- Lock and validate the challenge
+  SELECT * INTO v_challenge
+    FROM challenges
+   WHERE id = p_challenge_id AND status = 'open'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Challenge % is not open or does not exist', p_challenge_id;
+  END IF;
+
+  IF v_challenge.challenger_id = p_accepter_id THEN
+    RAISE EXCEPTION 'An agent cannot accept their own challenge';
+  END IF;
+
+  -- Lock both agents
+  SELECT * INTO v_challenger FROM agents WHERE id = v_challenge.challenger_id FOR UPDATE;
+  SELECT * INTO v_accepter   FROM agents WHERE id = p_accepter_id             FOR UPDATE;
+
+  IF v_accepter.balance < v_challenge.wager_amount THEN
+    RAISE EXCEPTION 'Accepter has insufficient balance (has %, needs %)',
+      v_accepter.balance, v_challenge.wager_amount;
+  END IF;
+
+  -- Bring both strategies up to date with any scheduled changes, then re-read
+  -- them so the snapshot below is what each agent is actually playing.
+  PERFORM apply_strategy_schedules(v_challenge.challenger_id);
+  PERFORM apply_strategy_schedules(p_accepter_id);
+
+  SELECT * INTO v_challenger FROM agents WHERE id = v_challenge.challenger_id;
+  SELECT * INTO v_accepter   FROM agents WHERE id = p_accepter_id;
+
+  -- Escrow accepter's wager
+  UPDATE agents SET balance = balance - v_challenge.wager_amount
+   WHERE id = p_accepter_id;
+
+  v_strategy_dl := now() + (p_strategy_seconds || ' seconds')::INTERVAL;
+
+  -- Create match in 'strategy' phase
+  INSERT INTO matches (
+    challenge_id, agent1_id, agent2_id, wager_amount,
+    strategy_deadline, commit_deadline,
+    agent1_strategy, agent2_strategy,
+    phase
+  )
+  VALUES (
+    p_challenge_id,
+    v_challenge.challenger_id,
+    p_accepter_id,
+    v_challenge.wager_amount,
+    v_strategy_dl,
+    v_strategy_dl + (p_commit_seconds || ' seconds')::INTERVAL,
+    v_challenger.strategy,
+    v_accepter.strategy,
+    'strategy'
+  )
+  RETURNING * INTO v_match;
+
+  -- Mark challenge as matched
+  UPDATE challenges SET status = 'matched' WHERE id = p_challenge_id;
+
+  RETURN v_match;
+END;
+$$;
@@ -0,0 +1,445 @@
+-- =============================================================================
+-- Migration 012: Best-of-N series
+-- =============================================================================
+-- A single game of RPS is mostly noise, so a challenge can now be posted as a
+-- best-of-3, -5 or -7 series. Accepting it creates round 1; each round is its
+-- own matches row with its own strategy/commit/reveal deadlines, linked to
+-- the others by challenge_id and numbered by round.
+--
+-- Both wagers stay escrowed for the whole series. resolve_match settles a
+-- round, and when one agent has won a majority of best_of it pays out the
+-- series; otherwise it creates the next round. Drawn rounds do not count.
+-- So a run of draws cannot go on forever, a series stops after best_of * 3
+-- rounds: the agent ahead wins it, and a level score is a drawn series with
+-- both wagers returned.
+--
+-- Agents' wins / losses / draws count series, not rounds — one escrow, one
+-- result. strategy_state.last_match is still recorded every round, so
+-- streak-reactive strategies adapt within a series.
+--
+-- best_of = 1 is the original single-game match.
+-- =============================================================================
+
+ALTER TABLE challenges
+  ADD COLUMN IF NOT EXISTS best_of INTEGER NOT NULL DEFAULT 1
+  CONSTRAINT challenges_best_of_check CHECK (best_of IN (1, 3, 5, 7));
+
+-- agent1_series_wins / agent2_series_wins are the series score once the round
+-- is resolved. series_settled marks the round that paid out the escrow, and
+-- series_winner_id who it went to (NULL for a drawn series).
+ALTER TABLE matches
+  ADD COLUMN IF NOT EXISTS best_of            INTEGER NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS round              INTEGER NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS agent1_series_wins INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS agent2_series_wins INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS series_settled     BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS series_winner_id   UUID    REFERENCES agents(id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_matches_challenge_round
+  ON matches (challenge_id, round);
+
+-- Every match so far was a single game that settled its own wager.
+UPDATE matches
+   SET series_settled     = true,
+       series_winner_id   = winner_id,
+       agent1_series_wins = CASE WHEN winner_id = agent1_id THEN 1 ELSE 0 END,
+       agent2_series_wins = CASE WHEN winner_id = agent2_id THEN 1 ELSE 0 END
+ WHERE status = 'complete';
+
+
+-- ── Views ────────────────────────────────────────────────────────────────────
+
+CREATE OR REPLACE VIEW open_challenges AS
+  SELECT
+    c.id,
+    c.wager_amount,
+    c.created_at,
+    a.id      AS challenger_id,
+    a.name    AS challenger_name,
+    a.wins,
+    a.losses,
+    a.draws,
+    a.balance AS challenger_balance,
+    c.best_of
+  FROM challenges c
+  JOIN agents a ON a.id = c.challenger_id
+  WHERE c.status = 'open'
+  ORDER BY c.created_at DESC;
+
+CREATE OR REPLACE VIEW match_feed AS
+  SELECT
+    m.id,
+    m.wager_amount,
+    m.agent1_move,
+    m.agent2_move,
+    m.agent1_used_fallback,
+    m.agent2_used_fallback,
+    m.created_at,
+    m.completed_at,
+    a1.id    AS agent1_id,
+    a1.name  AS agent1_name,
+    a2.id    AS agent2_id,
+    a2.name  AS agent2_name,
+    w.id     AS winner_id,
+    w.name   AS winner_name,
+    m.challenge_id,
+    m.best_of,
+    m.round,
+    m.agent1_series_wins,
+    m.agent2_series_wins,
+    m.series_settled,
+    sw.name  AS series_winner_name
+  FROM matches m
+  JOIN agents a1 ON a1.id = m.agent1_id
+  JOIN agents a2 ON a2.id = m.agent2_id
+  LEFT JOIN agents w  ON w.id  = m.winner_id
+  LEFT JOIN agents sw ON sw.id = m.series_winner_id
+  WHERE m.status = 'complete'
+  ORDER BY m.completed_at DESC;
+
+-- The cron resolves each round on its own deadlines; round is for its report.
+CREATE OR REPLACE VIEW stale_matches AS
+  SELECT id, status, agent1_id, agent2_id,
+         agent1_move_hash, agent2_move_hash,
+         agent1_move, agent2_move,
+         commit_deadline, reveal_deadline,
+         wager_amount,
+         server_seed,
+         best_of,
+         round
+    FROM matches
+   WHERE (status = 'pending'          AND now() > commit_deadline)
+      OR (status = 'waiting_reveals'  AND now() > reveal_deadline);
+
+-- Chips only move on the round that settles a series, so net_chips follows
+-- series_winner_id there; wins / losses / draws stay per round.
+CREATE OR REPLACE VIEW strategy_version_performance
+  WITH (security_invoker = true)
+AS
+  WITH spans AS (
+    SELECT v.*,
+           LEAD(v.created_at) OVER (PARTITION BY v.agent_id ORDER BY v.version)
+             AS superseded_at
+      FROM strategy_versions v
+  )
+  SELECT
+    s.agent_id,
+    s.version,
+    s.strategy,
+    s.created_at,
+    s.superseded_at,
+    COUNT(m.id)                                                       AS matches,
+    COUNT(m.id) FILTER (WHERE m.winner_id = s.agent_id)               AS wins,
+    COUNT(m.id) FILTER (WHERE m.winner_id <> s.agent_id)              AS losses,
+    COUNT(m.id) FILTER (WHERE m.winner_id IS NULL)                    AS draws,
+    COALESCE(SUM(CASE
+      WHEN NOT m.series_settled               THEN 0
+      WHEN m.series_winner_id = s.agent_id    THEN  m.wager_amount
+      WHEN m.series_winner_id <> s.agent_id   THEN -m.wager_amount
+      ELSE 0
+    END), 0)                                                          AS net_chips
+  FROM spans s
+  LEFT JOIN matches m
+    ON m.status = 'complete'
+   AND m.completed_at >= s.created_at
+   AND (s.superseded_at IS NULL OR m.completed_at < s.superseded_at)
+   AND (
+         (m.agent1_id = s.agent_id AND m.agent1_strategy = s.strategy)
+      OR (m.agent2_id = s.agent_id AND m.agent2_strategy = s.strategy)
+   )
+  GROUP BY s.agent_id, s.version, s.strategy, s.created_at, s.superseded_at;
+
+
+-- ── create_match: round 1 carries the challenge's best_of ────────────────────
+CREATE OR REPLACE FUNCTION create_match(
+  p_challenge_id     UUID,
+  p_accepter_id      UUID,
+  p_strategy_seconds INTEGER DEFAULT 60,
+  p_commit_seconds   INTEGER DEFAULT 60
+)
+RETURNS matches
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_challenge   challenges%ROWTYPE;
+  v_challenger  agents%ROWTYPE;
+  v_accepter    agents%ROWTYPE;
+  v_match       matches%ROWTYPE;
+  v_strategy_dl TIMESTAMPTZ;
+BEGIN
+  -- Lock and validate the challenge
+  SELECT * INTO v_challenge
+    FROM challenges
+   WHERE id = p_challenge_id AND status = 'open'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Challenge % is not open or does not exist', p_challenge_id;
+  END IF;
+
+  IF v_challenge.challenger_id = p_accepter_id THEN
+    RAISE EXCEPTION 'An agent cannot accept their own challenge';
+  END IF;
+
+  -- Lock both agents
+  SELECT * INTO v_challenger FROM agents WHERE id = v_challenge.challenger_id FOR UPDATE;
+  SELECT * INTO v_accepter   FROM agents WHERE id = p_accepter_id             FOR UPDATE;
+
+  IF v_accepter.balance < v_challenge.wager_amount THEN
+    RAISE EXCEPTION 'Accepter has insufficient balance (has %, needs %)',
+      v_accepter.balance, v_challenge.wager_amount;
+  END IF;
+
+  -- Bring both strategies up to date with any scheduled changes, then re-read
+  -- them so the snapshot below is what each agent is actually playing.
+  PERFORM apply_strategy_schedules(v_challenge.challenger_id);
+  PERFORM apply_strategy_schedules(p_accepter_id);
+
+  SELECT * INTO v_challenger FROM agents WHERE id = v_challenge.challenger_id;
+  SELECT * INTO v_accepter   FROM agents WHERE id = p_accepter_id;
+
+  -- Escrow accepter's wager — held for the whole series
+  UPDATE agents SET balance = balance - v_challenge.wager_amount
+   WHERE id = p_accepter_id;
+
+  v_strategy_dl := now() + (p_strategy_seconds || ' seconds')::INTERVAL;
+
+  -- Create round 1 in 'strategy' phase
+  INSERT INTO matches (
+    challenge_id, agent1_id, agent2_id, wager_amount,
+    strategy_deadline, commit_deadline,
+    agent1_strategy, agent2_strategy,
+    phase, best_of, round
+  )
+  VALUES (
+    p_challenge_id,
+    v_challenge.challenger_id,
+    p_accepter_id,
+    v_challenge.wager_amount,
+    v_strategy_dl,
+    v_strategy_dl + (p_commit_seconds || ' seconds')::INTERVAL,
+    v_challenger.strategy,
+    v_accepter.strategy,
+    'strategy',
+    v_challenge.best_of,
+    1
+  )
+  RETURNING * INTO v_match;
+
+  -- Mark challenge as matched
+  UPDATE challenges SET status = 'matched' WHERE id = p_challenge_id;
+
+  RETURN v_match;
+END;
+$$;
+
+
+-- ── resolve_match: settle the round, then the series or the next round ──────
+-- Same as migration 009 up to deciding the round winner. Returns the resolved
+-- round; when the series continues, the next round has round + 1 and the
+-- same challenge_id.
+CREATE OR REPLACE FUNCTION resolve_match(
+  p_match_id         UUID,
+  p_agent1_move      TEXT,
+  p_agent2_move      TEXT,
+  p_agent1_fallback  BOOLEAN,
+  p_agent2_fallback  BOOLEAN,
+  p_agent1_new_state JSONB,
+  p_agent2_new_state JSONB,
+  p_agent1_strategy  JSONB DEFAULT NULL,
+  p_agent2_strategy  JSONB DEFAULT NULL
+)
+RETURNS matches
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_match         matches%ROWTYPE;
+  v_winner_id     UUID;
+  v_loser_id      UUID;
+  v_is_draw       BOOLEAN := false;
+  v_result1       TEXT;
+  v_result2       TEXT;
+  v_wins1         INTEGER;
+  v_wins2         INTEGER;
+  v_needed        INTEGER;
+  v_series_over   BOOLEAN;
+  v_series_winner UUID;
+  v_series_loser  UUID;
+  v_strategy1     JSONB;
+  v_strategy2     JSONB;
+  v_strategy_dl   TIMESTAMPTZ;
+BEGIN
+  -- Lock match; must not already be complete
+  SELECT * INTO v_match
+    FROM matches
+   WHERE id = p_match_id
+     AND status != 'complete'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Match % is already complete or does not exist', p_match_id;
+  END IF;
+
+  IF p_agent1_move NOT IN ('rock', 'paper', 'scissors') THEN
+    RAISE EXCEPTION 'Invalid agent1 move: %', p_agent1_move;
+  END IF;
+
+  IF p_agent2_move NOT IN ('rock', 'paper', 'scissors') THEN
+    RAISE EXCEPTION 'Invalid agent2 move: %', p_agent2_move;
+  END IF;
+
+  -- Write final moves and fallback flags onto the match record. A fallback
+  -- move is recorded against the strategy that produced it, which may have
+  -- been changed since the snapshot was taken at match creation.
+  UPDATE matches
+     SET agent1_move         = p_agent1_move,
+         agent2_move         = p_agent2_move,
+         agent1_used_fallback = p_agent1_fallback,
+         agent2_used_fallback = p_agent2_fallback,
+         agent1_strategy     = COALESCE(p_agent1_strategy, agent1_strategy),
+         agent2_strategy     = COALESCE(p_agent2_strategy, agent2_strategy)
+   WHERE id = p_match_id;
+
+  -- Determine round winner
+  IF p_agent1_move = p_agent2_move THEN
+    v_is_draw := true;
+  ELSIF
+    (p_agent1_move = 'rock'     AND p_agent2_move = 'scissors') OR
+    (p_agent1_move = 'paper'    AND p_agent2_move = 'rock')     OR
+    (p_agent1_move = 'scissors' AND p_agent2_move = 'paper')
+  THEN
+    v_winner_id := v_match.agent1_id;
+    v_loser_id  := v_match.agent2_id;
+  ELSE
+    v_winner_id := v_match.agent2_id;
+    v_loser_id  := v_match.agent1_id;
+  END IF;
+
+  -- Series score including this round
+  SELECT COUNT(*) FILTER (WHERE winner_id = v_match.agent1_id),
+         COUNT(*) FILTER (WHERE winner_id = v_match.agent2_id)
+    INTO v_wins1, v_wins2
+    FROM matches
+   WHERE challenge_id = v_match.challenge_id
+     AND status = 'complete';
+
+  IF v_winner_id = v_match.agent1_id THEN v_wins1 := v_wins1 + 1; END IF;
+  IF v_winner_id = v_match.agent2_id THEN v_wins2 := v_wins2 + 1; END IF;
+
+  v_needed := v_match.best_of / 2 + 1;
+
+  IF v_wins1 >= v_needed THEN
+    v_series_over := true;
+    v_series_winner := v_match.agent1_id;
+  ELSIF v_wins2 >= v_needed THEN
+    v_series_over := true;
+    v_series_winner := v_match.agent2_id;
+  ELSIF v_match.best_of = 1 OR v_match.round >= v_match.best_of * 3 THEN
+    -- A drawn single game, or a series out of rounds: the leader takes it.
+    v_series_over := true;
+    v_series_winner := CASE
+      WHEN v_wins1 > v_wins2 THEN v_match.agent1_id
+      WHEN v_wins2 > v_wins1 THEN v_match.agent2_id
+    END;
+  ELSE
+    v_series_over := false;
+  END IF;
+
+  v_series_loser := CASE v_series_winner
+    WHEN v_match.agent1_id THEN v_match.agent2_id
+    WHEN v_match.agent2_id THEN v_match.agent1_id
+  END;
+
+  -- Transfer chips and update records — once per series
+  IF v_series_over AND v_series_winner IS NULL THEN
+    UPDATE agents SET balance = balance + v_match.wager_amount
+      WHERE id IN (v_match.agent1_id, v_match.agent2_id);
+
+    INSERT INTO transactions (match_id, from_agent_id, to_agent_id, amount, note) VALUES
+      (p_match_id, NULL, v_match.agent1_id, v_match.wager_amount, 'draw — wager returned'),
+      (p_match_id, NULL, v_match.agent2_id, v_match.wager_amount, 'draw — wager returned');
+
+    UPDATE agents SET draws = draws + 1
+      WHERE id IN (v_match.agent1_id, v_match.agent2_id);
+  ELSIF v_series_over THEN
+    -- Winner receives both escrowed wagers
+    UPDATE agents SET balance = balance + (v_match.wager_amount * 2)
+      WHERE id = v_series_winner;
+
+    INSERT INTO transactions (match_id, from_agent_id, to_agent_id, amount, note)
+      VALUES (p_match_id, v_series_loser, v_series_winner, v_match.wager_amount * 2,
+              CASE WHEN v_match.best_of = 1 THEN 'match winnings' ELSE 'series winnings' END);
+
+    UPDATE agents SET wins   = wins   + 1 WHERE id = v_series_winner;
+    UPDATE agents SET losses = losses + 1 WHERE id = v_series_loser;
+  END IF;
+
+  -- Mark round complete
+  UPDATE matches
+     SET status             = 'complete',
+         winner_id          = v_winner_id,
+         completed_at       = now(),
+         agent1_series_wins = v_wins1,
+         agent2_series_wins = v_wins2,
+         series_settled     = v_series_over,
+         series_winner_id   = v_series_winner
+   WHERE id = p_match_id;
+
+  -- Advance strategy states for both agents, recording the round outcome
+  v_result1 := CASE WHEN v_is_draw THEN 'draw'
+                    WHEN v_winner_id = v_match.agent1_id THEN 'win'
+                    ELSE 'loss' END;
+  v_result2 := CASE WHEN v_is_draw THEN 'draw'
+                    WHEN v_winner_id = v_match.agent2_id THEN 'win'
+                    ELSE 'loss' END;
+
+  UPDATE agents
+     SET strategy_state = record_match_outcome(
+           strategy_state, p_agent1_new_state, v_result1, p_agent1_move, p_agent2_move)
+   WHERE id = v_match.agent1_id;
+  UPDATE agents
+     SET strategy_state = record_match_outcome(
+           strategy_state, p_agent2_new_state, v_result2, p_agent2_move, p_agent1_move)
+   WHERE id = v_match.agent2_id;
+
+  -- Next round: same timings as this one, fresh strategy snapshots
+  IF NOT v_series_over THEN
+    PERFORM 1 FROM agents WHERE id IN (v_match.agent1_id, v_match.agent2_id) FOR UPDATE;
+    PERFORM apply_strategy_schedules(v_match.agent1_id);
+    PERFORM apply_strategy_schedules(v_match.agent2_id);
+
+    SELECT strategy INTO v_strategy1 FROM agents WHERE id = v_match.agent1_id;
+    SELECT strategy INTO v_strategy2 FROM agents WHERE id = v_match.agent2_id;
+
+    v_strategy_dl := now() + COALESCE(v_match.strategy_deadline - v_match.created_at,
+                                      INTERVAL '60 seconds');
+
+    INSERT INTO matches (
+      challenge_id, agent1_id, agent2_id, wager_amount,
+      strategy_deadline, commit_deadline,
+      agent1_strategy, agent2_strategy,
+      phase, best_of, round,
+      agent1_series_wins, agent2_series_wins
+    )
+    VALUES (
+      v_match.challenge_id,
+      v_match.agent1_id,
+      v_match.agent2_id,
+      v_match.wager_amount,
+      v_strategy_dl,
+      v_strategy_dl + COALESCE(v_match.commit_deadline - v_match.strategy_deadline,
+                               INTERVAL '60 seconds'),
+      v_strategy1,
+      v_strategy2,
+      'strategy',
+      v_match.best_of,
+      v_match.round + 1,
+      v_wins1,
+      v_wins2
+    );
+  END IF;
+
+  SELECT * INTO v_match FROM matches WHERE id = p_match_id;
+  RETURN v_match;
+END;
+$$;
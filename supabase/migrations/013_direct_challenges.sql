@@ -0,0 +1,192 @@
+-- =============================================================================
+-- Migration 013: Direct challenges
+-- =============================================================================
+-- A challenge can be addressed to one agent (target_agent_id). Only that
+-- agent can accept it, it stays out of the public lobby, and the target can
+-- decline it — which refunds the challenger's escrow, like a cancellation.
+--
+-- Run the ALTER TYPE on its own first if your SQL editor wraps the whole
+-- script in one transaction: a new enum value cannot be used until the
+-- transaction that added it has committed.
+-- =============================================================================
+
+ALTER TYPE challenge_status ADD VALUE IF NOT EXISTS 'declined';
+
+ALTER TABLE challenges
+  ADD COLUMN IF NOT EXISTS target_agent_id UUID REFERENCES agents(id);
+
+ALTER TABLE challenges DROP CONSTRAINT IF EXISTS challenges_not_self_targeted;
+ALTER TABLE challenges
+  ADD CONSTRAINT challenges_not_self_targeted CHECK (target_agent_id <> challenger_id);
+
+CREATE INDEX IF NOT EXISTS idx_challenges_target
+  ON challenges (target_agent_id)
+  WHERE status = 'open';
+
+
+-- ── Lobby: direct challenges are private to their target ────────────────────
+CREATE OR REPLACE VIEW open_challenges AS
+  SELECT
+    c.id,
+    c.wager_amount,
+    c.created_at,
+    a.id      AS challenger_id,
+    a.name    AS challenger_name,
+    a.wins,
+    a.losses,
+    a.draws,
+    a.balance AS challenger_balance,
+    c.best_of
+  FROM challenges c
+  JOIN agents a ON a.id = c.challenger_id
+  WHERE c.status = 'open'
+    AND c.target_agent_id IS NULL
+  ORDER BY c.created_at DESC;
+
+
+-- ── decline_challenge ────────────────────────────────────────────────────────
+-- Mirrors cancel_challenge (migration 006), called by the target instead of
+-- the challenger.
+CREATE OR REPLACE FUNCTION decline_challenge(
+  p_challenge_id UUID,
+  p_agent_id     UUID
+)
+RETURNS TABLE (
+  success BOOLEAN,
+  wager_amount INTEGER,
+  message TEXT
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_challenge challenges%ROWTYPE;
+BEGIN
+  -- Lock the challenge to prevent a concurrent accept or cancel
+  SELECT * INTO v_challenge
+    FROM challenges
+   WHERE id = p_challenge_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT false, 0, 'Challenge not found'::TEXT;
+    RETURN;
+  END IF;
+
+  IF v_challenge.target_agent_id IS DISTINCT FROM p_agent_id THEN
+    RETURN QUERY SELECT false, 0, 'Challenge is not addressed to you'::TEXT;
+    RETURN;
+  END IF;
+
+  IF v_challenge.status != 'open' THEN
+    RETURN QUERY SELECT false, 0, ('Cannot decline a challenge with status ''' || v_challenge.status || '''')::TEXT;
+    RETURN;
+  END IF;
+
+  UPDATE challenges
+     SET status = 'declined'
+   WHERE id = p_challenge_id;
+
+  -- Refund the challenger's escrowed wager (additive update)
+  UPDATE agents
+     SET balance = balance + v_challenge.wager_amount
+   WHERE id = v_challenge.challenger_id;
+
+  INSERT INTO transactions (from_agent_id, to_agent_id, amount, note)
+  VALUES (
+    NULL,
+    v_challenge.challenger_id,
+    v_challenge.wager_amount,
+    'challenge declined — wager returned'
+  );
+
+  RETURN QUERY SELECT true, v_challenge.wager_amount, 'Challenge declined.'::TEXT;
+END;
+$$;
+
+
+-- ── create_match: a direct challenge can only be accepted by its target ─────
+CREATE OR REPLACE FUNCTION create_match(
+  p_challenge_id     UUID,
+  p_accepter_id      UUID,
+  p_strategy_seconds INTEGER DEFAULT 60,
+  p_commit_seconds   INTEGER DEFAULT 60
+)
+RETURNS matches
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_challenge   challenges%ROWTYPE;
+  v_challenger  agents%ROWTYPE;
+  v_accepter    agents%ROWTYPE;
+  v_match       matches%ROWTYPE;
+  v_strategy_dl TIMESTAMPTZ;
+BEGIN
+  -- Lock and validate the challenge
+  SELECT * INTO v_challenge
+    FROM challenges
+   WHERE id = p_challenge_id AND status = 'open'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Challenge % is not open or does not exist', p_challenge_id;
+  END IF;
+
+  IF v_challenge.challenger_id = p_accepter_id THEN
+    RAISE EXCEPTION 'An agent cannot accept their own challenge';
+  END IF;
+
+  IF v_challenge.target_agent_id IS NOT NULL AND v_challenge.target_agent_id <> p_accepter_id THEN
+    RAISE EXCEPTION 'Challenge % is addressed to another agent', p_challenge_id;
+  END IF;
+
+  -- Lock both agents
+  SELECT * INTO v_challenger FROM agents WHERE id = v_challenge.challenger_id FOR UPDATE;
+  SELECT * INTO v_accepter   FROM agents WHERE id = p_accepter_id             FOR UPDATE;
+
+  IF v_accepter.balance < v_challenge.wager_amount THEN
+    RAISE EXCEPTION 'Accepter has insufficient balance (has %, needs %)',
+      v_accepter.balance, v_challenge.wager_amount;
+  END IF;
+
+  -- Bring both strategies up to date with any scheduled changes, then re-read
+  -- them so the snapshot below is what each agent is actually playing.
+  PERFORM apply_strategy_schedules(v_challenge.challenger_id);
+  PERFORM apply_strategy_schedules(p_accepter_id);
+
+  SELECT * INTO v_challenger FROM agents WHERE id = v_challenge.challenger_id;
+  SELECT * INTO v_accepter   FROM agents WHERE id = p_accepter_id;
+
+  -- Escrow accepter's wager — held for the whole series
+  UPDATE agents SET balance = balance - v_challenge.wager_amount
+   WHERE id = p_accepter_id;
+
+  v_strategy_dl := now() + (p_strategy_seconds || ' seconds')::INTERVAL;
+
+  -- Create round 1 in 'strategy' phase
+  INSERT INTO matches (
+    challenge_id, agent1_id, agent2_id, wager_amount,
+    strategy_deadline, commit_deadline,
+    agent1_strategy, agent2_strategy,
+    phase, best_of, round
+  )
+  VALUES (
+    p_challenge_id,
+    v_challenge.challenger_id,
+    p_accepter_id,
+    v_challenge.wager_amount,
+    v_strategy_dl,
+    v_strategy_dl + (p_commit_seconds || ' seconds')::INTERVAL,
+    v_challenger.strategy,
+    v_accepter.strategy,
+    'strategy',
+    v_challenge.best_of,
+    1
+  )
+  RETURNING * INTO v_match;
+
+  -- Mark challenge as matched
+  UPDATE challenges SET status = 'matched' WHERE id = p_challenge_id;
+
+  RETURN v_match;
+END;
+$$;
@@ -0,0 +1,284 @@
+-- =============================================================================
+-- Migration 014: Challenge expiry
+-- =============================================================================
+-- Open challenges used to hold the challenger's escrow until someone
+-- cancelled them, so a bot that crashed after posting left its chips locked
+-- up for good. post-challenge now takes expires_in_seconds; once expires_at
+-- passes, the challenge can no longer be accepted and the process-stale-
+-- matches cron closes it as 'expired' and refunds the wager.
+--
+-- Cancelling, declining and expiring all close a challenge through
+-- close_challenge, so every refund writes the same transactions row.
+--
+-- Run the ALTER TYPE on its own first if your SQL editor wraps the whole
+-- script in one transaction (see migration 013).
+-- =============================================================================
+
+ALTER TYPE challenge_status ADD VALUE IF NOT EXISTS 'expired';
+
+ALTER TABLE challenges
+  ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_challenges_expires_at
+  ON challenges (expires_at)
+  WHERE status = 'open' AND expires_at IS NOT NULL;
+
+
+-- ── Lobby: hide challenges that have expired but not yet been swept ─────────
+CREATE OR REPLACE VIEW open_challenges AS
+  SELECT
+    c.id,
+    c.wager_amount,
+    c.created_at,
+    a.id      AS challenger_id,
+    a.name    AS challenger_name,
+    a.wins,
+    a.losses,
+    a.draws,
+    a.balance AS challenger_balance,
+    c.best_of,
+    c.expires_at
+  FROM challenges c
+  JOIN agents a ON a.id = c.challenger_id
+  WHERE c.status = 'open'
+    AND c.target_agent_id IS NULL
+    AND (c.expires_at IS NULL OR c.expires_at > now())
+  ORDER BY c.created_at DESC;
+
+
+-- ── close_challenge ──────────────────────────────────────────────────────────
+-- Closes an open challenge and returns the escrow to the challenger. The
+-- caller must hold the lock on the challenge and have checked it is open.
+CREATE OR REPLACE FUNCTION close_challenge(
+  p_challenge challenges,
+  p_status    challenge_status,
+  p_note      TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE challenges
+     SET status = p_status
+   WHERE id = p_challenge.id;
+
+  -- Refund the escrowed wager safely (additive update)
+  UPDATE agents
+     SET balance = balance + p_challenge.wager_amount
+   WHERE id = p_challenge.challenger_id;
+
+  -- Record the refund transaction
+  INSERT INTO transactions (from_agent_id, to_agent_id, amount, note)
+  VALUES (NULL, p_challenge.challenger_id, p_challenge.wager_amount, p_note);
+END;
+$$;
+
+
+-- ── cancel_challenge / decline_challenge: refund through close_challenge ────
+CREATE OR REPLACE FUNCTION cancel_challenge(
+  p_challenge_id UUID,
+  p_agent_id     UUID
+)
+RETURNS TABLE (
+  success BOOLEAN,
+  wager_amount INTEGER,
+  message TEXT
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_challenge challenges%ROWTYPE;
+BEGIN
+  -- Lock the challenge to prevent concurrent acceptance/cancellations
+  SELECT * INTO v_challenge
+    FROM challenges
+   WHERE id = p_challenge_id
+  FOR UPDATE;
+
+  -- Validation Checks
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT false, 0, 'Challenge not found'::TEXT;
+    RETURN;
+  END IF;
+
+  IF v_challenge.challenger_id != p_agent_id THEN
+    RETURN QUERY SELECT false, 0, 'Not your challenge'::TEXT;
+    RETURN;
+  END IF;
+
+  IF v_challenge.status != 'open' THEN
+    RETURN QUERY SELECT false, 0, ('Cannot cancel a challenge with status ''' || v_challenge.status || '''') ::TEXT;
+    RETURN;
+  END IF;
+
+  PERFORM close_challenge(v_challenge, 'cancelled', 'challenge cancelled — wager returned');
+
+  RETURN QUERY SELECT true, v_challenge.wager_amount, 'Challenge cancelled.'::TEXT;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION decline_challenge(
+  p_challenge_id UUID,
+  p_agent_id     UUID
+)
+RETURNS TABLE (
+  success BOOLEAN,
+  wager_amount INTEGER,
+  message TEXT
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_challenge challenges%ROWTYPE;
+BEGIN
+  -- Lock the challenge to prevent a concurrent accept or cancel
+  SELECT * INTO v_challenge
+    FROM challenges
+   WHERE id = p_challenge_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT false, 0, 'Challenge not found'::TEXT;
+    RETURN;
+  END IF;
+
+  IF v_challenge.target_agent_id IS DISTINCT FROM p_agent_id THEN
+    RETURN QUERY SELECT false, 0, 'Challenge is not addressed to you'::TEXT;
+    RETURN;
+  END IF;
+
+  IF v_challenge.status != 'open' THEN
+    RETURN QUERY SELECT false, 0, ('Cannot decline a challenge with status ''' || v_challenge.status || '''')::TEXT;
+    RETURN;
+  END IF;
+
+  PERFORM close_challenge(v_challenge, 'declined', 'challenge declined — wager returned');
+
+  RETURN QUERY SELECT true, v_challenge.wager_amount, 'Challenge declined.'::TEXT;
+END;
+$$;
+
+
+-- ── expire_challenges ────────────────────────────────────────────────────────
+-- Called by the process-stale-matches cron. SKIP LOCKED leaves challenges
+-- being accepted or cancelled right now to the next run.
+CREATE OR REPLACE FUNCTION expire_challenges()
+RETURNS TABLE (
+  challenge_id  UUID,
+  challenger_id UUID,
+  wager_amount  INTEGER
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_challenge challenges%ROWTYPE;
+BEGIN
+  FOR v_challenge IN
+    SELECT * FROM challenges c
+     WHERE c.status = 'open'
+       AND c.expires_at <= now()
+     ORDER BY c.expires_at
+     FOR UPDATE SKIP LOCKED
+  LOOP
+    PERFORM close_challenge(v_challenge, 'expired', 'challenge expired — wager returned');
+
+    challenge_id  := v_challenge.id;
+    challenger_id := v_challenge.challenger_id;
+    wager_amount  := v_challenge.wager_amount;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+
+-- ── create_match: an expired challenge cannot be accepted ───────────────────
+CREATE OR REPLACE FUNCTION create_match(
+  p_challenge_id     UUID,
+  p_accepter_id      UUID,
+  p_strategy_seconds INTEGER DEFAULT 60,
+  p_commit_seconds   INTEGER DEFAULT 60
+)
+RETURNS matches
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_challenge   challenges%ROWTYPE;
+  v_challenger  agents%ROWTYPE;
+  v_accepter    agents%ROWTYPE;
+  v_match       matches%ROWTYPE;
+  v_strategy_dl TIMESTAMPTZ;
+BEGIN
+  -- Lock and validate the challenge
+  SELECT * INTO v_challenge
+    FROM challenges
+   WHERE id = p_challenge_id AND status = 'open'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Challenge % is not open or does not exist', p_challenge_id;
+  END IF;
+
+  -- The cron may not have swept it yet
+  IF v_challenge.expires_at IS NOT NULL AND v_challenge.expires_at <= now() THEN
+    RAISE EXCEPTION 'Challenge % has expired', p_challenge_id;
+  END IF;
+
+  IF v_challenge.challenger_id = p_accepter_id THEN
+    RAISE EXCEPTION 'An agent cannot accept their own challenge';
+  END IF;
+
+  IF v_challenge.target_agent_id IS NOT NULL AND v_challenge.target_agent_id <> p_accepter_id THEN
+    RAISE EXCEPTION 'Challenge % is addressed to another agent', p_challenge_id;
+  END IF;
+
+  -- Lock both agents
+  SELECT * INTO v_challenger FROM agents WHERE id = v_challenge.challenger_id FOR UPDATE;
+  SELECT * INTO v_accepter   FROM agents WHERE id = p_accepter_id             FOR UPDATE;
+
+  IF v_accepter.balance < v_challenge.wager_amount THEN
+    RAISE EXCEPTION 'Accepter has insufficient balance (has %, needs %)',
+      v_accepter.balance, v_challenge.wager_amount;
+  END IF;
+
+  -- Bring both strategies up to date with any scheduled changes, then re-read
+  -- them so the snapshot below is what each agent is actually playing.
+  PERFORM apply_strategy_schedules(v_challenge.challenger_id);
+  PERFORM apply_strategy_schedules(p_accepter_id);
+
+  SELECT * INTO v_challenger FROM agents WHERE id = v_challenge.challenger_id;
+  SELECT * INTO v_accepter   FROM agents WHERE id = p_accepter_id;
+
+  -- Escrow accepter's wager — held for the whole series
+  UPDATE agents SET balance = balance - v_challenge.wager_amount
+   WHERE id = p_accepter_id;
+
+  v_strategy_dl := now() + (p_strategy_seconds || ' seconds')::INTERVAL;
+
+  -- Create round 1 in 'strategy' phase
+  INSERT INTO matches (
+    challenge_id, agent1_id, agent2_id, wager_amount,
+    strategy_deadline, commit_deadline,
+    agent1_strategy, agent2_strategy,
+    phase, best_of, round
+  )
+  VALUES (
+    p_challenge_id,
+    v_challenge.challenger_id,
+    p_accepter_id,
+    v_challenge.wager_amount,
+    v_strategy_dl,
+    v_strategy_dl + (p_commit_seconds || ' seconds')::INTERVAL,
+    v_challenger.strategy,
+    v_accepter.strategy,
+    'strategy',
+    v_challenge.best_of,
+    1
+  )
+  RETURNING * INTO v_match;
+
+  -- Mark challenge as matched
+  UPDATE challenges SET status = 'matched' WHERE id = p_challenge_id;
+
+  RETURN v_match;
+END;
+$$;
@@ -0,0 +1,185 @@
+-- =============================================================================
+-- Migration 015: Acceptance constraints on challenges
+-- =============================================================================
+-- Any agent could accept any open challenge, so a fresh account could farm
+-- or grief every wager in the lobby. Challengers can now restrict who may
+-- accept:
+--
+--   min_win_pct / max_win_pct  accepter's win % (as in the leaderboard view)
+--   min_games                  accepter's wins + losses + draws
+--   excluded_agent_ids         agents who may not accept
+--   strategy_family            accepter's strategy type, e.g. 'markov', for
+--                              exhibition play — checked against the
+--                              strategy the match will snapshot
+--
+-- create_match enforces them while holding the challenge and agent locks,
+-- so a record or strategy cannot change between the check and the match.
+-- All are optional; NULL / empty means no restriction.
+-- =============================================================================
+
+ALTER TABLE challenges
+  ADD COLUMN IF NOT EXISTS min_win_pct        NUMERIC(4, 1)
+    CONSTRAINT challenges_min_win_pct_range CHECK (min_win_pct BETWEEN 0 AND 100),
+  ADD COLUMN IF NOT EXISTS max_win_pct        NUMERIC(4, 1)
+    CONSTRAINT challenges_max_win_pct_range CHECK (max_win_pct BETWEEN 0 AND 100),
+  ADD COLUMN IF NOT EXISTS min_games          INTEGER
+    CONSTRAINT challenges_min_games_positive CHECK (min_games > 0),
+  ADD COLUMN IF NOT EXISTS excluded_agent_ids UUID[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS strategy_family    TEXT;
+
+ALTER TABLE challenges DROP CONSTRAINT IF EXISTS challenges_win_pct_order;
+ALTER TABLE challenges
+  ADD CONSTRAINT challenges_win_pct_order CHECK (min_win_pct <= max_win_pct);
+
+
+-- ── Lobby: constraints are public so agents can tell what they may accept ───
+CREATE OR REPLACE VIEW open_challenges AS
+  SELECT
+    c.id,
+    c.wager_amount,
+    c.created_at,
+    a.id      AS challenger_id,
+    a.name    AS challenger_name,
+    a.wins,
+    a.losses,
+    a.draws,
+    a.balance AS challenger_balance,
+    c.best_of,
+    c.expires_at,
+    c.min_win_pct,
+    c.max_win_pct,
+    c.min_games,
+    c.excluded_agent_ids,
+    c.strategy_family
+  FROM challenges c
+  JOIN agents a ON a.id = c.challenger_id
+  WHERE c.status = 'open'
+    AND c.target_agent_id IS NULL
+    AND (c.expires_at IS NULL OR c.expires_at > now())
+  ORDER BY c.created_at DESC;
+
+
+-- ── create_match: enforce the challenge's constraints on the accepter ───────
+CREATE OR REPLACE FUNCTION create_match(
+  p_challenge_id     UUID,
+  p_accepter_id      UUID,
+  p_strategy_seconds INTEGER DEFAULT 60,
+  p_commit_seconds   INTEGER DEFAULT 60
+)
+RETURNS matches
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_challenge   challenges%ROWTYPE;
+  v_challenger  agents%ROWTYPE;
+  v_accepter    agents%ROWTYPE;
+  v_match       matches%ROWTYPE;
+  v_strategy_dl TIMESTAMPTZ;
+  v_games       INTEGER;
+  v_win_pct     NUMERIC;
+BEGIN
+  -- Lock and validate the challenge
+  SELECT * INTO v_challenge
+    FROM challenges
+   WHERE id = p_challenge_id AND status = 'open'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Challenge % is not open or does not exist', p_challenge_id;
+  END IF;
+
+  -- The cron may not have swept it yet
+  IF v_challenge.expires_at IS NOT NULL AND v_challenge.expires_at <= now() THEN
+    RAISE EXCEPTION 'Challenge % has expired', p_challenge_id;
+  END IF;
+
+  IF v_challenge.challenger_id = p_accepter_id THEN
+    RAISE EXCEPTION 'An agent cannot accept their own challenge';
+  END IF;
+
+  IF v_challenge.target_agent_id IS NOT NULL AND v_challenge.target_agent_id <> p_accepter_id THEN
+    RAISE EXCEPTION 'Challenge % is addressed to another agent', p_challenge_id;
+  END IF;
+
+  -- Lock both agents
+  SELECT * INTO v_challenger FROM agents WHERE id = v_challenge.challenger_id FOR UPDATE;
+  SELECT * INTO v_accepter   FROM agents WHERE id = p_accepter_id             FOR UPDATE;
+
+  IF v_accepter.balance < v_challenge.wager_amount THEN
+    RAISE EXCEPTION 'Accepter has insufficient balance (has %, needs %)',
+      v_accepter.balance, v_challenge.wager_amount;
+  END IF;
+
+  -- Bring both strategies up to date with any scheduled changes, then re-read
+  -- them so the snapshot below is what each agent is actually playing.
+  PERFORM apply_strategy_schedules(v_challenge.challenger_id);
+  PERFORM apply_strategy_schedules(p_accepter_id);
+
+  SELECT * INTO v_challenger FROM agents WHERE id = v_challenge.challenger_id;
+  SELECT * INTO v_accepter   FROM agents WHERE id = p_accepter_id;
+
+  -- Acceptance constraints, checked against the strategy about to be
+  -- snapshotted. Win % is computed as in the leaderboard view.
+  v_games   := v_accepter.wins + v_accepter.losses + v_accepter.draws;
+  v_win_pct := CASE WHEN v_games = 0 THEN 0
+                    ELSE ROUND(v_accepter.wins::NUMERIC / v_games * 100, 1) END;
+
+  IF p_accepter_id = ANY (v_challenge.excluded_agent_ids) THEN
+    RAISE EXCEPTION 'Challenge % excludes you', p_challenge_id;
+  END IF;
+
+  IF v_challenge.min_games IS NOT NULL AND v_games < v_challenge.min_games THEN
+    RAISE EXCEPTION 'Challenge % requires at least % games played (you have %)',
+      p_challenge_id, v_challenge.min_games, v_games;
+  END IF;
+
+  IF v_challenge.min_win_pct IS NOT NULL AND v_win_pct < v_challenge.min_win_pct THEN
+    RAISE EXCEPTION 'Challenge % requires a win percentage of at least % (you have %)',
+      p_challenge_id, v_challenge.min_win_pct || '%', v_win_pct || '%';
+  END IF;
+
+  IF v_challenge.max_win_pct IS NOT NULL AND v_win_pct > v_challenge.max_win_pct THEN
+    RAISE EXCEPTION 'Challenge % requires a win percentage of at most % (you have %)',
+      p_challenge_id, v_challenge.max_win_pct || '%', v_win_pct || '%';
+  END IF;
+
+  IF v_challenge.strategy_family IS NOT NULL
+     AND v_accepter.strategy->>'type' IS DISTINCT FROM v_challenge.strategy_family THEN
+    RAISE EXCEPTION 'Challenge % requires a % strategy (yours is %)',
+      p_challenge_id, v_challenge.strategy_family, v_accepter.strategy->>'type';
+  END IF;
+
+  -- Escrow accepter's wager — held for the whole series
+  UPDATE agents SET balance = balance - v_challenge.wager_amount
+   WHERE id = p_accepter_id;
+
+  v_strategy_dl := now() + (p_strategy_seconds || ' seconds')::INTERVAL;
+
+  -- Create round 1 in 'strategy' phase
+  INSERT INTO matches (
+    challenge_id, agent1_id, agent2_id, wager_amount,
+    strategy_deadline, commit_deadline,
+    agent1_strategy, agent2_strategy,
+    phase, best_of, round
+  )
+  VALUES (
+    p_challenge_id,
+    v_challenge.challenger_id,
+    p_accepter_id,
+    v_challenge.wager_amount,
+    v_strategy_dl,
+    v_strategy_dl + (p_commit_seconds || ' seconds')::INTERVAL,
+    v_challenger.strategy,
+    v_accepter.strategy,
+    'strategy',
+    v_challenge.best_of,
+    1
+  )
+  RETURNING * INTO v_match;
+
+  -- Mark challenge as matched
+  UPDATE challenges SET status = 'matched' WHERE id = p_challenge_id;
+
+  RETURN v_match;
+END;
+$$;
@@ -0,0 +1,145 @@
+-- =============================================================================
+-- Migration 016: Matchmaking queue
+-- =============================================================================
+-- An alternative to polling the lobby and racing to accept-challenge. An
+-- agent joins the queue with a wager range and timing preferences, and the
+-- run-matchmaker cron pairs compatible agents:
+--
+--   compatible  both wager ranges overlap, and both balances cover at least
+--               the larger of the two minimums
+--   wager       the most both will stake: the smaller maximum, capped by
+--               both balances
+--   timings     the longer of the two strategy / commit windows
+--   preference  closest win percentage first, then longest waiting
+--
+-- A pairing goes through the lobby's own escrow path: the agent who queued
+-- first posts a direct challenge to the other (escrow_wager), who accepts
+-- it through create_match.
+--
+-- Each agent has at most one queue entry. It stays 'waiting' until paired
+-- ('matched', with match_id), withdrawn by leave-queue, or past expires_at
+-- ('expired').
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS matchmaking_queue (
+  agent_id         UUID        PRIMARY KEY REFERENCES agents(id) ON DELETE CASCADE,
+  min_wager        INTEGER     NOT NULL CHECK (min_wager > 0),
+  max_wager        INTEGER     NOT NULL,
+  strategy_seconds INTEGER     NOT NULL DEFAULT 60,
+  commit_seconds   INTEGER     NOT NULL DEFAULT 60,
+  status           TEXT        NOT NULL DEFAULT 'waiting'
+                     CHECK (status IN ('waiting', 'matched', 'expired')),
+  match_id         UUID        REFERENCES matches(id),
+  joined_at        TIMESTAMPTZ NOT NULL DEFAULT now(),
+  expires_at       TIMESTAMPTZ NOT NULL,
+  matched_at       TIMESTAMPTZ,
+
+  CONSTRAINT matchmaking_queue_wager_range CHECK (min_wager <= max_wager)
+);
+
+CREATE INDEX IF NOT EXISTS idx_matchmaking_queue_waiting
+  ON matchmaking_queue (joined_at)
+  WHERE status = 'waiting';
+
+-- Preferences reveal how much an agent is willing to stake: owners only.
+ALTER TABLE matchmaking_queue ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "matchmaking_queue_owner_read" ON matchmaking_queue;
+CREATE POLICY "matchmaking_queue_owner_read"
+  ON matchmaking_queue FOR SELECT
+  TO authenticated
+  USING (agent_id IN (SELECT id FROM agents WHERE user_id = auth.uid()));
+
+
+-- ── run_matchmaker ───────────────────────────────────────────────────────────
+-- Pairs as many waiting agents as it can and returns the matches created.
+-- A pairing that fails (e.g. a balance spent since the check) is rolled back
+-- on its own and both agents stay queued for the next run.
+CREATE OR REPLACE FUNCTION run_matchmaker()
+RETURNS TABLE (
+  match_id     UUID,
+  agent1_id    UUID,
+  agent2_id    UUID,
+  wager_amount INTEGER
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_entry        matchmaking_queue%ROWTYPE;
+  v_partner      matchmaking_queue%ROWTYPE;
+  v_wager        INTEGER;
+  v_challenge_id UUID;
+  v_match        matches%ROWTYPE;
+BEGIN
+  UPDATE matchmaking_queue q
+     SET status = 'expired'
+   WHERE q.status = 'waiting'
+     AND q.expires_at <= now();
+
+  FOR v_entry IN
+    SELECT * FROM matchmaking_queue q
+     WHERE q.status = 'waiting'
+     ORDER BY q.joined_at
+     FOR UPDATE SKIP LOCKED
+  LOOP
+    -- Already taken as someone's partner earlier in this run
+    CONTINUE WHEN (SELECT q.status FROM matchmaking_queue q WHERE q.agent_id = v_entry.agent_id)
+                  <> 'waiting';
+
+    SELECT q.* INTO v_partner
+      FROM matchmaking_queue q
+      JOIN agents me   ON me.id   = v_entry.agent_id
+      JOIN agents them ON them.id = q.agent_id
+     WHERE q.status = 'waiting'
+       AND q.agent_id <> v_entry.agent_id
+       AND LEAST(v_entry.max_wager, q.max_wager, me.balance, them.balance)
+             >= GREATEST(v_entry.min_wager, q.min_wager)
+     ORDER BY abs(
+                CASE WHEN me.wins + me.losses + me.draws = 0 THEN 0
+                     ELSE me.wins::NUMERIC / (me.wins + me.losses + me.draws) END
+              - CASE WHEN them.wins + them.losses + them.draws = 0 THEN 0
+                     ELSE them.wins::NUMERIC / (them.wins + them.losses + them.draws) END),
+              q.joined_at
+     LIMIT 1
+     FOR UPDATE OF q SKIP LOCKED;
+
+    CONTINUE WHEN NOT FOUND;
+
+    SELECT LEAST(v_entry.max_wager, v_partner.max_wager, MIN(a.balance))
+      INTO v_wager
+      FROM agents a
+     WHERE a.id IN (v_entry.agent_id, v_partner.agent_id);
+
+    BEGIN
+      IF NOT escrow_wager(v_entry.agent_id, v_wager) THEN
+        CONTINUE;
+      END IF;
+
+      INSERT INTO challenges (challenger_id, wager_amount, target_agent_id)
+      VALUES (v_entry.agent_id, v_wager, v_partner.agent_id)
+      RETURNING id INTO v_challenge_id;
+
+      v_match := create_match(
+        v_challenge_id,
+        v_partner.agent_id,
+        GREATEST(v_entry.strategy_seconds, v_partner.strategy_seconds),
+        GREATEST(v_entry.commit_seconds,   v_partner.commit_seconds)
+      );
+    EXCEPTION WHEN OTHERS THEN
+      CONTINUE;
+    END;
+
+    UPDATE matchmaking_queue q
+       SET status     = 'matched',
+           match_id   = v_match.id,
+           matched_at = now()
+     WHERE q.agent_id IN (v_entry.agent_id, v_partner.agent_id);
+
+    match_id     := v_match.id;
+    agent1_id    := v_match.agent1_id;
+    agent2_id    := v_match.agent2_id;
+    wager_amount := v_match.wager_amount;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,836 @@
+-- =============================================================================
+-- Migration 017: Tournaments
+-- =============================================================================
+-- Round-robin and single-elimination tournaments with an entry fee:
+--
+--   registration  agents join-tournament; each entry fee is escrowed and
+--                 added to the prize pool. The tournament starts when it is
+--                 full, or at starts_at (run by the process-tournaments cron)
+--                 as long as at least two agents have joined — otherwise it
+--                 is cancelled and every fee is returned.
+--   in_progress   one round at a time. Each pairing is played as a direct
+--                 challenge accepted through create_match, so schedules,
+--                 strategy snapshots and best-of-N series work as they do in
+--                 the lobby. Tournament challenges carry no wager: the chips
+--                 at stake are the prize pool.
+--   complete      the pool has been paid out to the final standings by
+--                 payout_split (percentages for 1st, 2nd, …).
+--
+-- Formats:
+--
+--   round_robin        every entrant plays every other once (circle method,
+--                      a bye each round when the field is odd). Win 3 points,
+--                      draw 1. Ranked by points, then wins, then seed.
+--   single_elimination seeded by win percentage into a bracket, with byes for
+--                      the top seeds when the field is not a power of two.
+--                      A drawn pairing is replayed; winners advance. Ranked by
+--                      the round an agent went out in, then points, then seed.
+--
+-- resolve_match calls record_tournament_result once a tournament series is
+-- settled, which advances the bracket as soon as a round is finished.
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS tournaments (
+  id               UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  name             TEXT        NOT NULL,
+  format           TEXT        NOT NULL
+                     CHECK (format IN ('round_robin', 'single_elimination')),
+  created_by       UUID        NOT NULL REFERENCES agents(id),
+  entry_fee        INTEGER     NOT NULL CHECK (entry_fee >= 0),
+  prize_pool       INTEGER     NOT NULL DEFAULT 0,
+  payout_split     INTEGER[]   NOT NULL DEFAULT '{100}',
+  max_players      INTEGER     NOT NULL CHECK (max_players BETWEEN 2 AND 64),
+  best_of          INTEGER     NOT NULL DEFAULT 1 CHECK (best_of IN (1, 3, 5, 7)),
+  strategy_seconds INTEGER     NOT NULL DEFAULT 60,
+  commit_seconds   INTEGER     NOT NULL DEFAULT 60,
+
+  -- registration → in_progress → complete, or cancelled if too few joined
+  status           TEXT        NOT NULL DEFAULT 'registration'
+                     CHECK (status IN ('registration', 'in_progress', 'complete', 'cancelled')),
+  current_round    INTEGER     NOT NULL DEFAULT 0,
+  starts_at        TIMESTAMPTZ NOT NULL,
+  started_at       TIMESTAMPTZ,
+  completed_at     TIMESTAMPTZ,
+  created_at       TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  CONSTRAINT tournaments_payout_split CHECK (
+    cardinality(payout_split) BETWEEN 1 AND max_players
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_tournaments_status_starts
+  ON tournaments (status, starts_at);
+
+CREATE TABLE IF NOT EXISTS tournament_entries (
+  tournament_id    UUID        NOT NULL REFERENCES tournaments(id) ON DELETE CASCADE,
+  agent_id         UUID        NOT NULL REFERENCES agents(id),
+  seed             INTEGER,                -- set when the tournament starts
+  points           INTEGER     NOT NULL DEFAULT 0,
+  wins             INTEGER     NOT NULL DEFAULT 0,
+  losses           INTEGER     NOT NULL DEFAULT 0,
+  draws            INTEGER     NOT NULL DEFAULT 0,
+  eliminated_round INTEGER,                -- single elimination only
+  final_rank       INTEGER,
+  payout           INTEGER     NOT NULL DEFAULT 0,
+  joined_at        TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  PRIMARY KEY (tournament_id, agent_id)
+);
+
+-- One row per game in the schedule. agent2_id is NULL for a bye.
+-- challenge_id points at the series currently being played for the pairing
+-- (a drawn elimination pairing is replayed under a new challenge).
+CREATE TABLE IF NOT EXISTS tournament_pairings (
+  id            UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  tournament_id UUID        NOT NULL REFERENCES tournaments(id) ON DELETE CASCADE,
+  round         INTEGER     NOT NULL,
+  slot          INTEGER     NOT NULL,
+  agent1_id     UUID        NOT NULL REFERENCES agents(id),
+  agent2_id     UUID        REFERENCES agents(id),
+  challenge_id  UUID        REFERENCES challenges(id),
+  winner_id     UUID        REFERENCES agents(id),   -- NULL for a draw or a bye in round robin
+  status        TEXT        NOT NULL DEFAULT 'pending'
+                  CHECK (status IN ('pending', 'playing', 'complete')),
+  completed_at  TIMESTAMPTZ,
+
+  CONSTRAINT tournament_pairings_slot UNIQUE (tournament_id, round, slot)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tournament_pairings_challenge
+  ON tournament_pairings (challenge_id);
+
+-- Tournament games are played through challenges with no wager of their own.
+ALTER TABLE challenges
+  ADD COLUMN IF NOT EXISTS tournament_id UUID REFERENCES tournaments(id);
+
+ALTER TABLE challenges DROP CONSTRAINT IF EXISTS wager_positive;
+ALTER TABLE challenges
+  ADD CONSTRAINT wager_positive
+  CHECK (wager_amount > 0 OR (tournament_id IS NOT NULL AND wager_amount = 0));
+
+-- Brackets and standings are public, like the match feed.
+ALTER TABLE tournaments         ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tournament_entries  ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tournament_pairings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "tournaments_public_read" ON tournaments;
+CREATE POLICY "tournaments_public_read"
+  ON tournaments FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "tournament_entries_public_read" ON tournament_entries;
+CREATE POLICY "tournament_entries_public_read"
+  ON tournament_entries FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "tournament_pairings_public_read" ON tournament_pairings;
+CREATE POLICY "tournament_pairings_public_read"
+  ON tournament_pairings FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+
+-- ── join_tournament ──────────────────────────────────────────────────────────
+-- Escrows the entry fee into the prize pool. Filling the last seat starts
+-- the tournament straight away.
+CREATE OR REPLACE FUNCTION join_tournament(
+  p_tournament_id UUID,
+  p_agent_id      UUID
+)
+RETURNS tournaments
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_tournament tournaments%ROWTYPE;
+  v_entrants   INTEGER;
+BEGIN
+  SELECT * INTO v_tournament
+    FROM tournaments
+   WHERE id = p_tournament_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Tournament % does not exist', p_tournament_id;
+  END IF;
+
+  IF v_tournament.status <> 'registration' OR v_tournament.starts_at <= now() THEN
+    RAISE EXCEPTION 'Registration for tournament % is closed', p_tournament_id;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM tournament_entries
+     WHERE tournament_id = p_tournament_id AND agent_id = p_agent_id
+  ) THEN
+    RAISE EXCEPTION 'Agent has already joined tournament %', p_tournament_id;
+  END IF;
+
+  SELECT COUNT(*) INTO v_entrants
+    FROM tournament_entries
+   WHERE tournament_id = p_tournament_id;
+
+  IF v_entrants >= v_tournament.max_players THEN
+    RAISE EXCEPTION 'Tournament % is full', p_tournament_id;
+  END IF;
+
+  IF v_tournament.entry_fee > 0 AND NOT escrow_wager(p_agent_id, v_tournament.entry_fee) THEN
+    RAISE EXCEPTION 'Insufficient balance for the entry fee of % chips', v_tournament.entry_fee;
+  END IF;
+
+  INSERT INTO tournament_entries (tournament_id, agent_id)
+  VALUES (p_tournament_id, p_agent_id);
+
+  UPDATE tournaments
+     SET prize_pool = prize_pool + entry_fee
+   WHERE id = p_tournament_id;
+
+  IF v_entrants + 1 = v_tournament.max_players THEN
+    PERFORM start_tournament(p_tournament_id);
+  END IF;
+
+  SELECT * INTO v_tournament FROM tournaments WHERE id = p_tournament_id;
+  RETURN v_tournament;
+END;
+$$;
+
+
+-- ── start_tournament ─────────────────────────────────────────────────────────
+-- Seeds the field by win percentage (join order breaks ties), generates the
+-- schedule and plays round 1. Fewer than two entrants cancels instead.
+CREATE OR REPLACE FUNCTION start_tournament(p_tournament_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_tournament tournaments%ROWTYPE;
+  v_players    UUID[];
+  v_n          INTEGER;
+  v_size       INTEGER;
+  v_a          UUID;
+  v_b          UUID;
+BEGIN
+  SELECT * INTO v_tournament
+    FROM tournaments
+   WHERE id = p_tournament_id AND status = 'registration'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  WITH seeded AS (
+    SELECT e.agent_id,
+           ROW_NUMBER() OVER (
+             ORDER BY CASE WHEN a.wins + a.losses + a.draws = 0 THEN 0
+                           ELSE a.wins::NUMERIC / (a.wins + a.losses + a.draws) END DESC,
+                      e.joined_at
+           ) AS seed
+      FROM tournament_entries e
+      JOIN agents a ON a.id = e.agent_id
+     WHERE e.tournament_id = p_tournament_id
+  )
+  UPDATE tournament_entries e
+     SET seed = s.seed
+    FROM seeded s
+   WHERE e.tournament_id = p_tournament_id
+     AND e.agent_id = s.agent_id;
+
+  SELECT array_agg(agent_id ORDER BY seed) INTO v_players
+    FROM tournament_entries
+   WHERE tournament_id = p_tournament_id;
+
+  v_n := COALESCE(cardinality(v_players), 0);
+
+  IF v_n < 2 THEN
+    PERFORM cancel_tournament(p_tournament_id);
+    RETURN;
+  END IF;
+
+  IF v_tournament.format = 'round_robin' THEN
+    -- Circle method: fix the first player, rotate the rest. A NULL seat is
+    -- the bye for an odd field.
+    IF v_n % 2 = 1 THEN
+      v_players := v_players || NULL::UUID;
+      v_n := v_n + 1;
+    END IF;
+
+    FOR r IN 1 .. v_n - 1 LOOP
+      FOR i IN 1 .. v_n / 2 LOOP
+        v_a := v_players[i];
+        v_b := v_players[v_n + 1 - i];
+        IF v_a IS NULL THEN
+          v_a := v_b;
+          v_b := NULL;
+        END IF;
+
+        INSERT INTO tournament_pairings (tournament_id, round, slot, agent1_id, agent2_id)
+        VALUES (p_tournament_id, r, i, v_a, v_b);
+      END LOOP;
+
+      v_players := v_players[1:1] || v_players[v_n:v_n] || v_players[2:v_n - 1];
+    END LOOP;
+  ELSE
+    -- Bracket of the next power of two; seed i meets seed size + 1 - i, and
+    -- seeds past the field are byes.
+    v_size := 1;
+    WHILE v_size < v_n LOOP
+      v_size := v_size * 2;
+    END LOOP;
+
+    FOR i IN 1 .. v_size / 2 LOOP
+      INSERT INTO tournament_pairings (tournament_id, round, slot, agent1_id, agent2_id)
+      VALUES (p_tournament_id, 1, i, v_players[i], v_players[v_size + 1 - i]);
+    END LOOP;
+  END IF;
+
+  UPDATE tournaments
+     SET status        = 'in_progress',
+         current_round = 1,
+         started_at    = now()
+   WHERE id = p_tournament_id;
+
+  PERFORM start_tournament_round(p_tournament_id, 1);
+END;
+$$;
+
+
+-- ── start_due_tournaments ────────────────────────────────────────────────────
+-- Cron entry point: starts (or cancels) every tournament past its starts_at.
+CREATE OR REPLACE FUNCTION start_due_tournaments()
+RETURNS TABLE (
+  tournament_id UUID,
+  status        TEXT
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  FOR v_id IN
+    SELECT t.id FROM tournaments t
+     WHERE t.status = 'registration'
+       AND t.starts_at <= now()
+     ORDER BY t.starts_at
+     FOR UPDATE SKIP LOCKED
+  LOOP
+    PERFORM start_tournament(v_id);
+
+    tournament_id := v_id;
+    status        := (SELECT t.status FROM tournaments t WHERE t.id = v_id);
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+
+-- ── cancel_tournament ────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION cancel_tournament(p_tournament_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_tournament tournaments%ROWTYPE;
+BEGIN
+  SELECT * INTO v_tournament FROM tournaments WHERE id = p_tournament_id FOR UPDATE;
+
+  IF v_tournament.entry_fee > 0 THEN
+    UPDATE agents a
+       SET balance = balance + v_tournament.entry_fee
+      FROM tournament_entries e
+     WHERE e.tournament_id = p_tournament_id
+       AND e.agent_id = a.id;
+
+    INSERT INTO transactions (match_id, from_agent_id, to_agent_id, amount, note)
+    SELECT NULL, NULL, e.agent_id, v_tournament.entry_fee,
+           'tournament cancelled — entry fee returned'
+      FROM tournament_entries e
+     WHERE e.tournament_id = p_tournament_id;
+  END IF;
+
+  UPDATE tournaments
+     SET status       = 'cancelled',
+         prize_pool   = 0,
+         completed_at = now()
+   WHERE id = p_tournament_id;
+END;
+$$;
+
+
+-- ── play_tournament_pairing ──────────────────────────────────────────────────
+-- Starts (or replays) a pairing: a no-wager direct challenge from agent1 to
+-- agent2, accepted on agent2's behalf.
+CREATE OR REPLACE FUNCTION play_tournament_pairing(p_pairing_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_pairing      tournament_pairings%ROWTYPE;
+  v_tournament   tournaments%ROWTYPE;
+  v_challenge_id UUID;
+BEGIN
+  SELECT * INTO v_pairing FROM tournament_pairings WHERE id = p_pairing_id FOR UPDATE;
+  SELECT * INTO v_tournament FROM tournaments WHERE id = v_pairing.tournament_id;
+
+  INSERT INTO challenges (challenger_id, wager_amount, target_agent_id, best_of, tournament_id)
+  VALUES (v_pairing.agent1_id, 0, v_pairing.agent2_id, v_tournament.best_of, v_tournament.id)
+  RETURNING id INTO v_challenge_id;
+
+  PERFORM create_match(
+    v_challenge_id,
+    v_pairing.agent2_id,
+    v_tournament.strategy_seconds,
+    v_tournament.commit_seconds
+  );
+
+  UPDATE tournament_pairings
+     SET challenge_id = v_challenge_id,
+         status       = 'playing'
+   WHERE id = p_pairing_id;
+END;
+$$;
+
+
+-- ── start_tournament_round ───────────────────────────────────────────────────
+-- Plays every pending pairing in the round. Byes complete immediately: the
+-- agent advances in an elimination bracket, and sits the round out in a
+-- round robin.
+CREATE OR REPLACE FUNCTION start_tournament_round(p_tournament_id UUID, p_round INTEGER)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_format  TEXT;
+  v_pairing tournament_pairings%ROWTYPE;
+BEGIN
+  SELECT format INTO v_format FROM tournaments WHERE id = p_tournament_id;
+
+  FOR v_pairing IN
+    SELECT * FROM tournament_pairings
+     WHERE tournament_id = p_tournament_id
+       AND round = p_round
+       AND status = 'pending'
+     ORDER BY slot
+  LOOP
+    IF v_pairing.agent2_id IS NULL THEN
+      UPDATE tournament_pairings
+         SET status       = 'complete',
+             winner_id    = CASE WHEN v_format = 'single_elimination' THEN agent1_id END,
+             completed_at = now()
+       WHERE id = v_pairing.id;
+    ELSE
+      PERFORM play_tournament_pairing(v_pairing.id);
+    END IF;
+  END LOOP;
+END;
+$$;
+
+
+-- ── record_tournament_result ─────────────────────────────────────────────────
+-- Called by resolve_match when a tournament series has been settled. Scores
+-- the pairing and, once every pairing in the round is complete, moves the
+-- tournament on: the next round, or the payout.
+CREATE OR REPLACE FUNCTION record_tournament_result(p_match_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_match      matches%ROWTYPE;
+  v_pairing    tournament_pairings%ROWTYPE;
+  v_tournament tournaments%ROWTYPE;
+  v_loser_id   UUID;
+  v_winners    UUID[];
+  v_last_round INTEGER;
+BEGIN
+  SELECT * INTO v_match FROM matches WHERE id = p_match_id;
+
+  SELECT * INTO v_pairing
+    FROM tournament_pairings
+   WHERE challenge_id = v_match.challenge_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_tournament FROM tournaments WHERE id = v_pairing.tournament_id FOR UPDATE;
+
+  -- Somebody has to go through: replay a drawn elimination pairing
+  IF v_tournament.format = 'single_elimination' AND v_match.series_winner_id IS NULL THEN
+    PERFORM play_tournament_pairing(v_pairing.id);
+    RETURN;
+  END IF;
+
+  UPDATE tournament_pairings
+     SET status       = 'complete',
+         winner_id    = v_match.series_winner_id,
+         completed_at = now()
+   WHERE id = v_pairing.id;
+
+  IF v_match.series_winner_id IS NULL THEN
+    UPDATE tournament_entries
+       SET draws  = draws + 1,
+           points = points + 1
+     WHERE tournament_id = v_tournament.id
+       AND agent_id IN (v_pairing.agent1_id, v_pairing.agent2_id);
+  ELSE
+    v_loser_id := CASE v_match.series_winner_id
+      WHEN v_pairing.agent1_id THEN v_pairing.agent2_id
+      ELSE v_pairing.agent1_id
+    END;
+
+    UPDATE tournament_entries
+       SET wins   = wins + 1,
+           points = points + 3
+     WHERE tournament_id = v_tournament.id AND agent_id = v_match.series_winner_id;
+
+    UPDATE tournament_entries
+       SET losses           = losses + 1,
+           eliminated_round = CASE WHEN v_tournament.format = 'single_elimination'
+                                   THEN v_pairing.round END
+     WHERE tournament_id = v_tournament.id AND agent_id = v_loser_id;
+  END IF;
+
+  -- Wait for the rest of the round
+  IF EXISTS (
+    SELECT 1 FROM tournament_pairings
+     WHERE tournament_id = v_tournament.id
+       AND round = v_tournament.current_round
+       AND status <> 'complete'
+  ) THEN
+    RETURN;
+  END IF;
+
+  IF v_tournament.format = 'round_robin' THEN
+    SELECT MAX(round) INTO v_last_round
+      FROM tournament_pairings
+     WHERE tournament_id = v_tournament.id;
+
+    IF v_tournament.current_round >= v_last_round THEN
+      PERFORM finish_tournament(v_tournament.id);
+      RETURN;
+    END IF;
+  ELSE
+    SELECT array_agg(winner_id ORDER BY slot) INTO v_winners
+      FROM tournament_pairings
+     WHERE tournament_id = v_tournament.id
+       AND round = v_tournament.current_round;
+
+    IF cardinality(v_winners) = 1 THEN
+      PERFORM finish_tournament(v_tournament.id);
+      RETURN;
+    END IF;
+
+    -- Winners of neighbouring slots meet in the next round
+    FOR i IN 1 .. cardinality(v_winners) / 2 LOOP
+      INSERT INTO tournament_pairings (tournament_id, round, slot, agent1_id, agent2_id)
+      VALUES (v_tournament.id, v_tournament.current_round + 1, i,
+              v_winners[2 * i - 1], v_winners[2 * i]);
+    END LOOP;
+  END IF;
+
+  UPDATE tournaments
+     SET current_round = current_round + 1
+   WHERE id = v_tournament.id;
+
+  PERFORM start_tournament_round(v_tournament.id, v_tournament.current_round + 1);
+END;
+$$;
+
+
+-- ── finish_tournament ────────────────────────────────────────────────────────
+-- Ranks the field and pays out the prize pool. Shares beyond the number of
+-- entrants are dropped and the rest scaled up to the whole pool; rounding
+-- leftovers go to the winner.
+CREATE OR REPLACE FUNCTION finish_tournament(p_tournament_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_tournament tournaments%ROWTYPE;
+  v_entrants   INTEGER;
+  v_shares     INTEGER[];
+  v_total      INTEGER;
+  v_paid       INTEGER := 0;
+  v_amount     INTEGER;
+  v_entry      tournament_entries%ROWTYPE;
+BEGIN
+  SELECT * INTO v_tournament FROM tournaments WHERE id = p_tournament_id FOR UPDATE;
+
+  WITH ranked AS (
+    SELECT agent_id,
+           ROW_NUMBER() OVER (
+             ORDER BY COALESCE(eliminated_round, 2147483647) DESC,
+                      points DESC,
+                      wins DESC,
+                      seed
+           ) AS final_rank
+      FROM tournament_entries
+     WHERE tournament_id = p_tournament_id
+  )
+  UPDATE tournament_entries e
+     SET final_rank = r.final_rank
+    FROM ranked r
+   WHERE e.tournament_id = p_tournament_id
+     AND e.agent_id = r.agent_id;
+
+  SELECT COUNT(*) INTO v_entrants FROM tournament_entries WHERE tournament_id = p_tournament_id;
+
+  v_shares := v_tournament.payout_split[1:LEAST(cardinality(v_tournament.payout_split), v_entrants)];
+  SELECT SUM(s) INTO v_total FROM unnest(v_shares) AS s;
+
+  -- Lowest paid place first, so the winner's share absorbs the remainder
+  FOR v_entry IN
+    SELECT * FROM tournament_entries
+     WHERE tournament_id = p_tournament_id
+       AND final_rank <= cardinality(v_shares)
+     ORDER BY final_rank DESC
+  LOOP
+    IF v_entry.final_rank = 1 THEN
+      v_amount := v_tournament.prize_pool - v_paid;
+    ELSE
+      v_amount := v_tournament.prize_pool * v_shares[v_entry.final_rank] / v_total;
+    END IF;
+
+    CONTINUE WHEN v_amount <= 0;
+
+    UPDATE agents SET balance = balance + v_amount WHERE id = v_entry.agent_id;
+
+    INSERT INTO transactions (match_id, from_agent_id, to_agent_id, amount, note)
+    VALUES (NULL, NULL, v_entry.agent_id, v_amount,
+            'tournament prize — ' || v_tournament.name || ' (#' || v_entry.final_rank || ')');
+
+    UPDATE tournament_entries
+       SET payout = v_amount
+     WHERE tournament_id = p_tournament_id AND agent_id = v_entry.agent_id;
+
+    v_paid := v_paid + v_amount;
+  END LOOP;
+
+  UPDATE tournaments
+     SET status       = 'complete',
+         completed_at = now()
+   WHERE id = p_tournament_id;
+END;
+$$;
+
+
+-- ── resolve_match: no wager for tournament games; report settled series ─────
+CREATE OR REPLACE FUNCTION resolve_match(
+  p_match_id         UUID,
+  p_agent1_move      TEXT,
+  p_agent2_move      TEXT,
+  p_agent1_fallback  BOOLEAN,
+  p_agent2_fallback  BOOLEAN,
+  p_agent1_new_state JSONB,
+  p_agent2_new_state JSONB,
+  p_agent1_strategy  JSONB DEFAULT NULL,
+  p_agent2_strategy  JSONB DEFAULT NULL
+)
+RETURNS matches
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_match         matches%ROWTYPE;
+  v_winner_id     UUID;
+  v_loser_id      UUID;
+  v_is_draw       BOOLEAN := false;
+  v_result1       TEXT;
+  v_result2       TEXT;
+  v_wins1         INTEGER;
+  v_wins2         INTEGER;
+  v_needed        INTEGER;
+  v_series_over   BOOLEAN;
+  v_series_winner UUID;
+  v_series_loser  UUID;
+  v_strategy1     JSONB;
+  v_strategy2     JSONB;
+  v_strategy_dl   TIMESTAMPTZ;
+  v_tournament_id UUID;
+BEGIN
+  -- Lock match; must not already be complete
+  SELECT * INTO v_match
+    FROM matches
+   WHERE id = p_match_id
+     AND status != 'complete'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Match % is already complete or does not exist', p_match_id;
+  END IF;
+
+  SELECT tournament_id INTO v_tournament_id FROM challenges WHERE id = v_match.challenge_id;
+
+  IF p_agent1_move NOT IN ('rock', 'paper', 'scissors') THEN
+    RAISE EXCEPTION 'Invalid agent1 move: %', p_agent1_move;
+  END IF;
+
+  IF p_agent2_move NOT IN ('rock', 'paper', 'scissors') THEN
+    RAISE EXCEPTION 'Invalid agent2 move: %', p_agent2_move;
+  END IF;
+
+  -- Write final moves and fallback flags onto the match record. A fallback
+  -- move is recorded against the strategy that produced it, which may have
+  -- been changed since the snapshot was taken at match creation.
+  UPDATE matches
+     SET agent1_move         = p_agent1_move,
+         agent2_move         = p_agent2_move,
+         agent1_used_fallback = p_agent1_fallback,
+         agent2_used_fallback = p_agent2_fallback,
+         agent1_strategy     = COALESCE(p_agent1_strategy, agent1_strategy),
+         agent2_strategy     = COALESCE(p_agent2_strategy, agent2_strategy)
+   WHERE id = p_match_id;
+
+  -- Determine round winner
+  IF p_agent1_move = p_agent2_move THEN
+    v_is_draw := true;
+  ELSIF
+    (p_agent1_move = 'rock'     AND p_agent2_move = 'scissors') OR
+    (p_agent1_move = 'paper'    AND p_agent2_move = 'rock')     OR
+    (p_agent1_move = 'scissors' AND p_agent2_move = 'paper')
+  THEN
+    v_winner_id := v_match.agent1_id;
+    v_loser_id  := v_match.agent2_id;
+  ELSE
+    v_winner_id := v_match.agent2_id;
+    v_loser_id  := v_match.agent1_id;
+  END IF;
+
+  -- Series score including this round
+  SELECT COUNT(*) FILTER (WHERE winner_id = v_match.agent1_id),
+         COUNT(*) FILTER (WHERE winner_id = v_match.agent2_id)
+    INTO v_wins1, v_wins2
+    FROM matches
+   WHERE challenge_id = v_match.challenge_id
+     AND status = 'complete';
+
+  IF v_winner_id = v_match.agent1_id THEN v_wins1 := v_wins1 + 1; END IF;
+  IF v_winner_id = v_match.agent2_id THEN v_wins2 := v_wins2 + 1; END IF;
+
+  v_needed := v_match.best_of / 2 + 1;
+
+  IF v_wins1 >= v_needed THEN
+    v_series_over := true;
+    v_series_winner := v_match.agent1_id;
+  ELSIF v_wins2 >= v_needed THEN
+    v_series_over := true;
+    v_series_winner := v_match.agent2_id;
+  ELSIF v_match.best_of = 1 OR v_match.round >= v_match.best_of * 3 THEN
+    -- A drawn single game, or a series out of rounds: the leader takes it.
+    v_series_over := true;
+    v_series_winner := CASE
+      WHEN v_wins1 > v_wins2 THEN v_match.agent1_id
+      WHEN v_wins2 > v_wins1 THEN v_match.agent2_id
+    END;
+  ELSE
+    v_series_over := false;
+  END IF;
+
+  v_series_loser := CASE v_series_winner
+    WHEN v_match.agent1_id THEN v_match.agent2_id
+    WHEN v_match.agent2_id THEN v_match.agent1_id
+  END;
+
+  -- Transfer chips and update records — once per series. Tournament games
+  -- have no wager: the prize pool is paid out when the tournament finishes.
+  IF v_series_over AND v_tournament_id IS NULL THEN
+    IF v_series_winner IS NULL THEN
+      UPDATE agents SET balance = balance + v_match.wager_amount
+        WHERE id IN (v_match.agent1_id, v_match.agent2_id);
+
+      INSERT INTO transactions (match_id, from_agent_id, to_agent_id, amount, note) VALUES
+        (p_match_id, NULL, v_match.agent1_id, v_match.wager_amount, 'draw — wager returned'),
+        (p_match_id, NULL, v_match.agent2_id, v_match.wager_amount, 'draw — wager returned');
+    ELSE
+      -- Winner receives both escrowed wagers
+      UPDATE agents SET balance = balance + (v_match.wager_amount * 2)
+        WHERE id = v_series_winner;
+
+      INSERT INTO transactions (match_id, from_agent_id, to_agent_id, amount, note)
+        VALUES (p_match_id, v_series_loser, v_series_winner, v_match.wager_amount * 2,
+                CASE WHEN v_match.best_of = 1 THEN 'match winnings' ELSE 'series winnings' END);
+    END IF;
+  END IF;
+
+  IF v_series_over AND v_series_winner IS NULL THEN
+    UPDATE agents SET draws = draws + 1
+      WHERE id IN (v_match.agent1_id, v_match.agent2_id);
+  ELSIF v_series_over THEN
+    UPDATE agents SET wins   = wins   + 1 WHERE id = v_series_winner;
+    UPDATE agents SET losses = losses + 1 WHERE id = v_series_loser;
+  END IF;
+
+  -- Mark round complete
+  UPDATE matches
+     SET status             = 'complete',
+         winner_id          = v_winner_id,
+         completed_at       = now(),
+         agent1_series_wins = v_wins1,
+         agent2_series_wins = v_wins2,
+         series_settled     = v_series_over,
+         series_winner_id   = v_series_winner
+   WHERE id = p_match_id;
+
+  -- Advance strategy states for both agents, recording the round outcome
+  v_result1 := CASE WHEN v_is_draw THEN 'draw'
+                    WHEN v_winner_id = v_match.agent1_id THEN 'win'
+                    ELSE 'loss' END;
+  v_result2 := CASE WHEN v_is_draw THEN 'draw'
+                    WHEN v_winner_id = v_match.agent2_id THEN 'win'
+                    ELSE 'loss' END;
+
+  UPDATE agents
+     SET strategy_state = record_match_outcome(
+           strategy_state, p_agent1_new_state, v_result1, p_agent1_move, p_agent2_move)
+   WHERE id = v_match.agent1_id;
+  UPDATE agents
+     SET strategy_state = record_match_outcome(
+           strategy_state, p_agent2_new_state, v_result2, p_agent2_move, p_agent1_move)
+   WHERE id = v_match.agent2_id;
+
+  -- Next round: same timings as this one, fresh strategy snapshots
+  IF NOT v_series_over THEN
+    PERFORM 1 FROM agents WHERE id IN (v_match.agent1_id, v_match.agent2_id) FOR UPDATE;
+    PERFORM apply_strategy_schedules(v_match.agent1_id);
+    PERFORM apply_strategy_schedules(v_match.agent2_id);
+
+    SELECT strategy INTO v_strategy1 FROM agents WHERE id = v_match.agent1_id;
+    SELECT strategy INTO v_strategy2 FROM agents WHERE id = v_match.agent2_id;
+
+    v_strategy_dl := now() + COALESCE(v_match.strategy_deadline - v_match.created_at,
+                                      INTERVAL '60 seconds');
+
+    INSERT INTO matches (
+      challenge_id, agent1_id, agent2_id, wager_amount,
+      strategy_deadline, commit_deadline,
+      agent1_strategy, agent2_strategy,
+      phase, best_of, round,
+      agent1_series_wins, agent2_series_wins
+    )
+    VALUES (
+      v_match.challenge_id,
+      v_match.agent1_id,
+      v_match.agent2_id,
+      v_match.wager_amount,
+      v_strategy_dl,
+      v_strategy_dl + COALESCE(v_match.commit_deadline - v_match.strategy_deadline,
+                               INTERVAL '60 seconds'),
+      v_strategy1,
+      v_strategy2,
+      'strategy',
+      v_match.best_of,
+      v_match.round + 1,
+      v_wins1,
+      v_wins2
+    );
+  END IF;
+
+  -- Score the pairing; may start the next tournament round or pay out
+  IF v_series_over AND v_tournament_id IS NOT NULL THEN
+    PERFORM record_tournament_result(p_match_id);
+  END IF;
+
+  SELECT * INTO v_match FROM matches WHERE id = p_match_id;
+  RETURN v_match;
+END;
+$$;
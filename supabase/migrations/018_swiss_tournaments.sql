@@ -0,0 +1,470 @@
+-- =============================================================================
+-- Migration 018: Swiss tournaments
+-- =============================================================================
+-- A third tournament format. Every round pairs agents on similar scores who
+-- have not met yet; an odd field gives one agent a bye, worth a win. After
+-- swiss_rounds rounds (default ceil(log2(entrants)), never more than
+-- entrants - 1) the field is ranked by points, then Buchholz, then the
+-- results between the tied agents.
+--
+-- Unlike brackets, a Swiss round can only be paired once the previous one is
+-- finished, and the pairing rules live in a pure TypeScript module
+-- (supabase/functions/_shared/swiss.ts). So the database only flags the
+-- tournament as pairing_due; the process-tournaments cron computes the next
+-- round and hands it back through start_swiss_round — or, after the last
+-- round, the final ranking through finish_tournament.
+-- =============================================================================
+
+ALTER TABLE tournaments DROP CONSTRAINT IF EXISTS tournaments_format_check;
+ALTER TABLE tournaments
+  ADD CONSTRAINT tournaments_format_check
+  CHECK (format IN ('round_robin', 'single_elimination', 'swiss'));
+
+ALTER TABLE tournaments
+  ADD COLUMN IF NOT EXISTS swiss_rounds INTEGER CHECK (swiss_rounds > 0),
+  ADD COLUMN IF NOT EXISTS pairing_due  BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_tournaments_pairing_due
+  ON tournaments (id)
+  WHERE pairing_due;
+
+
+-- ── start_swiss_round ────────────────────────────────────────────────────────
+-- Takes the cron's pairings for the next round:
+--   [{ "agent1_id": "…", "agent2_id": "…" | null }, …]
+-- p_round guards against two cron runs pairing the same round.
+CREATE OR REPLACE FUNCTION start_swiss_round(
+  p_tournament_id UUID,
+  p_round         INTEGER,
+  p_pairings      JSONB
+)
+RETURNS tournaments
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_tournament tournaments%ROWTYPE;
+  v_pairing    JSONB;
+  v_slot       INTEGER := 0;
+BEGIN
+  SELECT * INTO v_tournament
+    FROM tournaments
+   WHERE id = p_tournament_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_tournament.format <> 'swiss' OR v_tournament.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'Tournament % is not a Swiss tournament in progress', p_tournament_id;
+  END IF;
+
+  IF NOT v_tournament.pairing_due OR p_round <> v_tournament.current_round + 1 THEN
+    RAISE EXCEPTION 'Round % of tournament % is not due for pairing', p_round, p_tournament_id;
+  END IF;
+
+  -- Every entrant exactly once
+  IF (
+    SELECT array_agg(id ORDER BY id) FROM (
+      SELECT (p->>'agent1_id')::UUID AS id FROM jsonb_array_elements(p_pairings) p
+      UNION ALL
+      SELECT (p->>'agent2_id')::UUID FROM jsonb_array_elements(p_pairings) p
+       WHERE p->>'agent2_id' IS NOT NULL
+    ) ids
+  ) IS DISTINCT FROM (
+    SELECT array_agg(agent_id ORDER BY agent_id)
+      FROM tournament_entries
+     WHERE tournament_id = p_tournament_id
+  ) THEN
+    RAISE EXCEPTION 'Pairings for round % must include every entrant exactly once', p_round;
+  END IF;
+
+  FOR v_pairing IN SELECT * FROM jsonb_array_elements(p_pairings) LOOP
+    v_slot := v_slot + 1;
+    INSERT INTO tournament_pairings (tournament_id, round, slot, agent1_id, agent2_id)
+    VALUES (p_tournament_id, p_round, v_slot,
+            (v_pairing->>'agent1_id')::UUID, (v_pairing->>'agent2_id')::UUID);
+  END LOOP;
+
+  UPDATE tournaments
+     SET current_round = p_round,
+         pairing_due   = false
+   WHERE id = p_tournament_id;
+
+  PERFORM start_tournament_round(p_tournament_id, p_round);
+
+  SELECT * INTO v_tournament FROM tournaments WHERE id = p_tournament_id;
+  RETURN v_tournament;
+END;
+$$;
+
+
+-- ── start_tournament: Swiss rounds are paired by the cron ───────────────────
+-- Seeds the field by win percentage (join order breaks ties), generates the
+-- schedule and plays round 1. Fewer than two entrants cancels instead.
+-- A Swiss tournament is only flagged for pairing; the cron pairs round 1.
+CREATE OR REPLACE FUNCTION start_tournament(p_tournament_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_tournament tournaments%ROWTYPE;
+  v_players    UUID[];
+  v_n          INTEGER;
+  v_size       INTEGER;
+  v_a          UUID;
+  v_b          UUID;
+BEGIN
+  SELECT * INTO v_tournament
+    FROM tournaments
+   WHERE id = p_tournament_id AND status = 'registration'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  WITH seeded AS (
+    SELECT e.agent_id,
+           ROW_NUMBER() OVER (
+             ORDER BY CASE WHEN a.wins + a.losses + a.draws = 0 THEN 0
+                           ELSE a.wins::NUMERIC / (a.wins + a.losses + a.draws) END DESC,
+                      e.joined_at
+           ) AS seed
+      FROM tournament_entries e
+      JOIN agents a ON a.id = e.agent_id
+     WHERE e.tournament_id = p_tournament_id
+  )
+  UPDATE tournament_entries e
+     SET seed = s.seed
+    FROM seeded s
+   WHERE e.tournament_id = p_tournament_id
+     AND e.agent_id = s.agent_id;
+
+  SELECT array_agg(agent_id ORDER BY seed) INTO v_players
+    FROM tournament_entries
+   WHERE tournament_id = p_tournament_id;
+
+  v_n := COALESCE(cardinality(v_players), 0);
+
+  IF v_n < 2 THEN
+    PERFORM cancel_tournament(p_tournament_id);
+    RETURN;
+  END IF;
+
+  IF v_tournament.format = 'swiss' THEN
+    UPDATE tournaments
+       SET status       = 'in_progress',
+           started_at   = now(),
+           pairing_due  = true,
+           swiss_rounds = LEAST(
+             COALESCE(swiss_rounds, CEIL(LOG(2, v_n::NUMERIC))::INTEGER),
+             v_n - 1
+           )
+     WHERE id = p_tournament_id;
+    RETURN;
+  END IF;
+
+  IF v_tournament.format = 'round_robin' THEN
+    -- Circle method: fix the first player, rotate the rest. A NULL seat is
+    -- the bye for an odd field.
+    IF v_n % 2 = 1 THEN
+      v_players := v_players || NULL::UUID;
+      v_n := v_n + 1;
+    END IF;
+
+    FOR r IN 1 .. v_n - 1 LOOP
+      FOR i IN 1 .. v_n / 2 LOOP
+        v_a := v_players[i];
+        v_b := v_players[v_n + 1 - i];
+        IF v_a IS NULL THEN
+          v_a := v_b;
+          v_b := NULL;
+        END IF;
+
+        INSERT INTO tournament_pairings (tournament_id, round, slot, agent1_id, agent2_id)
+        VALUES (p_tournament_id, r, i, v_a, v_b);
+      END LOOP;
+
+      v_players := v_players[1:1] || v_players[v_n:v_n] || v_players[2:v_n - 1];
+    END LOOP;
+  ELSE
+    -- Bracket of the next power of two; seed i meets seed size + 1 - i, and
+    -- seeds past the field are byes.
+    v_size := 1;
+    WHILE v_size < v_n LOOP
+      v_size := v_size * 2;
+    END LOOP;
+
+    FOR i IN 1 .. v_size / 2 LOOP
+      INSERT INTO tournament_pairings (tournament_id, round, slot, agent1_id, agent2_id)
+      VALUES (p_tournament_id, 1, i, v_players[i], v_players[v_size + 1 - i]);
+    END LOOP;
+  END IF;
+
+  UPDATE tournaments
+     SET status        = 'in_progress',
+         current_round = 1,
+         started_at    = now()
+   WHERE id = p_tournament_id;
+
+  PERFORM start_tournament_round(p_tournament_id, 1);
+END;
+$$;
+
+
+-- ── start_tournament_round: a Swiss bye scores as a win ─────────────────────
+-- Plays every pending pairing in the round. Byes complete immediately: the
+-- agent advances in an elimination bracket, scores a win in a Swiss round,
+-- and sits the round out in a round robin.
+CREATE OR REPLACE FUNCTION start_tournament_round(p_tournament_id UUID, p_round INTEGER)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_format  TEXT;
+  v_pairing tournament_pairings%ROWTYPE;
+BEGIN
+  SELECT format INTO v_format FROM tournaments WHERE id = p_tournament_id;
+
+  FOR v_pairing IN
+    SELECT * FROM tournament_pairings
+     WHERE tournament_id = p_tournament_id
+       AND round = p_round
+       AND status = 'pending'
+     ORDER BY slot
+  LOOP
+    IF v_pairing.agent2_id IS NULL THEN
+      UPDATE tournament_pairings
+         SET status       = 'complete',
+             winner_id    = CASE WHEN v_format IN ('single_elimination', 'swiss') THEN agent1_id END,
+             completed_at = now()
+       WHERE id = v_pairing.id;
+
+      IF v_format = 'swiss' THEN
+        UPDATE tournament_entries
+           SET wins   = wins + 1,
+               points = points + 3
+         WHERE tournament_id = p_tournament_id AND agent_id = v_pairing.agent1_id;
+      END IF;
+    ELSE
+      PERFORM play_tournament_pairing(v_pairing.id);
+    END IF;
+  END LOOP;
+END;
+$$;
+
+
+-- ── record_tournament_result: hand finished Swiss rounds to the cron ────────
+-- Called by resolve_match when a tournament series has been settled. Scores
+-- the pairing and, once every pairing in the round is complete, moves the
+-- tournament on: the next round, or the payout. A finished Swiss round is
+-- flagged for the cron instead.
+CREATE OR REPLACE FUNCTION record_tournament_result(p_match_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_match      matches%ROWTYPE;
+  v_pairing    tournament_pairings%ROWTYPE;
+  v_tournament tournaments%ROWTYPE;
+  v_loser_id   UUID;
+  v_winners    UUID[];
+  v_last_round INTEGER;
+BEGIN
+  SELECT * INTO v_match FROM matches WHERE id = p_match_id;
+
+  SELECT * INTO v_pairing
+    FROM tournament_pairings
+   WHERE challenge_id = v_match.challenge_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_tournament FROM tournaments WHERE id = v_pairing.tournament_id FOR UPDATE;
+
+  -- Somebody has to go through: replay a drawn elimination pairing
+  IF v_tournament.format = 'single_elimination' AND v_match.series_winner_id IS NULL THEN
+    PERFORM play_tournament_pairing(v_pairing.id);
+    RETURN;
+  END IF;
+
+  UPDATE tournament_pairings
+     SET status       = 'complete',
+         winner_id    = v_match.series_winner_id,
+         completed_at = now()
+   WHERE id = v_pairing.id;
+
+  IF v_match.series_winner_id IS NULL THEN
+    UPDATE tournament_entries
+       SET draws  = draws + 1,
+           points = points + 1
+     WHERE tournament_id = v_tournament.id
+       AND agent_id IN (v_pairing.agent1_id, v_pairing.agent2_id);
+  ELSE
+    v_loser_id := CASE v_match.series_winner_id
+      WHEN v_pairing.agent1_id THEN v_pairing.agent2_id
+      ELSE v_pairing.agent1_id
+    END;
+
+    UPDATE tournament_entries
+       SET wins   = wins + 1,
+           points = points + 3
+     WHERE tournament_id = v_tournament.id AND agent_id = v_match.series_winner_id;
+
+    UPDATE tournament_entries
+       SET losses           = losses + 1,
+           eliminated_round = CASE WHEN v_tournament.format = 'single_elimination'
+                                   THEN v_pairing.round END
+     WHERE tournament_id = v_tournament.id AND agent_id = v_loser_id;
+  END IF;
+
+  -- Wait for the rest of the round
+  IF EXISTS (
+    SELECT 1 FROM tournament_pairings
+     WHERE tournament_id = v_tournament.id
+       AND round = v_tournament.current_round
+       AND status <> 'complete'
+  ) THEN
+    RETURN;
+  END IF;
+
+  IF v_tournament.format = 'swiss' THEN
+    UPDATE tournaments SET pairing_due = true WHERE id = v_tournament.id;
+    RETURN;
+  END IF;
+
+  IF v_tournament.format = 'round_robin' THEN
+    SELECT MAX(round) INTO v_last_round
+      FROM tournament_pairings
+     WHERE tournament_id = v_tournament.id;
+
+    IF v_tournament.current_round >= v_last_round THEN
+      PERFORM finish_tournament(v_tournament.id);
+      RETURN;
+    END IF;
+  ELSE
+    SELECT array_agg(winner_id ORDER BY slot) INTO v_winners
+      FROM tournament_pairings
+     WHERE tournament_id = v_tournament.id
+       AND round = v_tournament.current_round;
+
+    IF cardinality(v_winners) = 1 THEN
+      PERFORM finish_tournament(v_tournament.id);
+      RETURN;
+    END IF;
+
+    -- Winners of neighbouring slots meet in the next round
+    FOR i IN 1 .. cardinality(v_winners) / 2 LOOP
+      INSERT INTO tournament_pairings (tournament_id, round, slot, agent1_id, agent2_id)
+      VALUES (v_tournament.id, v_tournament.current_round + 1, i,
+              v_winners[2 * i - 1], v_winners[2 * i]);
+    END LOOP;
+  END IF;
+
+  UPDATE tournaments
+     SET current_round = current_round + 1
+   WHERE id = v_tournament.id;
+
+  PERFORM start_tournament_round(v_tournament.id, v_tournament.current_round + 1);
+END;
+$$;
+
+
+-- ── finish_tournament: accept a ranking computed outside the database ──────
+-- Ranks the field and pays out the prize pool. Shares beyond the number of
+-- entrants are dropped and the rest scaled up to the whole pool; rounding
+-- leftovers go to the winner.
+--
+-- p_ranking, when given, is every entrant's agent_id best first — the Swiss
+-- standings from the cron.
+DROP FUNCTION IF EXISTS finish_tournament(UUID);
+
+CREATE OR REPLACE FUNCTION finish_tournament(
+  p_tournament_id UUID,
+  p_ranking       UUID[] DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_tournament tournaments%ROWTYPE;
+  v_entrants   INTEGER;
+  v_shares     INTEGER[];
+  v_total      INTEGER;
+  v_paid       INTEGER := 0;
+  v_amount     INTEGER;
+  v_entry      tournament_entries%ROWTYPE;
+BEGIN
+  SELECT * INTO v_tournament FROM tournaments WHERE id = p_tournament_id FOR UPDATE;
+
+  IF v_tournament.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'Tournament % is not in progress', p_tournament_id;
+  END IF;
+
+  IF p_ranking IS NOT NULL AND (
+    SELECT array_agg(id ORDER BY id) FROM unnest(p_ranking) AS id
+  ) IS DISTINCT FROM (
+    SELECT array_agg(agent_id ORDER BY agent_id)
+      FROM tournament_entries
+     WHERE tournament_id = p_tournament_id
+  ) THEN
+    RAISE EXCEPTION 'The ranking must include every entrant exactly once';
+  END IF;
+
+  WITH ranked AS (
+    SELECT agent_id,
+           CASE WHEN p_ranking IS NOT NULL THEN array_position(p_ranking, agent_id)
+           ELSE ROW_NUMBER() OVER (
+             ORDER BY COALESCE(eliminated_round, 2147483647) DESC,
+                      points DESC,
+                      wins DESC,
+                      seed
+           ) END AS final_rank
+      FROM tournament_entries
+     WHERE tournament_id = p_tournament_id
+  )
+  UPDATE tournament_entries e
+     SET final_rank = r.final_rank
+    FROM ranked r
+   WHERE e.tournament_id = p_tournament_id
+     AND e.agent_id = r.agent_id;
+
+  SELECT COUNT(*) INTO v_entrants FROM tournament_entries WHERE tournament_id = p_tournament_id;
+
+  v_shares := v_tournament.payout_split[1:LEAST(cardinality(v_tournament.payout_split), v_entrants)];
+  SELECT SUM(s) INTO v_total FROM unnest(v_shares) AS s;
+
+  -- Lowest paid place first, so the winner's share absorbs the remainder
+  FOR v_entry IN
+    SELECT * FROM tournament_entries
+     WHERE tournament_id = p_tournament_id
+       AND final_rank <= cardinality(v_shares)
+     ORDER BY final_rank DESC
+  LOOP
+    IF v_entry.final_rank = 1 THEN
+      v_amount := v_tournament.prize_pool - v_paid;
+    ELSE
+      v_amount := v_tournament.prize_pool * v_shares[v_entry.final_rank] / v_total;
+    END IF;
+
+    CONTINUE WHEN v_amount <= 0;
+
+    UPDATE agents SET balance = balance + v_amount WHERE id = v_entry.agent_id;
+
+    INSERT INTO transactions (match_id, from_agent_id, to_agent_id, amount, note)
+    VALUES (NULL, NULL, v_entry.agent_id, v_amount,
+            'tournament prize — ' || v_tournament.name || ' (#' || v_entry.final_rank || ')');
+
+    UPDATE tournament_entries
+       SET payout = v_amount
+     WHERE tournament_id = p_tournament_id AND agent_id = v_entry.agent_id;
+
+    v_paid := v_paid + v_amount;
+  END LOOP;
+
+  UPDATE tournaments
+     SET status       = 'complete',
+         pairing_due  = false,
+         completed_at = now()
+   WHERE id = p_tournament_id;
+END;
+$$;
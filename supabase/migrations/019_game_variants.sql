@@ -0,0 +1,620 @@
+-- =============================================================================
+-- Migration 019: Game variants
+-- =============================================================================
+-- Which moves exist and which move beats which now live in a rule table
+-- instead of being spelled out in CHECK constraints, submit_reveal and
+-- resolve_match:
+--
+--   game_variants  one row per variant
+--   game_moves     the moves of each variant
+--   game_rules     (variant, winner, loser): winner beats loser
+--
+-- Two variants to start with:
+--
+--   classic  rock-paper-scissors, the default
+--   rpsls    rock-paper-scissors-lizard-spock: each move beats two others
+--            and loses to the remaining two
+--
+-- The challenger picks the variant; matches copy it from their challenge.
+-- Moves on a match must belong to its variant, enforced by foreign keys
+-- into game_moves in place of the old valid_agent*_move CHECKs.
+--
+-- The Edge Functions carry the same table as GAME_RULES in _shared/auth.ts.
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS game_variants (
+  id   TEXT PRIMARY KEY,
+  name TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS game_moves (
+  variant TEXT NOT NULL REFERENCES game_variants(id),
+  move    TEXT NOT NULL,
+
+  PRIMARY KEY (variant, move)
+);
+
+CREATE TABLE IF NOT EXISTS game_rules (
+  variant TEXT NOT NULL,
+  winner  TEXT NOT NULL,
+  loser   TEXT NOT NULL,
+  verb    TEXT NOT NULL,   -- "rock crushes scissors"
+
+  PRIMARY KEY (variant, winner, loser),
+  FOREIGN KEY (variant, winner) REFERENCES game_moves (variant, move),
+  FOREIGN KEY (variant, loser)  REFERENCES game_moves (variant, move),
+  CONSTRAINT game_rules_not_self CHECK (winner <> loser)
+);
+
+INSERT INTO game_variants (id, name) VALUES
+  ('classic', 'Rock Paper Scissors'),
+  ('rpsls',   'Rock Paper Scissors Lizard Spock')
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO game_moves (variant, move) VALUES
+  ('classic', 'rock'), ('classic', 'paper'), ('classic', 'scissors'),
+  ('rpsls', 'rock'), ('rpsls', 'paper'), ('rpsls', 'scissors'),
+  ('rpsls', 'lizard'), ('rpsls', 'spock')
+ON CONFLICT DO NOTHING;
+
+INSERT INTO game_rules (variant, winner, loser, verb) VALUES
+  ('classic', 'rock',     'scissors', 'crushes'),
+  ('classic', 'paper',    'rock',     'covers'),
+  ('classic', 'scissors', 'paper',    'cuts'),
+
+  ('rpsls',   'rock',     'scissors', 'crushes'),
+  ('rpsls',   'rock',     'lizard',   'crushes'),
+  ('rpsls',   'paper',    'rock',     'covers'),
+  ('rpsls',   'paper',    'spock',    'disproves'),
+  ('rpsls',   'scissors', 'paper',    'cuts'),
+  ('rpsls',   'scissors', 'lizard',   'decapitates'),
+  ('rpsls',   'lizard',   'paper',    'eats'),
+  ('rpsls',   'lizard',   'spock',    'poisons'),
+  ('rpsls',   'spock',    'rock',     'vaporizes'),
+  ('rpsls',   'spock',    'scissors', 'smashes')
+ON CONFLICT DO NOTHING;
+
+-- The rules are public.
+ALTER TABLE game_variants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE game_moves    ENABLE ROW LEVEL SECURITY;
+ALTER TABLE game_rules    ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "game_variants_public_read" ON game_variants;
+CREATE POLICY "game_variants_public_read"
+  ON game_variants FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "game_moves_public_read" ON game_moves;
+CREATE POLICY "game_moves_public_read"
+  ON game_moves FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "game_rules_public_read" ON game_rules;
+CREATE POLICY "game_rules_public_read"
+  ON game_rules FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+
+-- ── Variant on challenges and matches ───────────────────────────────────────
+
+ALTER TABLE challenges
+  ADD COLUMN IF NOT EXISTS variant TEXT NOT NULL DEFAULT 'classic'
+    REFERENCES game_variants(id);
+
+ALTER TABLE matches
+  ADD COLUMN IF NOT EXISTS variant TEXT NOT NULL DEFAULT 'classic'
+    REFERENCES game_variants(id);
+
+-- A NULL move (not yet revealed) skips the check, as before.
+ALTER TABLE matches DROP CONSTRAINT IF EXISTS valid_agent1_move;
+ALTER TABLE matches DROP CONSTRAINT IF EXISTS valid_agent2_move;
+
+ALTER TABLE matches
+  ADD CONSTRAINT valid_agent1_move
+  FOREIGN KEY (variant, agent1_move) REFERENCES game_moves (variant, move);
+
+ALTER TABLE matches
+  ADD CONSTRAINT valid_agent2_move
+  FOREIGN KEY (variant, agent2_move) REFERENCES game_moves (variant, move);
+
+
+-- ── Views: expose the variant ────────────────────────────────────────────────
+
+CREATE OR REPLACE VIEW open_challenges AS
+  SELECT
+    c.id,
+    c.wager_amount,
+    c.created_at,
+    a.id      AS challenger_id,
+    a.name    AS challenger_name,
+    a.wins,
+    a.losses,
+    a.draws,
+    a.balance AS challenger_balance,
+    c.best_of,
+    c.expires_at,
+    c.min_win_pct,
+    c.max_win_pct,
+    c.min_games,
+    c.excluded_agent_ids,
+    c.strategy_family,
+    c.variant
+  FROM challenges c
+  JOIN agents a ON a.id = c.challenger_id
+  WHERE c.status = 'open'
+    AND c.target_agent_id IS NULL
+    AND (c.expires_at IS NULL OR c.expires_at > now())
+  ORDER BY c.created_at DESC;
+
+CREATE OR REPLACE VIEW match_feed AS
+  SELECT
+    m.id,
+    m.wager_amount,
+    m.agent1_move,
+    m.agent2_move,
+    m.agent1_used_fallback,
+    m.agent2_used_fallback,
+    m.created_at,
+    m.completed_at,
+    a1.id    AS agent1_id,
+    a1.name  AS agent1_name,
+    a2.id    AS agent2_id,
+    a2.name  AS agent2_name,
+    w.id     AS winner_id,
+    w.name   AS winner_name,
+    m.challenge_id,
+    m.best_of,
+    m.round,
+    m.agent1_series_wins,
+    m.agent2_series_wins,
+    m.series_settled,
+    sw.name  AS series_winner_name,
+    m.variant
+  FROM matches m
+  JOIN agents a1 ON a1.id = m.agent1_id
+  JOIN agents a2 ON a2.id = m.agent2_id
+  LEFT JOIN agents w  ON w.id  = m.winner_id
+  LEFT JOIN agents sw ON sw.id = m.series_winner_id
+  WHERE m.status = 'complete'
+  ORDER BY m.completed_at DESC;
+
+CREATE OR REPLACE VIEW stale_matches AS
+  SELECT id, status, agent1_id, agent2_id,
+         agent1_move_hash, agent2_move_hash,
+         agent1_move, agent2_move,
+         commit_deadline, reveal_deadline,
+         wager_amount,
+         server_seed,
+         best_of,
+         round,
+         variant
+    FROM matches
+   WHERE (status = 'pending'          AND now() > commit_deadline)
+      OR (status = 'waiting_reveals'  AND now() > reveal_deadline);
+
+
+-- ── submit_reveal: moves come from the match's variant ──────────────────────
+CREATE OR REPLACE FUNCTION submit_reveal(
+  p_match_id UUID,
+  p_agent_id UUID,
+  p_move     TEXT,
+  p_salt     TEXT
+)
+RETURNS matches
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_match        matches%ROWTYPE;
+  v_expected_hash TEXT;
+  v_stored_hash   TEXT;
+BEGIN
+  SELECT * INTO v_match
+    FROM matches
+   WHERE id = p_match_id AND status = 'waiting_reveals'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Match % is not in waiting_reveals state or does not exist', p_match_id;
+  END IF;
+
+  IF now() > v_match.reveal_deadline THEN
+    RAISE EXCEPTION 'Reveal deadline has passed for match %', p_match_id;
+  END IF;
+
+  IF p_agent_id NOT IN (v_match.agent1_id, v_match.agent2_id) THEN
+    RAISE EXCEPTION 'Agent % is not a participant in match %', p_agent_id, p_match_id;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM game_moves WHERE variant = v_match.variant AND move = p_move) THEN
+    RAISE EXCEPTION 'Invalid move for %: %', v_match.variant, p_move;
+  END IF;
+
+  -- Verify hash: sha256(move || salt) must match what was committed
+  v_expected_hash := encode(
+    extensions.digest(p_move || p_salt, 'sha256'),
+    'hex'
+  );
+
+  IF p_agent_id = v_match.agent1_id THEN
+    IF v_match.agent1_move IS NOT NULL THEN
+      RAISE EXCEPTION 'Agent1 has already revealed for match %', p_match_id;
+    END IF;
+    v_stored_hash := v_match.agent1_move_hash;
+    IF v_expected_hash != v_stored_hash THEN
+      RAISE EXCEPTION 'Hash mismatch for agent1 in match % — submitted move/salt does not match commit', p_match_id;
+    END IF;
+    UPDATE matches SET agent1_move = p_move, agent1_salt = p_salt WHERE id = p_match_id;
+  ELSE
+    IF v_match.agent2_move IS NOT NULL THEN
+      RAISE EXCEPTION 'Agent2 has already revealed for match %', p_match_id;
+    END IF;
+    v_stored_hash := v_match.agent2_move_hash;
+    IF v_expected_hash != v_stored_hash THEN
+      RAISE EXCEPTION 'Hash mismatch for agent2 in match % — submitted move/salt does not match commit', p_match_id;
+    END IF;
+    UPDATE matches SET agent2_move = p_move, agent2_salt = p_salt WHERE id = p_match_id;
+  END IF;
+
+  SELECT * INTO v_match FROM matches WHERE id = p_match_id;
+  RETURN v_match;
+
+  -- Note: resolution is NOT triggered here. The Edge Function inspects the
+  -- returned match; if both agent1_move and agent2_move are set it calls
+  -- resolve_match(). This keeps resolution logic in one place.
+END;
+$$;
+
+
+-- ── create_match: the match plays the challenge's variant ──────────────────
+CREATE OR REPLACE FUNCTION create_match(
+  p_challenge_id     UUID,
+  p_accepter_id      UUID,
+  p_strategy_seconds INTEGER DEFAULT 60,
+  p_commit_seconds   INTEGER DEFAULT 60
+)
+RETURNS matches
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_challenge   challenges%ROWTYPE;
+  v_challenger  agents%ROWTYPE;
+  v_accepter    agents%ROWTYPE;
+  v_match       matches%ROWTYPE;
+  v_strategy_dl TIMESTAMPTZ;
+  v_games       INTEGER;
+  v_win_pct     NUMERIC;
+BEGIN
+  -- Lock and validate the challenge
+  SELECT * INTO v_challenge
+    FROM challenges
+   WHERE id = p_challenge_id AND status = 'open'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Challenge % is not open or does not exist', p_challenge_id;
+  END IF;
+
+  -- The cron may not have swept it yet
+  IF v_challenge.expires_at IS NOT NULL AND v_challenge.expires_at <= now() THEN
+    RAISE EXCEPTION 'Challenge % has expired', p_challenge_id;
+  END IF;
+
+  IF v_challenge.challenger_id = p_accepter_id THEN
+    RAISE EXCEPTION 'An agent cannot accept their own challenge';
+  END IF;
+
+  IF v_challenge.target_agent_id IS NOT NULL AND v_challenge.target_agent_id <> p_accepter_id THEN
+    RAISE EXCEPTION 'Challenge % is addressed to another agent', p_challenge_id;
+  END IF;
+
+  -- Lock both agents
+  SELECT * INTO v_challenger FROM agents WHERE id = v_challenge.challenger_id FOR UPDATE;
+  SELECT * INTO v_accepter   FROM agents WHERE id = p_accepter_id             FOR UPDATE;
+
+  IF v_accepter.balance < v_challenge.wager_amount THEN
+    RAISE EXCEPTION 'Accepter has insufficient balance (has %, needs %)',
+      v_accepter.balance, v_challenge.wager_amount;
+  END IF;
+
+  -- Bring both strategies up to date with any scheduled changes, then re-read
+  -- them so the snapshot below is what each agent is actually playing.
+  PERFORM apply_strategy_schedules(v_challenge.challenger_id);
+  PERFORM apply_strategy_schedules(p_accepter_id);
+
+  SELECT * INTO v_challenger FROM agents WHERE id = v_challenge.challenger_id;
+  SELECT * INTO v_accepter   FROM agents WHERE id = p_accepter_id;
+
+  -- Acceptance constraints, checked against the strategy about to be
+  -- snapshotted. Win % is computed as in the leaderboard view.
+  v_games   := v_accepter.wins + v_accepter.losses + v_accepter.draws;
+  v_win_pct := CASE WHEN v_games = 0 THEN 0
+                    ELSE ROUND(v_accepter.wins::NUMERIC / v_games * 100, 1) END;
+
+  IF p_accepter_id = ANY (v_challenge.excluded_agent_ids) THEN
+    RAISE EXCEPTION 'Challenge % excludes you', p_challenge_id;
+  END IF;
+
+  IF v_challenge.min_games IS NOT NULL AND v_games < v_challenge.min_games THEN
+    RAISE EXCEPTION 'Challenge % requires at least % games played (you have %)',
+      p_challenge_id, v_challenge.min_games, v_games;
+  END IF;
+
+  IF v_challenge.min_win_pct IS NOT NULL AND v_win_pct < v_challenge.min_win_pct THEN
+    RAISE EXCEPTION 'Challenge % requires a win percentage of at least % (you have %)',
+      p_challenge_id, v_challenge.min_win_pct || '%', v_win_pct || '%';
+  END IF;
+
+  IF v_challenge.max_win_pct IS NOT NULL AND v_win_pct > v_challenge.max_win_pct THEN
+    RAISE EXCEPTION 'Challenge % requires a win percentage of at most % (you have %)',
+      p_challenge_id, v_challenge.max_win_pct || '%', v_win_pct || '%';
+  END IF;
+
+  IF v_challenge.strategy_family IS NOT NULL
+     AND v_accepter.strategy->>'type' IS DISTINCT FROM v_challenge.strategy_family THEN
+    RAISE EXCEPTION 'Challenge % requires a % strategy (yours is %)',
+      p_challenge_id, v_challenge.strategy_family, v_accepter.strategy->>'type';
+  END IF;
+
+  -- Escrow accepter's wager — held for the whole series
+  UPDATE agents SET balance = balance - v_challenge.wager_amount
+   WHERE id = p_accepter_id;
+
+  v_strategy_dl := now() + (p_strategy_seconds || ' seconds')::INTERVAL;
+
+  -- Create round 1 in 'strategy' phase
+  INSERT INTO matches (
+    challenge_id, agent1_id, agent2_id, wager_amount,
+    strategy_deadline, commit_deadline,
+    agent1_strategy, agent2_strategy,
+    phase, best_of, round, variant
+  )
+  VALUES (
+    p_challenge_id,
+    v_challenge.challenger_id,
+    p_accepter_id,
+    v_challenge.wager_amount,
+    v_strategy_dl,
+    v_strategy_dl + (p_commit_seconds || ' seconds')::INTERVAL,
+    v_challenger.strategy,
+    v_accepter.strategy,
+    'strategy',
+    v_challenge.best_of,
+    1,
+    v_challenge.variant
+  )
+  RETURNING * INTO v_match;
+
+  -- Mark challenge as matched
+  UPDATE challenges SET status = 'matched' WHERE id = p_challenge_id;
+
+  RETURN v_match;
+END;
+$$;
+
+
+-- ── resolve_match: validate and score moves with the rule table ────────────
+CREATE OR REPLACE FUNCTION resolve_match(
+  p_match_id         UUID,
+  p_agent1_move      TEXT,
+  p_agent2_move      TEXT,
+  p_agent1_fallback  BOOLEAN,
+  p_agent2_fallback  BOOLEAN,
+  p_agent1_new_state JSONB,
+  p_agent2_new_state JSONB,
+  p_agent1_strategy  JSONB DEFAULT NULL,
+  p_agent2_strategy  JSONB DEFAULT NULL
+)
+RETURNS matches
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_match         matches%ROWTYPE;
+  v_winner_id     UUID;
+  v_loser_id      UUID;
+  v_is_draw       BOOLEAN := false;
+  v_result1       TEXT;
+  v_result2       TEXT;
+  v_wins1         INTEGER;
+  v_wins2         INTEGER;
+  v_needed        INTEGER;
+  v_series_over   BOOLEAN;
+  v_series_winner UUID;
+  v_series_loser  UUID;
+  v_strategy1     JSONB;
+  v_strategy2     JSONB;
+  v_strategy_dl   TIMESTAMPTZ;
+  v_tournament_id UUID;
+BEGIN
+  -- Lock match; must not already be complete
+  SELECT * INTO v_match
+    FROM matches
+   WHERE id = p_match_id
+     AND status != 'complete'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Match % is already complete or does not exist', p_match_id;
+  END IF;
+
+  SELECT tournament_id INTO v_tournament_id FROM challenges WHERE id = v_match.challenge_id;
+
+  IF NOT EXISTS (SELECT 1 FROM game_moves WHERE variant = v_match.variant AND move = p_agent1_move) THEN
+    RAISE EXCEPTION 'Invalid agent1 move for %: %', v_match.variant, p_agent1_move;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM game_moves WHERE variant = v_match.variant AND move = p_agent2_move) THEN
+    RAISE EXCEPTION 'Invalid agent2 move for %: %', v_match.variant, p_agent2_move;
+  END IF;
+
+  -- Write final moves and fallback flags onto the match record. A fallback
+  -- move is recorded against the strategy that produced it, which may have
+  -- been changed since the snapshot was taken at match creation.
+  UPDATE matches
+     SET agent1_move         = p_agent1_move,
+         agent2_move         = p_agent2_move,
+         agent1_used_fallback = p_agent1_fallback,
+         agent2_used_fallback = p_agent2_fallback,
+         agent1_strategy     = COALESCE(p_agent1_strategy, agent1_strategy),
+         agent2_strategy     = COALESCE(p_agent2_strategy, agent2_strategy)
+   WHERE id = p_match_id;
+
+  -- Determine round winner from the variant's rule table
+  IF EXISTS (
+    SELECT 1 FROM game_rules
+     WHERE variant = v_match.variant AND winner = p_agent1_move AND loser = p_agent2_move
+  ) THEN
+    v_winner_id := v_match.agent1_id;
+    v_loser_id  := v_match.agent2_id;
+  ELSIF EXISTS (
+    SELECT 1 FROM game_rules
+     WHERE variant = v_match.variant AND winner = p_agent2_move AND loser = p_agent1_move
+  ) THEN
+    v_winner_id := v_match.agent2_id;
+    v_loser_id  := v_match.agent1_id;
+  ELSE
+    v_is_draw := true;
+  END IF;
+
+  -- Series score including this round
+  SELECT COUNT(*) FILTER (WHERE winner_id = v_match.agent1_id),
+         COUNT(*) FILTER (WHERE winner_id = v_match.agent2_id)
+    INTO v_wins1, v_wins2
+    FROM matches
+   WHERE challenge_id = v_match.challenge_id
+     AND status = 'complete';
+
+  IF v_winner_id = v_match.agent1_id THEN v_wins1 := v_wins1 + 1; END IF;
+  IF v_winner_id = v_match.agent2_id THEN v_wins2 := v_wins2 + 1; END IF;
+
+  v_needed := v_match.best_of / 2 + 1;
+
+  IF v_wins1 >= v_needed THEN
+    v_series_over := true;
+    v_series_winner := v_match.agent1_id;
+  ELSIF v_wins2 >= v_needed THEN
+    v_series_over := true;
+    v_series_winner := v_match.agent2_id;
+  ELSIF v_match.best_of = 1 OR v_match.round >= v_match.best_of * 3 THEN
+    -- A drawn single game, or a series out of rounds: the leader takes it.
+    v_series_over := true;
+    v_series_winner := CASE
+      WHEN v_wins1 > v_wins2 THEN v_match.agent1_id
+      WHEN v_wins2 > v_wins1 THEN v_match.agent2_id
+    END;
+  ELSE
+    v_series_over := false;
+  END IF;
+
+  v_series_loser := CASE v_series_winner
+    WHEN v_match.agent1_id THEN v_match.agent2_id
+    WHEN v_match.agent2_id THEN v_match.agent1_id
+  END;
+
+  -- Transfer chips and update records — once per series. Tournament games
+  -- have no wager: the prize pool is paid out when the tournament finishes.
+  IF v_series_over AND v_tournament_id IS NULL THEN
+    IF v_series_winner IS NULL THEN
+      UPDATE agents SET balance = balance + v_match.wager_amount
+        WHERE id IN (v_match.agent1_id, v_match.agent2_id);
+
+      INSERT INTO transactions (match_id, from_agent_id, to_agent_id, amount, note) VALUES
+        (p_match_id, NULL, v_match.agent1_id, v_match.wager_amount, 'draw — wager returned'),
+        (p_match_id, NULL, v_match.agent2_id, v_match.wager_amount, 'draw — wager returned');
+    ELSE
+      -- Winner receives both escrowed wagers
+      UPDATE agents SET balance = balance + (v_match.wager_amount * 2)
+        WHERE id = v_series_winner;
+
+      INSERT INTO transactions (match_id, from_agent_id, to_agent_id, amount, note)
+        VALUES (p_match_id, v_series_loser, v_series_winner, v_match.wager_amount * 2,
+                CASE WHEN v_match.best_of = 1 THEN 'match winnings' ELSE 'series winnings' END);
+    END IF;
+  END IF;
+
+  IF v_series_over AND v_series_winner IS NULL THEN
+    UPDATE agents SET draws = draws + 1
+      WHERE id IN (v_match.agent1_id, v_match.agent2_id);
+  ELSIF v_series_over THEN
+    UPDATE agents SET wins   = wins   + 1 WHERE id = v_series_winner;
+    UPDATE agents SET losses = losses + 1 WHERE id = v_series_loser;
+  END IF;
+
+  -- Mark round complete
+  UPDATE matches
+     SET status             = 'complete',
+         winner_id          = v_winner_id,
+         completed_at       = now(),
+         agent1_series_wins = v_wins1,
+         agent2_series_wins = v_wins2,
+         series_settled     = v_series_over,
+         series_winner_id   = v_series_winner
+   WHERE id = p_match_id;
+
+  -- Advance strategy states for both agents, recording the round outcome
+  v_result1 := CASE WHEN v_is_draw THEN 'draw'
+                    WHEN v_winner_id = v_match.agent1_id THEN 'win'
+                    ELSE 'loss' END;
+  v_result2 := CASE WHEN v_is_draw THEN 'draw'
+                    WHEN v_winner_id = v_match.agent2_id THEN 'win'
+                    ELSE 'loss' END;
+
+  UPDATE agents
+     SET strategy_state = record_match_outcome(
+           strategy_state, p_agent1_new_state, v_result1, p_agent1_move, p_agent2_move)
+   WHERE id = v_match.agent1_id;
+  UPDATE agents
+     SET strategy_state = record_match_outcome(
+           strategy_state, p_agent2_new_state, v_result2, p_agent2_move, p_agent1_move)
+   WHERE id = v_match.agent2_id;
+
+  -- Next round: same timings as this one, fresh strategy snapshots
+  IF NOT v_series_over THEN
+    PERFORM 1 FROM agents WHERE id IN (v_match.agent1_id, v_match.agent2_id) FOR UPDATE;
+    PERFORM apply_strategy_schedules(v_match.agent1_id);
+    PERFORM apply_strategy_schedules(v_match.agent2_id);
+
+    SELECT strategy INTO v_strategy1 FROM agents WHERE id = v_match.agent1_id;
+    SELECT strategy INTO v_strategy2 FROM agents WHERE id = v_match.agent2_id;
+
+    v_strategy_dl := now() + COALESCE(v_match.strategy_deadline - v_match.created_at,
+                                      INTERVAL '60 seconds');
+
+    INSERT INTO matches (
+      challenge_id, agent1_id, agent2_id, wager_amount,
+      strategy_deadline, commit_deadline,
+      agent1_strategy, agent2_strategy,
+      phase, best_of, round,
+      agent1_series_wins, agent2_series_wins,
+      variant
+    )
+    VALUES (
+      v_match.challenge_id,
+      v_match.agent1_id,
+      v_match.agent2_id,
+      v_match.wager_amount,
+      v_strategy_dl,
+      v_strategy_dl + COALESCE(v_match.commit_deadline - v_match.strategy_deadline,
+                               INTERVAL '60 seconds'),
+      v_strategy1,
+      v_strategy2,
+      'strategy',
+      v_match.best_of,
+      v_match.round + 1,
+      v_wins1,
+      v_wins2,
+      v_match.variant
+    );
+  END IF;
+
+  -- Score the pairing; may start the next tournament round or pay out
+  IF v_series_over AND v_tournament_id IS NOT NULL THEN
+    PERFORM record_tournament_result(p_match_id);
+  END IF;
+
+  SELECT * INTO v_match FROM matches WHERE id = p_match_id;
+  RETURN v_match;
+END;
+$$;
@@ -0,0 +1,150 @@
+-- =============================================================================
+-- Migration 020: Rematches
+-- =============================================================================
+-- Once a match (or its whole best-of-N series) has been settled, either
+-- participant can offer a rematch at the same wager or double it. The offer
+-- is a direct challenge addressed to the opponent with a short expiry, so it
+-- never appears in the lobby, create_match accepts it like any other direct
+-- challenge, and expire_challenges refunds it if the window passes.
+--
+-- rematch_of links the new challenge to the match it follows, and
+-- rematch_number counts the links back to the original match, so the feed can
+-- show the chain. A match has at most one live offer: a second one can only
+-- be made after the first has been declined or has expired, and an accepted
+-- offer continues the chain from the new match.
+-- =============================================================================
+
+ALTER TABLE challenges
+  ADD COLUMN IF NOT EXISTS rematch_of     UUID REFERENCES matches(id),
+  ADD COLUMN IF NOT EXISTS rematch_number INTEGER NOT NULL DEFAULT 0;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_challenges_rematch_of
+  ON challenges (rematch_of)
+  WHERE rematch_of IS NOT NULL AND status IN ('open', 'matched');
+
+
+-- ── offer_rematch ────────────────────────────────────────────────────────────
+-- Escrows the offering agent's wager and posts the rematch challenge. The
+-- opponent's balance is checked when they accept, as for any challenge.
+CREATE OR REPLACE FUNCTION offer_rematch(
+  p_match_id        UUID,
+  p_agent_id        UUID,
+  p_double          BOOLEAN,
+  p_expires_seconds INTEGER
+)
+RETURNS challenges
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_match     matches%ROWTYPE;
+  v_challenge challenges%ROWTYPE;
+  v_offer     challenges%ROWTYPE;
+  v_opponent  UUID;
+  v_wager     INTEGER;
+BEGIN
+  -- Lock the match so two offers for it cannot race
+  SELECT * INTO v_match
+    FROM matches
+   WHERE id = p_match_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Match % does not exist', p_match_id;
+  END IF;
+
+  IF p_agent_id = v_match.agent1_id THEN
+    v_opponent := v_match.agent2_id;
+  ELSIF p_agent_id = v_match.agent2_id THEN
+    v_opponent := v_match.agent1_id;
+  ELSE
+    RAISE EXCEPTION 'You did not play in match %', p_match_id;
+  END IF;
+
+  -- In a series only the round that settled it can be rematched.
+  IF v_match.status <> 'complete' OR NOT v_match.series_settled THEN
+    RAISE EXCEPTION 'Match % is not settled yet — offer a rematch once it (or its series) is over', p_match_id;
+  END IF;
+
+  SELECT * INTO v_challenge
+    FROM challenges
+   WHERE id = v_match.challenge_id;
+
+  IF v_challenge.tournament_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Tournament matches cannot be rematched';
+  END IF;
+
+  -- An offer whose window has passed but which the cron has not swept yet
+  -- no longer counts: close it now so a new one can be made.
+  SELECT * INTO v_offer
+    FROM challenges
+   WHERE rematch_of = p_match_id
+     AND status IN ('open', 'matched')
+  FOR UPDATE;
+
+  IF FOUND THEN
+    IF v_offer.status = 'open' AND v_offer.expires_at <= now() THEN
+      PERFORM close_challenge(v_offer, 'expired', 'challenge expired — wager returned');
+    ELSIF v_offer.status = 'open' THEN
+      RAISE EXCEPTION 'A rematch of match % has already been offered', p_match_id;
+    ELSE
+      RAISE EXCEPTION 'Match % has already been rematched', p_match_id;
+    END IF;
+  END IF;
+
+  v_wager := v_challenge.wager_amount * CASE WHEN p_double THEN 2 ELSE 1 END;
+
+  IF NOT escrow_wager(p_agent_id, v_wager) THEN
+    RAISE EXCEPTION 'Insufficient balance — wager is % chips', v_wager;
+  END IF;
+
+  INSERT INTO challenges (
+    challenger_id, wager_amount, best_of, variant, target_agent_id,
+    expires_at, rematch_of, rematch_number
+  )
+  VALUES (
+    p_agent_id, v_wager, v_challenge.best_of, v_challenge.variant, v_opponent,
+    now() + make_interval(secs => p_expires_seconds),
+    p_match_id, v_challenge.rematch_number + 1
+  )
+  RETURNING * INTO v_offer;
+
+  RETURN v_offer;
+END;
+$$;
+
+
+-- ── match_feed: link each match to the one it is a rematch of ───────────────
+CREATE OR REPLACE VIEW match_feed AS
+  SELECT
+    m.id,
+    m.wager_amount,
+    m.agent1_move,
+    m.agent2_move,
+    m.agent1_used_fallback,
+    m.agent2_used_fallback,
+    m.created_at,
+    m.completed_at,
+    a1.id    AS agent1_id,
+    a1.name  AS agent1_name,
+    a2.id    AS agent2_id,
+    a2.name  AS agent2_name,
+    w.id     AS winner_id,
+    w.name   AS winner_name,
+    m.challenge_id,
+    m.best_of,
+    m.round,
+    m.agent1_series_wins,
+    m.agent2_series_wins,
+    m.series_settled,
+    sw.name  AS series_winner_name,
+    m.variant,
+    c.rematch_of,
+    c.rematch_number
+  FROM matches m
+  JOIN agents a1 ON a1.id = m.agent1_id
+  JOIN agents a2 ON a2.id = m.agent2_id
+  LEFT JOIN agents w  ON w.id  = m.winner_id
+  LEFT JOIN agents sw ON sw.id = m.series_winner_id
+  LEFT JOIN challenges c ON c.id = m.challenge_id
+  WHERE m.status = 'complete'
+  ORDER BY m.completed_at DESC;
@@ -0,0 +1,823 @@
+-- =============================================================================
+-- Migration 021: Free-for-all matches
+-- =============================================================================
+-- A free-for-all is one round between 3 to 8 agents who all commit and reveal
+-- at the same time. Each pair of agents is scored as a game under the
+-- variant's rules, and the pot (every agent's wager) is split evenly among
+-- the agents with the best net record (pairwise wins minus losses); any
+-- remainder chip goes to the earliest seat among them. If everyone ties, it
+-- is a draw and every wager is returned.
+--
+--   lobby   post-challenge with max_players posts a free-for-all challenge.
+--           Agents take a seat with accept-challenge (join_ffa_challenge),
+--           which escrows their wager into challenge_entrants. The match
+--           starts when the last seat is taken; closing the challenge
+--           (cancel or expiry) refunds every seat.
+--   match   a matches row with match_type = 'ffa' and no agent1/agent2.
+--           Each agent's hash, move, fallback flag and strategy snapshot is
+--           a match_participants row. submit_commit and submit_reveal handle
+--           both kinds of match, and the Edge Functions settle a free-for-all
+--           through resolve_ffa_match once every move is in or the deadline
+--           passes — agents that miss it get their strategy's move.
+--
+-- Records count a free-for-all once: a win for the agents that share the
+-- pot, a loss for the rest, a draw for all if everyone ties. There is no
+-- single opponent, so strategy_state.last_match is left as it was.
+-- =============================================================================
+
+ALTER TABLE challenges
+  ADD COLUMN IF NOT EXISTS max_players INTEGER;
+
+ALTER TABLE challenges
+  DROP CONSTRAINT IF EXISTS ffa_players,
+  ADD CONSTRAINT ffa_players CHECK (
+    max_players IS NULL
+    OR (max_players BETWEEN 3 AND 8 AND best_of = 1 AND target_agent_id IS NULL)
+  );
+
+-- Agents who have taken a seat in an open free-for-all, besides the
+-- challenger. Each has escrowed the challenge's wager.
+CREATE TABLE IF NOT EXISTS challenge_entrants (
+  challenge_id UUID        NOT NULL REFERENCES challenges(id),
+  agent_id     UUID        NOT NULL REFERENCES agents(id),
+  joined_at    TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  PRIMARY KEY (challenge_id, agent_id)
+);
+
+ALTER TABLE challenge_entrants ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "challenge_entrants_public_read" ON challenge_entrants;
+CREATE POLICY "challenge_entrants_public_read"
+  ON challenge_entrants FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+
+-- ── matches: a free-for-all has participants instead of agent1/agent2 ──────
+ALTER TABLE matches
+  ADD COLUMN IF NOT EXISTS match_type TEXT NOT NULL DEFAULT 'duel';
+
+ALTER TABLE matches
+  ALTER COLUMN agent1_id       DROP NOT NULL,
+  ALTER COLUMN agent2_id       DROP NOT NULL,
+  ALTER COLUMN agent1_strategy DROP NOT NULL,
+  ALTER COLUMN agent2_strategy DROP NOT NULL;
+
+ALTER TABLE matches
+  DROP CONSTRAINT IF EXISTS valid_match_type,
+  ADD CONSTRAINT valid_match_type CHECK (
+    (match_type = 'duel'
+      AND agent1_id IS NOT NULL AND agent2_id IS NOT NULL
+      AND agent1_strategy IS NOT NULL AND agent2_strategy IS NOT NULL)
+    OR
+    (match_type = 'ffa' AND agent1_id IS NULL AND agent2_id IS NULL AND best_of = 1)
+  );
+
+CREATE TABLE IF NOT EXISTS match_participants (
+  match_id      UUID        NOT NULL REFERENCES matches(id),
+  agent_id      UUID        NOT NULL REFERENCES agents(id),
+  seat          INTEGER     NOT NULL,               -- 1 = the challenger, then joining order
+  move_hash     TEXT,                               -- sha256(move || salt), NULL until committed
+  move          TEXT,                               -- NULL until revealed or fallback used
+  salt          TEXT,                               -- NULL if fallback used
+  used_fallback BOOLEAN     NOT NULL DEFAULT false,
+  strategy      JSONB       NOT NULL,               -- strategy snapshot at match time
+
+  -- Pairwise results against every other participant, set on resolution
+  wins          INTEGER     NOT NULL DEFAULT 0,
+  losses        INTEGER     NOT NULL DEFAULT 0,
+  draws         INTEGER     NOT NULL DEFAULT 0,
+  score         INTEGER     GENERATED ALWAYS AS (wins - losses) STORED,
+  payout        INTEGER     NOT NULL DEFAULT 0,
+
+  PRIMARY KEY (match_id, agent_id),
+  UNIQUE (match_id, seat)
+);
+
+CREATE INDEX IF NOT EXISTS idx_match_participants_agent
+  ON match_participants (agent_id);
+
+-- Like matches: moves are only readable once the match is complete.
+-- In-progress state is served by get-match.
+ALTER TABLE match_participants ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "match_participants_public_read" ON match_participants;
+CREATE POLICY "match_participants_public_read"
+  ON match_participants FOR SELECT
+  TO anon, authenticated
+  USING (match_id IN (SELECT id FROM matches WHERE status = 'complete'));
+
+
+-- ── Lobby: free-for-all challenges show their seats ─────────────────────────
+CREATE OR REPLACE VIEW open_challenges AS
+  SELECT
+    c.id,
+    c.wager_amount,
+    c.created_at,
+    a.id      AS challenger_id,
+    a.name    AS challenger_name,
+    a.wins,
+    a.losses,
+    a.draws,
+    a.balance AS challenger_balance,
+    c.best_of,
+    c.expires_at,
+    c.min_win_pct,
+    c.max_win_pct,
+    c.min_games,
+    c.excluded_agent_ids,
+    c.strategy_family,
+    c.variant,
+    c.max_players,
+    1 + (SELECT COUNT(*) FROM challenge_entrants e WHERE e.challenge_id = c.id) AS seats_taken
+  FROM challenges c
+  JOIN agents a ON a.id = c.challenger_id
+  WHERE c.status = 'open'
+    AND c.target_agent_id IS NULL
+    AND (c.expires_at IS NULL OR c.expires_at > now())
+  ORDER BY c.created_at DESC;
+
+
+-- ── close_challenge: refund free-for-all seats along with the challenger ────
+CREATE OR REPLACE FUNCTION close_challenge(
+  p_challenge challenges,
+  p_status    challenge_status,
+  p_note      TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE challenges
+     SET status = p_status
+   WHERE id = p_challenge.id;
+
+  -- Refund the escrowed wager safely (additive update)
+  UPDATE agents
+     SET balance = balance + p_challenge.wager_amount
+   WHERE id = p_challenge.challenger_id;
+
+  -- Record the refund transaction
+  INSERT INTO transactions (from_agent_id, to_agent_id, amount, note)
+  VALUES (NULL, p_challenge.challenger_id, p_challenge.wager_amount, p_note);
+
+  -- Seats already taken in a free-for-all
+  UPDATE agents a
+     SET balance = a.balance + p_challenge.wager_amount
+    FROM challenge_entrants e
+   WHERE e.challenge_id = p_challenge.id
+     AND a.id = e.agent_id;
+
+  INSERT INTO transactions (from_agent_id, to_agent_id, amount, note)
+  SELECT NULL, e.agent_id, p_challenge.wager_amount, p_note
+    FROM challenge_entrants e
+   WHERE e.challenge_id = p_challenge.id;
+END;
+$$;
+
+
+-- ── start_ffa_match ──────────────────────────────────────────────────────────
+-- Creates the match for a full free-for-all challenge: seats in joining
+-- order, with each agent's strategy brought up to date with their schedules
+-- and snapshotted. The caller must hold the lock on the challenge.
+CREATE OR REPLACE FUNCTION start_ffa_match(
+  p_challenge_id     UUID,
+  p_strategy_seconds INTEGER,
+  p_commit_seconds   INTEGER
+)
+RETURNS matches
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_challenge   challenges%ROWTYPE;
+  v_match       matches%ROWTYPE;
+  v_agent_id    UUID;
+  v_strategy_dl TIMESTAMPTZ;
+BEGIN
+  SELECT * INTO v_challenge FROM challenges WHERE id = p_challenge_id;
+
+  FOR v_agent_id IN
+    SELECT v_challenge.challenger_id
+    UNION
+    SELECT agent_id FROM challenge_entrants WHERE challenge_id = p_challenge_id
+  LOOP
+    PERFORM 1 FROM agents WHERE id = v_agent_id FOR UPDATE;
+    PERFORM apply_strategy_schedules(v_agent_id);
+  END LOOP;
+
+  v_strategy_dl := now() + (p_strategy_seconds || ' seconds')::INTERVAL;
+
+  INSERT INTO matches (
+    challenge_id, wager_amount,
+    strategy_deadline, commit_deadline,
+    phase, best_of, round, variant, match_type
+  )
+  VALUES (
+    p_challenge_id,
+    v_challenge.wager_amount,
+    v_strategy_dl,
+    v_strategy_dl + (p_commit_seconds || ' seconds')::INTERVAL,
+    'strategy',
+    1,
+    1,
+    v_challenge.variant,
+    'ffa'
+  )
+  RETURNING * INTO v_match;
+
+  INSERT INTO match_participants (match_id, agent_id, seat, strategy)
+  SELECT v_match.id, s.agent_id,
+         ROW_NUMBER() OVER (ORDER BY s.joined_at, s.agent_id),
+         a.strategy
+    FROM (
+      SELECT v_challenge.challenger_id AS agent_id, v_challenge.created_at AS joined_at
+      UNION ALL
+      SELECT agent_id, joined_at FROM challenge_entrants WHERE challenge_id = p_challenge_id
+    ) s
+    JOIN agents a ON a.id = s.agent_id;
+
+  UPDATE challenges SET status = 'matched' WHERE id = p_challenge_id;
+
+  RETURN v_match;
+END;
+$$;
+
+
+-- ── join_ffa_challenge ───────────────────────────────────────────────────────
+-- Takes a seat in a free-for-all, escrowing the wager. Taking the last seat
+-- starts the match with the given timings, as accepting a 1v1 challenge does.
+-- Returns the challenge; once it is 'matched' its match has started.
+CREATE OR REPLACE FUNCTION join_ffa_challenge(
+  p_challenge_id     UUID,
+  p_agent_id         UUID,
+  p_strategy_seconds INTEGER DEFAULT 60,
+  p_commit_seconds   INTEGER DEFAULT 60
+)
+RETURNS challenges
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_challenge challenges%ROWTYPE;
+  v_seats     INTEGER;
+BEGIN
+  SELECT * INTO v_challenge
+    FROM challenges
+   WHERE id = p_challenge_id AND status = 'open'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Challenge % is not open or does not exist', p_challenge_id;
+  END IF;
+
+  IF v_challenge.max_players IS NULL THEN
+    RAISE EXCEPTION 'Challenge % is not a free-for-all', p_challenge_id;
+  END IF;
+
+  -- The cron may not have swept it yet
+  IF v_challenge.expires_at IS NOT NULL AND v_challenge.expires_at <= now() THEN
+    RAISE EXCEPTION 'Challenge % has expired', p_challenge_id;
+  END IF;
+
+  IF v_challenge.challenger_id = p_agent_id OR EXISTS (
+    SELECT 1 FROM challenge_entrants
+     WHERE challenge_id = p_challenge_id AND agent_id = p_agent_id
+  ) THEN
+    RAISE EXCEPTION 'Agent already has a seat in challenge %', p_challenge_id;
+  END IF;
+
+  IF NOT escrow_wager(p_agent_id, v_challenge.wager_amount) THEN
+    RAISE EXCEPTION 'Insufficient balance — wager is % chips', v_challenge.wager_amount;
+  END IF;
+
+  INSERT INTO challenge_entrants (challenge_id, agent_id)
+  VALUES (p_challenge_id, p_agent_id);
+
+  SELECT COUNT(*) + 1 INTO v_seats
+    FROM challenge_entrants
+   WHERE challenge_id = p_challenge_id;
+
+  IF v_seats >= v_challenge.max_players THEN
+    PERFORM start_ffa_match(p_challenge_id, p_strategy_seconds, p_commit_seconds);
+  END IF;
+
+  SELECT * INTO v_challenge FROM challenges WHERE id = p_challenge_id;
+  RETURN v_challenge;
+END;
+$$;
+
+
+-- ── create_match: free-for-all challenges are joined, not accepted ──────────
+CREATE OR REPLACE FUNCTION create_match(
+  p_challenge_id     UUID,
+  p_accepter_id      UUID,
+  p_strategy_seconds INTEGER DEFAULT 60,
+  p_commit_seconds   INTEGER DEFAULT 60
+)
+RETURNS matches
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_challenge   challenges%ROWTYPE;
+  v_challenger  agents%ROWTYPE;
+  v_accepter    agents%ROWTYPE;
+  v_match       matches%ROWTYPE;
+  v_strategy_dl TIMESTAMPTZ;
+  v_games       INTEGER;
+  v_win_pct     NUMERIC;
+BEGIN
+  -- Lock and validate the challenge
+  SELECT * INTO v_challenge
+    FROM challenges
+   WHERE id = p_challenge_id AND status = 'open'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Challenge % is not open or does not exist', p_challenge_id;
+  END IF;
+
+  -- The cron may not have swept it yet
+  IF v_challenge.expires_at IS NOT NULL AND v_challenge.expires_at <= now() THEN
+    RAISE EXCEPTION 'Challenge % has expired', p_challenge_id;
+  END IF;
+
+  IF v_challenge.challenger_id = p_accepter_id THEN
+    RAISE EXCEPTION 'An agent cannot accept their own challenge';
+  END IF;
+
+  IF v_challenge.target_agent_id IS NOT NULL AND v_challenge.target_agent_id <> p_accepter_id THEN
+    RAISE EXCEPTION 'Challenge % is addressed to another agent', p_challenge_id;
+  END IF;
+
+  IF v_challenge.max_players IS NOT NULL THEN
+    RAISE EXCEPTION 'Challenge % is a free-for-all — take a seat with join_ffa_challenge', p_challenge_id;
+  END IF;
+
+  -- Lock both agents
+  SELECT * INTO v_challenger FROM agents WHERE id = v_challenge.challenger_id FOR UPDATE;
+  SELECT * INTO v_accepter   FROM agents WHERE id = p_accepter_id             FOR UPDATE;
+
+  IF v_accepter.balance < v_challenge.wager_amount THEN
+    RAISE EXCEPTION 'Accepter has insufficient balance (has %, needs %)',
+      v_accepter.balance, v_challenge.wager_amount;
+  END IF;
+
+  -- Bring both strategies up to date with any scheduled changes, then re-read
+  -- them so the snapshot below is what each agent is actually playing.
+  PERFORM apply_strategy_schedules(v_challenge.challenger_id);
+  PERFORM apply_strategy_schedules(p_accepter_id);
+
+  SELECT * INTO v_challenger FROM agents WHERE id = v_challenge.challenger_id;
+  SELECT * INTO v_accepter   FROM agents WHERE id = p_accepter_id;
+
+  -- Acceptance constraints, checked against the strategy about to be
+  -- snapshotted. Win % is computed as in the leaderboard view.
+  v_games   := v_accepter.wins + v_accepter.losses + v_accepter.draws;
+  v_win_pct := CASE WHEN v_games = 0 THEN 0
+                    ELSE ROUND(v_accepter.wins::NUMERIC / v_games * 100, 1) END;
+
+  IF p_accepter_id = ANY (v_challenge.excluded_agent_ids) THEN
+    RAISE EXCEPTION 'Challenge % excludes you', p_challenge_id;
+  END IF;
+
+  IF v_challenge.min_games IS NOT NULL AND v_games < v_challenge.min_games THEN
+    RAISE EXCEPTION 'Challenge % requires at least % games played (you have %)',
+      p_challenge_id, v_challenge.min_games, v_games;
+  END IF;
+
+  IF v_challenge.min_win_pct IS NOT NULL AND v_win_pct < v_challenge.min_win_pct THEN
+    RAISE EXCEPTION 'Challenge % requires a win percentage of at least % (you have %)',
+      p_challenge_id, v_challenge.min_win_pct || '%', v_win_pct || '%';
+  END IF;
+
+  IF v_challenge.max_win_pct IS NOT NULL AND v_win_pct > v_challenge.max_win_pct THEN
+    RAISE EXCEPTION 'Challenge % requires a win percentage of at most % (you have %)',
+      p_challenge_id, v_challenge.max_win_pct || '%', v_win_pct || '%';
+  END IF;
+
+  IF v_challenge.strategy_family IS NOT NULL
+     AND v_accepter.strategy->>'type' IS DISTINCT FROM v_challenge.strategy_family THEN
+    RAISE EXCEPTION 'Challenge % requires a % strategy (yours is %)',
+      p_challenge_id, v_challenge.strategy_family, v_accepter.strategy->>'type';
+  END IF;
+
+  -- Escrow accepter's wager — held for the whole series
+  UPDATE agents SET balance = balance - v_challenge.wager_amount
+   WHERE id = p_accepter_id;
+
+  v_strategy_dl := now() + (p_strategy_seconds || ' seconds')::INTERVAL;
+
+  -- Create round 1 in 'strategy' phase
+  INSERT INTO matches (
+    challenge_id, agent1_id, agent2_id, wager_amount,
+    strategy_deadline, commit_deadline,
+    agent1_strategy, agent2_strategy,
+    phase, best_of, round, variant
+  )
+  VALUES (
+    p_challenge_id,
+    v_challenge.challenger_id,
+    p_accepter_id,
+    v_challenge.wager_amount,
+    v_strategy_dl,
+    v_strategy_dl + (p_commit_seconds || ' seconds')::INTERVAL,
+    v_challenger.strategy,
+    v_accepter.strategy,
+    'strategy',
+    v_challenge.best_of,
+    1,
+    v_challenge.variant
+  )
+  RETURNING * INTO v_match;
+
+  -- Mark challenge as matched
+  UPDATE challenges SET status = 'matched' WHERE id = p_challenge_id;
+
+  RETURN v_match;
+END;
+$$;
+
+
+-- ── submit_ffa_commit / submit_ffa_reveal ────────────────────────────────────
+-- The free-for-all halves of submit_commit and submit_reveal, which have
+-- already locked the match and checked its state and deadlines.
+CREATE OR REPLACE FUNCTION submit_ffa_commit(
+  p_match          matches,
+  p_agent_id       UUID,
+  p_move_hash      TEXT,
+  p_reveal_seconds INTEGER
+)
+RETURNS matches
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_match matches%ROWTYPE;
+  v_hash  TEXT;
+BEGIN
+  SELECT move_hash INTO v_hash
+    FROM match_participants
+   WHERE match_id = p_match.id AND agent_id = p_agent_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Agent % is not a participant in match %', p_agent_id, p_match.id;
+  END IF;
+
+  IF v_hash IS NOT NULL THEN
+    RAISE EXCEPTION 'Agent % has already committed for match %', p_agent_id, p_match.id;
+  END IF;
+
+  UPDATE match_participants
+     SET move_hash = p_move_hash
+   WHERE match_id = p_match.id AND agent_id = p_agent_id;
+
+  -- The reveal phase opens once every participant has committed
+  IF NOT EXISTS (
+    SELECT 1 FROM match_participants
+     WHERE match_id = p_match.id AND move_hash IS NULL
+  ) THEN
+    UPDATE matches
+       SET status          = 'waiting_reveals',
+           reveal_deadline = now() + (p_reveal_seconds || ' seconds')::INTERVAL
+     WHERE id = p_match.id;
+  END IF;
+
+  SELECT * INTO v_match FROM matches WHERE id = p_match.id;
+  RETURN v_match;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION submit_ffa_reveal(
+  p_match    matches,
+  p_agent_id UUID,
+  p_move     TEXT,
+  p_salt     TEXT
+)
+RETURNS matches
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_participant match_participants%ROWTYPE;
+BEGIN
+  SELECT * INTO v_participant
+    FROM match_participants
+   WHERE match_id = p_match.id AND agent_id = p_agent_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Agent % is not a participant in match %', p_agent_id, p_match.id;
+  END IF;
+
+  IF v_participant.move IS NOT NULL THEN
+    RAISE EXCEPTION 'Agent % has already revealed for match %', p_agent_id, p_match.id;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM game_moves WHERE variant = p_match.variant AND move = p_move) THEN
+    RAISE EXCEPTION 'Invalid move for %: %', p_match.variant, p_move;
+  END IF;
+
+  IF encode(extensions.digest(p_move || p_salt, 'sha256'), 'hex') != v_participant.move_hash THEN
+    RAISE EXCEPTION 'Hash mismatch for agent % in match % — submitted move/salt does not match commit',
+      p_agent_id, p_match.id;
+  END IF;
+
+  UPDATE match_participants
+     SET move = p_move, salt = p_salt
+   WHERE match_id = p_match.id AND agent_id = p_agent_id;
+
+  RETURN p_match;
+END;
+$$;
+
+
+-- ── submit_commit / submit_reveal: dispatch free-for-alls ──────────────────
+CREATE OR REPLACE FUNCTION submit_commit(
+  p_match_id       UUID,
+  p_agent_id       UUID,
+  p_move_hash      TEXT,
+  p_reveal_seconds INTEGER DEFAULT 60
+)
+RETURNS matches
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_match matches%ROWTYPE;
+BEGIN
+  SELECT * INTO v_match
+    FROM matches
+   WHERE id = p_match_id AND status = 'pending'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Match % is not in pending state or does not exist', p_match_id;
+  END IF;
+
+  -- Block commits until strategy period expires
+  IF v_match.strategy_deadline IS NOT NULL AND now() < v_match.strategy_deadline THEN
+    RAISE EXCEPTION 'Strategy period active until % — study your opponent first',
+      to_char(v_match.strategy_deadline AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS"Z"');
+  END IF;
+
+  IF now() > v_match.commit_deadline THEN
+    RAISE EXCEPTION 'Commit deadline has passed for match %', p_match_id;
+  END IF;
+
+  IF v_match.match_type = 'ffa' THEN
+    RETURN submit_ffa_commit(v_match, p_agent_id, p_move_hash, p_reveal_seconds);
+  END IF;
+
+  IF p_agent_id NOT IN (v_match.agent1_id, v_match.agent2_id) THEN
+    RAISE EXCEPTION 'Agent % is not a participant in match %', p_agent_id, p_match_id;
+  END IF;
+
+  -- Store hash for the correct agent, reject duplicate commits
+  IF p_agent_id = v_match.agent1_id THEN
+    IF v_match.agent1_move_hash IS NOT NULL THEN
+      RAISE EXCEPTION 'Agent1 has already committed for match %', p_match_id;
+    END IF;
+    UPDATE matches SET agent1_move_hash = p_move_hash WHERE id = p_match_id;
+  ELSE
+    IF v_match.agent2_move_hash IS NOT NULL THEN
+      RAISE EXCEPTION 'Agent2 has already committed for match %', p_match_id;
+    END IF;
+    UPDATE matches SET agent2_move_hash = p_move_hash WHERE id = p_match_id;
+  END IF;
+
+  -- Reload to check if both hashes are now in
+  SELECT * INTO v_match FROM matches WHERE id = p_match_id;
+
+  IF v_match.agent1_move_hash IS NOT NULL AND v_match.agent2_move_hash IS NOT NULL THEN
+    UPDATE matches
+       SET status          = 'waiting_reveals',
+           reveal_deadline = now() + (p_reveal_seconds || ' seconds')::INTERVAL
+     WHERE id = p_match_id;
+  END IF;
+
+  SELECT * INTO v_match FROM matches WHERE id = p_match_id;
+  RETURN v_match;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION submit_reveal(
+  p_match_id UUID,
+  p_agent_id UUID,
+  p_move     TEXT,
+  p_salt     TEXT
+)
+RETURNS matches
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_match        matches%ROWTYPE;
+  v_expected_hash TEXT;
+  v_stored_hash   TEXT;
+BEGIN
+  SELECT * INTO v_match
+    FROM matches
+   WHERE id = p_match_id AND status = 'waiting_reveals'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Match % is not in waiting_reveals state or does not exist', p_match_id;
+  END IF;
+
+  IF now() > v_match.reveal_deadline THEN
+    RAISE EXCEPTION 'Reveal deadline has passed for match %', p_match_id;
+  END IF;
+
+  IF v_match.match_type = 'ffa' THEN
+    RETURN submit_ffa_reveal(v_match, p_agent_id, p_move, p_salt);
+  END IF;
+
+  IF p_agent_id NOT IN (v_match.agent1_id, v_match.agent2_id) THEN
+    RAISE EXCEPTION 'Agent % is not a participant in match %', p_agent_id, p_match_id;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM game_moves WHERE variant = v_match.variant AND move = p_move) THEN
+    RAISE EXCEPTION 'Invalid move for %: %', v_match.variant, p_move;
+  END IF;
+
+  -- Verify hash: sha256(move || salt) must match what was committed
+  v_expected_hash := encode(
+    extensions.digest(p_move || p_salt, 'sha256'),
+    'hex'
+  );
+
+  IF p_agent_id = v_match.agent1_id THEN
+    IF v_match.agent1_move IS NOT NULL THEN
+      RAISE EXCEPTION 'Agent1 has already revealed for match %', p_match_id;
+    END IF;
+    v_stored_hash := v_match.agent1_move_hash;
+    IF v_expected_hash != v_stored_hash THEN
+      RAISE EXCEPTION 'Hash mismatch for agent1 in match % — submitted move/salt does not match commit', p_match_id;
+    END IF;
+    UPDATE matches SET agent1_move = p_move, agent1_salt = p_salt WHERE id = p_match_id;
+  ELSE
+    IF v_match.agent2_move IS NOT NULL THEN
+      RAISE EXCEPTION 'Agent2 has already revealed for match %', p_match_id;
+    END IF;
+    v_stored_hash := v_match.agent2_move_hash;
+    IF v_expected_hash != v_stored_hash THEN
+      RAISE EXCEPTION 'Hash mismatch for agent2 in match % — submitted move/salt does not match commit', p_match_id;
+    END IF;
+    UPDATE matches SET agent2_move = p_move, agent2_salt = p_salt WHERE id = p_match_id;
+  END IF;
+
+  SELECT * INTO v_match FROM matches WHERE id = p_match_id;
+  RETURN v_match;
+
+  -- Note: resolution is NOT triggered here. The Edge Function inspects the
+  -- returned match; if both agent1_move and agent2_move are set it calls
+  -- resolve_match() (resolve_ffa_match once every participant has
+  -- revealed). This keeps resolution logic in one place.
+END;
+$$;
+
+
+-- ── resolve_ffa_match ────────────────────────────────────────────────────────
+-- Settles a free-for-all. p_results has an entry per participant, keyed by
+-- agent id:
+--
+--   { "<agent_id>": { "move": "rock", "fallback": false,
+--                     "strategy": {...}, "state": {...} } }
+--
+-- move is only used for participants who have not revealed; strategy (the
+-- one behind a fallback move) and state (the new strategy_state) are
+-- optional.
+CREATE OR REPLACE FUNCTION resolve_ffa_match(
+  p_match_id UUID,
+  p_results  JSONB
+)
+RETURNS matches
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_match   matches%ROWTYPE;
+  v_players INTEGER;
+  v_best    INTEGER;
+  v_winners INTEGER;
+  v_first   INTEGER;
+  v_draw    BOOLEAN;
+  v_pot     INTEGER;
+  v_share   INTEGER;
+BEGIN
+  SELECT * INTO v_match
+    FROM matches
+   WHERE id = p_match_id
+     AND match_type = 'ffa'
+     AND status != 'complete'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Free-for-all match % is already complete or does not exist', p_match_id;
+  END IF;
+
+  -- Final moves and fallback flags. A fallback move is recorded against the
+  -- strategy that produced it, as in resolve_match.
+  UPDATE match_participants p
+     SET move          = COALESCE(p.move, r.value->>'move'),
+         used_fallback = COALESCE((r.value->>'fallback')::BOOLEAN, false),
+         strategy      = COALESCE(r.value->'strategy', p.strategy)
+    FROM jsonb_each(p_results) r
+   WHERE p.match_id = p_match_id
+     AND p.agent_id = r.key::UUID;
+
+  IF EXISTS (
+    SELECT 1 FROM match_participants p
+     WHERE p.match_id = p_match_id
+       AND NOT EXISTS (
+         SELECT 1 FROM game_moves g WHERE g.variant = v_match.variant AND g.move = p.move
+       )
+  ) THEN
+    RAISE EXCEPTION 'Every participant in match % needs a valid % move', p_match_id, v_match.variant;
+  END IF;
+
+  SELECT COUNT(*) INTO v_players FROM match_participants WHERE match_id = p_match_id;
+
+  -- Every pair of participants is one game under the variant's rules
+  UPDATE match_participants p
+     SET wins   = s.wins,
+         losses = s.losses,
+         draws  = v_players - 1 - s.wins - s.losses
+    FROM (
+      SELECT a.agent_id,
+             COUNT(w.winner) AS wins,
+             COUNT(l.winner) AS losses
+        FROM match_participants a
+        JOIN match_participants b
+          ON b.match_id = a.match_id AND b.agent_id <> a.agent_id
+        LEFT JOIN game_rules w
+          ON w.variant = v_match.variant AND w.winner = a.move AND w.loser = b.move
+        LEFT JOIN game_rules l
+          ON l.variant = v_match.variant AND l.winner = b.move AND l.loser = a.move
+       WHERE a.match_id = p_match_id
+       GROUP BY a.agent_id
+    ) s
+   WHERE p.match_id = p_match_id
+     AND p.agent_id = s.agent_id;
+
+  -- The best net record shares the pot; the earliest seat among them takes
+  -- any remainder chip.
+  SELECT MAX(score) INTO v_best FROM match_participants WHERE match_id = p_match_id;
+
+  SELECT COUNT(*), MIN(seat) INTO v_winners, v_first
+    FROM match_participants
+   WHERE match_id = p_match_id AND score = v_best;
+
+  v_draw  := v_winners = v_players;
+  v_pot   := v_match.wager_amount * v_players;
+  v_share := v_pot / v_winners;
+
+  UPDATE match_participants
+     SET payout = v_share + CASE WHEN seat = v_first THEN v_pot - v_share * v_winners ELSE 0 END
+   WHERE match_id = p_match_id AND score = v_best;
+
+  UPDATE agents a
+     SET balance        = a.balance + p.payout,
+         wins           = a.wins   + CASE WHEN NOT v_draw AND p.score = v_best THEN 1 ELSE 0 END,
+         losses         = a.losses + CASE WHEN NOT v_draw AND p.score < v_best THEN 1 ELSE 0 END,
+         draws          = a.draws  + CASE WHEN v_draw THEN 1 ELSE 0 END,
+         strategy_state = COALESCE(p_results->(a.id::TEXT)->'state', a.strategy_state)
+    FROM match_participants p
+   WHERE p.match_id = p_match_id
+     AND a.id = p.agent_id;
+
+  INSERT INTO transactions (match_id, from_agent_id, to_agent_id, amount, note)
+  SELECT p_match_id, NULL, agent_id, payout,
+         CASE WHEN v_draw        THEN 'free-for-all draw — wager returned'
+              WHEN v_winners = 1 THEN 'free-for-all winnings'
+              ELSE 'free-for-all winnings — pot split ' || v_winners || ' ways' END
+    FROM match_participants
+   WHERE match_id = p_match_id AND payout > 0;
+
+  UPDATE matches
+     SET status         = 'complete',
+         completed_at   = now(),
+         series_settled = true,
+         winner_id      = CASE WHEN v_winners = 1 THEN (
+                            SELECT agent_id FROM match_participants
+                             WHERE match_id = p_match_id AND score = v_best
+                          ) END
+   WHERE id = p_match_id;
+
+  SELECT * INTO v_match FROM matches WHERE id = p_match_id;
+  RETURN v_match;
+END;
+$$;
+
+
+-- ── stale_matches: free-for-alls fall back per participant ──────────────────
+CREATE OR REPLACE VIEW stale_matches AS
+  SELECT id, status, agent1_id, agent2_id,
+         agent1_move_hash, agent2_move_hash,
+         agent1_move, agent2_move,
+         commit_deadline, reveal_deadline,
+         wager_amount,
+         server_seed,
+         best_of,
+         round,
+         variant,
+         match_type
+    FROM matches
+   WHERE (status = 'pending'          AND now() > commit_deadline)
+      OR (status = 'waiting_reveals'  AND now() > reveal_deadline);
@@ -0,0 +1,269 @@
+-- =============================================================================
+-- Migration 022: Glicko-2 ratings
+-- =============================================================================
+-- The leaderboard ranks agents by raw wins, which rewards volume. Every agent
+-- now also carries a Glicko-2 rating (start 1500), rating deviation (how
+-- unsure the rating is; start 350) and volatility (how erratic the agent's
+-- results are; start 0.06).
+--
+-- Each resolved 1v1 match — every round of a series, tournament games
+-- included — is its own rating period. rate_match runs as an AFTER UPDATE
+-- trigger when a match becomes complete, so resolve_match needs no changes,
+-- and writes one rating_history row per agent.
+--
+--   draws          score 0.5 for both agents, as in standard Glicko-2.
+--   autopilot      when both moves were strategy fallbacks, the game counts
+--                  at half weight: two configs playing each other say less
+--                  about skill than a live decision. A match with one live
+--                  agent counts in full.
+--   free-for-all   not rated; a pot split among several agents has no single
+--                  opponent to rate against.
+--
+-- Existing agents start at the defaults; history is not replayed.
+-- =============================================================================
+
+ALTER TABLE agents
+  ADD COLUMN IF NOT EXISTS rating            DOUBLE PRECISION NOT NULL DEFAULT 1500,
+  ADD COLUMN IF NOT EXISTS rating_deviation  DOUBLE PRECISION NOT NULL DEFAULT 350,
+  ADD COLUMN IF NOT EXISTS rating_volatility DOUBLE PRECISION NOT NULL DEFAULT 0.06;
+
+-- Public like the rest of an agent's record (see migration 005)
+GRANT SELECT (rating, rating_deviation, rating_volatility) ON agents TO anon;
+
+CREATE TABLE IF NOT EXISTS rating_history (
+  id               UUID             PRIMARY KEY DEFAULT gen_random_uuid(),
+  match_id         UUID             NOT NULL REFERENCES matches(id),
+  agent_id         UUID             NOT NULL REFERENCES agents(id),
+  opponent_id      UUID             NOT NULL REFERENCES agents(id),
+  score            DOUBLE PRECISION NOT NULL,   -- 1 win, 0.5 draw, 0 loss
+  weight           DOUBLE PRECISION NOT NULL,   -- 0.5 for autopilot vs autopilot
+  rating_before    DOUBLE PRECISION NOT NULL,
+  rating_after     DOUBLE PRECISION NOT NULL,
+  deviation_before DOUBLE PRECISION NOT NULL,
+  deviation_after  DOUBLE PRECISION NOT NULL,
+  volatility_after DOUBLE PRECISION NOT NULL,
+  created_at       TIMESTAMPTZ      NOT NULL DEFAULT now(),
+
+  UNIQUE (match_id, agent_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rating_history_agent
+  ON rating_history (agent_id, created_at DESC);
+
+ALTER TABLE rating_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "rating_history_public_read" ON rating_history;
+CREATE POLICY "rating_history_public_read"
+  ON rating_history FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+
+-- ── glicko2_update ───────────────────────────────────────────────────────────
+-- One Glicko-2 rating period with a single game (Glickman, "Example of the
+-- Glicko-2 system"). p_weight below 1 counts the game as part of one: it
+-- scales the information the game carries, so the rating moves less and the
+-- deviation shrinks less.
+CREATE OR REPLACE FUNCTION glicko2_volatility_f(
+  x     DOUBLE PRECISION,
+  delta DOUBLE PRECISION,
+  phi   DOUBLE PRECISION,
+  v     DOUBLE PRECISION,
+  a     DOUBLE PRECISION,
+  tau   DOUBLE PRECISION
+)
+RETURNS DOUBLE PRECISION
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT exp(x) * (power(delta, 2) - power(phi, 2) - v - exp(x))
+           / (2 * power(power(phi, 2) + v + exp(x), 2))
+       - (x - a) / power(tau, 2);
+$$;
+
+CREATE OR REPLACE FUNCTION glicko2_update(
+  p_rating        DOUBLE PRECISION,
+  p_deviation     DOUBLE PRECISION,
+  p_volatility    DOUBLE PRECISION,
+  p_opp_rating    DOUBLE PRECISION,
+  p_opp_deviation DOUBLE PRECISION,
+  p_score         DOUBLE PRECISION,
+  p_weight        DOUBLE PRECISION DEFAULT 1
+)
+RETURNS TABLE (
+  rating     DOUBLE PRECISION,
+  deviation  DOUBLE PRECISION,
+  volatility DOUBLE PRECISION
+)
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  c_scale   CONSTANT DOUBLE PRECISION := 173.7178;
+  c_tau     CONSTANT DOUBLE PRECISION := 0.5;       -- how fast volatility may change
+  c_epsilon CONSTANT DOUBLE PRECISION := 0.000001;
+  v_mu      DOUBLE PRECISION := (p_rating - 1500) / c_scale;
+  v_phi     DOUBLE PRECISION := p_deviation / c_scale;
+  v_mu_j    DOUBLE PRECISION := (p_opp_rating - 1500) / c_scale;
+  v_phi_j   DOUBLE PRECISION := p_opp_deviation / c_scale;
+  v_g       DOUBLE PRECISION;
+  v_e       DOUBLE PRECISION;
+  v_v       DOUBLE PRECISION;
+  v_delta   DOUBLE PRECISION;
+  v_ln_vol  DOUBLE PRECISION;
+  v_lo      DOUBLE PRECISION;
+  v_hi      DOUBLE PRECISION;
+  v_mid     DOUBLE PRECISION;
+  v_f_lo    DOUBLE PRECISION;
+  v_f_hi    DOUBLE PRECISION;
+  v_f_mid   DOUBLE PRECISION;
+  v_k       INTEGER;
+  v_sigma   DOUBLE PRECISION;
+  v_phi_pre DOUBLE PRECISION;
+  v_phi_new DOUBLE PRECISION;
+BEGIN
+  -- Expected score and the variance of the rating from this game alone
+  v_g     := 1 / sqrt(1 + 3 * power(v_phi_j, 2) / power(pi(), 2));
+  v_e     := 1 / (1 + exp(-v_g * (v_mu - v_mu_j)));
+  v_v     := 1 / (p_weight * power(v_g, 2) * v_e * (1 - v_e));
+  v_delta := v_v * p_weight * v_g * (p_score - v_e);
+
+  -- New volatility: root of glicko2_volatility_f by the Illinois algorithm
+  v_ln_vol := ln(power(p_volatility, 2));
+  v_lo     := v_ln_vol;
+
+  IF power(v_delta, 2) > power(v_phi, 2) + v_v THEN
+    v_hi := ln(power(v_delta, 2) - power(v_phi, 2) - v_v);
+  ELSE
+    v_k := 1;
+    WHILE glicko2_volatility_f(v_ln_vol - v_k * c_tau, v_delta, v_phi, v_v, v_ln_vol, c_tau) < 0 LOOP
+      v_k := v_k + 1;
+    END LOOP;
+    v_hi := v_ln_vol - v_k * c_tau;
+  END IF;
+
+  v_f_lo := glicko2_volatility_f(v_lo, v_delta, v_phi, v_v, v_ln_vol, c_tau);
+  v_f_hi := glicko2_volatility_f(v_hi, v_delta, v_phi, v_v, v_ln_vol, c_tau);
+
+  WHILE abs(v_hi - v_lo) > c_epsilon LOOP
+    v_mid   := v_lo + (v_lo - v_hi) * v_f_lo / (v_f_hi - v_f_lo);
+    v_f_mid := glicko2_volatility_f(v_mid, v_delta, v_phi, v_v, v_ln_vol, c_tau);
+
+    IF v_f_mid * v_f_hi <= 0 THEN
+      v_lo   := v_hi;
+      v_f_lo := v_f_hi;
+    ELSE
+      v_f_lo := v_f_lo / 2;
+    END IF;
+
+    v_hi   := v_mid;
+    v_f_hi := v_f_mid;
+  END LOOP;
+
+  v_sigma := exp(v_lo / 2);
+
+  -- New deviation and rating, back on the Glicko scale. The deviation never
+  -- exceeds that of an unrated agent.
+  v_phi_pre := sqrt(power(v_phi, 2) + power(v_sigma, 2));
+  v_phi_new := 1 / sqrt(1 / power(v_phi_pre, 2) + 1 / v_v);
+
+  rating     := 1500 + c_scale * (v_mu + power(v_phi_new, 2) * p_weight * v_g * (p_score - v_e));
+  deviation  := LEAST(350, c_scale * v_phi_new);
+  volatility := v_sigma;
+  RETURN NEXT;
+END;
+$$;
+
+
+-- ── rate_match: after-resolution hook ───────────────────────────────────────
+CREATE OR REPLACE FUNCTION rate_match()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_agent1 agents%ROWTYPE;
+  v_agent2 agents%ROWTYPE;
+  v_score1 DOUBLE PRECISION;
+  v_weight DOUBLE PRECISION;
+  v_new1   RECORD;
+  v_new2   RECORD;
+BEGIN
+  -- resolve_match already holds both rows; lock in id order regardless
+  PERFORM 1 FROM agents WHERE id IN (NEW.agent1_id, NEW.agent2_id) ORDER BY id FOR UPDATE;
+
+  SELECT * INTO v_agent1 FROM agents WHERE id = NEW.agent1_id;
+  SELECT * INTO v_agent2 FROM agents WHERE id = NEW.agent2_id;
+
+  v_score1 := CASE NEW.winner_id
+                WHEN NEW.agent1_id THEN 1
+                WHEN NEW.agent2_id THEN 0
+                ELSE 0.5
+              END;
+
+  -- Autopilot against autopilot counts as half a game
+  v_weight := CASE WHEN NEW.agent1_used_fallback AND NEW.agent2_used_fallback THEN 0.5 ELSE 1 END;
+
+  SELECT * INTO v_new1
+    FROM glicko2_update(v_agent1.rating, v_agent1.rating_deviation, v_agent1.rating_volatility,
+                        v_agent2.rating, v_agent2.rating_deviation, v_score1, v_weight);
+  SELECT * INTO v_new2
+    FROM glicko2_update(v_agent2.rating, v_agent2.rating_deviation, v_agent2.rating_volatility,
+                        v_agent1.rating, v_agent1.rating_deviation, 1 - v_score1, v_weight);
+
+  UPDATE agents
+     SET rating            = v_new1.rating,
+         rating_deviation  = v_new1.deviation,
+         rating_volatility = v_new1.volatility
+   WHERE id = NEW.agent1_id;
+
+  UPDATE agents
+     SET rating            = v_new2.rating,
+         rating_deviation  = v_new2.deviation,
+         rating_volatility = v_new2.volatility
+   WHERE id = NEW.agent2_id;
+
+  INSERT INTO rating_history (
+    match_id, agent_id, opponent_id, score, weight,
+    rating_before, rating_after, deviation_before, deviation_after, volatility_after
+  )
+  VALUES
+    (NEW.id, NEW.agent1_id, NEW.agent2_id, v_score1, v_weight,
+     v_agent1.rating, v_new1.rating, v_agent1.rating_deviation, v_new1.deviation, v_new1.volatility),
+    (NEW.id, NEW.agent2_id, NEW.agent1_id, 1 - v_score1, v_weight,
+     v_agent2.rating, v_new2.rating, v_agent2.rating_deviation, v_new2.deviation, v_new2.volatility);
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_rate_match ON matches;
+
+CREATE TRIGGER trg_rate_match
+  AFTER UPDATE OF status ON matches
+  FOR EACH ROW
+  WHEN (OLD.status <> 'complete' AND NEW.status = 'complete' AND NEW.match_type = 'duel')
+  EXECUTE FUNCTION rate_match();
+
+
+-- ── leaderboard: ratings alongside the record ───────────────────────────────
+-- rank stays by wins; rating_rank orders by rating, the surer rating first
+-- on a tie.
+CREATE OR REPLACE VIEW leaderboard AS
+  SELECT
+    id,
+    name,
+    balance,
+    wins,
+    losses,
+    draws,
+    wins + losses + draws AS total_matches,
+    CASE
+      WHEN wins + losses + draws = 0 THEN 0
+      ELSE ROUND(wins::NUMERIC / (wins + losses + draws) * 100, 1)
+    END AS win_pct,
+    ROW_NUMBER() OVER (ORDER BY wins DESC, balance DESC) AS rank,
+    ROUND(rating::NUMERIC)           AS rating,
+    ROUND(rating_deviation::NUMERIC) AS rating_deviation,
+    ROW_NUMBER() OVER (ORDER BY rating DESC, rating_deviation ASC) AS rating_rank
+  FROM agents
+  ORDER BY rank;
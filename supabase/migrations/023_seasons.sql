@@ -0,0 +1,233 @@
+-- =============================================================================
+-- Migration 023: Competitive seasons
+-- =============================================================================
+-- Lifetime wins on agents only ever grow, so a bot registered today can never
+-- catch the early ones. Play is now split into seasons (30 days by default).
+-- Each agent carries its record for the current season next to the lifetime
+-- one, and its Glicko-2 rating becomes a per-season rating.
+--
+--   season record   season_wins / season_losses / season_draws follow every
+--                   change to the lifetime counters (sync_season_record), so
+--                   resolve_match and resolve_ffa_match need no changes.
+--   rollover        roll_over_season (process-seasons cron) snapshots the
+--                   final standings into season_standings, grants any
+--                   end-of-season chip rewards through transactions, resets
+--                   every agent's season record and rating, and opens the
+--                   next season with the same duration and rewards.
+--   rewards         seasons.rewards lists the chips granted by final rank
+--                   ({500,250,100} pays 1st to 3rd); empty grants nothing.
+--
+-- Season 1 starts with the first agent, so it carries everyone's record so
+-- far.
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS seasons (
+  id         UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  number     INTEGER     NOT NULL UNIQUE,
+  name       TEXT        NOT NULL,
+  status     TEXT        NOT NULL DEFAULT 'active',
+  starts_at  TIMESTAMPTZ NOT NULL DEFAULT now(),
+  ends_at    TIMESTAMPTZ NOT NULL,
+  duration   INTERVAL    NOT NULL DEFAULT interval '30 days',
+  rewards    INTEGER[]   NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  CONSTRAINT valid_season_status CHECK (status IN ('active', 'complete')),
+  CONSTRAINT valid_season_duration CHECK (duration >= interval '1 day'),
+  CONSTRAINT valid_season_rewards CHECK (0 < ALL (rewards))
+);
+
+-- One season runs at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_seasons_active
+  ON seasons (status)
+  WHERE status = 'active';
+
+CREATE TABLE IF NOT EXISTS season_standings (
+  season_id        UUID             NOT NULL REFERENCES seasons(id),
+  agent_id         UUID             NOT NULL REFERENCES agents(id),
+  rank             INTEGER          NOT NULL,
+  rating_rank      INTEGER          NOT NULL,
+  wins             INTEGER          NOT NULL,
+  losses           INTEGER          NOT NULL,
+  draws            INTEGER          NOT NULL,
+  balance          INTEGER          NOT NULL,
+  rating           DOUBLE PRECISION NOT NULL,
+  rating_deviation DOUBLE PRECISION NOT NULL,
+  reward           INTEGER          NOT NULL DEFAULT 0,
+
+  PRIMARY KEY (season_id, agent_id)
+);
+
+ALTER TABLE agents
+  ADD COLUMN IF NOT EXISTS season_wins   INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS season_losses INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS season_draws  INTEGER NOT NULL DEFAULT 0;
+
+GRANT SELECT (season_wins, season_losses, season_draws) ON agents TO anon;
+
+ALTER TABLE seasons          ENABLE ROW LEVEL SECURITY;
+ALTER TABLE season_standings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "seasons_public_read" ON seasons;
+CREATE POLICY "seasons_public_read"
+  ON seasons FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "season_standings_public_read" ON season_standings;
+CREATE POLICY "season_standings_public_read"
+  ON season_standings FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+-- Season 1: everything played so far
+INSERT INTO seasons (number, name, starts_at, ends_at)
+SELECT 1, 'Season 1', COALESCE(f.first_agent, now()), now() + interval '30 days'
+  FROM (SELECT MIN(created_at) AS first_agent FROM agents) f
+ WHERE NOT EXISTS (SELECT 1 FROM seasons);
+
+UPDATE agents
+   SET season_wins   = wins,
+       season_losses = losses,
+       season_draws  = draws
+ WHERE NOT EXISTS (SELECT 1 FROM seasons WHERE number > 1);
+
+
+-- ── sync_season_record: season counters follow the lifetime ones ───────────
+CREATE OR REPLACE FUNCTION sync_season_record()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.season_wins   := NEW.season_wins   + GREATEST(NEW.wins   - OLD.wins,   0);
+  NEW.season_losses := NEW.season_losses + GREATEST(NEW.losses - OLD.losses, 0);
+  NEW.season_draws  := NEW.season_draws  + GREATEST(NEW.draws  - OLD.draws,  0);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_sync_season_record ON agents;
+
+CREATE TRIGGER trg_sync_season_record
+  BEFORE UPDATE OF wins, losses, draws ON agents
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_season_record();
+
+
+-- ── season_leaderboard ──────────────────────────────────────────────────────
+-- The current season live (agents who have played in it), then every
+-- finished season as snapshotted. Ranked like leaderboard: wins then balance,
+-- with rating_rank by rating. reward is NULL until the season ends.
+CREATE OR REPLACE VIEW season_leaderboard AS
+  SELECT
+    s.number AS season_number,
+    a.id,
+    a.name,
+    a.balance,
+    a.season_wins   AS wins,
+    a.season_losses AS losses,
+    a.season_draws  AS draws,
+    a.season_wins + a.season_losses + a.season_draws AS total_matches,
+    ROUND(a.season_wins::NUMERIC / (a.season_wins + a.season_losses + a.season_draws) * 100, 1) AS win_pct,
+    ROW_NUMBER() OVER (ORDER BY a.season_wins DESC, a.balance DESC) AS rank,
+    ROUND(a.rating::NUMERIC)           AS rating,
+    ROUND(a.rating_deviation::NUMERIC) AS rating_deviation,
+    ROW_NUMBER() OVER (ORDER BY a.rating DESC, a.rating_deviation ASC) AS rating_rank,
+    NULL::INTEGER AS reward
+  FROM agents a
+  JOIN seasons s ON s.status = 'active'
+  WHERE a.season_wins + a.season_losses + a.season_draws > 0
+
+  UNION ALL
+
+  SELECT
+    s.number,
+    a.id,
+    a.name,
+    st.balance,
+    st.wins,
+    st.losses,
+    st.draws,
+    st.wins + st.losses + st.draws,
+    ROUND(st.wins::NUMERIC / (st.wins + st.losses + st.draws) * 100, 1),
+    st.rank,
+    ROUND(st.rating::NUMERIC),
+    ROUND(st.rating_deviation::NUMERIC),
+    st.rating_rank,
+    st.reward
+  FROM season_standings st
+  JOIN seasons s ON s.id = st.season_id
+  JOIN agents  a ON a.id = st.agent_id;
+
+
+-- ── roll_over_season ────────────────────────────────────────────────────────
+-- Ends the active season if its time is up and opens the next one. Returns
+-- the new season, or NULL if the current one is still running.
+CREATE OR REPLACE FUNCTION roll_over_season()
+RETURNS seasons
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_season seasons%ROWTYPE;
+  v_next   seasons%ROWTYPE;
+  v_entry  season_standings%ROWTYPE;
+BEGIN
+  SELECT * INTO v_season
+    FROM seasons
+   WHERE status = 'active'
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_season.ends_at > now() THEN
+    RETURN NULL;
+  END IF;
+
+  -- Hold every agent's record still while the standings are taken
+  PERFORM 1 FROM agents ORDER BY id FOR UPDATE;
+
+  INSERT INTO season_standings (
+    season_id, agent_id, rank, rating_rank, wins, losses, draws,
+    balance, rating, rating_deviation, reward
+  )
+  SELECT v_season.id, id,
+         ROW_NUMBER() OVER (ORDER BY season_wins DESC, balance DESC),
+         ROW_NUMBER() OVER (ORDER BY rating DESC, rating_deviation ASC),
+         season_wins, season_losses, season_draws,
+         balance, rating, rating_deviation, 0
+    FROM agents
+   WHERE season_wins + season_losses + season_draws > 0;
+
+  -- End-of-season rewards by final rank
+  UPDATE season_standings
+     SET reward = v_season.rewards[rank]
+   WHERE season_id = v_season.id
+     AND rank <= cardinality(v_season.rewards);
+
+  FOR v_entry IN
+    SELECT * FROM season_standings
+     WHERE season_id = v_season.id AND reward > 0
+  LOOP
+    UPDATE agents SET balance = balance + v_entry.reward WHERE id = v_entry.agent_id;
+
+    INSERT INTO transactions (match_id, from_agent_id, to_agent_id, amount, note)
+    VALUES (NULL, NULL, v_entry.agent_id, v_entry.reward,
+            'season reward — ' || v_season.name || ' (#' || v_entry.rank || ')');
+  END LOOP;
+
+  UPDATE agents
+     SET season_wins       = 0,
+         season_losses     = 0,
+         season_draws      = 0,
+         rating            = 1500,
+         rating_deviation  = 350,
+         rating_volatility = 0.06;
+
+  UPDATE seasons SET status = 'complete' WHERE id = v_season.id;
+
+  INSERT INTO seasons (number, name, starts_at, ends_at, duration, rewards)
+  VALUES (v_season.number + 1, 'Season ' || (v_season.number + 1),
+          now(), now() + v_season.duration, v_season.duration, v_season.rewards)
+  RETURNING * INTO v_next;
+
+  RETURN v_next;
+END;
+$$;
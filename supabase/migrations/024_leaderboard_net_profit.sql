@@ -0,0 +1,80 @@
+-- =============================================================================
+-- Migration 024: Leaderboard net profit
+-- =============================================================================
+-- get-leaderboard can now sort, filter and page through the whole field
+-- rather than returning the top 50. Most sort keys are existing columns
+-- (wins via rank, rating via rating_rank, balance, win_pct, total_matches);
+-- this adds the last one, net_profit: chips above or below the 1,000 every
+-- agent starts with. Chips escrowed in open challenges and live matches are
+-- not counted until they come back.
+-- =============================================================================
+
+
+-- ── leaderboard: net_profit ─────────────────────────────────────────────────
+CREATE OR REPLACE VIEW leaderboard AS
+  SELECT
+    id,
+    name,
+    balance,
+    wins,
+    losses,
+    draws,
+    wins + losses + draws AS total_matches,
+    CASE
+      WHEN wins + losses + draws = 0 THEN 0
+      ELSE ROUND(wins::NUMERIC / (wins + losses + draws) * 100, 1)
+    END AS win_pct,
+    ROW_NUMBER() OVER (ORDER BY wins DESC, balance DESC) AS rank,
+    ROUND(rating::NUMERIC)           AS rating,
+    ROUND(rating_deviation::NUMERIC) AS rating_deviation,
+    ROW_NUMBER() OVER (ORDER BY rating DESC, rating_deviation ASC) AS rating_rank,
+    balance - 1000 AS net_profit
+  FROM agents
+  ORDER BY rank;
+
+
+-- ── season_leaderboard: net_profit ──────────────────────────────────────────
+-- Season standings carry the balance at the end of the season, so a finished
+-- season's net_profit is as of then.
+CREATE OR REPLACE VIEW season_leaderboard AS
+  SELECT
+    s.number AS season_number,
+    a.id,
+    a.name,
+    a.balance,
+    a.season_wins   AS wins,
+    a.season_losses AS losses,
+    a.season_draws  AS draws,
+    a.season_wins + a.season_losses + a.season_draws AS total_matches,
+    ROUND(a.season_wins::NUMERIC / (a.season_wins + a.season_losses + a.season_draws) * 100, 1) AS win_pct,
+    ROW_NUMBER() OVER (ORDER BY a.season_wins DESC, a.balance DESC) AS rank,
+    ROUND(a.rating::NUMERIC)           AS rating,
+    ROUND(a.rating_deviation::NUMERIC) AS rating_deviation,
+    ROW_NUMBER() OVER (ORDER BY a.rating DESC, a.rating_deviation ASC) AS rating_rank,
+    NULL::INTEGER AS reward,
+    a.balance - 1000 AS net_profit
+  FROM agents a
+  JOIN seasons s ON s.status = 'active'
+  WHERE a.season_wins + a.season_losses + a.season_draws > 0
+
+  UNION ALL
+
+  SELECT
+    s.number,
+    a.id,
+    a.name,
+    st.balance,
+    st.wins,
+    st.losses,
+    st.draws,
+    st.wins + st.losses + st.draws,
+    ROUND(st.wins::NUMERIC / (st.wins + st.losses + st.draws) * 100, 1),
+    st.rank,
+    ROUND(st.rating::NUMERIC),
+    ROUND(st.rating_deviation::NUMERIC),
+    st.rating_rank,
+    st.reward,
+    st.balance - 1000
+  FROM season_standings st
+  JOIN seasons s ON s.id = st.season_id
+  JOIN agents  a ON a.id = st.agent_id;
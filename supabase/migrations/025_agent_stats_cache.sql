@@ -0,0 +1,23 @@
+-- =============================================================================
+-- Migration 025: Agent stats cache
+-- =============================================================================
+-- get-agent-stats computes an agent's move frequencies, conditional
+-- frequencies, entropy, fallback rate, ROI and exploitability from its last
+-- 1,000 rounds in matches (see _shared/agent-stats.ts). That is too much work
+-- to repeat for every request, and the numbers only change when the agent
+-- finishes another round. So the result is stored here with the completion
+-- time of the newest round it covers. The function reuses it until a newer
+-- round exists.
+--
+-- Service role only: RLS is on with no policies, and the Edge Function is the
+-- public way in.
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS agent_stats_cache (
+  agent_id      UUID        PRIMARY KEY REFERENCES agents(id),
+  stats         JSONB       NOT NULL,
+  last_match_at TIMESTAMPTZ,
+  computed_at   TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE agent_stats_cache ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,258 @@
+-- =============================================================================
+-- Migration 026: Fallback moves play the locked-in strategy
+-- =============================================================================
+-- create_match snapshots each agent's strategy into agent1_strategy /
+-- agent2_strategy, but when a deadline passed the cron computed the fallback
+-- move from the agent's live strategy and resolve_match wrote that over the
+-- snapshot. An agent could swap strategies after the strategy phase and have
+-- the new one play for them, and the match no longer showed what was locked
+-- in.
+--
+-- Fallback moves are now computed from the snapshot, which stale_matches
+-- exposes, and resolve_match no longer takes p_agent1_strategy /
+-- p_agent2_strategy: the snapshot columns are never changed after creation.
+-- =============================================================================
+
+
+-- ── stale_matches: the strategy snapshots ───────────────────────────────────
+CREATE OR REPLACE VIEW stale_matches AS
+  SELECT id, status, agent1_id, agent2_id,
+         agent1_move_hash, agent2_move_hash,
+         agent1_move, agent2_move,
+         commit_deadline, reveal_deadline,
+         wager_amount,
+         server_seed,
+         best_of,
+         round,
+         variant,
+         match_type,
+         agent1_strategy,
+         agent2_strategy
+    FROM matches
+   WHERE (status = 'pending'          AND now() > commit_deadline)
+      OR (status = 'waiting_reveals'  AND now() > reveal_deadline);
+
+
+-- ── resolve_match: leave the strategy snapshots alone ───────────────────────
+-- Drop the nine-argument signature; keeping both would make named-argument
+-- calls ambiguous.
+DROP FUNCTION IF EXISTS resolve_match(UUID, TEXT, TEXT, BOOLEAN, BOOLEAN, JSONB, JSONB, JSONB, JSONB);
+
+CREATE OR REPLACE FUNCTION resolve_match(
+  p_match_id         UUID,
+  p_agent1_move      TEXT,
+  p_agent2_move      TEXT,
+  p_agent1_fallback  BOOLEAN,
+  p_agent2_fallback  BOOLEAN,
+  p_agent1_new_state JSONB,
+  p_agent2_new_state JSONB
+)
+RETURNS matches
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_match         matches%ROWTYPE;
+  v_winner_id     UUID;
+  v_loser_id      UUID;
+  v_is_draw       BOOLEAN := false;
+  v_result1       TEXT;
+  v_result2       TEXT;
+  v_wins1         INTEGER;
+  v_wins2         INTEGER;
+  v_needed        INTEGER;
+  v_series_over   BOOLEAN;
+  v_series_winner UUID;
+  v_series_loser  UUID;
+  v_strategy1     JSONB;
+  v_strategy2     JSONB;
+  v_strategy_dl   TIMESTAMPTZ;
+  v_tournament_id UUID;
+BEGIN
+  -- Lock match; must not already be complete
+  SELECT * INTO v_match
+    FROM matches
+   WHERE id = p_match_id
+     AND status != 'complete'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Match % is already complete or does not exist', p_match_id;
+  END IF;
+
+  SELECT tournament_id INTO v_tournament_id FROM challenges WHERE id = v_match.challenge_id;
+
+  IF NOT EXISTS (SELECT 1 FROM game_moves WHERE variant = v_match.variant AND move = p_agent1_move) THEN
+    RAISE EXCEPTION 'Invalid agent1 move for %: %', v_match.variant, p_agent1_move;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM game_moves WHERE variant = v_match.variant AND move = p_agent2_move) THEN
+    RAISE EXCEPTION 'Invalid agent2 move for %: %', v_match.variant, p_agent2_move;
+  END IF;
+
+  -- Write final moves and fallback flags onto the match record. The strategy
+  -- snapshots stay as create_match took them: fallback moves are computed
+  -- from them.
+  UPDATE matches
+     SET agent1_move         = p_agent1_move,
+         agent2_move         = p_agent2_move,
+         agent1_used_fallback = p_agent1_fallback,
+         agent2_used_fallback = p_agent2_fallback
+   WHERE id = p_match_id;
+
+  -- Determine round winner from the variant's rule table
+  IF EXISTS (
+    SELECT 1 FROM game_rules
+     WHERE variant = v_match.variant AND winner = p_agent1_move AND loser = p_agent2_move
+  ) THEN
+    v_winner_id := v_match.agent1_id;
+    v_loser_id  := v_match.agent2_id;
+  ELSIF EXISTS (
+    SELECT 1 FROM game_rules
+     WHERE variant = v_match.variant AND winner = p_agent2_move AND loser = p_agent1_move
+  ) THEN
+    v_winner_id := v_match.agent2_id;
+    v_loser_id  := v_match.agent1_id;
+  ELSE
+    v_is_draw := true;
+  END IF;
+
+  -- Series score including this round
+  SELECT COUNT(*) FILTER (WHERE winner_id = v_match.agent1_id),
+         COUNT(*) FILTER (WHERE winner_id = v_match.agent2_id)
+    INTO v_wins1, v_wins2
+    FROM matches
+   WHERE challenge_id = v_match.challenge_id
+     AND status = 'complete';
+
+  IF v_winner_id = v_match.agent1_id THEN v_wins1 := v_wins1 + 1; END IF;
+  IF v_winner_id = v_match.agent2_id THEN v_wins2 := v_wins2 + 1; END IF;
+
+  v_needed := v_match.best_of / 2 + 1;
+
+  IF v_wins1 >= v_needed THEN
+    v_series_over := true;
+    v_series_winner := v_match.agent1_id;
+  ELSIF v_wins2 >= v_needed THEN
+    v_series_over := true;
+    v_series_winner := v_match.agent2_id;
+  ELSIF v_match.best_of = 1 OR v_match.round >= v_match.best_of * 3 THEN
+    -- A drawn single game, or a series out of rounds: the leader takes it.
+    v_series_over := true;
+    v_series_winner := CASE
+      WHEN v_wins1 > v_wins2 THEN v_match.agent1_id
+      WHEN v_wins2 > v_wins1 THEN v_match.agent2_id
+    END;
+  ELSE
+    v_series_over := false;
+  END IF;
+
+  v_series_loser := CASE v_series_winner
+    WHEN v_match.agent1_id THEN v_match.agent2_id
+    WHEN v_match.agent2_id THEN v_match.agent1_id
+  END;
+
+  -- Transfer chips and update records — once per series. Tournament games
+  -- have no wager: the prize pool is paid out when the tournament finishes.
+  IF v_series_over AND v_tournament_id IS NULL THEN
+    IF v_series_winner IS NULL THEN
+      UPDATE agents SET balance = balance + v_match.wager_amount
+        WHERE id IN (v_match.agent1_id, v_match.agent2_id);
+
+      INSERT INTO transactions (match_id, from_agent_id, to_agent_id, amount, note) VALUES
+        (p_match_id, NULL, v_match.agent1_id, v_match.wager_amount, 'draw — wager returned'),
+        (p_match_id, NULL, v_match.agent2_id, v_match.wager_amount, 'draw — wager returned');
+    ELSE
+      -- Winner receives both escrowed wagers
+      UPDATE agents SET balance = balance + (v_match.wager_amount * 2)
+        WHERE id = v_series_winner;
+
+      INSERT INTO transactions (match_id, from_agent_id, to_agent_id, amount, note)
+        VALUES (p_match_id, v_series_loser, v_series_winner, v_match.wager_amount * 2,
+                CASE WHEN v_match.best_of = 1 THEN 'match winnings' ELSE 'series winnings' END);
+    END IF;
+  END IF;
+
+  IF v_series_over AND v_series_winner IS NULL THEN
+    UPDATE agents SET draws = draws + 1
+      WHERE id IN (v_match.agent1_id, v_match.agent2_id);
+  ELSIF v_series_over THEN
+    UPDATE agents SET wins   = wins   + 1 WHERE id = v_series_winner;
+    UPDATE agents SET losses = losses + 1 WHERE id = v_series_loser;
+  END IF;
+
+  -- Mark round complete
+  UPDATE matches
+     SET status             = 'complete',
+         winner_id          = v_winner_id,
+         completed_at       = now(),
+         agent1_series_wins = v_wins1,
+         agent2_series_wins = v_wins2,
+         series_settled     = v_series_over,
+         series_winner_id   = v_series_winner
+   WHERE id = p_match_id;
+
+  -- Advance strategy states for both agents, recording the round outcome
+  v_result1 := CASE WHEN v_is_draw THEN 'draw'
+                    WHEN v_winner_id = v_match.agent1_id THEN 'win'
+                    ELSE 'loss' END;
+  v_result2 := CASE WHEN v_is_draw THEN 'draw'
+                    WHEN v_winner_id = v_match.agent2_id THEN 'win'
+                    ELSE 'loss' END;
+
+  UPDATE agents
+     SET strategy_state = record_match_outcome(
+           strategy_state, p_agent1_new_state, v_result1, p_agent1_move, p_agent2_move)
+   WHERE id = v_match.agent1_id;
+  UPDATE agents
+     SET strategy_state = record_match_outcome(
+           strategy_state, p_agent2_new_state, v_result2, p_agent2_move, p_agent1_move)
+   WHERE id = v_match.agent2_id;
+
+  -- Next round: same timings as this one, fresh strategy snapshots
+  IF NOT v_series_over THEN
+    PERFORM 1 FROM agents WHERE id IN (v_match.agent1_id, v_match.agent2_id) FOR UPDATE;
+    PERFORM apply_strategy_schedules(v_match.agent1_id);
+    PERFORM apply_strategy_schedules(v_match.agent2_id);
+
+    SELECT strategy INTO v_strategy1 FROM agents WHERE id = v_match.agent1_id;
+    SELECT strategy INTO v_strategy2 FROM agents WHERE id = v_match.agent2_id;
+
+    v_strategy_dl := now() + COALESCE(v_match.strategy_deadline - v_match.created_at,
+                                      INTERVAL '60 seconds');
+
+    INSERT INTO matches (
+      challenge_id, agent1_id, agent2_id, wager_amount,
+      strategy_deadline, commit_deadline,
+      agent1_strategy, agent2_strategy,
+      phase, best_of, round,
+      agent1_series_wins, agent2_series_wins,
+      variant
+    )
+    VALUES (
+      v_match.challenge_id,
+      v_match.agent1_id,
+      v_match.agent2_id,
+      v_match.wager_amount,
+      v_strategy_dl,
+      v_strategy_dl + COALESCE(v_match.commit_deadline - v_match.strategy_deadline,
+                               INTERVAL '60 seconds'),
+      v_strategy1,
+      v_strategy2,
+      'strategy',
+      v_match.best_of,
+      v_match.round + 1,
+      v_wins1,
+      v_wins2,
+      v_match.variant
+    );
+  END IF;
+
+  -- Score the pairing; may start the next tournament round or pay out
+  IF v_series_over AND v_tournament_id IS NOT NULL THEN
+    PERFORM record_tournament_result(p_match_id);
+  END IF;
+
+  SELECT * INTO v_match FROM matches WHERE id = p_match_id;
+  RETURN v_match;
+END;
+$$;
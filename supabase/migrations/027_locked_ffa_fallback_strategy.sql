@@ -0,0 +1,140 @@
+-- =============================================================================
+-- Migration 027: Free-for-all fallbacks play the locked-in strategy
+-- =============================================================================
+-- Like 026 for 1v1 matches: start_ffa_match snapshots each participant's
+-- strategy into match_participants.strategy, but a fallback move was computed
+-- from the agent's live strategy and resolve_ffa_match wrote that over the
+-- snapshot.
+--
+-- The Edge Functions now compute fallback moves from the snapshot, and
+-- p_results entries no longer carry a strategy: the snapshot is never changed
+-- after the match starts.
+-- =============================================================================
+
+
+-- ── resolve_ffa_match: leave the strategy snapshots alone ───────────────────
+-- p_results has an entry per participant, keyed by agent id:
+--
+--   { "<agent_id>": { "move": "rock", "fallback": false, "state": {...} } }
+--
+-- move is only used for participants who have not revealed; state (the new
+-- strategy_state) is optional.
+CREATE OR REPLACE FUNCTION resolve_ffa_match(
+  p_match_id UUID,
+  p_results  JSONB
+)
+RETURNS matches
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_match   matches%ROWTYPE;
+  v_players INTEGER;
+  v_best    INTEGER;
+  v_winners INTEGER;
+  v_first   INTEGER;
+  v_draw    BOOLEAN;
+  v_pot     INTEGER;
+  v_share   INTEGER;
+BEGIN
+  SELECT * INTO v_match
+    FROM matches
+   WHERE id = p_match_id
+     AND match_type = 'ffa'
+     AND status != 'complete'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Free-for-all match % is already complete or does not exist', p_match_id;
+  END IF;
+
+  -- Final moves and fallback flags. The strategy snapshots stay as
+  -- start_ffa_match took them: fallback moves are computed from them.
+  UPDATE match_participants p
+     SET move          = COALESCE(p.move, r.value->>'move'),
+         used_fallback = COALESCE((r.value->>'fallback')::BOOLEAN, false)
+    FROM jsonb_each(p_results) r
+   WHERE p.match_id = p_match_id
+     AND p.agent_id = r.key::UUID;
+
+  IF EXISTS (
+    SELECT 1 FROM match_participants p
+     WHERE p.match_id = p_match_id
+       AND NOT EXISTS (
+         SELECT 1 FROM game_moves g WHERE g.variant = v_match.variant AND g.move = p.move
+       )
+  ) THEN
+    RAISE EXCEPTION 'Every participant in match % needs a valid % move', p_match_id, v_match.variant;
+  END IF;
+
+  SELECT COUNT(*) INTO v_players FROM match_participants WHERE match_id = p_match_id;
+
+  -- Every pair of participants is one game under the variant's rules
+  UPDATE match_participants p
+     SET wins   = s.wins,
+         losses = s.losses,
+         draws  = v_players - 1 - s.wins - s.losses
+    FROM (
+      SELECT a.agent_id,
+             COUNT(w.winner) AS wins,
+             COUNT(l.winner) AS losses
+        FROM match_participants a
+        JOIN match_participants b
+          ON b.match_id = a.match_id AND b.agent_id <> a.agent_id
+        LEFT JOIN game_rules w
+          ON w.variant = v_match.variant AND w.winner = a.move AND w.loser = b.move
+        LEFT JOIN game_rules l
+          ON l.variant = v_match.variant AND l.winner = b.move AND l.loser = a.move
+       WHERE a.match_id = p_match_id
+       GROUP BY a.agent_id
+    ) s
+   WHERE p.match_id = p_match_id
+     AND p.agent_id = s.agent_id;
+
+  -- The best net record shares the pot; the earliest seat among them takes
+  -- any remainder chip.
+  SELECT MAX(score) INTO v_best FROM match_participants WHERE match_id = p_match_id;
+
+  SELECT COUNT(*), MIN(seat) INTO v_winners, v_first
+    FROM match_participants
+   WHERE match_id = p_match_id AND score = v_best;
+
+  v_draw  := v_winners = v_players;
+  v_pot   := v_match.wager_amount * v_players;
+  v_share := v_pot / v_winners;
+
+  UPDATE match_participants
+     SET payout = v_share + CASE WHEN seat = v_first THEN v_pot - v_share * v_winners ELSE 0 END
+   WHERE match_id = p_match_id AND score = v_best;
+
+  UPDATE agents a
+     SET balance        = a.balance + p.payout,
+         wins           = a.wins   + CASE WHEN NOT v_draw AND p.score = v_best THEN 1 ELSE 0 END,
+         losses         = a.losses + CASE WHEN NOT v_draw AND p.score < v_best THEN 1 ELSE 0 END,
+         draws          = a.draws  + CASE WHEN v_draw THEN 1 ELSE 0 END,
+         strategy_state = COALESCE(p_results->(a.id::TEXT)->'state', a.strategy_state)
+    FROM match_participants p
+   WHERE p.match_id = p_match_id
+     AND a.id = p.agent_id;
+
+  INSERT INTO transactions (match_id, from_agent_id, to_agent_id, amount, note)
+  SELECT p_match_id, NULL, agent_id, payout,
+         CASE WHEN v_draw        THEN 'free-for-all draw — wager returned'
+              WHEN v_winners = 1 THEN 'free-for-all winnings'
+              ELSE 'free-for-all winnings — pot split ' || v_winners || ' ways' END
+    FROM match_participants
+   WHERE match_id = p_match_id AND payout > 0;
+
+  UPDATE matches
+     SET status         = 'complete',
+         completed_at   = now(),
+         series_settled = true,
+         winner_id      = CASE WHEN v_winners = 1 THEN (
+                            SELECT agent_id FROM match_participants
+                             WHERE match_id = p_match_id AND score = v_best
+                          ) END
+   WHERE id = p_match_id;
+
+  SELECT * INTO v_match FROM matches WHERE id = p_match_id;
+  RETURN v_match;
+END;
+$$;
@@ -0,0 +1,54 @@
+-- =============================================================================
+-- Migration 028: Strategy version records follow match creation
+-- =============================================================================
+-- strategy_version_performance counted a match towards a version only if it
+-- completed inside the version's window and the agent's strategy snapshot
+-- equalled the version. The snapshot is taken when the match is created, so a
+-- match started under version N that finished after the switch to N+1 matched
+-- neither: wrong snapshot for N+1, outside N's window. It dropped out of every
+-- version's record.
+--
+-- The window is now keyed on matches.created_at, when the snapshot is taken.
+-- The snapshot check stays, so a version reverted to an identical strategy
+-- later still only counts the matches played while it was active.
+-- =============================================================================
+
+
+-- ── strategy_version_performance: window on created_at ──────────────────────
+-- Chips only move on the round that settles a series, so net_chips follows
+-- series_winner_id there; wins / losses / draws stay per round.
+CREATE OR REPLACE VIEW strategy_version_performance
+  WITH (security_invoker = true)
+AS
+  WITH spans AS (
+    SELECT v.*,
+           LEAD(v.created_at) OVER (PARTITION BY v.agent_id ORDER BY v.version)
+             AS superseded_at
+      FROM strategy_versions v
+  )
+  SELECT
+    s.agent_id,
+    s.version,
+    s.strategy,
+    s.created_at,
+    s.superseded_at,
+    COUNT(m.id)                                                       AS matches,
+    COUNT(m.id) FILTER (WHERE m.winner_id = s.agent_id)               AS wins,
+    COUNT(m.id) FILTER (WHERE m.winner_id <> s.agent_id)              AS losses,
+    COUNT(m.id) FILTER (WHERE m.winner_id IS NULL)                    AS draws,
+    COALESCE(SUM(CASE
+      WHEN NOT m.series_settled               THEN 0
+      WHEN m.series_winner_id = s.agent_id    THEN  m.wager_amount
+      WHEN m.series_winner_id <> s.agent_id   THEN -m.wager_amount
+      ELSE 0
+    END), 0)                                                          AS net_chips
+  FROM spans s
+  LEFT JOIN matches m
+    ON m.status = 'complete'
+   AND m.created_at >= s.created_at
+   AND (s.superseded_at IS NULL OR m.created_at < s.superseded_at)
+   AND (
+         (m.agent1_id = s.agent_id AND m.agent1_strategy = s.strategy)
+      OR (m.agent2_id = s.agent_id AND m.agent2_strategy = s.strategy)
+   )
+  GROUP BY s.agent_id, s.version, s.strategy, s.created_at, s.superseded_at;
@@ -0,0 +1,138 @@
+-- =============================================================================
+-- Migration 029: Standard single-elimination seeding
+-- =============================================================================
+-- start_tournament filled first-round slot i with seed i against seed
+-- size + 1 - i, and the next round pairs the winners of neighbouring slots.
+-- So with 8 entrants the semifinals were 1 v 2 and 3 v 4, and with 5 the top
+-- two seeds still met in the semifinal.
+--
+-- First-round slots now follow the standard bracket order (1,8,4,5,2,7,3,6
+-- for 8), so seeds 1 and 2 are in opposite halves and can only meet in the
+-- final, 1 to 4 in different quarters, and so on. Round robin and Swiss are
+-- unchanged.
+-- =============================================================================
+
+
+-- ── start_tournament: standard bracket order ────────────────────────────────
+-- Seeds the field by win percentage (join order breaks ties), generates the
+-- schedule and plays round 1. Fewer than two entrants cancels instead.
+-- A Swiss tournament is only flagged for pairing; the cron pairs round 1.
+CREATE OR REPLACE FUNCTION start_tournament(p_tournament_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_tournament tournaments%ROWTYPE;
+  v_players    UUID[];
+  v_n          INTEGER;
+  v_size       INTEGER;
+  v_order      INTEGER[];
+  v_seed       INTEGER;
+  v_next       INTEGER[];
+  v_a          UUID;
+  v_b          UUID;
+BEGIN
+  SELECT * INTO v_tournament
+    FROM tournaments
+   WHERE id = p_tournament_id AND status = 'registration'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  WITH seeded AS (
+    SELECT e.agent_id,
+           ROW_NUMBER() OVER (
+             ORDER BY CASE WHEN a.wins + a.losses + a.draws = 0 THEN 0
+                           ELSE a.wins::NUMERIC / (a.wins + a.losses + a.draws) END DESC,
+                      e.joined_at
+           ) AS seed
+      FROM tournament_entries e
+      JOIN agents a ON a.id = e.agent_id
+     WHERE e.tournament_id = p_tournament_id
+  )
+  UPDATE tournament_entries e
+     SET seed = s.seed
+    FROM seeded s
+   WHERE e.tournament_id = p_tournament_id
+     AND e.agent_id = s.agent_id;
+
+  SELECT array_agg(agent_id ORDER BY seed) INTO v_players
+    FROM tournament_entries
+   WHERE tournament_id = p_tournament_id;
+
+  v_n := COALESCE(cardinality(v_players), 0);
+
+  IF v_n < 2 THEN
+    PERFORM cancel_tournament(p_tournament_id);
+    RETURN;
+  END IF;
+
+  IF v_tournament.format = 'swiss' THEN
+    UPDATE tournaments
+       SET status       = 'in_progress',
+           started_at   = now(),
+           pairing_due  = true,
+           swiss_rounds = LEAST(
+             COALESCE(swiss_rounds, CEIL(LOG(2, v_n::NUMERIC))::INTEGER),
+             v_n - 1
+           )
+     WHERE id = p_tournament_id;
+    RETURN;
+  END IF;
+
+  IF v_tournament.format = 'round_robin' THEN
+    -- Circle method: fix the first player, rotate the rest. A NULL seat is
+    -- the bye for an odd field.
+    IF v_n % 2 = 1 THEN
+      v_players := v_players || NULL::UUID;
+      v_n := v_n + 1;
+    END IF;
+
+    FOR r IN 1 .. v_n - 1 LOOP
+      FOR i IN 1 .. v_n / 2 LOOP
+        v_a := v_players[i];
+        v_b := v_players[v_n + 1 - i];
+        IF v_a IS NULL THEN
+          v_a := v_b;
+          v_b := NULL;
+        END IF;
+
+        INSERT INTO tournament_pairings (tournament_id, round, slot, agent1_id, agent2_id)
+        VALUES (p_tournament_id, r, i, v_a, v_b);
+      END LOOP;
+
+      v_players := v_players[1:1] || v_players[v_n:v_n] || v_players[2:v_n - 1];
+    END LOOP;
+  ELSE
+    -- Bracket of the next power of two in standard seed order, built by
+    -- doubling: every seed s of a bracket of size k is followed by its
+    -- first-round opponent 2k + 1 - s. For 8 that is 1,8,4,5,2,7,3,6, so the
+    -- top two seeds can only meet in the final. Seeds past the field are
+    -- byes, which therefore go to the top seeds.
+    v_order := ARRAY[1];
+    WHILE cardinality(v_order) < v_n LOOP
+      v_next := '{}';
+      FOREACH v_seed IN ARRAY v_order LOOP
+        v_next := v_next || v_seed || (2 * cardinality(v_order) + 1 - v_seed);
+      END LOOP;
+      v_order := v_next;
+    END LOOP;
+    v_size := cardinality(v_order);
+
+    FOR i IN 1 .. v_size / 2 LOOP
+      INSERT INTO tournament_pairings (tournament_id, round, slot, agent1_id, agent2_id)
+      VALUES (p_tournament_id, 1, i, v_players[v_order[2 * i - 1]], v_players[v_order[2 * i]]);
+    END LOOP;
+  END IF;
+
+  UPDATE tournaments
+     SET status        = 'in_progress',
+         current_round = 1,
+         started_at    = now()
+   WHERE id = p_tournament_id;
+
+  PERFORM start_tournament_round(p_tournament_id, 1);
+END;
+$$;
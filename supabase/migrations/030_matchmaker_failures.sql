@@ -0,0 +1,125 @@
+-- =============================================================================
+-- Migration 030: Matchmaker failures are reported, not retried forever
+-- =============================================================================
+-- run_matchmaker swallowed every error from a pairing attempt and left both
+-- agents waiting, so a pair create_match refused was picked again on every
+-- run until the entries expired, and real bugs vanished without a trace.
+--
+-- Only the errors create_match raises on purpose (RAISE EXCEPTION: a balance,
+-- challenge or acceptance check) are caught now. Each is logged with RAISE
+-- WARNING, and both queue entries record the other agent in failed_partners
+-- and the message in last_error (shown by queue-status), so that pair is not
+-- tried again. Anything else aborts the run.
+-- =============================================================================
+
+ALTER TABLE matchmaking_queue
+  ADD COLUMN IF NOT EXISTS failed_partners UUID[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS last_error      TEXT;
+
+
+-- ── run_matchmaker: catch only create_match's checks ────────────────────────
+-- Pairs as many waiting agents as it can and returns the matches created.
+-- A pairing create_match refuses is rolled back on its own; both agents stay
+-- queued, but not for each other.
+CREATE OR REPLACE FUNCTION run_matchmaker()
+RETURNS TABLE (
+  match_id     UUID,
+  agent1_id    UUID,
+  agent2_id    UUID,
+  wager_amount INTEGER
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_entry        matchmaking_queue%ROWTYPE;
+  v_partner      matchmaking_queue%ROWTYPE;
+  v_wager        INTEGER;
+  v_challenge_id UUID;
+  v_match        matches%ROWTYPE;
+BEGIN
+  UPDATE matchmaking_queue q
+     SET status = 'expired'
+   WHERE q.status = 'waiting'
+     AND q.expires_at <= now();
+
+  FOR v_entry IN
+    SELECT * FROM matchmaking_queue q
+     WHERE q.status = 'waiting'
+     ORDER BY q.joined_at
+     FOR UPDATE SKIP LOCKED
+  LOOP
+    -- Already taken as someone's partner earlier in this run
+    CONTINUE WHEN (SELECT q.status FROM matchmaking_queue q WHERE q.agent_id = v_entry.agent_id)
+                  <> 'waiting';
+
+    SELECT q.* INTO v_partner
+      FROM matchmaking_queue q
+      JOIN agents me   ON me.id   = v_entry.agent_id
+      JOIN agents them ON them.id = q.agent_id
+     WHERE q.status = 'waiting'
+       AND q.agent_id <> v_entry.agent_id
+       AND q.agent_id <> ALL (v_entry.failed_partners)
+       AND v_entry.agent_id <> ALL (q.failed_partners)
+       AND LEAST(v_entry.max_wager, q.max_wager, me.balance, them.balance)
+             >= GREATEST(v_entry.min_wager, q.min_wager)
+     ORDER BY abs(
+                CASE WHEN me.wins + me.losses + me.draws = 0 THEN 0
+                     ELSE me.wins::NUMERIC / (me.wins + me.losses + me.draws) END
+              - CASE WHEN them.wins + them.losses + them.draws = 0 THEN 0
+                     ELSE them.wins::NUMERIC / (them.wins + them.losses + them.draws) END),
+              q.joined_at
+     LIMIT 1
+     FOR UPDATE OF q SKIP LOCKED;
+
+    CONTINUE WHEN NOT FOUND;
+
+    SELECT LEAST(v_entry.max_wager, v_partner.max_wager, MIN(a.balance))
+      INTO v_wager
+      FROM agents a
+     WHERE a.id IN (v_entry.agent_id, v_partner.agent_id);
+
+    BEGIN
+      IF NOT escrow_wager(v_entry.agent_id, v_wager) THEN
+        CONTINUE;
+      END IF;
+
+      INSERT INTO challenges (challenger_id, wager_amount, target_agent_id)
+      VALUES (v_entry.agent_id, v_wager, v_partner.agent_id)
+      RETURNING id INTO v_challenge_id;
+
+      v_match := create_match(
+        v_challenge_id,
+        v_partner.agent_id,
+        GREATEST(v_entry.strategy_seconds, v_partner.strategy_seconds),
+        GREATEST(v_entry.commit_seconds,   v_partner.commit_seconds)
+      );
+    EXCEPTION WHEN raise_exception THEN
+      -- One of create_match's checks refused the pairing. Everything since
+      -- BEGIN is rolled back; record it so the pair is not tried again.
+      RAISE WARNING 'run_matchmaker: pairing % with % failed: %',
+        v_entry.agent_id, v_partner.agent_id, SQLERRM;
+
+      UPDATE matchmaking_queue q
+         SET failed_partners = q.failed_partners
+                               || CASE WHEN q.agent_id = v_entry.agent_id
+                                       THEN v_partner.agent_id
+                                       ELSE v_entry.agent_id END,
+             last_error      = SQLERRM
+       WHERE q.agent_id IN (v_entry.agent_id, v_partner.agent_id);
+      CONTINUE;
+    END;
+
+    UPDATE matchmaking_queue q
+       SET status     = 'matched',
+           match_id   = v_match.id,
+           matched_at = now()
+     WHERE q.agent_id IN (v_entry.agent_id, v_partner.agent_id);
+
+    match_id     := v_match.id;
+    agent1_id    := v_match.agent1_id;
+    agent2_id    := v_match.agent2_id;
+    wager_amount := v_match.wager_amount;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,52 @@
+-- =============================================================================
+-- Migration 031: Head-to-head totals in SQL
+-- =============================================================================
+-- get-head-to-head fetched every match between two agents from match_feed and
+-- added them up in the Edge Function. PostgREST caps a response at max-rows
+-- (1,000), so a long rivalry was silently cut short and its totals were only
+-- partial.
+--
+-- head_to_head adds them up in the database instead: one row per agent and
+-- opponent they have played, from the agent's side. The Edge Function reads
+-- the pair's two rows for the totals and pages through the match list.
+-- =============================================================================
+
+
+-- ── head_to_head ─────────────────────────────────────────────────────────────
+-- Wins, moves and fallbacks count rounds; net_chips counts settled matches and
+-- series, since a series' wager moves once.
+CREATE OR REPLACE VIEW head_to_head AS
+  WITH sides AS (
+    SELECT agent1_id AS agent_id, agent1_name AS agent_name,
+           agent2_id AS opponent_id, agent2_name AS opponent_name,
+           agent1_move AS move, agent1_used_fallback AS used_fallback,
+           winner_id, wager_amount, series_settled, series_winner_name
+      FROM match_feed
+    UNION ALL
+    SELECT agent2_id, agent2_name,
+           agent1_id, agent1_name,
+           agent2_move, agent2_used_fallback,
+           winner_id, wager_amount, series_settled, series_winner_name
+      FROM match_feed
+  )
+  SELECT
+    agent_id,
+    opponent_id,
+    COUNT(*)                                              AS matches,
+    COUNT(*) FILTER (WHERE winner_id = agent_id)          AS wins,
+    COUNT(*) FILTER (WHERE winner_id = opponent_id)       AS losses,
+    COUNT(*) FILTER (WHERE winner_id IS NULL)             AS draws,
+    COALESCE(SUM(CASE
+      WHEN NOT series_settled                  THEN 0
+      WHEN series_winner_name = agent_name     THEN  wager_amount
+      WHEN series_winner_name = opponent_name  THEN -wager_amount
+      ELSE 0
+    END), 0)                                              AS net_chips,
+    COUNT(*) FILTER (WHERE used_fallback)                 AS fallbacks,
+    COUNT(*) FILTER (WHERE move = 'rock')                 AS rock,
+    COUNT(*) FILTER (WHERE move = 'paper')                AS paper,
+    COUNT(*) FILTER (WHERE move = 'scissors')             AS scissors,
+    COUNT(*) FILTER (WHERE move = 'lizard')               AS lizard,
+    COUNT(*) FILTER (WHERE move = 'spock')                AS spock
+  FROM sides
+  GROUP BY agent_id, opponent_id;
@@ -0,0 +1,128 @@
+-- =============================================================================
+-- Migration 032: Season ranks break ties on the season
+-- =============================================================================
+-- A season's rank ordered agents by season wins, then lifetime balance — both
+-- in season_leaderboard and in the standings roll_over_season archives — so
+-- ties went to whoever had been around longest, which seasons exist to undo.
+-- Ties on season wins now go to fewer season losses, then the higher rating
+-- (itself reset every season).
+-- =============================================================================
+
+
+-- ── season_leaderboard: season tie-breaks ───────────────────────────────────
+-- Finished seasons keep the rank they were archived with.
+CREATE OR REPLACE VIEW season_leaderboard AS
+  SELECT
+    s.number AS season_number,
+    a.id,
+    a.name,
+    a.balance,
+    a.season_wins   AS wins,
+    a.season_losses AS losses,
+    a.season_draws  AS draws,
+    a.season_wins + a.season_losses + a.season_draws AS total_matches,
+    ROUND(a.season_wins::NUMERIC / (a.season_wins + a.season_losses + a.season_draws) * 100, 1) AS win_pct,
+    ROW_NUMBER() OVER (ORDER BY a.season_wins DESC, a.season_losses ASC, a.rating DESC) AS rank,
+    ROUND(a.rating::NUMERIC)           AS rating,
+    ROUND(a.rating_deviation::NUMERIC) AS rating_deviation,
+    ROW_NUMBER() OVER (ORDER BY a.rating DESC, a.rating_deviation ASC) AS rating_rank,
+    NULL::INTEGER AS reward,
+    a.balance - 1000 AS net_profit
+  FROM agents a
+  JOIN seasons s ON s.status = 'active'
+  WHERE a.season_wins + a.season_losses + a.season_draws > 0
+
+  UNION ALL
+
+  SELECT
+    s.number,
+    a.id,
+    a.name,
+    st.balance,
+    st.wins,
+    st.losses,
+    st.draws,
+    st.wins + st.losses + st.draws,
+    ROUND(st.wins::NUMERIC / (st.wins + st.losses + st.draws) * 100, 1),
+    st.rank,
+    ROUND(st.rating::NUMERIC),
+    ROUND(st.rating_deviation::NUMERIC),
+    st.rating_rank,
+    st.reward,
+    st.balance - 1000
+  FROM season_standings st
+  JOIN seasons s ON s.id = st.season_id
+  JOIN agents  a ON a.id = st.agent_id;
+
+
+-- ── roll_over_season: season tie-breaks ─────────────────────────────────────
+-- Ends the active season if its time is up and opens the next one. Returns
+-- the new season, or NULL if the current one is still running.
+CREATE OR REPLACE FUNCTION roll_over_season()
+RETURNS seasons
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_season seasons%ROWTYPE;
+  v_next   seasons%ROWTYPE;
+  v_entry  season_standings%ROWTYPE;
+BEGIN
+  SELECT * INTO v_season
+    FROM seasons
+   WHERE status = 'active'
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_season.ends_at > now() THEN
+    RETURN NULL;
+  END IF;
+
+  -- Hold every agent's record still while the standings are taken
+  PERFORM 1 FROM agents ORDER BY id FOR UPDATE;
+
+  INSERT INTO season_standings (
+    season_id, agent_id, rank, rating_rank, wins, losses, draws,
+    balance, rating, rating_deviation, reward
+  )
+  SELECT v_season.id, id,
+         ROW_NUMBER() OVER (ORDER BY season_wins DESC, season_losses ASC, rating DESC),
+         ROW_NUMBER() OVER (ORDER BY rating DESC, rating_deviation ASC),
+         season_wins, season_losses, season_draws,
+         balance, rating, rating_deviation, 0
+    FROM agents
+   WHERE season_wins + season_losses + season_draws > 0;
+
+  -- End-of-season rewards by final rank
+  UPDATE season_standings
+     SET reward = v_season.rewards[rank]
+   WHERE season_id = v_season.id
+     AND rank <= cardinality(v_season.rewards);
+
+  FOR v_entry IN
+    SELECT * FROM season_standings
+     WHERE season_id = v_season.id AND reward > 0
+  LOOP
+    UPDATE agents SET balance = balance + v_entry.reward WHERE id = v_entry.agent_id;
+
+    INSERT INTO transactions (match_id, from_agent_id, to_agent_id, amount, note)
+    VALUES (NULL, NULL, v_entry.agent_id, v_entry.reward,
+            'season reward — ' || v_season.name || ' (#' || v_entry.rank || ')');
+  END LOOP;
+
+  UPDATE agents
+     SET season_wins       = 0,
+         season_losses     = 0,
+         season_draws      = 0,
+         rating            = 1500,
+         rating_deviation  = 350,
+         rating_volatility = 0.06;
+
+  UPDATE seasons SET status = 'complete' WHERE id = v_season.id;
+
+  INSERT INTO seasons (number, name, starts_at, ends_at, duration, rewards)
+  VALUES (v_season.number + 1, 'Season ' || (v_season.number + 1),
+          now(), now() + v_season.duration, v_season.duration, v_season.rewards)
+  RETURNING * INTO v_next;
+
+  RETURN v_next;
+END;
+$$;
@@ -0,0 +1,185 @@
+-- =============================================================================
+-- Migration 033: Season net profit
+-- =============================================================================
+-- season_leaderboard's net_profit was balance - 1000 for the live season and
+-- the archived balance - 1000 for finished ones: lifetime profit either way,
+-- so sorting a season by net_profit put the oldest agents on top again.
+--
+-- Each agent now carries season_start_balance, its balance when the season
+-- opened (1000 for agents registered during it). roll_over_season archives it
+-- into season_standings.start_balance before resetting it to the balance the
+-- agent takes into the next season, after any season reward. A season's
+-- net_profit is balance - start balance.
+--
+-- Backfill: an agent starts a season with the balance (plus reward) archived
+-- for it the season before, or 1000 in Season 1, which began with the first
+-- agent, and in any season it registered during. Otherwise the start was
+-- never recorded, and it is taken as the balance at the time (the season's
+-- end, or now for the live season), counting from zero.
+-- =============================================================================
+
+ALTER TABLE agents
+  ADD COLUMN IF NOT EXISTS season_start_balance INTEGER NOT NULL DEFAULT 1000;
+
+ALTER TABLE season_standings
+  ADD COLUMN IF NOT EXISTS start_balance INTEGER;
+
+GRANT SELECT (season_start_balance) ON agents TO anon;
+
+-- An agent's balance going into season s: what it took out of the season
+-- before (with reward), 1000 if it arrived during s or s is Season 1, and
+-- otherwise p_fallback.
+CREATE OR REPLACE FUNCTION season_start_balance_backfill(
+  p_season_id UUID,
+  p_agent_id  UUID,
+  p_fallback  INTEGER
+)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(
+    (SELECT prev.balance + prev.reward
+       FROM season_standings prev
+       JOIN seasons ps ON ps.id = prev.season_id
+      WHERE ps.number = s.number - 1
+        AND prev.agent_id = p_agent_id),
+    CASE WHEN s.number = 1 OR a.created_at >= s.starts_at THEN 1000 ELSE p_fallback END
+  )
+    FROM seasons s, agents a
+   WHERE s.id = p_season_id
+     AND a.id = p_agent_id;
+$$;
+
+UPDATE season_standings
+   SET start_balance = season_start_balance_backfill(season_id, agent_id, balance)
+ WHERE start_balance IS NULL;
+
+ALTER TABLE season_standings
+  ALTER COLUMN start_balance SET NOT NULL;
+
+UPDATE agents a
+   SET season_start_balance = season_start_balance_backfill(s.id, a.id, a.balance)
+  FROM seasons s
+ WHERE s.status = 'active';
+
+DROP FUNCTION season_start_balance_backfill(UUID, UUID, INTEGER);
+
+
+-- ── season_leaderboard: net_profit within the season ────────────────────────
+CREATE OR REPLACE VIEW season_leaderboard AS
+  SELECT
+    s.number AS season_number,
+    a.id,
+    a.name,
+    a.balance,
+    a.season_wins   AS wins,
+    a.season_losses AS losses,
+    a.season_draws  AS draws,
+    a.season_wins + a.season_losses + a.season_draws AS total_matches,
+    ROUND(a.season_wins::NUMERIC / (a.season_wins + a.season_losses + a.season_draws) * 100, 1) AS win_pct,
+    ROW_NUMBER() OVER (ORDER BY a.season_wins DESC, a.season_losses ASC, a.rating DESC) AS rank,
+    ROUND(a.rating::NUMERIC)           AS rating,
+    ROUND(a.rating_deviation::NUMERIC) AS rating_deviation,
+    ROW_NUMBER() OVER (ORDER BY a.rating DESC, a.rating_deviation ASC) AS rating_rank,
+    NULL::INTEGER AS reward,
+    a.balance - a.season_start_balance AS net_profit
+  FROM agents a
+  JOIN seasons s ON s.status = 'active'
+  WHERE a.season_wins + a.season_losses + a.season_draws > 0
+
+  UNION ALL
+
+  SELECT
+    s.number,
+    a.id,
+    a.name,
+    st.balance,
+    st.wins,
+    st.losses,
+    st.draws,
+    st.wins + st.losses + st.draws,
+    ROUND(st.wins::NUMERIC / (st.wins + st.losses + st.draws) * 100, 1),
+    st.rank,
+    ROUND(st.rating::NUMERIC),
+    ROUND(st.rating_deviation::NUMERIC),
+    st.rating_rank,
+    st.reward,
+    st.balance - st.start_balance
+  FROM season_standings st
+  JOIN seasons s ON s.id = st.season_id
+  JOIN agents  a ON a.id = st.agent_id;
+
+
+-- ── roll_over_season: archive and reset the season start balance ────────────
+-- Ends the active season if its time is up and opens the next one. Returns
+-- the new season, or NULL if the current one is still running.
+CREATE OR REPLACE FUNCTION roll_over_season()
+RETURNS seasons
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_season seasons%ROWTYPE;
+  v_next   seasons%ROWTYPE;
+  v_entry  season_standings%ROWTYPE;
+BEGIN
+  SELECT * INTO v_season
+    FROM seasons
+   WHERE status = 'active'
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_season.ends_at > now() THEN
+    RETURN NULL;
+  END IF;
+
+  -- Hold every agent's record still while the standings are taken
+  PERFORM 1 FROM agents ORDER BY id FOR UPDATE;
+
+  INSERT INTO season_standings (
+    season_id, agent_id, rank, rating_rank, wins, losses, draws,
+    balance, start_balance, rating, rating_deviation, reward
+  )
+  SELECT v_season.id, id,
+         ROW_NUMBER() OVER (ORDER BY season_wins DESC, season_losses ASC, rating DESC),
+         ROW_NUMBER() OVER (ORDER BY rating DESC, rating_deviation ASC),
+         season_wins, season_losses, season_draws,
+         balance, season_start_balance, rating, rating_deviation, 0
+    FROM agents
+   WHERE season_wins + season_losses + season_draws > 0;
+
+  -- End-of-season rewards by final rank
+  UPDATE season_standings
+     SET reward = v_season.rewards[rank]
+   WHERE season_id = v_season.id
+     AND rank <= cardinality(v_season.rewards);
+
+  FOR v_entry IN
+    SELECT * FROM season_standings
+     WHERE season_id = v_season.id AND reward > 0
+  LOOP
+    UPDATE agents SET balance = balance + v_entry.reward WHERE id = v_entry.agent_id;
+
+    INSERT INTO transactions (match_id, from_agent_id, to_agent_id, amount, note)
+    VALUES (NULL, NULL, v_entry.agent_id, v_entry.reward,
+            'season reward — ' || v_season.name || ' (#' || v_entry.rank || ')');
+  END LOOP;
+
+  UPDATE agents
+     SET season_wins          = 0,
+         season_losses        = 0,
+         season_draws         = 0,
+         season_start_balance = balance,
+         rating               = 1500,
+         rating_deviation     = 350,
+         rating_volatility    = 0.06;
+
+  UPDATE seasons SET status = 'complete' WHERE id = v_season.id;
+
+  INSERT INTO seasons (number, name, starts_at, ends_at, duration, rewards)
+  VALUES (v_season.number + 1, 'Season ' || (v_season.number + 1),
+          now(), now() + v_season.duration, v_season.duration, v_season.rewards)
+  RETURNING * INTO v_next;
+
+  RETURN v_next;
+END;
+$$;